@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import { addCommand } from "../src/commands/add.js";
+import { CONFIG_FILE } from "../src/utils/config.js";
+import { LOCK_FILE, hashContent, type Lockfile } from "../src/utils/lockfile.js";
+import type { Plan } from "../src/utils/plan.js";
+import { SNAPSHOT_DIR } from "../src/utils/snapshots.js";
+import {
+  capture,
+  createProject,
+  createReactProject,
+  exists,
+  readFile,
+  readJson,
+  reactConfig,
+  registryEntry,
+  registryFiles,
+  writeFiles,
+  REACT_PACKAGE,
+} from "./fixtures.js";
+
+const UI = "src/components/oxitron-ui";
+const ACME = { registries: [{ name: "@acme", source: "registry" }] };
+const WITHOUT_REACT_DOM = { "package.json": { ...REACT_PACKAGE, dependencies: { react: "^18.3.1" } } };
+
+async function plan(cwd: string, components: string[]): Promise<Plan> {
+  const { stdout } = await capture(() => addCommand({ cwd, components, json: true }));
+  return JSON.parse(stdout) as Plan;
+}
+
+describe("add --dry-run", () => {
+  it("prints the JSON plan without touching the disk", async () => {
+    const cwd = createReactProject(WITHOUT_REACT_DOM);
+
+    expect(await plan(cwd, ["dialog"])).toEqual({
+      command: "add",
+      components: [{ id: "dialog", version: "1.0.0", dependency: false }],
+      files: [
+        { path: `${UI}/utils/cn.ts`, kind: "utility", action: "create" },
+        { path: `${UI}/utils/overlay.ts`, kind: "utility", action: "create" },
+        { path: `${UI}/primitives/dialog.tsx`, kind: "component", action: "create" },
+        { path: `${UI}/index.ts`, kind: "barrel", action: "create" },
+        { path: LOCK_FILE, kind: "lockfile", action: "create" },
+      ],
+      barrelExports: [
+        `export { Dialog } from "./primitives/dialog";`,
+        `export type { DialogProps } from "./primitives/dialog";`,
+      ],
+      packages: ["react-dom"],
+      warnings: [],
+    });
+    expect(exists(cwd, UI)).toBe(false);
+    expect(exists(cwd, LOCK_FILE)).toBe(false);
+  });
+
+  it("marks components pulled in as dependencies", async () => {
+    const cwd = createReactProject(
+      registryFiles("registry", [registryEntry("data-table", { dependencies: ["button"] })]),
+      ACME
+    );
+    expect((await plan(cwd, ["@acme/data-table"])).components).toEqual([
+      { id: "button", version: "1.0.0", dependency: true },
+      { id: "@acme/data-table", version: "1.0.0", dependency: false },
+    ]);
+  });
+
+  it("plans skips for files that already exist", async () => {
+    const cwd = createReactProject();
+    await capture(() => addCommand({ cwd, components: ["button"] }));
+
+    const { files, barrelExports } = await plan(cwd, ["button"]);
+    expect(files.map((file) => file.action)).toEqual(["skip", "skip", "skip", "skip"]);
+    expect(barrelExports).toEqual([]);
+  });
+
+  it("prints a readable plan and the install hint without --json", async () => {
+    const cwd = createReactProject(WITHOUT_REACT_DOM);
+    const { stdout } = await capture(() =>
+      addCommand({ cwd, components: ["tooltip"], dryRun: true, install: false })
+    );
+
+    expect(stdout).toContain("[oxitron-ui:add] Dry run, nothing was written.");
+    expect(stdout).toContain(`create  ${UI}/primitives/tooltip.tsx`);
+    expect(stdout).toContain(
+      "Missing npm packages would not be installed. Install them with: pnpm add react-dom"
+    );
+    expect(exists(cwd, UI)).toBe(false);
+  });
+
+  it("needs a config even on a dry run", async () => {
+    const cwd = createProject({ "package.json": REACT_PACKAGE });
+    await expect(addCommand({ cwd, components: ["button"], dryRun: true })).rejects.toThrow(
+      `Missing ${CONFIG_FILE}`
+    );
+  });
+});
+
+describe("add", () => {
+  it("writes components, utilities, the barrel, snapshots and the lockfile", async () => {
+    const cwd = createReactProject();
+    await capture(() => addCommand({ cwd, components: ["card"] }));
+
+    const component = readFile(cwd, `${UI}/primitives/card.tsx`);
+    const cn = readFile(cwd, `${UI}/utils/cn.ts`);
+    expect(readFile(cwd, `${UI}/index.ts`)).toContain(`export { Card } from "./primitives/card";`);
+    expect(readFile(cwd, `${SNAPSHOT_DIR}/${UI}/primitives/card.tsx`)).toBe(component);
+    expect(readJson<Lockfile>(cwd, LOCK_FILE)).toEqual({
+      lockfileVersion: 1,
+      components: {
+        card: {
+          name: "card",
+          registry: null,
+          version: "1.0.0",
+          language: "ts",
+          kind: "primitive",
+          file: { path: `${UI}/primitives/card.tsx`, hash: hashContent(component) },
+          utilities: ["cn"],
+          dependencies: [],
+        },
+      },
+      utilities: {
+        cn: { name: "cn", path: `${UI}/utils/cn.ts`, hash: hashContent(cn) },
+      },
+    });
+  });
+
+  it("records registry components under their scoped id", async () => {
+    const cwd = createReactProject(
+      {
+        ...registryFiles("registry", [
+          registryEntry("data-table", {
+            version: "2.1.0",
+            requires: ["cn", "table-state"],
+            dependencies: ["button"],
+          }),
+        ]),
+        "registry/utils/table-state.ts": "export const tableState = {};\n",
+      },
+      ACME
+    );
+    const { stdout } = await capture(() => addCommand({ cwd, components: ["@acme/data-table"] }));
+
+    expect(stdout).toContain("Also adding dependencies: button");
+    const lock = readJson<Lockfile>(cwd, LOCK_FILE);
+    expect(Object.keys(lock.components)).toEqual(["@acme/data-table", "button"]);
+    expect(lock.components["@acme/data-table"]).toMatchObject({
+      registry: "@acme",
+      version: "2.1.0",
+      dependencies: ["button"],
+    });
+    expect(Object.keys(lock.utilities)).toEqual(["cn", "table-state"]);
+    expect(readFile(cwd, `${UI}/utils/table-state.ts`)).toBe("export const tableState = {};\n");
+  });
+
+  it("keeps existing files and their lock entries unless asked to overwrite", async () => {
+    const cwd = createReactProject();
+    await capture(() => addCommand({ cwd, components: ["button"] }));
+    const file = `${UI}/primitives/button.tsx`;
+    const locked = readJson<Lockfile>(cwd, LOCK_FILE).components.button;
+    writeFiles(cwd, { [file]: `${readFile(cwd, file)}// local edit\n` });
+
+    const { stdout } = await capture(() => addCommand({ cwd, components: ["button"] }));
+    expect(stdout).toContain("Re-run with --overwrite to replace existing files.");
+    expect(readFile(cwd, file)).toContain("// local edit");
+    expect(readJson<Lockfile>(cwd, LOCK_FILE).components.button).toEqual(locked);
+
+    await capture(() => addCommand({ cwd, components: ["button"], overwrite: true }));
+    expect(readFile(cwd, file)).not.toContain("// local edit");
+  });
+
+  it("refuses same-named components from different registries", async () => {
+    const table = [registryEntry("data-table")];
+    const cwd = createReactProject(
+      { ...registryFiles("acme", table), ...registryFiles("web", table) },
+      {
+        registries: [
+          { name: "@acme", source: "acme" },
+          { name: "@web", source: "web" },
+        ],
+      }
+    );
+    const file = `${UI}/primitives/data-table.tsx`;
+
+    await expect(
+      capture(() => addCommand({ cwd, components: ["@acme/data-table", "@web/data-table"] }))
+    ).rejects.toThrow(
+      `Name collision: @acme/data-table and @web/data-table would both be written to ${file}.`
+    );
+    expect(exists(cwd, file)).toBe(false);
+
+    await capture(() => addCommand({ cwd, components: ["@acme/data-table"] }));
+    await expect(
+      capture(() => addCommand({ cwd, components: ["@web/data-table"], overwrite: true }))
+    ).rejects.toThrow(
+      `Name collision: ${file} already belongs to @acme/data-table, so @web/data-table ` +
+        "cannot be added. Remove @acme/data-table first."
+    );
+    expect(Object.keys(readJson<Lockfile>(cwd, LOCK_FILE).components)).toEqual([
+      "@acme/data-table",
+    ]);
+  });
+
+  it("refuses configured paths that leave the project", async () => {
+    const paths = { ...reactConfig().paths, utilsDir: "src/../../shared" };
+    const cwd = createReactProject({}, { paths });
+    await expect(addCommand({ cwd, components: ["button"] })).rejects.toThrow(
+      "paths.utilsDir: must stay inside the project"
+    );
+    expect(exists(cwd, UI)).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  CONFIG_FILE,
+  loadConfig,
+  parseConfig,
+  projectPath,
+  readConfig,
+  resolvePaths,
+  validateConfigShape,
+} from "../src/utils/config.js";
+import { createProject, createReactProject, reactConfig } from "./fixtures.js";
+
+describe("parseConfig", () => {
+  it("accepts a config at the current schema without migrating it", () => {
+    const config = reactConfig({ alias: "@/components/oxitron-ui" });
+    expect(parseConfig(config)).toEqual({ config, migrated: [] });
+  });
+
+  it("reports one line per invalid field", () => {
+    const config = {
+      ...reactConfig(),
+      framework: "angular",
+      packageManager: 42,
+      paths: { ...reactConfig().paths, utilsDir: "" },
+    };
+    let message = "";
+    try {
+      parseConfig(config);
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message.split("\n")).toEqual([
+      `Invalid ${CONFIG_FILE}:`,
+      `  - framework: must be one of react, vue, svelte, unknown (got "angular")`,
+      "  - packageManager: must be one of pnpm, npm, yarn, bun (got 42)",
+      `  - paths.utilsDir: must be a non-empty path relative to the project root (got "")`,
+    ]);
+  });
+
+  it("rejects non-objects and unknown schemas", () => {
+    expect(() => parseConfig([])).toThrow(`${CONFIG_FILE} must contain a JSON object.`);
+    expect(() => parseConfig({ ...reactConfig(), schema: "oxitron-ui@99" })).toThrow(
+      "newer than this CLI supports"
+    );
+  });
+});
+
+describe("validateConfigShape", () => {
+  it("suggests the right spelling for unknown fields", () => {
+    const { alias: _, ...config } = reactConfig({ alias: "@/ui" });
+    expect(validateConfigShape({ ...config, Alias: "@/ui" })).toEqual([
+      `Alias: unknown field (did you mean "alias"?)`,
+    ]);
+    expect(
+      validateConfigShape({ ...config, paths: { ...config.paths, outDir: "src" } })
+    ).toEqual(["paths.outDir: unknown field"]);
+  });
+
+  it.each(["../shared", "/abs/components", "C:/components", "src/../../shared", ".."])(
+    "rejects paths that leave the project: %s",
+    (outputDir) => {
+      const config = reactConfig();
+      expect(validateConfigShape({ ...config, paths: { ...config.paths, outputDir } })).toEqual([
+        `paths.outputDir: must stay inside the project (got ${JSON.stringify(outputDir)})`,
+      ]);
+    }
+  );
+
+  it("accepts paths that normalize to a location inside the project", () => {
+    const config = reactConfig();
+    expect(
+      validateConfigShape({ ...config, paths: { ...config.paths, outputDir: "src/../components" } })
+    ).toEqual([]);
+  });
+
+  it("checks registry scopes and sources", () => {
+    expect(
+      validateConfigShape(
+        reactConfig({
+          registries: [
+            { name: "@acme", source: "./registry" },
+            { name: "acme", source: "" },
+          ],
+        })
+      )
+    ).toEqual([
+      `registries[1].name: must be a scope like "@acme" (got "acme")`,
+      `registries[1].source: must be a directory, JSON file or URL (got "")`,
+    ]);
+  });
+});
+
+describe("readConfig", () => {
+  it("explains a missing or malformed file", async () => {
+    await expect(loadConfig(createProject())).rejects.toThrow(`Missing ${CONFIG_FILE}`);
+    await expect(loadConfig(createProject({ [CONFIG_FILE]: "{ nope" }))).rejects.toThrow(
+      `${CONFIG_FILE} is not valid JSON`
+    );
+  });
+
+  it("migrates older files in memory", async () => {
+    const cwd = createProject({
+      [CONFIG_FILE]: {
+        schema: "oxitron-ui@1",
+        framework: "react",
+        language: "ts",
+        packageManager: "npm",
+        paths: { outputDir: "components/ui" },
+      },
+    });
+    const { config, migrated } = await readConfig(cwd);
+    expect(migrated).toEqual(["oxitron-ui@1 -> oxitron-ui@2"]);
+    expect(config.paths.primitivesDir).toBe("components/ui/primitives");
+  });
+});
+
+describe("resolvePaths", () => {
+  it("treats a blank alias as relative imports", () => {
+    expect(resolvePaths(reactConfig({ alias: "  " })).alias).toBeNull();
+    expect(resolvePaths(reactConfig({ alias: "@/ui" })).alias).toBe("@/ui");
+  });
+});
+
+describe("projectPath", () => {
+  it("resolves paths inside the project", () => {
+    const cwd = createReactProject();
+    expect(projectPath(cwd, "src/components/button.tsx")).toBe(
+      path.join(cwd, "src", "components", "button.tsx")
+    );
+    expect(projectPath(cwd, "src/../lib/cn.ts")).toBe(path.join(cwd, "lib", "cn.ts"));
+  });
+
+  it.each(["../outside.ts", "src/../../outside.ts", "a/b/../../../outside.ts", "..", ".", ""])(
+    "rejects %j",
+    (file) => {
+      const cwd = createReactProject();
+      expect(() => projectPath(cwd, file)).toThrow("outside the project");
+    }
+  );
+
+  it("rejects absolute paths, even inside the project", () => {
+    const cwd = createReactProject();
+    expect(() => projectPath(cwd, path.join(cwd, "src", "button.tsx"))).toThrow(
+      "outside the project"
+    );
+    expect(() => projectPath(cwd, "/etc/passwd")).toThrow("outside the project");
+    expect(() => projectPath(cwd, "C:/Windows/win.ini")).toThrow("outside the project");
+  });
+});
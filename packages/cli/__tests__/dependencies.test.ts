@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { ComponentManifestEntry } from "../src/registry/manifest.js";
+import { createComponentResolver } from "../src/registry/registries.js";
+import {
+  componentId,
+  packageName,
+  resolveDependencyGraph,
+} from "../src/registry/dependencies.js";
+import { resolveTemplateRoot } from "../src/utils/templates.js";
+import { createProject, registryEntry, registryFiles } from "./fixtures.js";
+
+const TEMPLATE_ROOT = resolveTemplateRoot(new URL("../src/commands/", import.meta.url).href);
+
+function resolverFor(entries: ComponentManifestEntry[]) {
+  const cwd = createProject(registryFiles("registry", entries));
+  return createComponentResolver(cwd, [{ name: "@acme", source: "registry" }], TEMPLATE_ROOT);
+}
+
+describe("resolveDependencyGraph", () => {
+  it("collects utilities and npm packages of built-in components", async () => {
+    const graph = await resolveDependencyGraph(resolverFor([]), ["dialog", "button"]);
+
+    expect(graph.components.map(componentId)).toEqual(["dialog", "button"]);
+    expect(graph.utilities.map((u) => [u.name, u.requiredBy.entry.name])).toEqual([
+      ["cn", "dialog"],
+      ["overlay", "dialog"],
+    ]);
+    expect(graph.packages).toEqual(["react-dom"]);
+  });
+
+  it("orders dependencies before dependents and visits shared ones once", async () => {
+    const resolver = resolverFor([
+      registryEntry("data-table", { dependencies: ["toolbar", "pagination"] }),
+      registryEntry("toolbar", { dependencies: ["button"] }),
+      registryEntry("pagination", { dependencies: ["button", "@acme/toolbar"] }),
+    ]);
+    const graph = await resolveDependencyGraph(resolver, ["@acme/data-table", "button"]);
+
+    expect(graph.components.map(componentId)).toEqual([
+      "button",
+      "@acme/toolbar",
+      "@acme/pagination",
+      "@acme/data-table",
+    ]);
+  });
+
+  it("keeps the first spec of each npm package", async () => {
+    const resolver = resolverFor([
+      registryEntry("chart", {
+        packages: ["@visx/shape@^3", "d3-scale@^4"],
+        dependencies: ["legend"],
+      }),
+      registryEntry("legend", { packages: ["d3-scale@^3"] }),
+    ]);
+    const graph = await resolveDependencyGraph(resolver, ["@acme/chart"]);
+
+    expect(graph.packages).toEqual(["d3-scale@^3", "@visx/shape@^3"]);
+  });
+
+  it("reports cycles with the path that closes them", async () => {
+    const resolver = resolverFor([
+      registryEntry("menu", { dependencies: ["menu-item"] }),
+      registryEntry("menu-item", { dependencies: ["submenu"] }),
+      registryEntry("submenu", { dependencies: ["menu"] }),
+    ]);
+    await expect(resolveDependencyGraph(resolver, ["@acme/menu"])).rejects.toThrow(
+      "Dependency cycle detected: @acme/menu -> @acme/menu-item -> @acme/submenu -> @acme/menu"
+    );
+  });
+
+  it("names unknown requested components and unknown dependencies", async () => {
+    const resolver = resolverFor([registryEntry("chip", { dependencies: ["avatar"] })]);
+
+    await expect(resolveDependencyGraph(resolver, ["button", "slider"])).rejects.toThrow(
+      /^Unknown component\(s\): slider\. Available: button, card, /
+    );
+    await expect(resolveDependencyGraph(resolver, ["@acme/chip"])).rejects.toThrow(
+      `Component "@acme/chip" depends on unknown component "avatar".`
+    );
+  });
+});
+
+describe("packageName", () => {
+  it.each([
+    ["focus-trap", "focus-trap"],
+    ["focus-trap@^7", "focus-trap"],
+    ["@floating-ui/dom", "@floating-ui/dom"],
+    ["@floating-ui/dom@1.6.0", "@floating-ui/dom"],
+  ])("%s -> %s", (spec, name) => {
+    expect(packageName(spec)).toBe(name);
+  });
+});
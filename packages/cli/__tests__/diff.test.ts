@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { addCommand } from "../src/commands/add.js";
+import { diffCommand } from "../src/commands/diff.js";
+import { diffLines, merge3, splitLines, unifiedDiff } from "../src/utils/diff.js";
+import { capture, createReactProject, readFile, writeFiles } from "./fixtures.js";
+
+const UI = "src/components/oxitron-ui";
+
+async function installed(...components: string[]): Promise<string> {
+  const cwd = createReactProject();
+  await capture(() => addCommand({ cwd, components }));
+  return cwd;
+}
+
+const LABELS = { ours: "local", theirs: "template" };
+
+function lines(...items: string[]): string {
+  return items.map((item) => `${item}\n`).join("");
+}
+
+describe("splitLines", () => {
+  it("ignores CRLF and one trailing newline", () => {
+    expect(splitLines("a\r\nb\r\n")).toEqual(["a", "b"]);
+    expect(splitLines("a\n\n")).toEqual(["a", ""]);
+    expect(splitLines("")).toEqual([]);
+  });
+});
+
+describe("diffLines", () => {
+  it("returns changed regions in order", () => {
+    expect(diffLines(["a", "b", "c", "d"], ["a", "x", "c", "d", "e"])).toEqual([
+      { oldStart: 1, oldEnd: 2, newStart: 1, newEnd: 2 },
+      { oldStart: 4, oldEnd: 4, newStart: 4, newEnd: 5 },
+    ]);
+    expect(diffLines(["a"], ["a"])).toEqual([]);
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("prints hunks with three lines of context, merging nearby changes", () => {
+    const base = lines("1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12");
+    const edited = lines("1", "two", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12", "13");
+
+    expect(unifiedDiff(base, edited, "a/file", "b/file")).toBe(
+      lines(
+        "--- a/file",
+        "+++ b/file",
+        "@@ -1,5 +1,5 @@",
+        " 1",
+        "-2",
+        "+two",
+        " 3",
+        " 4",
+        " 5",
+        "@@ -10,3 +10,4 @@",
+        " 10",
+        " 11",
+        " 12",
+        "+13"
+      )
+    );
+  });
+
+  it("is empty for equal texts, whatever the line endings", () => {
+    expect(unifiedDiff("a\r\nb\r\n", "a\nb", "a", "b")).toBe("");
+  });
+});
+
+describe("merge3", () => {
+  const base = lines("import a", "", "function f() {", "  return 1;", "}", "", "export { f };");
+
+  it("takes changes made on one side only", () => {
+    const ours = base.replace("import a", "import a\nimport b");
+    const theirs = base.replace("  return 1;", "  return 2;");
+
+    expect(merge3(base, ours, theirs, LABELS)).toEqual({
+      text: base.replace("import a", "import a\nimport b").replace("  return 1;", "  return 2;"),
+      conflicts: 0,
+    });
+  });
+
+  it("takes identical edits once", () => {
+    const edited = base
+      .replace("  return 1;", "  return 3;")
+      .replace("export { f };", "export { f as g };");
+
+    expect(merge3(base, edited, edited, LABELS)).toEqual({ text: edited, conflicts: 0 });
+  });
+
+  it("marks overlapping edits as conflicts and keeps the rest", () => {
+    const ours = base.replace("  return 1;", "  return local;").replace("import a", "import c");
+    const theirs = base.replace("  return 1;", "  return template;");
+
+    expect(merge3(base, ours, theirs, LABELS)).toEqual({
+      text: lines(
+        "import c",
+        "",
+        "function f() {",
+        "<<<<<<< local",
+        "  return local;",
+        "=======",
+        "  return template;",
+        ">>>>>>> template",
+        "}",
+        "",
+        "export { f };"
+      ),
+      conflicts: 1,
+    });
+  });
+
+  it("counts each conflicting region", () => {
+    const ours = base.replace("import a", "import x").replace("export { f };", "export default f;");
+    const theirs = base
+      .replace("import a", "import y")
+      .replace("export { f };", "export { f as h };");
+
+    const merged = merge3(base, ours, theirs, LABELS);
+    expect(merged.conflicts).toBe(2);
+    expect(merged.text.match(/^<<<<<<< local$/gm)).toHaveLength(2);
+  });
+
+  it("returns the base when neither side changed it", () => {
+    expect(merge3(base, base, base, LABELS)).toEqual({ text: base, conflicts: 0 });
+  });
+});
+
+describe("diffCommand", () => {
+  it("reports components that match their template", async () => {
+    const cwd = await installed("button");
+    const { stdout } = await capture(() => diffCommand({ cwd, component: "button" }));
+
+    expect(stdout).toBe("[oxitron-ui:diff] button matches the current template.\n");
+  });
+
+  it("prints a unified diff for local edits to the component and its utilities", async () => {
+    const cwd = await installed("button");
+    const component = `${UI}/primitives/button.tsx`;
+    const cn = `${UI}/utils/cn.ts`;
+    writeFiles(cwd, {
+      [component]: readFile(cwd, component).replace('import * as React from "react";\n', ""),
+      [cn]: `${readFile(cwd, cn)}export const local = true;\n`,
+    });
+    const { stdout } = await capture(() => diffCommand({ cwd, component: "button" }));
+
+    expect(stdout).toContain(`--- template/button.tsx\n+++ ${component}\n`);
+    expect(stdout).toContain(`@@ -1,4 +1,3 @@\n-import * as React from "react";\n`);
+    expect(stdout).toContain(`--- template/cn.ts\n+++ ${cn}\n`);
+    expect(stdout).toContain("+export const local = true;\n");
+    expect(stdout).not.toContain("matches the current template");
+  });
+
+  it("explains components that are unknown or not installed", async () => {
+    const cwd = await installed("button");
+
+    await expect(diffCommand({ cwd, component: "card" })).rejects.toThrow(
+      `card is not installed. Run "npx oxitron-ui add card" first.`
+    );
+    await expect(diffCommand({ cwd, component: "slider" })).rejects.toThrow(
+      /^Unknown component: slider\. Available: button, /
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import { addCommand } from "../src/commands/add.js";
+import { doctorCommand } from "../src/commands/doctor.js";
+import { CONFIG_FILE } from "../src/utils/config.js";
+import { LOCK_FILE } from "../src/utils/lockfile.js";
+import {
+  capture,
+  createProject,
+  createReactProject,
+  readFile,
+  reactConfig,
+  writeFiles,
+  REACT_PACKAGE,
+} from "./fixtures.js";
+
+const UI = "src/components/oxitron-ui";
+const TAILWIND_CSS = { "src/index.css": `@import "tailwindcss";\n` };
+
+/**
+ * Runs doctor and returns everything it printed
+ */
+async function doctor(cwd: string): Promise<string> {
+  const { stdout, stderr } = await capture(() => doctorCommand({ cwd }));
+  return stdout + stderr;
+}
+
+async function installed(...components: string[]): Promise<string> {
+  const cwd = createReactProject(TAILWIND_CSS);
+  await capture(() => addCommand({ cwd, components }));
+  return cwd;
+}
+
+describe("doctor", () => {
+  it("passes every check for a fresh install", async () => {
+    const output = await doctor(await installed("button", "card"));
+
+    expect(output).toContain("✔ Config");
+    expect(output).toContain(`${UI}/index.ts exports all 2 installed component(s).`);
+    expect(output).toContain("3 managed file(s) recorded.");
+    expect(output).toContain("3 installed file(s) match their templates.");
+    expect(output).toContain("0 warning(s), 0 failed");
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("fails without a config", async () => {
+    const output = await doctor(createProject({ "package.json": REACT_PACKAGE }));
+
+    expect(output).toContain(`✖ Config`);
+    expect(output).toContain(`Missing ${CONFIG_FILE}.`);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("lists every invalid config field", async () => {
+    const config = reactConfig();
+    const output = await doctor(
+      createProject({
+        "package.json": REACT_PACKAGE,
+        [CONFIG_FILE]: { ...config, language: "coffee", paths: { ...config.paths, outputDir: "../x" } },
+      })
+    );
+
+    expect(output).toContain(`- language: must be one of ts, js (got "coffee")`);
+    expect(output).toContain(`- paths.outputDir: must stay inside the project (got "../x")`);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("warns about configs that need migrating", async () => {
+    const cwd = createReactProject({
+      ...TAILWIND_CSS,
+      [CONFIG_FILE]: {
+        schema: "oxitron-ui@1",
+        framework: "react",
+        language: "ts",
+        packageManager: "npm",
+        paths: { outputDir: UI },
+      },
+    });
+    const output = await doctor(cwd);
+
+    expect(output).toContain("! Config");
+    expect(output).toContain("Run `migrate` to update the file.");
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("warns about an alias that tsconfig does not map", async () => {
+    const cwd = createReactProject(TAILWIND_CSS, { alias: "@/ui" });
+    const output = await doctor(cwd);
+
+    expect(output).toContain(`! Alias`);
+    expect(output).toContain(`"paths": { "@/ui/*": ["./${UI}/*"] }`);
+  });
+
+  it("fails when the barrel misses exports or points at deleted files", async () => {
+    const cwd = await installed("button", "card");
+    const barrel = readFile(cwd, `${UI}/index.ts`).replace(/.*"\.\/primitives\/card";\n/g, "");
+    writeFiles(cwd, { [`${UI}/index.ts`]: `${barrel}export { Gone } from "./primitives/gone";\n` });
+    const output = await doctor(cwd);
+
+    expect(output).toContain("✖ Barrel");
+    expect(output).toContain("card: missing 6 export(s) from ./primitives/card");
+    expect(output).toContain("export points at a missing file: ./primitives/gone");
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("fails when files recorded in the lockfile are gone", async () => {
+    const cwd = await installed("button");
+    fs.rmSync(path.join(cwd, ...`${UI}/utils/cn.ts`.split("/")));
+    const output = await doctor(cwd);
+
+    expect(output).toContain(`Files recorded in ${LOCK_FILE} are missing.`);
+    expect(output).toContain(`- ${UI}/utils/cn.ts`);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("warns about hand-written components and local edits", async () => {
+    const cwd = await installed("button");
+    fs.rmSync(path.join(cwd, LOCK_FILE));
+    writeFiles(cwd, { [`${UI}/primitives/button.tsx`]: "export const Button = null;\n" });
+    const output = await doctor(cwd);
+
+    expect(output).toContain(
+      `Installed components not recorded in ${LOCK_FILE} are treated as hand-written.`
+    );
+    expect(output).toContain(`- ${UI}/primitives/button.tsx (unmanaged)`);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("tells local edits from template updates", async () => {
+    const cwd = await installed("button");
+    const file = `${UI}/primitives/button.tsx`;
+    writeFiles(cwd, { [file]: `${readFile(cwd, file)}// tweak\n` });
+    const lock = JSON.parse(readFile(cwd, LOCK_FILE));
+    lock.utilities.cn.hash = "sha256-older";
+    writeFiles(cwd, {
+      [LOCK_FILE]: lock,
+      [`${UI}/utils/cn.ts`]: `${readFile(cwd, `${UI}/utils/cn.ts`)}// older\n`,
+    });
+    const output = await doctor(cwd);
+
+    expect(output).toContain(`- ${file} (local edits)`);
+    expect(output).toContain(
+      `- ${UI}/utils/cn.ts (template updated since install; run \`update\`)`
+    );
+  });
+
+  it("checks Tailwind and the framework version", async () => {
+    const cwd = createReactProject({
+      "package.json": { dependencies: { react: "^17.0.2" } },
+    });
+    const output = await doctor(cwd);
+
+    expect(output).toContain("tailwindcss is not listed in package.json.");
+    expect(output).toContain(`No global CSS file with @import "tailwindcss" found.`);
+    expect(output).toContain("react ^17.0.2 is older than the required 18.x.");
+    expect(process.exitCode).toBe(1);
+  });
+});
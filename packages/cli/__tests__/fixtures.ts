@@ -0,0 +1,168 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, vi } from "vitest";
+import type { ComponentManifestEntry } from "../src/registry/manifest.js";
+import { CONFIG_FILE, type StoneConfig } from "../src/utils/config.js";
+import { CONFIG_SCHEMA, CONFIG_SCHEMA_URL } from "../src/utils/migrations.js";
+
+const projects: string[] = [];
+
+afterEach(() => {
+  for (const dir of projects.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+  process.exitCode = undefined;
+});
+
+export type ProjectFiles = Record<string, string | object>;
+
+export const REACT_PACKAGE = {
+  name: "app",
+  dependencies: { react: "^18.3.1", "react-dom": "^18.3.1" },
+  devDependencies: { tailwindcss: "^4.1.0", typescript: "^5.9.3" },
+};
+
+/**
+ * Creates a temporary project, removed after the test
+ * @param files - Posix paths relative to the project root; objects are written as JSON
+ * @returns Absolute project root
+ */
+export function createProject(files: ProjectFiles = {}): string {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "oxitron-ui-"));
+  projects.push(cwd);
+  writeFiles(cwd, files);
+  return cwd;
+}
+
+export function writeFiles(cwd: string, files: ProjectFiles): void {
+  for (const [file, contents] of Object.entries(files)) {
+    const abs = path.join(cwd, ...file.split("/"));
+    fs.mkdirSync(path.dirname(abs), { recursive: true });
+    fs.writeFileSync(
+      abs,
+      typeof contents === "string" ? contents : JSON.stringify(contents, null, 2) + "\n"
+    );
+  }
+}
+
+export function readFile(cwd: string, file: string): string {
+  return fs.readFileSync(path.join(cwd, ...file.split("/")), "utf8");
+}
+
+export function readJson<T = Record<string, unknown>>(cwd: string, file: string): T {
+  return JSON.parse(readFile(cwd, file)) as T;
+}
+
+export function exists(cwd: string, file: string): boolean {
+  return fs.existsSync(path.join(cwd, ...file.split("/")));
+}
+
+/**
+ * A React + TypeScript config at the current schema, with components under
+ * src/components/oxitron-ui and relative imports
+ */
+export function reactConfig(overrides: Partial<StoneConfig> = {}): StoneConfig {
+  return {
+    $schema: CONFIG_SCHEMA_URL,
+    schema: CONFIG_SCHEMA,
+    framework: "react",
+    projectType: "vite-react",
+    language: "ts",
+    packageManager: "pnpm",
+    paths: {
+      outputDir: "src/components/oxitron-ui",
+      primitivesDir: "src/components/oxitron-ui/primitives",
+      wrappersDir: "src/components/oxitron-ui/wrappers",
+      utilsDir: "src/components/oxitron-ui/utils",
+      barrelFile: "src/components/oxitron-ui/index.ts",
+    },
+    styles: { strategy: "tailwind" },
+    ...overrides,
+  };
+}
+
+/**
+ * A configured React project (package.json, tsconfig.json and oxitron-ui.config.json)
+ */
+export function createReactProject(
+  files: ProjectFiles = {},
+  config: Partial<StoneConfig> = {}
+): string {
+  return createProject({
+    "package.json": REACT_PACKAGE,
+    "tsconfig.json": { compilerOptions: { jsx: "react-jsx" } },
+    [CONFIG_FILE]: reactConfig(config),
+    ...files,
+  });
+}
+
+/**
+ * A registry index entry with the required fields filled in
+ */
+export function registryEntry(
+  name: string,
+  overrides: Partial<ComponentManifestEntry> = {}
+): ComponentManifestEntry {
+  return {
+    name,
+    version: "1.0.0",
+    description: `${name} component`,
+    framework: "react",
+    kind: "primitive",
+    templates: { tsx: `${name}.tsx`, jsx: `${name}.jsx` },
+    requires: [],
+    exports: { values: [pascalCase(name)], types: [] },
+    ...overrides,
+  };
+}
+
+/**
+ * Files of a local registry directory: index.json plus a template per entry
+ * @param dir - Registry directory relative to the project root
+ */
+export function registryFiles(dir: string, entries: ComponentManifestEntry[]): ProjectFiles {
+  const files: ProjectFiles = { [`${dir}/index.json`]: { components: entries } };
+  for (const entry of entries) {
+    const component = pascalCase(entry.name);
+    const source = `export function ${component}() {\n  return null;\n}\n`;
+    files[`${dir}/${entry.templates.tsx}`] = source;
+    files[`${dir}/${entry.templates.jsx}`] = source;
+  }
+  return files;
+}
+
+export type Output = {
+  stdout: string;
+  stderr: string;
+};
+
+/**
+ * Runs a command with console and progress output captured (colors stripped)
+ */
+export async function capture(run: () => Promise<void>): Promise<Output> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const log = vi.spyOn(console, "log").mockImplementation((...args) => {
+    stdout.push(`${args.join(" ")}\n`);
+  });
+  const error = vi.spyOn(console, "error").mockImplementation((...args) => {
+    stderr.push(`${args.join(" ")}\n`);
+  });
+  const write = vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+    stdout.push(String(chunk));
+    return true;
+  });
+  try {
+    await run();
+  } finally {
+    log.mockRestore();
+    error.mockRestore();
+    write.mockRestore();
+  }
+  const plain = (lines: string[]) => lines.join("").replace(/\u001b\[\d+m/g, "");
+  return { stdout: plain(stdout), stderr: plain(stderr) };
+}
+
+function pascalCase(name: string): string {
+  return name.replace(/(^|-)([a-z0-9])/g, (_, __, char: string) => char.toUpperCase());
+}
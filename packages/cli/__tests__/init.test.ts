@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { initCommand } from "../src/commands/init.js";
+import { CONFIG_FILE, parseConfig } from "../src/utils/config.js";
+import type { Plan } from "../src/utils/plan.js";
+import {
+  capture,
+  createProject,
+  exists,
+  readFile,
+  readJson,
+  reactConfig,
+  REACT_PACKAGE,
+} from "./fixtures.js";
+
+async function plan(cwd: string, options: Parameters<typeof initCommand>[0] = {}): Promise<Plan> {
+  const { stdout } = await capture(() => initCommand({ cwd, json: true, ...options }));
+  return JSON.parse(stdout) as Plan;
+}
+
+describe("init --dry-run", () => {
+  it("prints the config it would write as JSON", async () => {
+    const cwd = createProject({
+      "package.json": { ...REACT_PACKAGE, devDependencies: { vite: "^7.0.0" } },
+      "pnpm-lock.yaml": "",
+      "src/main.tsx": "",
+    });
+    const result = await plan(cwd, { language: "js" });
+
+    expect(result.files).toEqual([{ path: CONFIG_FILE, kind: "config", action: "create" }]);
+    expect(result.warnings).toEqual([
+      expect.stringContaining("Alias @/components/oxitron-ui is not mapped"),
+      "Tailwind CSS not detected. Components use Tailwind classes.",
+    ]);
+    expect(result.config).toMatchObject({
+      framework: "react",
+      projectType: "vite-react",
+      language: "js",
+      packageManager: "pnpm",
+      paths: {
+        outputDir: "src/components/oxitron-ui",
+        barrelFile: "src/components/oxitron-ui/index.js",
+      },
+    });
+    expect(result.config).not.toHaveProperty("alias");
+    expect(() => parseConfig(result.config)).not.toThrow();
+    expect(exists(cwd, CONFIG_FILE)).toBe(false);
+  });
+
+  it("skips an existing config unless asked to overwrite it", async () => {
+    const cwd = createProject({ "package.json": REACT_PACKAGE, [CONFIG_FILE]: reactConfig() });
+
+    expect((await plan(cwd)).files[0].action).toBe("skip");
+    expect((await plan(cwd, { overwriteConfig: true })).files[0].action).toBe("overwrite");
+  });
+
+  it("prints a readable plan without --json", async () => {
+    const cwd = createProject({ "package.json": REACT_PACKAGE });
+    const { stdout } = await capture(() => initCommand({ cwd, dryRun: true }));
+
+    expect(stdout).toContain("[oxitron-ui:init] Dry run, nothing was written.");
+    expect(stdout).toContain(`create  ${CONFIG_FILE}`);
+    expect(exists(cwd, CONFIG_FILE)).toBe(false);
+  });
+
+  it("rejects directories outside the project", async () => {
+    const cwd = createProject({ "package.json": REACT_PACKAGE });
+    await expect(plan(cwd, { outputDir: "src/../../ui" })).rejects.toThrow(
+      `The output dir must be a path inside the project (got "src/../../ui").`
+    );
+  });
+});
+
+describe("init", () => {
+  it("writes a valid config from detected defaults", async () => {
+    const cwd = createProject({ "package.json": REACT_PACKAGE, "tsconfig.json": {} });
+    await capture(() => initCommand({ cwd, yes: true }));
+
+    const { config, migrated } = parseConfig(readJson(cwd, CONFIG_FILE));
+    expect(migrated).toEqual([]);
+    expect(config).toMatchObject({ framework: "react", language: "ts", packageManager: "npm" });
+    expect(config.paths.outputDir).toBe("components/oxitron-ui");
+  });
+
+  it("saves the alias that tsconfig paths resolve to the components directory", async () => {
+    const cwd = createProject({
+      "package.json": REACT_PACKAGE,
+      "tsconfig.json": { compilerOptions: { paths: { "@/*": ["./src/*"] } } },
+      "src/main.tsx": "",
+    });
+    const { stdout } = await capture(() => initCommand({ cwd, yes: true }));
+
+    expect(readJson(cwd, CONFIG_FILE).alias).toBe("@/components/oxitron-ui");
+    expect(stdout).toContain("imported as @/components/oxitron-ui");
+    expect(stdout).not.toContain("is not mapped");
+  });
+
+  it("leaves an alias without a paths mapping out of the config", async () => {
+    const cwd = createProject({ "package.json": REACT_PACKAGE, "tsconfig.json": {} });
+    const { stdout } = await capture(() => initCommand({ cwd, yes: true, alias: "@/ui" }));
+
+    expect(readJson(cwd, CONFIG_FILE)).not.toHaveProperty("alias");
+    expect(stdout).toContain("Alias @/ui is not mapped");
+    expect(stdout).toContain(`"paths": { "@/ui/*": ["./components/oxitron-ui/*"] }`);
+    expect(stdout).toContain("(ts, relative imports)");
+  });
+
+  it("keeps an existing config", async () => {
+    const cwd = createProject({ "package.json": REACT_PACKAGE, [CONFIG_FILE]: "{}\n" });
+    const { stdout } = await capture(() => initCommand({ cwd, yes: true }));
+
+    expect(stdout).toContain("Use --overwrite-config to replace it.");
+    expect(readFile(cwd, CONFIG_FILE)).toBe("{}\n");
+  });
+
+  it("refuses projects without package.json or a supported framework", async () => {
+    await expect(initCommand({ cwd: createProject(), yes: true })).rejects.toThrow(
+      "No package.json found"
+    );
+    const svelte = createProject({ "package.json": { dependencies: { svelte: "^5.0.0" } } });
+    await expect(initCommand({ cwd: svelte, yes: true })).rejects.toThrow(
+      "Unsupported framework: svelte."
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { addCommand } from "../src/commands/add.js";
+import { listCommand } from "../src/commands/list.js";
+import { componentManifest, manifestFor } from "../src/registry/manifest.js";
+import { CONFIG_FILE } from "../src/utils/config.js";
+import { capture, createProject, createReactProject, reactConfig } from "./fixtures.js";
+
+type Listed = {
+  configured: boolean;
+  components: { name: string; framework: string; installed: boolean | null; path: string | null }[];
+};
+
+async function list(cwd: string): Promise<Listed> {
+  const { stdout } = await capture(() => listCommand({ cwd, json: true }));
+  return JSON.parse(stdout) as Listed;
+}
+
+describe("list", () => {
+  it("lists every built-in component when there is no config", async () => {
+    const result = await list(createProject());
+
+    expect(result.configured).toBe(false);
+    expect(result.components).toHaveLength(componentManifest.length);
+    expect(result.components.every((c) => c.installed === null && c.path === null)).toBe(true);
+  });
+
+  it("marks installed components for the configured framework", async () => {
+    const cwd = createReactProject();
+    await capture(() => addCommand({ cwd, components: ["button"] }));
+    const result = await list(cwd);
+
+    expect(result.components.map((c) => c.name)).toEqual(manifestFor("react").map((e) => e.name));
+    expect(result.components.find((c) => c.name === "button")).toMatchObject({
+      installed: true,
+      path: "src/components/oxitron-ui/primitives/button.tsx",
+    });
+    expect(result.components.find((c) => c.name === "card")).toMatchObject({
+      installed: false,
+      path: null,
+    });
+  });
+
+  it("only lists Vue components in a Vue project", async () => {
+    const cwd = createProject({ [CONFIG_FILE]: reactConfig({ framework: "vue" }) });
+    const result = await list(cwd);
+
+    expect(result.components.map((c) => [c.name, c.framework])).toEqual([["button", "vue"]]);
+  });
+
+  it("prints dependencies and the init hint for humans", async () => {
+    const { stdout } = await capture(() => listCommand({ cwd: createProject() }));
+
+    expect(stdout).toContain("[oxitron-ui:list] Available components:");
+    expect(stdout).toMatch(/dialog\s+primitive\s+Modal dialog/);
+    expect(stdout).toContain("packages: react-dom");
+    expect(stdout).toContain(`No ${CONFIG_FILE} found.`);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  LOCK_FILE,
+  emptyLock,
+  findLockedFile,
+  hashContent,
+  readLock,
+  writeLock,
+  type Lockfile,
+} from "../src/utils/lockfile.js";
+import { createProject, readFile } from "./fixtures.js";
+
+function lockWith(): Lockfile {
+  return {
+    lockfileVersion: 1,
+    components: {
+      "@acme/data-table": {
+        name: "data-table",
+        registry: "@acme",
+        version: "2.0.0",
+        language: "ts",
+        kind: "primitive",
+        file: { path: "src/ui/primitives/data-table.tsx", hash: hashContent("table") },
+        utilities: ["cn"],
+        dependencies: ["button"],
+      },
+      button: {
+        name: "button",
+        registry: null,
+        version: "1.0.0",
+        language: "ts",
+        kind: "primitive",
+        file: { path: "src/ui/primitives/button.tsx", hash: hashContent("button") },
+        utilities: ["cn"],
+        dependencies: [],
+      },
+    },
+    utilities: {
+      cn: { name: "cn", path: "src/ui/utils/cn.ts", hash: hashContent("cn") },
+    },
+  };
+}
+
+describe("lockfile", () => {
+  it("reads an empty lock when the file does not exist", async () => {
+    expect(await readLock(createProject())).toEqual(emptyLock());
+  });
+
+  it("writes keys in sorted order and reads them back", async () => {
+    const cwd = createProject();
+    await writeLock(cwd, lockWith());
+
+    const written = readFile(cwd, LOCK_FILE);
+    expect(written.endsWith("}\n")).toBe(true);
+    expect(Object.keys(JSON.parse(written).components)).toEqual(["@acme/data-table", "button"]);
+    expect(await readLock(cwd)).toEqual(lockWith());
+  });
+
+  it("rejects malformed and unsupported lockfiles", async () => {
+    await expect(readLock(createProject({ [LOCK_FILE]: "{" }))).rejects.toThrow(
+      `${LOCK_FILE} is not valid JSON`
+    );
+    await expect(readLock(createProject({ [LOCK_FILE]: { lockfileVersion: 2 } }))).rejects.toThrow(
+      `Unsupported ${LOCK_FILE} version: 2`
+    );
+  });
+
+  it("hashes contents independently of line endings", () => {
+    expect(hashContent("a\r\nb\r\n")).toBe(hashContent("a\nb\n"));
+    expect(hashContent("a\nb\n")).toMatch(/^sha256-[0-9a-f]{64}$/);
+    expect(hashContent("a\nb")).not.toBe(hashContent("a\nb\n"));
+  });
+
+  it("finds the entry that owns a component or utility file", () => {
+    const lock = lockWith();
+    expect(findLockedFile(lock, "src/ui/primitives/button.tsx")).toBe(lock.components.button.file);
+    expect(findLockedFile(lock, "src/ui/utils/cn.ts")).toBe(lock.utilities.cn);
+    expect(findLockedFile(lock, "src/ui/utils/other.ts")).toBeNull();
+  });
+});
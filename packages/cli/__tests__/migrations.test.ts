@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { migrateCommand } from "../src/commands/migrate.js";
+import { CONFIG_FILE } from "../src/utils/config.js";
+import {
+  CONFIG_SCHEMA,
+  CONFIG_SCHEMAS,
+  CONFIG_SCHEMA_URL,
+  migrateConfig,
+} from "../src/utils/migrations.js";
+import { capture, createProject, readFile, readJson, reactConfig } from "./fixtures.js";
+
+const V1 = {
+  schema: "oxitron-ui@1",
+  framework: "react",
+  language: "js",
+  packageManager: "npm",
+  alias: "@/components/ui",
+  paths: { outputDir: "components/ui" },
+};
+
+describe("migrateConfig", () => {
+  it("fills in every path, the schema URL and defaults when upgrading from @1", () => {
+    expect(migrateConfig(V1)).toEqual({
+      applied: ["oxitron-ui@1 -> oxitron-ui@2"],
+      config: {
+        $schema: CONFIG_SCHEMA_URL,
+        schema: "oxitron-ui@2",
+        framework: "react",
+        language: "js",
+        packageManager: "npm",
+        alias: "@/components/ui",
+        projectType: "unknown",
+        paths: {
+          outputDir: "components/ui",
+          primitivesDir: "components/ui/primitives",
+          wrappersDir: "components/ui/wrappers",
+          utilsDir: "components/ui/utils",
+          barrelFile: "components/ui/index.js",
+        },
+        styles: { strategy: "tailwind" },
+      },
+    });
+  });
+
+  it("keeps paths and values that were already set", () => {
+    const { config } = migrateConfig({
+      ...V1,
+      projectType: "cra",
+      paths: { outputDir: "src/ui", utilsDir: "src/lib" },
+    });
+    expect(config.projectType).toBe("cra");
+    expect(config.paths).toMatchObject({ primitivesDir: "src/ui/primitives", utilsDir: "src/lib" });
+  });
+
+  it("leaves current configs alone", () => {
+    const config = reactConfig();
+    const result = migrateConfig(config);
+    expect(result.applied).toEqual([]);
+    expect(result.config).toBe(config);
+  });
+
+  it("rejects missing, unknown and newer schemas", () => {
+    expect(() => migrateConfig({})).toThrow(`"schema" must be one of ${CONFIG_SCHEMAS.join(", ")}`);
+    expect(() => migrateConfig({ schema: "stone-ui" })).toThrow(`Unknown config schema "stone-ui"`);
+    expect(() => migrateConfig({ schema: "oxitron-ui@3" })).toThrow(
+      `Config schema oxitron-ui@3 is newer than this CLI supports (${CONFIG_SCHEMA})`
+    );
+  });
+});
+
+describe("migrateCommand", () => {
+  it("rewrites an older config at the current schema", async () => {
+    const cwd = createProject({ [CONFIG_FILE]: V1 });
+    const { stdout } = await capture(() => migrateCommand({ cwd }));
+
+    expect(stdout).toContain(`Updated ${CONFIG_FILE} to ${CONFIG_SCHEMA}`);
+    expect(stdout).toContain("oxitron-ui@1 -> oxitron-ui@2");
+    expect(readJson(cwd, CONFIG_FILE)).toEqual(migrateConfig(V1).config);
+  });
+
+  it("only prints the result on a dry run", async () => {
+    const cwd = createProject({ [CONFIG_FILE]: V1 });
+    const before = readFile(cwd, CONFIG_FILE);
+    const { stdout } = await capture(() => migrateCommand({ cwd, dryRun: true }));
+
+    expect(stdout).toContain(`"schema": "${CONFIG_SCHEMA}"`);
+    expect(readFile(cwd, CONFIG_FILE)).toBe(before);
+  });
+
+  it("reports configs that are already current", async () => {
+    const cwd = createProject({ [CONFIG_FILE]: reactConfig() });
+    const { stdout } = await capture(() => migrateCommand({ cwd }));
+    expect(stdout).toContain(`${CONFIG_FILE} is already at ${CONFIG_SCHEMA}`);
+  });
+
+  it("never writes back a config that is invalid after migrating", async () => {
+    const cwd = createProject({ [CONFIG_FILE]: { ...V1, framework: "angular" } });
+    const before = readFile(cwd, CONFIG_FILE);
+
+    await expect(migrateCommand({ cwd })).rejects.toThrow("framework: must be one of");
+    expect(readFile(cwd, CONFIG_FILE)).toBe(before);
+  });
+});
@@ -0,0 +1,158 @@
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  createComponentResolver,
+  loadRegistry,
+  validateManifestEntry,
+} from "../src/registry/registries.js";
+import { resolveTemplateRoot } from "../src/utils/templates.js";
+import { createProject, registryEntry, registryFiles } from "./fixtures.js";
+
+const TEMPLATE_ROOT = resolveTemplateRoot(new URL("../src/commands/", import.meta.url).href);
+
+const ACME = [
+  registryEntry("data-table", { requires: ["cn", "table-state"], dependencies: ["button"] }),
+  registryEntry("button", { description: "Acme button" }),
+  registryEntry("badge", { framework: "vue", templates: { tsx: "badge.vue", jsx: "badge.vue" } }),
+];
+
+function acmeProject() {
+  return createProject({
+    ...registryFiles("registry", ACME),
+    "registry/utils/table-state.ts": "export const tableState = {};\n",
+  });
+}
+
+describe("loadRegistry", () => {
+  it("loads a directory index and keeps entries for the framework", async () => {
+    const cwd = acmeProject();
+    const registry = await loadRegistry(cwd, { name: "@acme", source: "./registry" });
+
+    expect(Array.from(registry.entries.keys())).toEqual(["data-table", "button"]);
+    expect(await registry.readTemplate("data-table.tsx")).toContain("export function DataTable");
+  });
+
+  it("loads an array index from a JSON file, with templates relative to it", async () => {
+    const cwd = createProject({
+      "vendor/acme.json": [
+        registryEntry("chip", { templates: { tsx: "src/chip.tsx", jsx: "src/chip.jsx" } }),
+      ],
+      "vendor/src/chip.tsx": "export const Chip = 1;\n",
+    });
+    const registry = await loadRegistry(cwd, { name: "@acme", source: "vendor/acme.json" });
+
+    expect(await registry.readTemplate("src/chip.tsx")).toBe("export const Chip = 1;\n");
+  });
+
+  it("explains a missing or malformed index", async () => {
+    const cwd = createProject({
+      "broken/index.json": "{",
+      "wrong/index.json": { items: [] },
+    });
+    await expect(loadRegistry(cwd, { name: "@acme", source: "missing" })).rejects.toThrow(
+      `Registry "@acme": index not found at ${path.join(cwd, "missing")}`
+    );
+    await expect(loadRegistry(cwd, { name: "@acme", source: "broken" })).rejects.toThrow(
+      `Registry "@acme": invalid JSON index`
+    );
+    await expect(loadRegistry(cwd, { name: "@acme", source: "wrong" })).rejects.toThrow(
+      `Registry "@acme": index must be an array or { "components": [...] }`
+    );
+  });
+
+  it("rejects the whole index when one entry is invalid", async () => {
+    const cwd = createProject({
+      "registry/index.json": [
+        registryEntry("chip"),
+        { ...registryEntry("Bad Name"), requires: ["../x"] },
+      ],
+    });
+    await expect(loadRegistry(cwd, { name: "@acme", source: "registry" })).rejects.toThrow(
+      `Registry "@acme": invalid entry #1: "name" must be a kebab-case string; ` +
+        `"requires" must be an array of kebab-case utility names`
+    );
+  });
+});
+
+describe("validateManifestEntry", () => {
+  it("accepts a complete entry", () => {
+    expect(validateManifestEntry(registryEntry("chip", { packages: ["clsx@^2"] }))).toEqual([]);
+  });
+
+  it("lists every problem", () => {
+    expect(validateManifestEntry("chip")).toEqual(["entry must be an object"]);
+    expect(
+      validateManifestEntry({
+        name: "chip",
+        framework: "svelte",
+        kind: "layout",
+        templates: { tsx: "chip.tsx" },
+        requires: "cn",
+        dependencies: [1],
+        exports: { values: ["Chip"] },
+      })
+    ).toEqual([
+      `"description" must be a string`,
+      `"framework" must be "react" or "vue"`,
+      `"kind" must be "primitive" or "wrapper"`,
+      `"templates" must have "tsx" and "jsx" paths`,
+      `"requires" must be an array of kebab-case utility names`,
+      `"dependencies" must be an array of component names`,
+      `"exports" must have "values" and "types" string arrays`,
+    ]);
+  });
+});
+
+describe("createComponentResolver", () => {
+  const registries = [{ name: "@acme", source: "./registry" }];
+
+  it("finds scoped components in their registry", async () => {
+    const resolver = createComponentResolver(acmeProject(), registries, TEMPLATE_ROOT);
+    const found = await resolver.find("@acme/data-table");
+
+    expect(found?.registry).toBe("@acme");
+    expect(found?.entry.requires).toEqual(["cn", "table-state"]);
+    expect(await resolver.find("@acme/nope")).toBeNull();
+  });
+
+  it("resolves unscoped names from a registry component within that registry first", async () => {
+    const resolver = createComponentResolver(acmeProject(), registries, TEMPLATE_ROOT);
+
+    expect((await resolver.find("button", "@acme"))?.entry.description).toBe("Acme button");
+    expect((await resolver.find("card", "@acme"))?.registry).toBeNull();
+    expect((await resolver.find("button"))?.registry).toBeNull();
+  });
+
+  it("only offers built-in components for the configured framework", async () => {
+    const resolver = createComponentResolver(createProject(), [], TEMPLATE_ROOT, "vue");
+
+    expect(await resolver.available()).toEqual(["button"]);
+    expect(await resolver.find("dialog")).toBeNull();
+  });
+
+  it("lists loaded registry components after the built-in ones", async () => {
+    const resolver = createComponentResolver(acmeProject(), registries, TEMPLATE_ROOT);
+    await resolver.find("@acme/button");
+
+    const available = await resolver.available();
+    expect(available).toContain("dialog");
+    expect(available.slice(-2)).toEqual(["@acme/button", "@acme/data-table"]);
+  });
+
+  it("names the configured registries when a scope is unknown", async () => {
+    const resolver = createComponentResolver(acmeProject(), registries, TEMPLATE_ROOT);
+    await expect(resolver.find("@web/button")).rejects.toThrow(
+      `Unknown registry "@web". Configured registries: @acme.`
+    );
+  });
+
+  it("reads built-in utilities first and registry utilities otherwise", async () => {
+    const resolver = createComponentResolver(acmeProject(), registries, TEMPLATE_ROOT);
+    const table = (await resolver.find("@acme/data-table"))!;
+
+    expect(await resolver.readUtilTemplate("cn", "ts", table)).toContain("export function cn(");
+    expect(await resolver.readUtilTemplate("table-state", "ts", table)).toBe(
+      "export const tableState = {};\n"
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import { addCommand } from "../src/commands/add.js";
+import { removeCommand } from "../src/commands/remove.js";
+import { LOCK_FILE, type Lockfile } from "../src/utils/lockfile.js";
+import { SNAPSHOT_DIR } from "../src/utils/snapshots.js";
+import {
+  capture,
+  createReactProject,
+  exists,
+  readFile,
+  readJson,
+  writeFiles,
+  type ProjectFiles,
+} from "./fixtures.js";
+
+const UI = "src/components/oxitron-ui";
+const CN = `${UI}/utils/cn.ts`;
+
+async function installed(components: string[], files: ProjectFiles = {}): Promise<string> {
+  const cwd = createReactProject(files);
+  await capture(() => addCommand({ cwd, components }));
+  return cwd;
+}
+
+async function remove(cwd: string, components: string[], force = false): Promise<string> {
+  const { stdout, stderr } = await capture(() => removeCommand({ cwd, components, force }));
+  return stdout + stderr;
+}
+
+describe("remove", () => {
+  it("deletes the component with its unused utilities, exports, snapshots and lock entries", async () => {
+    const cwd = await installed(["button"]);
+    const output = await remove(cwd, ["button"]);
+
+    expect(output).toContain(`- ${UI}/primitives/button.tsx\n`);
+    expect(output).toContain(`- ${CN}\n`);
+    expect(exists(cwd, `${UI}/primitives/button.tsx`)).toBe(false);
+    expect(exists(cwd, CN)).toBe(false);
+    expect(exists(cwd, `${SNAPSHOT_DIR}/${CN}`)).toBe(false);
+    expect(readFile(cwd, `${UI}/index.ts`)).not.toContain("./primitives/button");
+    expect(readJson<Lockfile>(cwd, LOCK_FILE)).toEqual({
+      lockfileVersion: 1,
+      components: {},
+      utilities: {},
+    });
+  });
+
+  it("keeps utilities that remaining components require", async () => {
+    const cwd = await installed(["button", "dialog"]);
+    await remove(cwd, ["dialog"]);
+
+    expect(exists(cwd, CN)).toBe(true);
+    expect(exists(cwd, `${UI}/utils/overlay.ts`)).toBe(false);
+    expect(Object.keys(readJson<Lockfile>(cwd, LOCK_FILE).utilities)).toEqual(["cn"]);
+  });
+
+  it("only considers utilities of the removed components", async () => {
+    const cwd = await installed(["dialog", "button"]);
+    // dialog was deleted by hand earlier, leaving overlay behind
+    const lock = readJson<Lockfile>(cwd, LOCK_FILE);
+    delete lock.components.dialog;
+    fs.rmSync(path.join(cwd, ...`${UI}/primitives/dialog.tsx`.split("/")));
+    writeFiles(cwd, { [LOCK_FILE]: lock });
+
+    await remove(cwd, ["button"]);
+
+    expect(exists(cwd, CN)).toBe(false);
+    expect(exists(cwd, `${UI}/utils/overlay.ts`)).toBe(true);
+    expect(Object.keys(readJson<Lockfile>(cwd, LOCK_FILE).utilities)).toEqual(["overlay"]);
+  });
+
+  it("keeps customized utilities unless forced", async () => {
+    const cwd = await installed(["button"]);
+    writeFiles(cwd, { [CN]: `${readFile(cwd, CN)}export const custom = true;\n` });
+
+    const output = await remove(cwd, ["button"]);
+    expect(output).toContain(`Keeping ${CN}: it has local edits. Re-run with --force to remove it.`);
+    expect(exists(cwd, `${UI}/primitives/button.tsx`)).toBe(false);
+    expect(readFile(cwd, CN)).toContain("export const custom = true;");
+    expect(readJson<Lockfile>(cwd, LOCK_FILE).utilities.cn).toBeDefined();
+  });
+
+  it("removes customized utilities when forced", async () => {
+    const cwd = await installed(["button"]);
+    writeFiles(cwd, { [CN]: `${readFile(cwd, CN)}export const custom = true;\n` });
+    await remove(cwd, ["button"], true);
+
+    expect(exists(cwd, CN)).toBe(false);
+  });
+
+  it("keeps utilities that project code imports, even when forced", async () => {
+    const cwd = await installed(["button", "dialog"], {
+      "tsconfig.json": { compilerOptions: { paths: { "@/*": ["./src/*"] } } },
+      "src/App.tsx": `import { cn } from "./components/oxitron-ui/utils/cn";\n`,
+      "src/lib/portal.ts": `export { Portal } from "@/components/oxitron-ui/utils/overlay.js";\n`,
+    });
+    const output = await remove(cwd, ["button", "dialog"], true);
+
+    expect(output).toContain(`Keeping ${CN}: still imported by src/App.tsx.`);
+    expect(output).toContain(`Keeping ${UI}/utils/overlay.ts: still imported by src/lib/portal.ts.`);
+    expect(exists(cwd, CN)).toBe(true);
+    expect(exists(cwd, `${UI}/utils/overlay.ts`)).toBe(true);
+    expect(Object.keys(readJson<Lockfile>(cwd, LOCK_FILE).utilities)).toEqual(["cn", "overlay"]);
+  });
+
+  it("keeps utilities that a kept utility imports", async () => {
+    const cwd = await installed(["dialog"], {
+      "src/App.tsx": `import { Portal } from "./components/oxitron-ui/utils/overlay";\n`,
+    });
+    const overlay = `${UI}/utils/overlay.ts`;
+    writeFiles(cwd, { [overlay]: `import { cn } from "./cn";\n${readFile(cwd, overlay)}` });
+    const output = await remove(cwd, ["dialog"], true);
+
+    expect(output).toContain(`Keeping ${CN}: still imported by ${overlay}.`);
+    expect(exists(cwd, CN)).toBe(true);
+  });
+
+  it("refuses lockfile paths outside the project before deleting anything", async () => {
+    const cwd = await installed(["button"]);
+    const lock = readJson<Lockfile>(cwd, LOCK_FILE);
+    lock.utilities.cn.path = "../cn.ts";
+    writeFiles(cwd, { [LOCK_FILE]: lock });
+
+    await expect(removeCommand({ cwd, components: ["button"], force: true })).rejects.toThrow(
+      "Refusing to touch ../cn.ts: it is outside the project"
+    );
+    expect(exists(cwd, `${UI}/primitives/button.tsx`)).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import { addCommand } from "../src/commands/add.js";
+import { updateCommand } from "../src/commands/update.js";
+import { LOCK_FILE, hashContent, type Lockfile } from "../src/utils/lockfile.js";
+import { SNAPSHOT_DIR } from "../src/utils/snapshots.js";
+import {
+  capture,
+  createReactProject,
+  readFile,
+  readJson,
+  registryEntry,
+  registryFiles,
+  writeFiles,
+} from "./fixtures.js";
+
+const FILE = "src/components/oxitron-ui/primitives/chip.tsx";
+const TEMPLATE = "registry/chip.tsx";
+const V1 = [
+  `import * as React from "react";`,
+  "",
+  "export function Chip() {",
+  `  return <span className="chip">chip</span>;`,
+  "}",
+  "",
+].join("\n");
+
+/**
+ * A project with @acme/chip installed from a local registry
+ */
+async function installedChip(): Promise<string> {
+  const cwd = createReactProject(
+    { ...registryFiles("registry", [registryEntry("chip")]), [TEMPLATE]: V1 },
+    { registries: [{ name: "@acme", source: "registry" }] }
+  );
+  await capture(() => addCommand({ cwd, components: ["@acme/chip"] }));
+  return cwd;
+}
+
+async function update(cwd: string, force = false): Promise<string> {
+  const { stdout, stderr } = await capture(() =>
+    updateCommand({ cwd, components: ["@acme/chip"], force })
+  );
+  return stdout + stderr;
+}
+
+describe("update", () => {
+  it("replaces files without local edits", async () => {
+    const cwd = await installedChip();
+    const v2 = V1.replace("chip</span>", "Chip</span>");
+    writeFiles(cwd, { [TEMPLATE]: v2 });
+    const output = await update(cwd);
+
+    expect(output).toContain(`${FILE}: updated to the latest template`);
+    expect(readFile(cwd, FILE)).toBe(v2);
+    expect(readFile(cwd, `${SNAPSHOT_DIR}/${FILE}`)).toBe(v2);
+    expect(readJson<Lockfile>(cwd, LOCK_FILE).components["@acme/chip"].file.hash).toBe(
+      hashContent(v2)
+    );
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("merges template changes into local edits cleanly", async () => {
+    const cwd = await installedChip();
+    writeFiles(cwd, {
+      [FILE]: V1.replace("export function Chip", "// Local docs\nexport function Chip"),
+      [TEMPLATE]: V1.replace(`className="chip"`, `className="chip rounded"`),
+    });
+    const output = await update(cwd);
+
+    expect(output).toContain(`${FILE}: merged template changes with local edits`);
+    expect(readFile(cwd, FILE)).toBe(
+      V1.replace("export function Chip", "// Local docs\nexport function Chip").replace(
+        `className="chip"`,
+        `className="chip rounded"`
+      )
+    );
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("treats the same edit on both sides as up to date", async () => {
+    const cwd = await installedChip();
+    const edited = V1.replace("chip</span>", "{children}</span>");
+    writeFiles(cwd, { [FILE]: edited, [TEMPLATE]: edited });
+    const output = await update(cwd);
+
+    expect(output).toContain(`${FILE}: already up to date`);
+    expect(readFile(cwd, FILE)).toBe(edited);
+    expect(readFile(cwd, `${SNAPSHOT_DIR}/${FILE}`)).toBe(edited);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("leaves conflict markers, lists the file and exits with 1", async () => {
+    const cwd = await installedChip();
+    writeFiles(cwd, {
+      [FILE]: V1.replace(`className="chip"`, `className="chip local"`),
+      [TEMPLATE]: V1.replace(`className="chip"`, `className="chip template"`),
+    });
+    const output = await update(cwd);
+
+    expect(readFile(cwd, FILE)).toContain(
+      [
+        "<<<<<<< local",
+        `  return <span className="chip local">chip</span>;`,
+        "=======",
+        `  return <span className="chip template">chip</span>;`,
+        ">>>>>>> template",
+      ].join("\n")
+    );
+    expect(output).toContain(`${FILE}: merged with conflicts; resolve the <<<<<<< markers`);
+    expect(output).toContain(`[oxitron-ui:update] 1 file(s) have merge conflicts:\n  - ${FILE}\n`);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("keeps local edits when the template did not change", async () => {
+    const cwd = await installedChip();
+    const edited = `${V1}// mine\n`;
+    writeFiles(cwd, { [FILE]: edited });
+    const output = await update(cwd);
+
+    expect(output).toContain(`${FILE}: local edits kept (no template changes)`);
+    expect(readFile(cwd, FILE)).toBe(edited);
+  });
+
+  it("only replaces files without a recorded base when forced", async () => {
+    const cwd = await installedChip();
+    const v2 = `${V1}// v2\n`;
+    writeFiles(cwd, { [FILE]: `${V1}// mine\n`, [TEMPLATE]: v2 });
+    fs.rmSync(path.join(cwd, ...`${SNAPSHOT_DIR}/${FILE}`.split("/")));
+
+    expect(await update(cwd)).toContain(`${FILE}: no recorded base; use \`diff\` to review`);
+    expect(readFile(cwd, FILE)).toBe(`${V1}// mine\n`);
+
+    expect(await update(cwd, true)).toContain(`${FILE}: updated to the latest template`);
+    expect(readFile(cwd, FILE)).toBe(v2);
+  });
+});
@@ -3,6 +3,12 @@ import { Command } from "commander";
 import { createRequire } from "node:module";
 import { initCommand } from "./commands/init.js";
 import { addCommand } from "./commands/add.js";
+import { listCommand } from "./commands/list.js";
+import { doctorCommand } from "./commands/doctor.js";
+import { diffCommand } from "./commands/diff.js";
+import { updateCommand } from "./commands/update.js";
+import { removeCommand } from "./commands/remove.js";
+import { migrateCommand } from "./commands/migrate.js";
 
 const require = createRequire(import.meta.url);
 const pkg = require("../package.json") as { version?: string };
@@ -25,7 +31,16 @@ async function main(argv: string[]) {
     .command("init")
     .description("Initialize Stone UI (detect project, write config, check Tailwind CSS)")
     .option("--pm <pm>", "Package manager: pnpm | npm | yarn | bun")
+    .option("-y, --yes", "Skip prompts and use detected defaults", false)
+    .option("--output-dir <dir>", "Components directory (default: src/components/oxitron-ui, or components/oxitron-ui without src/)")
+    .option("--primitives-dir <dir>", "Primitives directory (default: <output-dir>/primitives)")
+    .option("--wrappers-dir <dir>", "Wrappers directory (default: <output-dir>/wrappers)")
+    .option("--utils-dir <dir>", "Utilities directory (default: <output-dir>/utils)")
+    .option("--language <language>", "ts | js (default: ts when tsconfig.json exists)")
+    .option("--alias <alias>", "Import alias for the components directory (default: @/components/oxitron-ui)")
     .option("--overwrite-config", "Overwrite existing oxitron-ui.config.json if present", false)
+    .option("--dry-run", "Print what would be written without touching the disk", false)
+    .option("--json", "Print the dry-run plan as JSON (implies --dry-run)", false)
     .action(async (opts) => {
       const globals = program.opts<GlobalOptions>();
       await initCommand({
@@ -39,7 +54,10 @@ async function main(argv: string[]) {
     .description("Add Stone UI components to your project")
     .argument("<components...>", "Component names (e.g., button neon-border)")
     .option("--overwrite", "Overwrite existing files", false)
-    .option("--yes", "Skip prompts and use defaults", false)
+    .option("-y, --yes", "Skip prompts and use defaults (runs init with defaults if needed)", false)
+    .option("--no-install", "Print missing npm packages instead of installing them")
+    .option("--dry-run", "Print what would be written without touching the disk", false)
+    .option("--json", "Print the dry-run plan as JSON (implies --dry-run)", false)
     .action(async (components: string[], opts) => {
       const globals = program.opts<GlobalOptions>();
       await addCommand({
@@ -49,20 +67,78 @@ async function main(argv: string[]) {
       });
     });
 
+  program
+    .command("diff")
+    .description("Show how an installed component differs from its current template")
+    .argument("<component>", "Component name (e.g., button)")
+    .action(async (component: string) => {
+      const globals = program.opts<GlobalOptions>();
+      await diffCommand({
+        component,
+        cwd: globals.cwd,
+      });
+    });
+
+  program
+    .command("update")
+    .description("Merge template updates into installed components, keeping local edits")
+    .argument("[components...]", "Component names (default: all installed)")
+    .option("--force", "Replace files without a recorded base with the template", false)
+    .action(async (components: string[], opts) => {
+      const globals = program.opts<GlobalOptions>();
+      await updateCommand({
+        ...opts,
+        components,
+        cwd: globals.cwd,
+      });
+    });
+
+  program
+    .command("remove")
+    .description("Remove installed components, their barrel exports and unused utilities")
+    .argument("<components...>", "Component names (e.g., button)")
+    .option("--force", "Also remove files with local edits or not recorded in the lockfile", false)
+    .action(async (components: string[], opts) => {
+      const globals = program.opts<GlobalOptions>();
+      await removeCommand({
+        ...opts,
+        components,
+        cwd: globals.cwd,
+      });
+    });
+
+  program
+    .command("migrate")
+    .description("Upgrade oxitron-ui.config.json to the current schema version")
+    .option("--dry-run", "Print the migrated config without writing it", false)
+    .action(async (opts) => {
+      const globals = program.opts<GlobalOptions>();
+      await migrateCommand({
+        ...opts,
+        cwd: globals.cwd,
+      });
+    });
+
   program
     .command("list")
     .description("List available primitives/wrappers")
-    .action(() => {
-      console.log("Not implemented yet: list");
-      process.exitCode = 1;
+    .option("--json", "Print machine-readable JSON", false)
+    .action(async (opts) => {
+      const globals = program.opts<GlobalOptions>();
+      await listCommand({
+        ...opts,
+        cwd: globals.cwd,
+      });
     });
 
   program
     .command("doctor")
     .description("Validate installation and configuration")
-    .action(() => {
-      console.log("Not implemented yet: doctor");
-      process.exitCode = 1;
+    .action(async () => {
+      const globals = program.opts<GlobalOptions>();
+      await doctorCommand({
+        cwd: globals.cwd,
+      });
     });
 
   await program.parseAsync(argv);
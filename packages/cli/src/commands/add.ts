@@ -1,47 +1,90 @@
 import * as fs from "node:fs/promises";
 import * as fssync from "node:fs";
 import * as path from "node:path";
-import { componentManifestByName, type ComponentManifestEntry } from "../registry/manifest.js";
-import { createProgress, log } from "../utils/terminal.js";
+import {
+  componentExtension,
+  toSupportedFramework,
+  type ComponentManifestEntry,
+} from "../registry/manifest.js";
+import { createComponentResolver } from "../registry/registries.js";
+import { componentId, resolveDependencyGraph } from "../registry/dependencies.js";
+import { confirm, createProgress, isInteractive, log } from "../utils/terminal.js";
 import { resolveTemplateRoot } from "../utils/templates.js";
+import {
+  CONFIG_FILE,
+  hasConfig,
+  loadConfig,
+  normalizeFs,
+  projectPath,
+  resolvePaths,
+  toPosix,
+  type ResolvedPaths,
+} from "../utils/config.js";
+import { createImportRewriter, templateLayoutPath } from "../utils/imports.js";
+import { barrelExportLines } from "../utils/project.js";
+import { initCommand } from "./init.js";
+import { writeSnapshot } from "../utils/snapshots.js";
+import { LOCK_FILE, hashContent, readLock, writeLock, type Lockfile } from "../utils/lockfile.js";
+import { printPlan, type PlannedFile } from "../utils/plan.js";
+import {
+  findMissingPackages,
+  installCommand,
+  installPackages,
+  toPackageManager,
+} from "../utils/packages.js";
 
 type AddOptions = {
   cwd?: string;
   overwrite?: boolean;
   yes?: boolean;
+  /**
+   * Print the plan instead of writing anything.
+   */
+  dryRun?: boolean;
+  /**
+   * Print the plan as JSON (implies dryRun).
+   */
+  json?: boolean;
+  /**
+   * false skips installing missing npm packages (--no-install).
+   */
+  install?: boolean;
   components: string[];
 };
 
-type StoneConfig = {
-  schema: string;
-  framework: string;
-  language: "ts" | "js";
-  paths: {
-    outputDir: string;
-    barrelFile: string;
-    primitivesDir?: string;
-    wrappersDir?: string;
-    utilsDir?: string;
-  };
+type PlannedWrite = PlannedFile & {
+  abs: string;
+  contents: string;
+  /**
+   * Records the written file in the lockfile.
+   */
+  record(lock: Lockfile, file: string): void;
 };
 
-const CONFIG_FILE = "oxitron-ui.config.json";
+type PlannedBarrel = {
+  exists: boolean;
+  added: string[];
+  contents: string | null;
+};
 
 const TEMPLATE_ROOT = resolveTemplateRoot(import.meta.url);
 
 export async function addCommand(options: AddOptions): Promise<void> {
   const cwd = path.resolve(options.cwd ?? process.cwd());
-  const progress = createProgress(4);
+  const dryRun = Boolean(options.dryRun || options.json);
+  if (!hasConfig(cwd) && !dryRun) {
+    const init =
+      options.yes ||
+      (isInteractive() && (await confirm(`No ${CONFIG_FILE} found. Initialize Stone UI now?`)));
+    if (init) await initCommand({ cwd, yes: options.yes });
+  }
+
+  const progress = createProgress(4, !dryRun);
   const config = await loadConfig(cwd);
   progress.step("Loaded Stone UI config");
 
-  if (config.framework !== "react") {
-    throw new Error(
-      `Unsupported framework "${config.framework}". Only React is supported today.`
-    );
-  }
-
-  const language = config.language ?? (detectTS(cwd) ? "ts" : "js");
+  const framework = toSupportedFramework(config.framework);
+  const language = config.language;
   const requested = Array.from(
     new Set(options.components.map((name) => name.trim()).filter(Boolean))
   );
@@ -50,70 +93,180 @@ export async function addCommand(options: AddOptions): Promise<void> {
     throw new Error("Provide at least one component to add (e.g. button).");
   }
 
-  const entries = resolveComponents(requested);
+  const resolver = createComponentResolver(
+    cwd,
+    config.registries ?? [],
+    TEMPLATE_ROOT,
+    framework
+  );
+  const graph = await resolveDependencyGraph(resolver, requested);
+  const entries = graph.components.map((item) => item.entry);
   progress.step("Resolved component manifest");
 
-  const outputDir = config.paths.outputDir;
-  const primitivesDir = config.paths.primitivesDir ?? path.posix.join(outputDir, "primitives");
-  const wrappersDir = config.paths.wrappersDir ?? path.posix.join(outputDir, "wrappers");
-  const utilsDir = config.paths.utilsDir ?? path.posix.join(outputDir, "utils");
-  const barrelFile =
-    config.paths.barrelFile ??
-    path.posix.join(outputDir, `index.${language === "ts" ? "ts" : "js"}`);
+  const implied = graph.components
+    .map(componentId)
+    .filter((id) => !requested.includes(id));
+  if (implied.length && !dryRun) {
+    log.info(`[oxitron-ui:add] Also adding dependencies: ${implied.join(", ")}`);
+  }
 
-  await ensureDirs(cwd, [outputDir, primitivesDir, wrappersDir, utilsDir]);
-  progress.step("Ensured component directories");
+  const paths = resolvePaths(config);
+  const { outputDir, primitivesDir, wrappersDir, utilsDir, barrelFile } = paths;
 
   const overwrite = Boolean(options.overwrite);
-  const componentExt = language === "ts" ? "tsx" : "jsx";
+  const componentExt = componentExtension(framework, language);
   const utilExt = language === "ts" ? "ts" : "js";
 
-  const writtenFiles: string[] = [];
-  const skippedFiles: string[] = [];
+  const rewrite = createImportRewriter(cwd, paths);
+  const writes: PlannedWrite[] = [];
 
-  const needsCn = entries.some((entry) => entry.requires.includes("cn"));
-  if (needsCn) {
-    const cnTemplate = readTemplate(
-      path.join(TEMPLATE_ROOT, "utils", `cn.${utilExt}`)
+  for (const utility of graph.utilities) {
+    const utilTemplate = rewrite(
+      await resolver.readUtilTemplate(utility.name, utilExt, utility.requiredBy),
+      templateLayoutPath("utility", `${utility.name}.${utilExt}`)
     );
-    const cnTarget = path.join(cwd, normalizeFs(utilsDir), `cn.${utilExt}`);
-    await writeFileSafe(
-      cwd,
-      cnTarget,
-      cnTemplate,
-      overwrite,
-      writtenFiles,
-      skippedFiles
+    const utilTarget = path.posix.join(utilsDir, `${utility.name}.${utilExt}`);
+    writes.push(
+      planWrite(cwd, utilTarget, utilTemplate, "utility", overwrite, (lock, file) => {
+        lock.utilities[utility.name] = {
+          name: utility.name,
+          path: file,
+          hash: hashContent(utilTemplate),
+        };
+      })
     );
   }
 
-  for (const entry of entries) {
-    const template = readTemplate(
-      path.join(
-        TEMPLATE_ROOT,
-        entry.templates[language === "ts" ? "tsx" : "jsx"]
-      )
+  const lock = await readLock(cwd);
+  // Same-named components from different registries share a file; refuse rather than skip
+  const owners = new Map(
+    Object.entries(lock.components).map(([id, locked]) => [locked.file.path, id])
+  );
+  const planned = new Map<string, string>();
+
+  for (const component of graph.components) {
+    const { entry, readTemplate: readEntryTemplate } = component;
+    const template = rewrite(
+      await readEntryTemplate(entry.templates[language === "ts" ? "tsx" : "jsx"]),
+      templateLayoutPath(entry.kind, `${entry.name}.${componentExt}`)
     );
     const targetDir =
       entry.kind === "primitive" ? primitivesDir : wrappersDir;
-    const targetFile = path.join(
-      cwd,
-      normalizeFs(targetDir),
-      `${entry.name}.${componentExt}`
+    const targetFile = path.posix.join(targetDir, `${entry.name}.${componentExt}`);
+    const id = componentId(component);
+    const other = planned.get(targetFile);
+    if (other) {
+      throw new Error(
+        `Name collision: ${other} and ${id} would both be written to ${targetFile}. ` +
+          "Add only one of them."
+      );
+    }
+    const owner = owners.get(targetFile);
+    if (owner && owner !== id) {
+      throw new Error(
+        `Name collision: ${targetFile} already belongs to ${owner}, so ${id} cannot be added. ` +
+          `Remove ${owner} first.`
+      );
+    }
+    planned.set(targetFile, id);
+    writes.push(
+      planWrite(cwd, targetFile, template, "component", overwrite, (lock, file) => {
+        lock.components[id] = {
+          name: entry.name,
+          registry: component.registry,
+          version: entry.version ?? null,
+          language,
+          kind: entry.kind,
+          file: { path: file, hash: hashContent(template) },
+          utilities: [...entry.requires],
+          dependencies: [...(entry.dependencies ?? [])],
+        };
+      })
     );
-    await writeFileSafe(
-      cwd,
-      targetFile,
-      template,
-      overwrite,
-      writtenFiles,
-      skippedFiles
+  }
+
+  const barrelPath = path.join(cwd, normalizeFs(barrelFile));
+  const barrel = await planBarrel(barrelPath, paths, entries, language);
+  const missingPackages = findMissingPackages(cwd, graph.packages);
+  const pm = toPackageManager(config.packageManager);
+
+  if (dryRun) {
+    const willWrite = writes.some((write) => write.action !== "skip");
+    const [command, args] = installCommand(pm, missingPackages);
+    printPlan(
+      {
+        command: "add",
+        components: graph.components.map((component) => ({
+          id: componentId(component),
+          version: component.entry.version ?? null,
+          dependency: !requested.includes(componentId(component)),
+        })),
+        files: [
+          ...writes.map((write) => ({ path: write.path, kind: write.kind, action: write.action })),
+          {
+            path: toPosix(barrelFile),
+            kind: "barrel",
+            action: barrel.contents === null ? "skip" : barrel.exists ? "overwrite" : "create",
+          },
+          {
+            path: LOCK_FILE,
+            kind: "lockfile",
+            action: !willWrite
+              ? "skip"
+              : fssync.existsSync(path.join(cwd, LOCK_FILE))
+                ? "overwrite"
+                : "create",
+          },
+        ],
+        barrelExports: barrel.added,
+        packages: missingPackages,
+        warnings:
+          missingPackages.length && options.install === false
+            ? [`Missing npm packages would not be installed. Install them with: ${command} ${args.join(" ")}`]
+            : [],
+      },
+      Boolean(options.json)
     );
+    return;
+  }
+
+  await ensureDirs(cwd, [outputDir, primitivesDir, wrappersDir, utilsDir]);
+  progress.step("Ensured component directories");
+
+  const writtenFiles: string[] = [];
+  const skippedFiles: string[] = [];
+
+  for (const write of writes) {
+    if (write.action === "skip") {
+      skippedFiles.push(write.path);
+      continue;
+    }
+    await fs.mkdir(path.dirname(write.abs), { recursive: true });
+    await fs.writeFile(write.abs, write.contents, "utf8");
+    await writeSnapshot(cwd, write.path, write.contents);
+    write.record(lock, write.path);
+    writtenFiles.push(write.path);
   }
 
-  await updateBarrel(path.join(cwd, normalizeFs(barrelFile)), entries, language);
+  await writeLock(cwd, lock);
+
+  if (barrel.contents !== null) {
+    await fs.mkdir(path.dirname(barrelPath), { recursive: true });
+    await fs.writeFile(barrelPath, barrel.contents, "utf8");
+  }
   progress.step("Updated barrel exports");
 
+  if (missingPackages.length) {
+    const [command, args] = installCommand(pm, missingPackages);
+    if (options.install === false) {
+      log.warn("[oxitron-ui:add] Missing npm packages. Install them with:");
+      log.muted(`  ${command} ${args.join(" ")}`);
+    } else {
+      log.info(`[oxitron-ui:add] Installing ${missingPackages.join(", ")} with ${pm}...`);
+      await installPackages(cwd, pm, missingPackages);
+    }
+  }
+
   progress.done("Completed");
 
   log.success("");
@@ -131,42 +284,6 @@ export async function addCommand(options: AddOptions): Promise<void> {
   }
 }
 
-async function loadConfig(cwd: string): Promise<StoneConfig> {
-  const configPath = path.join(cwd, CONFIG_FILE);
-  if (!fssync.existsSync(configPath)) {
-    throw new Error(
-      `Missing ${CONFIG_FILE}. Run "npx oxitron-ui init" first.`
-    );
-  }
-  const raw = await fs.readFile(configPath, "utf8");
-  return JSON.parse(raw) as StoneConfig;
-}
-
-function resolveComponents(names: string[]): ComponentManifestEntry[] {
-  const missing = new Set<string>();
-  const resolved = names.map((name) => {
-    const entry = componentManifestByName.get(name);
-    if (!entry) {
-      missing.add(name);
-      return null;
-    }
-    return entry;
-  });
-
-  if (missing.size > 0) {
-    const available = Array.from(componentManifestByName.keys()).sort().join(", ");
-    throw new Error(
-      `Unknown component(s): ${Array.from(missing).join(", ")}. Available: ${available}`
-    );
-  }
-
-  return resolved.filter((entry): entry is ComponentManifestEntry => entry !== null);
-}
-
-function detectTS(cwd: string): boolean {
-  return fssync.existsSync(path.join(cwd, "tsconfig.json"));
-}
-
 async function ensureDirs(cwd: string, dirs: string[]): Promise<void> {
   for (const dir of dirs) {
     const abs = path.join(cwd, normalizeFs(dir));
@@ -178,28 +295,36 @@ function readTemplate(templatePath: string): string {
   return fssync.readFileSync(templatePath, "utf8");
 }
 
-async function writeFileSafe(
+function planWrite(
   cwd: string,
-  targetPath: string,
+  file: string,
   contents: string,
+  kind: "component" | "utility",
   overwrite: boolean,
-  written: string[],
-  skipped: string[]
-): Promise<void> {
-  if (fssync.existsSync(targetPath) && !overwrite) {
-    skipped.push(path.relative(cwd, targetPath));
-    return;
-  }
-  await fs.mkdir(path.dirname(targetPath), { recursive: true });
-  await fs.writeFile(targetPath, contents, "utf8");
-  written.push(path.relative(cwd, targetPath));
+  record: PlannedWrite["record"]
+): PlannedWrite {
+  const abs = projectPath(cwd, file);
+  const exists = fssync.existsSync(abs);
+  return {
+    path: file,
+    abs,
+    kind,
+    action: exists ? (overwrite ? "overwrite" : "skip") : "create",
+    contents,
+    record,
+  };
 }
 
-async function updateBarrel(
+/**
+ * Computes the barrel contents after appending missing export lines
+ * @returns contents is null when the barrel is already up to date
+ */
+async function planBarrel(
   barrelPath: string,
+  paths: ResolvedPaths,
   entries: ComponentManifestEntry[],
   language: "ts" | "js"
-): Promise<void> {
+): Promise<PlannedBarrel> {
   const templatePath = path.join(
     TEMPLATE_ROOT,
     "barrel",
@@ -207,38 +332,20 @@ async function updateBarrel(
   );
   const baseTemplate = readTemplate(templatePath);
 
-  const exportLines: string[] = [];
-  for (const entry of entries) {
-    const segment = entry.kind === "primitive" ? "primitives" : "wrappers";
-    const rel = `./${segment}/${entry.name}`;
-    entry.exports.values.forEach((name) => {
-      exportLines.push(`export { ${name} } from "${rel}";`);
-    });
-    if (language === "ts") {
-      entry.exports.types.forEach((name) => {
-        exportLines.push(`export type { ${name} } from "${rel}";`);
-      });
-    }
-  }
+  const exportLines = entries.flatMap((entry) => barrelExportLines(paths, entry, language));
 
-  const existing = fssync.existsSync(barrelPath)
-    ? await fs.readFile(barrelPath, "utf8")
-    : "";
+  const exists = fssync.existsSync(barrelPath);
+  const existing = exists ? await fs.readFile(barrelPath, "utf8") : "";
   const existingLines = new Set(existing.split(/\r?\n/).map((line) => line.trim()));
 
   const newLines = exportLines.filter((line) => !existingLines.has(line.trim()));
   if (existing && newLines.length === 0) {
-    return;
+    return { exists, added: [], contents: null };
   }
 
   const mergedExports = existing
     ? `${existing.trimEnd()}\n${newLines.join("\n")}\n`
     : baseTemplate.replace("{{exports}}", newLines.join("\n")) + "\n";
 
-  await fs.mkdir(path.dirname(barrelPath), { recursive: true });
-  await fs.writeFile(barrelPath, mergedExports, "utf8");
-}
-
-function normalizeFs(p: string): string {
-  return p.replace(/\//g, path.sep);
+  return { exists, added: newLines, contents: mergedExports };
 }
@@ -0,0 +1,68 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { createComponentResolver } from "../registry/registries.js";
+import { colorize, log } from "../utils/terminal.js";
+import { resolveTemplateRoot } from "../utils/templates.js";
+import { toSupportedFramework } from "../registry/manifest.js";
+import { loadConfig, normalizeFs, resolvePaths } from "../utils/config.js";
+import { findInstalledFiles } from "../utils/project.js";
+import { unifiedDiff } from "../utils/diff.js";
+
+type DiffOptions = {
+  cwd?: string;
+  component: string;
+};
+
+const TEMPLATE_ROOT = resolveTemplateRoot(import.meta.url);
+
+/**
+ * Prints a unified diff between the current template and the installed files
+ * @param options - Command options
+ */
+export async function diffCommand(options: DiffOptions): Promise<void> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const config = await loadConfig(cwd);
+  const paths = resolvePaths(config);
+  const resolver = createComponentResolver(
+    cwd,
+    config.registries ?? [],
+    TEMPLATE_ROOT,
+    toSupportedFramework(config.framework)
+  );
+
+  const component = await resolver.find(options.component);
+  if (!component) {
+    const available = (await resolver.available()).join(", ");
+    throw new Error(`Unknown component: ${options.component}. Available: ${available}`);
+  }
+
+  const files = findInstalledFiles(cwd, paths, component, resolver);
+  if (files.length === 0) {
+    throw new Error(
+      `${options.component} is not installed. Run "npx oxitron-ui add ${options.component}" first.`
+    );
+  }
+
+  let changed = 0;
+  for (const { file, readTemplate } of files) {
+    const [template, local] = await Promise.all([
+      readTemplate(),
+      fs.readFile(path.join(cwd, normalizeFs(file)), "utf8"),
+    ]);
+    const diff = unifiedDiff(template, local, `template/${path.posix.basename(file)}`, file);
+    if (!diff) continue;
+
+    changed++;
+    for (const line of diff.trimEnd().split("\n")) {
+      if (line.startsWith("+++") || line.startsWith("---")) console.log(colorize("cyan", line));
+      else if (line.startsWith("@@")) console.log(colorize("magenta", line));
+      else if (line.startsWith("+")) console.log(colorize("green", line));
+      else if (line.startsWith("-")) console.log(colorize("red", line));
+      else console.log(line);
+    }
+  }
+
+  if (changed === 0) {
+    log.success(`[oxitron-ui:diff] ${options.component} matches the current template.`);
+  }
+}
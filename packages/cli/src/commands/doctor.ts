@@ -0,0 +1,447 @@
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import { manifestFor, type ComponentManifestEntry } from "../registry/manifest.js";
+import { colorize, log } from "../utils/terminal.js";
+import { resolveTemplateRoot } from "../utils/templates.js";
+import {
+  CONFIG_FILE,
+  normalizeFs,
+  resolvePaths,
+  readConfig,
+  type ParsedConfig,
+  type ResolvedPaths,
+  type StoneConfig,
+} from "../utils/config.js";
+import {
+  barrelExportLines,
+  barrelSpecifier,
+  findInstalledComponent,
+  installedAsTs,
+  readDependencies,
+} from "../utils/project.js";
+import {
+  TSCONFIG_FILES,
+  aliasResolvesTo,
+  createImportRewriter,
+  readPathAliases,
+  templateLayoutPath,
+} from "../utils/imports.js";
+import {
+  LOCK_FILE,
+  findLockedFile,
+  hashContent,
+  readLock,
+  type Lockfile,
+} from "../utils/lockfile.js";
+
+type DoctorOptions = {
+  cwd?: string;
+};
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+type CheckResult = {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  details?: string[];
+};
+
+const FRAMEWORK_REQUIREMENTS = {
+  react: { pkg: "react", label: "React", minMajor: 18 },
+  vue: { pkg: "vue", label: "Vue", minMajor: 3 },
+};
+
+const TAILWIND_CSS_CANDIDATES = [
+  "app/globals.css",
+  "src/app/globals.css",
+  "styles/globals.css",
+  "src/styles/globals.css",
+  "src/index.css",
+  "src/main.css",
+  "src/App.css",
+];
+
+const TAILWIND_IMPORT = /@import\s+["']tailwindcss["']|@tailwind\s+(base|components|utilities)/;
+
+const TEMPLATE_ROOT = resolveTemplateRoot(import.meta.url);
+
+/**
+ * Validates the installation and configuration, one check at a time.
+ * Sets a non-zero exit code when any check fails.
+ * @param options - Command options
+ */
+export async function doctorCommand(options: DoctorOptions): Promise<void> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const results: CheckResult[] = [];
+
+  const config = await checkConfig(cwd, results);
+  if (config) {
+    const paths = resolvePaths(config);
+    const builtin = manifestFor(config.framework);
+    results.push(checkPaths(cwd, paths));
+    results.push(checkAlias(cwd, paths));
+    results.push(await checkBarrel(cwd, paths, config.language, builtin));
+    const lock = await checkLockfile(cwd, paths, builtin, results);
+    results.push(await checkDrift(cwd, paths, builtin, lock));
+  }
+
+  const deps = readDependencies(cwd);
+  results.push(checkTailwindInstalled(deps));
+  results.push(await checkTailwindImport(cwd));
+  results.push(checkFramework(cwd, deps, config?.framework === "vue" ? "vue" : "react"));
+
+  printResults(results);
+
+  if (results.some((r) => r.status === "fail")) {
+    process.exitCode = 1;
+  }
+}
+
+async function checkConfig(cwd: string, results: CheckResult[]): Promise<StoneConfig | null> {
+  const configPath = path.join(cwd, CONFIG_FILE);
+  if (!fssync.existsSync(configPath)) {
+    results.push({
+      name: "Config",
+      status: "fail",
+      message: `Missing ${CONFIG_FILE}. Run "npx oxitron-ui init" first.`,
+    });
+    return null;
+  }
+
+  let parsedConfig: ParsedConfig;
+  try {
+    parsedConfig = await readConfig(cwd);
+  } catch (err) {
+    const [message, ...details] = (err instanceof Error ? err.message : String(err)).split("\n");
+    results.push({
+      name: "Config",
+      status: "fail",
+      message,
+      details: details.map((line) => line.replace(/^\s*- /, "")),
+    });
+    return null;
+  }
+
+  if (parsedConfig.migrated.length) {
+    results.push({
+      name: "Config",
+      status: "warn",
+      message: `${CONFIG_FILE} uses an older schema (migrated in memory). Run \`migrate\` to update the file.`,
+      details: parsedConfig.migrated,
+    });
+  } else {
+    results.push({ name: "Config", status: "pass", message: `${CONFIG_FILE} is valid.` });
+  }
+  return parsedConfig.config;
+}
+
+function checkPaths(cwd: string, paths: ResolvedPaths): CheckResult {
+  const dirs = [paths.outputDir, paths.primitivesDir, paths.wrappersDir, paths.utilsDir];
+  const missing = dirs.filter((dir) => !fssync.existsSync(path.join(cwd, normalizeFs(dir))));
+
+  if (missing.length) {
+    return {
+      name: "Paths",
+      status: "warn",
+      message: "Some configured directories do not exist yet (created by the first `add`).",
+      details: missing,
+    };
+  }
+  return { name: "Paths", status: "pass", message: "Configured directories exist." };
+}
+
+function checkAlias(cwd: string, paths: ResolvedPaths): CheckResult {
+  if (!paths.alias) {
+    return { name: "Alias", status: "pass", message: "No alias configured; using relative imports." };
+  }
+  if (aliasResolvesTo(paths.alias, paths.outputDir, readPathAliases(cwd))) {
+    return { name: "Alias", status: "pass", message: `${paths.alias} maps to ${paths.outputDir}.` };
+  }
+  return {
+    name: "Alias",
+    status: "warn",
+    message: `${paths.alias} is not mapped to ${paths.outputDir} in ${TSCONFIG_FILES.join(" / ")}; add uses relative imports.`,
+    details: [`"paths": { "${paths.alias}/*": ["./${paths.outputDir}/*"] }`],
+  };
+}
+
+async function checkBarrel(
+  cwd: string,
+  paths: ResolvedPaths,
+  language: "ts" | "js",
+  builtin: ComponentManifestEntry[]
+): Promise<CheckResult> {
+  const installed = builtin
+    .map((entry) => ({ entry, file: findInstalledComponent(cwd, paths, entry) }))
+    .filter((item) => item.file !== null);
+
+  const barrelPath = path.join(cwd, normalizeFs(paths.barrelFile));
+  if (!fssync.existsSync(barrelPath)) {
+    return installed.length
+      ? {
+          name: "Barrel",
+          status: "fail",
+          message: `Barrel file ${paths.barrelFile} is missing but components are installed.`,
+        }
+      : { name: "Barrel", status: "pass", message: "No components installed yet." };
+  }
+
+  const barrel = await fs.readFile(barrelPath, "utf8");
+  const lines = new Set(barrel.split(/\r?\n/).map((line) => line.trim()));
+  const problems: string[] = [];
+
+  for (const { entry } of installed) {
+    const rel = barrelSpecifier(paths, entry);
+    const expected = barrelExportLines(paths, entry, language);
+    const missing = expected.filter((line) => !lines.has(line));
+    if (missing.length) {
+      problems.push(`${entry.name}: missing ${missing.length} export(s) from ${rel}`);
+    }
+  }
+
+  const barrelDir = path.dirname(barrelPath);
+  const exportFrom = /^export\s+(?:type\s+)?\{[^}]*\}\s+from\s+["'](\.[^"']+)["'];?$/;
+  for (const line of lines) {
+    const match = exportFrom.exec(line);
+    if (!match) continue;
+    const target = path.join(barrelDir, normalizeFs(match[1]));
+    const exists = ["", ".tsx", ".jsx", ".ts", ".js", ".vue"].some((ext) =>
+      fssync.existsSync(`${target}${ext}`)
+    );
+    if (!exists) {
+      problems.push(`export points at a missing file: ${match[1]}`);
+    }
+  }
+
+  if (problems.length) {
+    return {
+      name: "Barrel",
+      status: "fail",
+      message: `${paths.barrelFile} does not match installed components.`,
+      details: Array.from(new Set(problems)),
+    };
+  }
+  return {
+    name: "Barrel",
+    status: "pass",
+    message: `${paths.barrelFile} exports all ${installed.length} installed component(s).`,
+  };
+}
+
+async function checkLockfile(
+  cwd: string,
+  paths: ResolvedPaths,
+  builtin: ComponentManifestEntry[],
+  results: CheckResult[]
+): Promise<Lockfile | null> {
+  let lock: Lockfile;
+  try {
+    lock = await readLock(cwd);
+  } catch (err) {
+    results.push({
+      name: "Lockfile",
+      status: "fail",
+      message: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+
+  const lockedFiles = [
+    ...Object.values(lock.components).map((c) => c.file.path),
+    ...Object.values(lock.utilities).map((u) => u.path),
+  ];
+  const missing = lockedFiles.filter((file) => !fssync.existsSync(path.join(cwd, normalizeFs(file))));
+  const unmanaged = builtin
+    .map((entry) => findInstalledComponent(cwd, paths, entry))
+    .filter((file): file is string => file !== null && !findLockedFile(lock, file));
+
+  if (missing.length) {
+    results.push({
+      name: "Lockfile",
+      status: "fail",
+      message: `Files recorded in ${LOCK_FILE} are missing. Re-add them or run \`remove\`.`,
+      details: missing,
+    });
+  } else if (unmanaged.length) {
+    results.push({
+      name: "Lockfile",
+      status: "warn",
+      message: `Installed components not recorded in ${LOCK_FILE} are treated as hand-written.`,
+      details: unmanaged,
+    });
+  } else {
+    results.push({
+      name: "Lockfile",
+      status: "pass",
+      message: `${lockedFiles.length} managed file(s) recorded.`,
+    });
+  }
+  return lock;
+}
+
+async function checkDrift(
+  cwd: string,
+  paths: ResolvedPaths,
+  builtin: ComponentManifestEntry[],
+  lock: Lockfile | null
+): Promise<CheckResult> {
+  const drifted: string[] = [];
+  let compared = 0;
+  const rewrite = createImportRewriter(cwd, paths);
+
+  const compare = async (file: string, templateRel: string, layoutPath: string) => {
+    const templatePath = path.join(TEMPLATE_ROOT, templateRel);
+    if (!fssync.existsSync(templatePath)) return;
+    compared++;
+    const local = await fs.readFile(path.join(cwd, normalizeFs(file)), "utf8");
+    const template = rewrite(await fs.readFile(templatePath, "utf8"), layoutPath);
+    if (normalizeContent(local) !== normalizeContent(template)) {
+      const locked = lock ? findLockedFile(lock, file) : null;
+      const reason = !locked
+        ? "unmanaged"
+        : locked.hash !== hashContent(template)
+          ? "template updated since install; run `update`"
+          : "local edits";
+      drifted.push(`${file} (${reason})`);
+    }
+  };
+
+  for (const entry of builtin) {
+    const file = findInstalledComponent(cwd, paths, entry);
+    if (!file) continue;
+    await compare(
+      file,
+      entry.templates[installedAsTs(cwd, file) ? "tsx" : "jsx"],
+      templateLayoutPath(entry.kind, path.posix.basename(file))
+    );
+  }
+
+  for (const ext of ["ts", "js"]) {
+    const file = path.posix.join(paths.utilsDir, `cn.${ext}`);
+    if (fssync.existsSync(path.join(cwd, normalizeFs(file)))) {
+      await compare(file, path.posix.join("utils", `cn.${ext}`), templateLayoutPath("utility", `cn.${ext}`));
+    }
+  }
+
+  if (drifted.length) {
+    return {
+      name: "Drift",
+      status: "warn",
+      message: "Installed files differ from their templates (local edits or older versions).",
+      details: drifted,
+    };
+  }
+  return {
+    name: "Drift",
+    status: "pass",
+    message: `${compared} installed file(s) match their templates.`,
+  };
+}
+
+function checkTailwindInstalled(deps: Record<string, string>): CheckResult {
+  if (deps.tailwindcss) {
+    return { name: "Tailwind", status: "pass", message: `tailwindcss ${deps.tailwindcss} is installed.` };
+  }
+  return {
+    name: "Tailwind",
+    status: "fail",
+    message: "tailwindcss is not listed in package.json. Components use Tailwind classes.",
+  };
+}
+
+async function checkTailwindImport(cwd: string): Promise<CheckResult> {
+  const existing = TAILWIND_CSS_CANDIDATES.filter((file) =>
+    fssync.existsSync(path.join(cwd, normalizeFs(file)))
+  );
+
+  for (const file of existing) {
+    const css = await fs.readFile(path.join(cwd, normalizeFs(file)), "utf8");
+    if (TAILWIND_IMPORT.test(css)) {
+      return { name: "Tailwind CSS", status: "pass", message: `${file} imports Tailwind.` };
+    }
+  }
+
+  return {
+    name: "Tailwind CSS",
+    status: "warn",
+    message: 'No global CSS file with @import "tailwindcss" found.',
+    details: existing.length ? [`checked: ${existing.join(", ")}`] : undefined,
+  };
+}
+
+function checkFramework(
+  cwd: string,
+  deps: Record<string, string>,
+  framework: keyof typeof FRAMEWORK_REQUIREMENTS
+): CheckResult {
+  const { pkg, label, minMajor } = FRAMEWORK_REQUIREMENTS[framework];
+  const installedVersion = readInstalledVersion(cwd, pkg);
+  const declared = deps[pkg];
+
+  if (!installedVersion && !declared) {
+    return { name: label, status: "fail", message: `${pkg} is not a dependency of this project.` };
+  }
+
+  const version = installedVersion ?? declared;
+  const major = parseMajor(version);
+  if (major === null) {
+    return {
+      name: label,
+      status: "warn",
+      message: `Could not determine the ${label} version from "${version}".`,
+    };
+  }
+  if (major < minMajor) {
+    return {
+      name: label,
+      status: "fail",
+      message: `${pkg} ${version} is older than the required ${minMajor}.x.`,
+    };
+  }
+  return {
+    name: label,
+    status: "pass",
+    message: `${pkg} ${version}${installedVersion ? "" : " (declared)"} meets >=${minMajor}.`,
+  };
+}
+
+function readInstalledVersion(cwd: string, pkgName: string): string | null {
+  try {
+    const pkgPath = path.join(cwd, "node_modules", pkgName, "package.json");
+    return JSON.parse(fssync.readFileSync(pkgPath, "utf8")).version ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function parseMajor(range: string): number | null {
+  const match = /(\d+)/.exec(range);
+  return match ? Number(match[1]) : null;
+}
+
+function normalizeContent(content: string): string {
+  return content.replace(/\r\n/g, "\n").trimEnd();
+}
+
+function printResults(results: CheckResult[]): void {
+  const icons: Record<CheckStatus, string> = {
+    pass: colorize("green", "✔"),
+    warn: colorize("yellow", "!"),
+    fail: colorize("red", "✖"),
+  };
+  const width = Math.max(...results.map((r) => r.name.length));
+
+  log.info("[oxitron-ui:doctor] Checks:");
+  for (const r of results) {
+    console.log(`  ${icons[r.status]} ${r.name.padEnd(width)}  ${r.message}`);
+    r.details?.forEach((detail) => log.muted(`      - ${detail}`));
+  }
+
+  const count = (status: CheckStatus) => results.filter((r) => r.status === status).length;
+  log.info("");
+  const summary = `${count("pass")} passed, ${count("warn")} warning(s), ${count("fail")} failed`;
+  if (count("fail")) log.error(`[oxitron-ui:doctor] ${summary}`);
+  else log.success(`[oxitron-ui:doctor] ${summary}`);
+}
@@ -1,46 +1,43 @@
 import * as fs from "node:fs/promises";
 import * as fssync from "node:fs";
 import * as path from "node:path";
-import { createProgress, log } from "../utils/terminal.js";
-
-type PackageManager = "pnpm" | "npm" | "yarn" | "bun";
-
-type Framework = "react" | "vue" | "svelte" | "unknown";
-
-type ProjectType =
-  | "next-app-router"
-  | "next-pages-router"
-  | "vite-react"
-  | "cra"
-  | "unknown";
-
-type StyleStrategy = "tailwind";
+import { ask, createProgress, isInteractive, log } from "../utils/terminal.js";
+import { printPlan, type PlannedAction } from "../utils/plan.js";
+import { TSCONFIG_FILES, aliasFor, aliasResolvesTo, readPathAliases } from "../utils/imports.js";
+import type { PackageManager } from "../utils/packages.js";
+import { CONFIG_SCHEMA, CONFIG_SCHEMA_URL } from "../utils/migrations.js";
+import {
+  CONFIG_FILE,
+  type Framework,
+  type ProjectType,
+  type StoneConfig,
+} from "../utils/config.js";
 
 type InitOptions = {
   cwd?: string;
   pm?: string;
   overwriteConfig?: boolean;
+  /**
+   * Skip prompts and take detected defaults for anything not passed as a flag.
+   */
+  yes?: boolean;
+  outputDir?: string;
+  primitivesDir?: string;
+  wrappersDir?: string;
+  utilsDir?: string;
+  language?: string;
+  alias?: string;
+  /**
+   * Print the plan instead of writing anything.
+   */
+  dryRun?: boolean;
+  /**
+   * Print the plan as JSON (implies dryRun).
+   */
+  json?: boolean;
 };
 
-type StoneConfig = {
-  schema: "oxitron-ui@1";
-  framework: Framework;
-  projectType: ProjectType;
-  language: "ts" | "js";
-  packageManager: PackageManager;
-  paths: {
-    outputDir: string;
-    primitivesDir: string;
-    wrappersDir: string;
-    utilsDir: string;
-    barrelFile: string;
-  };
-  styles: {
-    strategy: StyleStrategy;
-  };
-};
-
-const CONFIG_FILE = "oxitron-ui.config.json";
+const DEFAULT_ALIAS = "@/components/oxitron-ui";
 
 /**
  * Main initialization command that sets up Stone UI in a project
@@ -60,29 +57,61 @@ export async function initCommand(opts: InitOptions): Promise<void> {
   const pm = normalizePackageManager(opts.pm) ?? detectPackageManager(cwd);
   const framework = detectFramework(cwd);
   const projectType = detectProjectType(cwd);
-  const language = detectTS(cwd) ? "ts" : "js";
 
-  if (framework !== "react") {
+  if (framework !== "react" && framework !== "vue") {
     throw new Error(
-      `Unsupported framework: ${framework}. Stone UI CLI currently supports React.`
+      `Unsupported framework: ${framework}. Stone UI CLI currently supports React and Vue.`
     );
   }
 
-  const outputDir = "src/components/oxitron-ui";
-  const primitivesDir = path.posix.join(outputDir, "primitives");
-  const wrappersDir = path.posix.join(outputDir, "wrappers");
-  const utilsDir = path.posix.join(outputDir, "utils");
-  const barrelFile = path.posix.join(
-    outputDir.replace(/\\/g, "/"),
-    `index.${language === "ts" ? "ts" : "js"}`
+  // Flags always win; prompts only fill in what was not passed
+  const interactive = !opts.yes && !opts.json && isInteractive();
+  const choose = async (flag: string | undefined, question: string, fallback: string) =>
+    flag ?? (interactive ? ask(question, fallback) : fallback);
+
+  const outputDir = normalizeDir(
+    await choose(opts.outputDir, "Where should components go?", defaultOutputDir(cwd)),
+    "output dir"
+  );
+  const primitivesDir = normalizeDir(
+    await choose(opts.primitivesDir, "Primitives directory:", path.posix.join(outputDir, "primitives")),
+    "primitives dir"
+  );
+  const wrappersDir = normalizeDir(
+    await choose(opts.wrappersDir, "Wrappers directory:", path.posix.join(outputDir, "wrappers")),
+    "wrappers dir"
   );
+  const utilsDir = normalizeDir(
+    await choose(opts.utilsDir, "Utilities directory:", path.posix.join(outputDir, "utils")),
+    "utils dir"
+  );
+  const language = normalizeLanguage(
+    await choose(opts.language, "Language (ts/js):", detectTS(cwd) ? "ts" : "js")
+  );
+  const pathAliases = readPathAliases(cwd);
+  const alias = (
+    await choose(
+      opts.alias,
+      "Import alias for the components directory:",
+      aliasFor(outputDir, pathAliases) ?? DEFAULT_ALIAS
+    )
+  ).trim();
+  if (!alias) {
+    throw new Error("Import alias must not be empty (e.g. @/components/oxitron-ui).");
+  }
+  // An alias that tsconfig/jsconfig cannot resolve would only break imports; leave it unset
+  const aliasMapped = aliasResolvesTo(alias, outputDir, pathAliases);
+
+  const barrelFile = path.posix.join(outputDir, `index.${language === "ts" ? "ts" : "js"}`);
 
   const config: StoneConfig = {
-    schema: "oxitron-ui@1",
+    $schema: CONFIG_SCHEMA_URL,
+    schema: CONFIG_SCHEMA,
     framework,
     projectType,
     language,
     packageManager: pm,
+    ...(aliasMapped ? { alias } : {}),
     paths: {
       outputDir,
       primitivesDir,
@@ -95,11 +124,44 @@ export async function initCommand(opts: InitOptions): Promise<void> {
     },
   };
 
+  const aliasWarning = aliasMapped
+    ? null
+    : `Alias ${alias} is not mapped in ${TSCONFIG_FILES.join(" / ")}, so it was left out of the config ` +
+      `and generated code uses relative imports. To use it, add "paths": { "${alias}/*": ` +
+      `["./${outputDir}/*"] } and set "alias" in ${CONFIG_FILE}.`;
+  const warnings = aliasWarning ? [aliasWarning] : [];
+  if (!detectTailwind(cwd)) {
+    warnings.push("Tailwind CSS not detected. Components use Tailwind classes.");
+  }
+
+  if (opts.dryRun || opts.json) {
+    const configExists = fssync.existsSync(path.join(cwd, CONFIG_FILE));
+    const action: PlannedAction = !configExists
+      ? "create"
+      : opts.overwriteConfig
+        ? "overwrite"
+        : "skip";
+    printPlan(
+      {
+        command: "init",
+        files: [{ path: CONFIG_FILE, kind: "config", action }],
+        config,
+        warnings,
+      },
+      Boolean(opts.json)
+    );
+    return;
+  }
+
   const progress = createProgress(2);
 
   await writeConfig(cwd, config, Boolean(opts.overwriteConfig));
   progress.step("Wrote oxitron-ui.config.json");
 
+  if (aliasWarning) {
+    log.warn(`[oxitron-ui:init] ${aliasWarning}`);
+  }
+
   const hasTailwind = detectTailwind(cwd);
   if (hasTailwind) {
     log.success("[oxitron-ui:init] Tailwind CSS detected.");
@@ -118,6 +180,8 @@ export async function initCommand(opts: InitOptions): Promise<void> {
   log.info(`- Framework: ${framework}`);
   log.info(`- Project: ${projectType}`);
   log.info(`- Package manager: ${pm}`);
+  const imports = aliasMapped ? `imported as ${alias}` : "relative imports";
+  log.info(`- Components: ${outputDir} (${language}, ${imports})`);
   log.info(`- Config: ${CONFIG_FILE}`);
   log.info("");
   log.info("Next:");
@@ -149,6 +213,43 @@ function detectPackageManager(cwd: string): PackageManager {
   return "npm";
 }
 
+/**
+ * Default output dir: under src/ when the project has one (Vite, CRA, Next.js
+ * with src/), at the project root otherwise (Next.js without src/)
+ * @param cwd - Current working directory
+ */
+function defaultOutputDir(cwd: string): string {
+  const src = path.join(cwd, "src");
+  const hasSrc = fssync.existsSync(src) && fssync.statSync(src).isDirectory();
+  return hasSrc ? "src/components/oxitron-ui" : "components/oxitron-ui";
+}
+
+/**
+ * Normalizes a directory answer/flag to a posix path relative to cwd
+ * @param value - Raw input
+ * @param label - Used in error messages
+ */
+function normalizeDir(value: string, label: string): string {
+  const dir = path.posix.normalize(value.trim().replace(/\\/g, "/")).replace(/\/+$/, "");
+  if (!dir || dir === ".") {
+    throw new Error(`The ${label} must not be empty.`);
+  }
+  if (path.posix.isAbsolute(dir) || /^[a-zA-Z]:/.test(dir) || dir === ".." || dir.startsWith("../")) {
+    throw new Error(`The ${label} must be a path inside the project (got "${value}").`);
+  }
+  return dir.replace(/^\.\//, "");
+}
+
+/**
+ * Parses the language answer/flag
+ */
+function normalizeLanguage(value: string): "ts" | "js" {
+  const v = value.trim().toLowerCase();
+  if (v === "ts" || v === "typescript") return "ts";
+  if (v === "js" || v === "javascript") return "js";
+  throw new Error(`Unsupported language "${value}". Use "ts" or "js".`);
+}
+
 /**
  * Checks if TypeScript is configured in the project
  * @param cwd - Current working directory
@@ -184,7 +285,7 @@ function detectFramework(cwd: string): Framework {
 }
 
 /**
- * Detects the type of React project based on structure and dependencies
+ * Detects the type of React or Vue project based on structure and dependencies
  * @param cwd - Current working directory
  * @returns Detected ProjectType
  */
@@ -194,6 +295,11 @@ function detectProjectType(cwd: string): ProjectType {
     fssync.existsSync(path.join(cwd, "next.config.mjs")) ||
     fssync.existsSync(path.join(cwd, "next.config.ts"));
 
+  const hasNuxtConfig =
+    fssync.existsSync(path.join(cwd, "nuxt.config.ts")) ||
+    fssync.existsSync(path.join(cwd, "nuxt.config.js"));
+  if (hasNuxtConfig) return "nuxt";
+
   if (
     hasNextConfig ||
     fssync.existsSync(path.join(cwd, "node_modules", "next"))
@@ -210,7 +316,9 @@ function detectProjectType(cwd: string): ProjectType {
     const pkg = JSON.parse(fssync.readFileSync(pkgPath, "utf8"));
     const deps = { ...(pkg.dependencies ?? {}), ...(pkg.devDependencies ?? {}) };
 
+    if (deps.nuxt) return "nuxt";
     if (deps.vite && deps.react) return "vite-react";
+    if (deps.vite && deps.vue) return "vite-vue";
     if (deps["react-scripts"]) return "cra";
   } catch (err) {
     log.warn(`[oxitron-ui:init] Could not parse package.json: ${err}`);
@@ -264,6 +372,12 @@ function printTailwindInstructions(projectType: ProjectType): void {
     case "cra":
       log.info("Typical file: src/index.css");
       break;
+    case "vite-vue":
+      log.info("Typical file: src/style.css (imported from src/main.ts)");
+      break;
+    case "nuxt":
+      log.info("Typical file: assets/css/main.css (listed under css in nuxt.config)");
+      break;
     default:
       log.info("Typical file: src/index.css or src/main.css");
   }
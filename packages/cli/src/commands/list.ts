@@ -0,0 +1,95 @@
+import * as path from "node:path";
+import { componentManifest, manifestFor, type ComponentKind } from "../registry/manifest.js";
+import { colorize, log } from "../utils/terminal.js";
+import { CONFIG_FILE, hasConfig, loadConfig, resolvePaths } from "../utils/config.js";
+import { findInstalledComponent } from "../utils/project.js";
+
+type ListOptions = {
+  cwd?: string;
+  json?: boolean;
+};
+
+type ListedComponent = {
+  name: string;
+  kind: ComponentKind;
+  framework: string;
+  description: string;
+  requires: string[];
+  dependencies: string[];
+  packages: string[];
+  /**
+   * null when there is no config to check against.
+   */
+  installed: boolean | null;
+  path: string | null;
+};
+
+/**
+ * Lists manifest components and marks the ones already present in the project
+ * @param options - Command options
+ */
+export async function listCommand(options: ListOptions): Promise<void> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const configured = hasConfig(cwd);
+  const config = configured ? await loadConfig(cwd) : null;
+  const paths = config ? resolvePaths(config) : null;
+
+  const entries = config ? manifestFor(config.framework) : componentManifest;
+
+  const components: ListedComponent[] = entries.map((entry) => {
+    if (!paths) {
+      return {
+        name: entry.name,
+        kind: entry.kind,
+        framework: entry.framework,
+        description: entry.description,
+        requires: [...entry.requires],
+        dependencies: [...(entry.dependencies ?? [])],
+        packages: [...(entry.packages ?? [])],
+        installed: null,
+        path: null,
+      };
+    }
+
+    const installedFile = findInstalledComponent(cwd, paths, entry);
+    return {
+      name: entry.name,
+      kind: entry.kind,
+      framework: entry.framework,
+      description: entry.description,
+      requires: [...entry.requires],
+      dependencies: [...(entry.dependencies ?? [])],
+      packages: [...(entry.packages ?? [])],
+      installed: installedFile !== null,
+      path: installedFile,
+    };
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify({ configured, components }, null, 2));
+    return;
+  }
+
+  const nameWidth = Math.max(...components.map((c) => c.name.length));
+  const kindWidth = Math.max(...components.map((c) => c.kind.length));
+
+  log.info("[oxitron-ui:list] Available components:");
+  log.info("");
+  for (const c of components) {
+    const status = c.installed ? colorize("green", " [installed]") : "";
+    console.log(
+      `  ${c.name.padEnd(nameWidth)}  ${colorize("gray", c.kind.padEnd(kindWidth))}  ${c.description}${status}`
+    );
+    const indent = " ".repeat(nameWidth + kindWidth + 6);
+    if (c.requires.length) log.muted(`${indent}requires: ${c.requires.join(", ")}`);
+    if (c.dependencies.length) log.muted(`${indent}components: ${c.dependencies.join(", ")}`);
+    if (c.packages.length) log.muted(`${indent}packages: ${c.packages.join(", ")}`);
+  }
+
+  if (!configured) {
+    log.info("");
+    log.warn(
+      `[oxitron-ui:list] No ${CONFIG_FILE} found. Run "npx oxitron-ui init" to track installed components.`
+    );
+  }
+}
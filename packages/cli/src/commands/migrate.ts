@@ -0,0 +1,52 @@
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import { log } from "../utils/terminal.js";
+import { CONFIG_FILE, parseConfig } from "../utils/config.js";
+import { CONFIG_SCHEMA } from "../utils/migrations.js";
+
+type MigrateOptions = {
+  cwd?: string;
+  /**
+   * Print the migrated config instead of writing it.
+   */
+  dryRun?: boolean;
+};
+
+/**
+ * Rewrites oxitron-ui.config.json at the current schema version
+ * @param options - Command options
+ */
+export async function migrateCommand(options: MigrateOptions): Promise<void> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const configPath = path.join(cwd, CONFIG_FILE);
+  if (!fssync.existsSync(configPath)) {
+    throw new Error(`Missing ${CONFIG_FILE}. Run "npx oxitron-ui init" first.`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(configPath, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `${CONFIG_FILE} is not valid JSON: ${err instanceof Error ? err.message : err}`
+    );
+  }
+
+  // Validates the result too, so a broken file is never written back
+  const { config, migrated } = parseConfig(raw);
+  if (migrated.length === 0) {
+    log.success(`[oxitron-ui:migrate] ${CONFIG_FILE} is already at ${CONFIG_SCHEMA}.`);
+    return;
+  }
+
+  const json = JSON.stringify(config, null, 2) + "\n";
+  if (options.dryRun) {
+    log.info(`[oxitron-ui:migrate] Dry run, ${CONFIG_FILE} would become:`);
+    console.log(json);
+  } else {
+    await fs.writeFile(configPath, json, "utf8");
+    log.success(`[oxitron-ui:migrate] Updated ${CONFIG_FILE} to ${CONFIG_SCHEMA}.`);
+  }
+  migrated.forEach((step) => log.muted(`  - ${step}`));
+}
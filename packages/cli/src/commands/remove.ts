@@ -0,0 +1,277 @@
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import { manifestFor, type ComponentManifestEntry } from "../registry/manifest.js";
+import { log } from "../utils/terminal.js";
+import {
+  loadConfig,
+  normalizeFs,
+  projectPath,
+  resolvePaths,
+  toPosix,
+  type ResolvedPaths,
+} from "../utils/config.js";
+import { findInstalledComponent } from "../utils/project.js";
+import { removeSnapshot } from "../utils/snapshots.js";
+import { findImporters } from "../utils/imports.js";
+import {
+  LOCK_FILE,
+  hashContent,
+  readLock,
+  writeLock,
+  type LockedFile,
+  type Lockfile,
+} from "../utils/lockfile.js";
+
+type RemoveOptions = {
+  cwd?: string;
+  components: string[];
+  /**
+   * Also remove files with local edits and components missing from the lockfile.
+   */
+  force?: boolean;
+};
+
+/**
+ * An installed component, from the lockfile or (for hand-written copies of
+ * built-in components) from the manifest.
+ */
+type InstalledComponent = {
+  id: string;
+  name: string;
+  kind: "primitive" | "wrapper";
+  /**
+   * Posix path relative to cwd.
+   */
+  file: string;
+  utilities: string[];
+  dependencies: string[];
+  locked: boolean;
+};
+
+/**
+ * Deletes installed components, their barrel exports, and utilities nothing uses any more
+ * @param options - Command options
+ */
+export async function removeCommand(options: RemoveOptions): Promise<void> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const config = await loadConfig(cwd);
+  const paths = resolvePaths(config);
+  const lock = await readLock(cwd);
+  const force = Boolean(options.force);
+
+  const requested = Array.from(
+    new Set(options.components.map((name) => name.trim()).filter(Boolean))
+  );
+  if (requested.length === 0) {
+    throw new Error("Provide at least one component to remove (e.g. button).");
+  }
+
+  const builtin = manifestFor(config.framework);
+  const installed = listInstalled(cwd, paths, lock, builtin);
+  const notInstalled = requested.filter((id) => !installed.has(id));
+  if (notInstalled.length) {
+    const names = Array.from(installed.keys()).sort().join(", ") || "none";
+    throw new Error(`Not installed: ${notInstalled.join(", ")}. Installed: ${names}`);
+  }
+
+  const removing: InstalledComponent[] = [];
+  for (const id of requested) {
+    const component = installed.get(id)!;
+    const reason = await keepReason(
+      cwd,
+      component.file,
+      component.locked ? lock.components[component.id].file : undefined
+    );
+    if (reason && !force) {
+      log.warn(`[oxitron-ui:remove] Skipping ${id}: ${reason}. Re-run with --force to remove it.`);
+      continue;
+    }
+    removing.push(component);
+  }
+  if (removing.length === 0) return;
+
+  const removedIds = new Set(removing.map((c) => c.id));
+  const remaining = Array.from(installed.values()).filter((c) => !removedIds.has(c.id));
+
+  for (const component of removing) {
+    const dependents = remaining
+      .filter((c) => c.dependencies.some((dep) => dependencyId(dep, c.id, builtin) === component.id))
+      .map((c) => c.id);
+    if (dependents.length) {
+      log.warn(
+        `[oxitron-ui:remove] ${component.id} is still used by ${dependents.join(", ")}; they will not compile until it is re-added.`
+      );
+    }
+  }
+
+  // Utilities are shared; only drop the ones no remaining component requires
+  const stillRequired = new Set(remaining.flatMap((c) => c.utilities));
+  const candidates = new Set(removing.flatMap((c) => c.utilities));
+  const utilExt = config.language === "ts" ? "ts" : "js";
+  let unusedUtilities: { name: string; file: string }[] = [];
+  for (const name of candidates) {
+    if (stillRequired.has(name)) continue;
+    const locked = lock.utilities[name];
+    const file = locked?.path ?? path.posix.join(paths.utilsDir, `${name}.${utilExt}`);
+    const reason = await keepReason(cwd, file, locked);
+    if (reason && !force) {
+      log.warn(`[oxitron-ui:remove] Keeping ${file}: ${reason}. Re-run with --force to remove it.`);
+      continue;
+    }
+    unusedUtilities.push({ name, file });
+  }
+
+  // Project code may import a utility directly; a kept utility keeps its own imports alive
+  for (;;) {
+    const deleting = [...removing.map((c) => c.file), ...unusedUtilities.map((u) => u.file)];
+    const importers = findImporters(cwd, unusedUtilities.map((u) => u.file), deleting);
+    if (importers.size === 0) break;
+    for (const [file, importedBy] of importers) {
+      log.warn(`[oxitron-ui:remove] Keeping ${file}: still imported by ${importedBy.join(", ")}.`);
+    }
+    unusedUtilities = unusedUtilities.filter((u) => !importers.has(u.file));
+  }
+
+  // Check every path before deleting anything, so a bad lockfile entry stops the whole removal
+  for (const file of [...removing.map((c) => c.file), ...unusedUtilities.map((u) => u.file)]) {
+    projectPath(cwd, file);
+  }
+
+  const removedFiles: string[] = [];
+  for (const component of removing) {
+    await deleteFile(cwd, component.file, removedFiles);
+    delete lock.components[component.id];
+  }
+  for (const { name, file } of unusedUtilities) {
+    await deleteFile(cwd, file, removedFiles);
+    delete lock.utilities[name];
+  }
+
+  const barrelPath = path.join(cwd, normalizeFs(paths.barrelFile));
+  const strippedExports = await stripBarrel(cwd, barrelPath, removing);
+
+  if (fssync.existsSync(path.join(cwd, LOCK_FILE))) {
+    await writeLock(cwd, lock);
+  }
+
+  log.success("[oxitron-ui:remove] Done.");
+  if (removedFiles.length) {
+    log.info("Removed:");
+    removedFiles.forEach((file) => log.muted(`  - ${file}`));
+  }
+  if (strippedExports) {
+    log.info(`Removed ${strippedExports} export(s) from ${paths.barrelFile}`);
+  }
+}
+
+function listInstalled(
+  cwd: string,
+  paths: ResolvedPaths,
+  lock: Lockfile,
+  builtin: ComponentManifestEntry[]
+): Map<string, InstalledComponent> {
+  const installed = new Map<string, InstalledComponent>();
+
+  for (const [id, locked] of Object.entries(lock.components)) {
+    if (!fssync.existsSync(path.join(cwd, normalizeFs(locked.file.path)))) continue;
+    installed.set(id, {
+      id,
+      name: locked.name,
+      kind: locked.kind,
+      file: locked.file.path,
+      utilities: locked.utilities,
+      dependencies: locked.dependencies,
+      locked: true,
+    });
+  }
+
+  for (const entry of builtin) {
+    if (installed.has(entry.name)) continue;
+    const file = findInstalledComponent(cwd, paths, entry);
+    if (!file) continue;
+    installed.set(entry.name, {
+      id: entry.name,
+      name: entry.name,
+      kind: entry.kind,
+      file,
+      utilities: [...entry.requires],
+      dependencies: [...(entry.dependencies ?? [])],
+      locked: false,
+    });
+  }
+
+  return installed;
+}
+
+/**
+ * Why a file should survive removal without --force
+ * @param locked - Lock entry of the file, if the CLI wrote it
+ * @returns null when the file is missing or unchanged since the CLI wrote it
+ */
+async function keepReason(
+  cwd: string,
+  file: string,
+  locked: LockedFile | undefined
+): Promise<string | null> {
+  const abs = projectPath(cwd, file);
+  if (!fssync.existsSync(abs)) return null;
+  if (!locked) return `not recorded in ${LOCK_FILE} (hand-written?)`;
+  const local = await fs.readFile(abs, "utf8");
+  return hashContent(local) === locked.hash ? null : "it has local edits";
+}
+
+/**
+ * Id of a declared dependency: unscoped names from a registry component
+ * resolve within that registry first.
+ */
+function dependencyId(dep: string, fromId: string, builtin: ComponentManifestEntry[]): string {
+  if (dep.startsWith("@")) return dep;
+  const scope = /^(@[^/]+)\//.exec(fromId)?.[1];
+  return scope && !builtin.some((entry) => entry.name === dep) ? `${scope}/${dep}` : dep;
+}
+
+async function deleteFile(cwd: string, file: string, removed: string[]): Promise<void> {
+  const abs = projectPath(cwd, file);
+  if (fssync.existsSync(abs)) {
+    await fs.rm(abs);
+    removed.push(file);
+  }
+  await removeSnapshot(cwd, file);
+}
+
+/**
+ * Drops `export` / `export type` lines that point at removed component files
+ * @returns Number of lines removed
+ */
+async function stripBarrel(
+  cwd: string,
+  barrelPath: string,
+  removing: InstalledComponent[]
+): Promise<number> {
+  if (!fssync.existsSync(barrelPath)) return 0;
+
+  const barrelDir = path.dirname(barrelPath);
+  const targets = new Set<string>();
+  for (const component of removing) {
+    const segment = component.kind === "primitive" ? "primitives" : "wrappers";
+    targets.add(`./${segment}/${component.name}`);
+    const abs = path.join(cwd, normalizeFs(component.file));
+    const rel = toPosix(path.relative(barrelDir, abs)).replace(/\.([jt]sx?|vue)$/, "");
+    targets.add(rel.startsWith(".") ? rel : `./${rel}`);
+  }
+
+  const exportFrom = /^export\s+(?:type\s+)?(?:\{[^}]*\}|\*)\s+from\s+["'](\.[^"']+)["'];?$/;
+  const barrel = await fs.readFile(barrelPath, "utf8");
+  const lines = barrel.split(/\r?\n/);
+  const kept = lines.filter((line) => {
+    const match = exportFrom.exec(line.trim());
+    return !match || !targets.has(match[1].replace(/\.([jt]sx?|vue)$/, ""));
+  });
+
+  const removedCount = lines.length - kept.length;
+  if (removedCount > 0) {
+    await fs.writeFile(barrelPath, kept.join("\n"), "utf8");
+  }
+  return removedCount;
+}
@@ -0,0 +1,191 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+  createComponentResolver,
+  type ResolvedComponent,
+} from "../registry/registries.js";
+import { log } from "../utils/terminal.js";
+import { resolveTemplateRoot } from "../utils/templates.js";
+import { toSupportedFramework } from "../registry/manifest.js";
+import { loadConfig, projectPath, resolvePaths } from "../utils/config.js";
+import { findInstalledFiles } from "../utils/project.js";
+import { readSnapshot, writeSnapshot } from "../utils/snapshots.js";
+import { merge3, splitLines } from "../utils/diff.js";
+import {
+  LOCK_FILE,
+  findLockedFile,
+  hashContent,
+  readLock,
+  writeLock,
+  type Lockfile,
+} from "../utils/lockfile.js";
+import { componentId } from "../registry/dependencies.js";
+
+type UpdateOptions = {
+  cwd?: string;
+  components: string[];
+  /**
+   * Replace files that have no recorded base with the template.
+   */
+  force?: boolean;
+};
+
+type FileOutcome = "up-to-date" | "updated" | "merged" | "conflict" | "kept" | "no-base";
+
+const TEMPLATE_ROOT = resolveTemplateRoot(import.meta.url);
+
+/**
+ * Pulls template changes into installed components with a three-way merge
+ * against the base recorded by add/update, so local edits survive.
+ * Sets a non-zero exit code when any file is left with conflict markers.
+ * @param options - Command options
+ */
+export async function updateCommand(options: UpdateOptions): Promise<void> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const config = await loadConfig(cwd);
+  const paths = resolvePaths(config);
+  const resolver = createComponentResolver(
+    cwd,
+    config.registries ?? [],
+    TEMPLATE_ROOT,
+    toSupportedFramework(config.framework)
+  );
+
+  const lock = await readLock(cwd);
+  const targets: ResolvedComponent[] = [];
+  if (options.components.length) {
+    for (const name of options.components) {
+      const component = await resolver.find(name);
+      if (!component) {
+        const available = (await resolver.available()).join(", ");
+        throw new Error(`Unknown component: ${name}. Available: ${available}`);
+      }
+      targets.push(component);
+    }
+  } else {
+    // Only components recorded in the lockfile are managed by the CLI
+    for (const id of Object.keys(lock.components)) {
+      const component = await resolver.find(id);
+      if (!component) {
+        log.warn(`[oxitron-ui:update] ${id} is in ${LOCK_FILE} but no longer in any registry; skipping.`);
+        continue;
+      }
+      targets.push(component);
+    }
+  }
+
+  const installed = targets.map((component) => ({
+    component,
+    files: findInstalledFiles(cwd, paths, component, resolver),
+  }));
+  // Check every path before writing anything
+  for (const { files } of installed) {
+    for (const { file } of files) projectPath(cwd, file);
+  }
+
+  const outcomes = new Map<string, FileOutcome>();
+  for (const { component, files } of installed) {
+    if (files.length === 0) {
+      log.warn(`[oxitron-ui:update] ${component.entry.name} is not installed; skipping.`);
+      continue;
+    }
+    for (const { file, readTemplate } of files) {
+      // Utilities are shared between components; update each once
+      if (outcomes.has(file)) continue;
+      const template = await readTemplate();
+      const outcome = await updateFile(cwd, file, template, Boolean(options.force));
+      outcomes.set(file, outcome);
+      if (outcome !== "no-base" && outcome !== "kept") {
+        recordTemplate(lock, file, template);
+      }
+    }
+    const locked = lock.components[componentId(component)];
+    if (locked) locked.version = component.entry.version ?? null;
+  }
+
+  if (Object.keys(lock.components).length || Object.keys(lock.utilities).length) {
+    await writeLock(cwd, lock);
+  }
+  report(outcomes);
+
+  const conflicted = Array.from(outcomes)
+    .filter(([, outcome]) => outcome === "conflict")
+    .map(([file]) => file);
+  if (conflicted.length) {
+    log.error(`[oxitron-ui:update] ${conflicted.length} file(s) have merge conflicts:`);
+    conflicted.forEach((file) => log.error(`  - ${file}`));
+    process.exitCode = 1;
+  }
+}
+
+async function updateFile(
+  cwd: string,
+  file: string,
+  template: string,
+  force: boolean
+): Promise<FileOutcome> {
+  const abs = projectPath(cwd, file);
+  const local = await fs.readFile(abs, "utf8");
+  const base = await readSnapshot(cwd, file);
+
+  if (same(local, template)) {
+    if (base === null || !same(base, template)) await writeSnapshot(cwd, file, template);
+    return "up-to-date";
+  }
+
+  if (base === null) {
+    if (!force) return "no-base";
+    await fs.writeFile(abs, template, "utf8");
+    await writeSnapshot(cwd, file, template);
+    return "updated";
+  }
+
+  if (same(base, template)) return "kept";
+
+  if (same(local, base)) {
+    await fs.writeFile(abs, template, "utf8");
+    await writeSnapshot(cwd, file, template);
+    return "updated";
+  }
+
+  const merged = merge3(base, local, template, { ours: "local", theirs: "template" });
+  await fs.writeFile(abs, merged.text, "utf8");
+  await writeSnapshot(cwd, file, template);
+  return merged.conflicts > 0 ? "conflict" : "merged";
+}
+
+/**
+ * Points the lock entry owning a file at the template it is now based on.
+ */
+function recordTemplate(lock: Lockfile, file: string, template: string): void {
+  const locked = findLockedFile(lock, file);
+  if (locked) locked.hash = hashContent(template);
+}
+
+function same(a: string, b: string): boolean {
+  return splitLines(a).join("\n") === splitLines(b).join("\n");
+}
+
+function report(outcomes: Map<string, FileOutcome>): void {
+  const messages: Record<FileOutcome, string> = {
+    "up-to-date": "already up to date",
+    updated: "updated to the latest template",
+    merged: "merged template changes with local edits",
+    conflict: "merged with conflicts; resolve the <<<<<<< markers",
+    kept: "local edits kept (no template changes)",
+    "no-base": "no recorded base; use `diff` to review or --force to replace",
+  };
+
+  log.info("[oxitron-ui:update] Results:");
+  for (const [file, outcome] of outcomes) {
+    const line = `  - ${file}: ${messages[outcome]}`;
+    if (outcome === "conflict") log.error(line);
+    else if (outcome === "no-base") log.warn(line);
+    else if (outcome === "up-to-date" || outcome === "kept") log.muted(line);
+    else log.success(line);
+  }
+
+  if (outcomes.size === 0) {
+    log.muted("  Nothing installed to update.");
+  }
+}
@@ -1,2 +1,8 @@
 export { initCommand } from "./commands/init.js";
 export { addCommand } from "./commands/add.js";
+export { listCommand } from "./commands/list.js";
+export { doctorCommand } from "./commands/doctor.js";
+export { diffCommand } from "./commands/diff.js";
+export { updateCommand } from "./commands/update.js";
+export { removeCommand } from "./commands/remove.js";
+export { migrateCommand } from "./commands/migrate.js";
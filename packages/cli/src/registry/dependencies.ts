@@ -0,0 +1,114 @@
+import type { ComponentResolver, ResolvedComponent } from "./registries.js";
+
+export type ResolvedUtility = {
+  name: string;
+  /**
+   * First component that required it (decides where a non built-in template comes from).
+   */
+  requiredBy: ResolvedComponent;
+};
+
+export type DependencyGraph = {
+  /**
+   * Components in install order: dependencies before dependents.
+   */
+  components: ResolvedComponent[];
+  utilities: ResolvedUtility[];
+  /**
+   * npm package specs, deduplicated by package name.
+   */
+  packages: string[];
+};
+
+/**
+ * Resolves requested components plus everything they depend on
+ * @param resolver - Component resolver (built-in manifest + registries)
+ * @param names - Requested component names
+ * @returns Components in topological order with their utilities and npm packages
+ */
+export async function resolveDependencyGraph(
+  resolver: ComponentResolver,
+  names: string[]
+): Promise<DependencyGraph> {
+  const roots: ResolvedComponent[] = [];
+  const missing: string[] = [];
+  for (const name of names) {
+    const component = await resolver.find(name);
+    if (component) roots.push(component);
+    else missing.push(name);
+  }
+
+  if (missing.length > 0) {
+    const available = (await resolver.available()).join(", ");
+    throw new Error(
+      `Unknown component(s): ${missing.join(", ")}. Available: ${available}`
+    );
+  }
+
+  const ordered: ResolvedComponent[] = [];
+  const done = new Set<string>();
+  const visiting: string[] = [];
+
+  const visit = async (component: ResolvedComponent): Promise<void> => {
+    const id = componentId(component);
+    if (done.has(id)) return;
+
+    const cycleStart = visiting.indexOf(id);
+    if (cycleStart >= 0) {
+      const cycle = [...visiting.slice(cycleStart), id].join(" -> ");
+      throw new Error(`Dependency cycle detected: ${cycle}`);
+    }
+
+    visiting.push(id);
+    for (const depName of component.entry.dependencies ?? []) {
+      const dep = await resolver.find(depName, component.registry);
+      if (!dep) {
+        throw new Error(`Component "${id}" depends on unknown component "${depName}".`);
+      }
+      await visit(dep);
+    }
+    visiting.pop();
+
+    done.add(id);
+    ordered.push(component);
+  };
+
+  for (const root of roots) {
+    await visit(root);
+  }
+
+  const utilities = new Map<string, ResolvedUtility>();
+  const packages = new Map<string, string>();
+  for (const component of ordered) {
+    for (const name of component.entry.requires) {
+      if (!utilities.has(name)) utilities.set(name, { name, requiredBy: component });
+    }
+    for (const spec of component.entry.packages ?? []) {
+      const name = packageName(spec);
+      if (!packages.has(name)) packages.set(name, spec);
+    }
+  }
+
+  return {
+    components: ordered,
+    utilities: Array.from(utilities.values()),
+    packages: Array.from(packages.values()),
+  };
+}
+
+/**
+ * Display id of a resolved component: "button" or "@acme/data-table".
+ */
+export function componentId(component: ResolvedComponent): string {
+  return component.registry
+    ? `${component.registry}/${component.entry.name}`
+    : component.entry.name;
+}
+
+/**
+ * Package name of an npm spec: "focus-trap@^7" -> "focus-trap", "@scope/pkg@1" -> "@scope/pkg".
+ */
+export function packageName(spec: string): string {
+  const at = spec.indexOf("@", spec.startsWith("@") ? 1 : 0);
+  return at > 0 ? spec.slice(0, at) : spec;
+}
@@ -1,7 +1,11 @@
-export type Framework = "react";
+export type Framework = "react" | "vue";
 export type ComponentKind = "primitive" | "wrapper";
 export type Language = "ts" | "js";
 
+/**
+ * Template paths for the TypeScript ("tsx") and JavaScript ("jsx") flavour.
+ * For Vue both are single-file components.
+ */
 export type ComponentTemplate = {
   tsx: string;
   jsx: string;
@@ -9,11 +13,26 @@ export type ComponentTemplate = {
 
 export type ComponentManifestEntry = {
   name: string;
+  /**
+   * Template version, recorded in oxitron-ui.lock.json.
+   */
+  version?: string;
   description: string;
   framework: Framework;
   kind: ComponentKind;
   templates: ComponentTemplate;
-  requires: Array<"cn">;
+  /**
+   * Utilities copied into utilsDir, e.g. "cn" -> utils/cn.ts.
+   */
+  requires: string[];
+  /**
+   * Other components installed first, e.g. "button" or "@acme/overlay".
+   */
+  dependencies?: string[];
+  /**
+   * npm packages the templates import, e.g. "focus-trap@^7".
+   */
+  packages?: string[];
   exports: {
     values: string[];
     types: string[];
@@ -23,6 +42,7 @@ export type ComponentManifestEntry = {
 export const componentManifest: ComponentManifestEntry[] = [
   {
     name: "button",
+    version: "1.0.0",
     description: "Accessible button primitive with variants.",
     framework: "react",
     kind: "primitive",
@@ -38,6 +58,7 @@ export const componentManifest: ComponentManifestEntry[] = [
   },
   {
     name: "card",
+    version: "1.0.0",
     description: "Card primitive with header/body/footer slots.",
     framework: "react",
     kind: "primitive",
@@ -53,6 +74,7 @@ export const componentManifest: ComponentManifestEntry[] = [
   },
   {
     name: "neon-border",
+    version: "1.0.0",
     description: "Neon border wrapper for emphasis.",
     framework: "react",
     kind: "wrapper",
@@ -66,8 +88,211 @@ export const componentManifest: ComponentManifestEntry[] = [
       types: ["NeonBorderProps"],
     },
   },
+  {
+    name: "dialog",
+    version: "1.0.0",
+    description: "Modal dialog with focus trap, scroll lock and Escape/outside-click dismissal.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/dialog.tsx",
+      jsx: "components/dialog.jsx",
+    },
+    requires: ["cn", "overlay"],
+    packages: ["react-dom"],
+    exports: {
+      values: ["Dialog"],
+      types: ["DialogProps"],
+    },
+  },
+  {
+    name: "popover",
+    version: "1.0.0",
+    description: "Popover anchored to its trigger, with flipping and outside-click dismissal.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/popover.tsx",
+      jsx: "components/popover.jsx",
+    },
+    requires: ["cn", "overlay"],
+    packages: ["react-dom"],
+    exports: {
+      values: ["Popover"],
+      types: ["PopoverProps"],
+    },
+  },
+  {
+    name: "tooltip",
+    version: "1.0.0",
+    description: "Tooltip shown on hover and focus, positioned next to its trigger.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/tooltip.tsx",
+      jsx: "components/tooltip.jsx",
+    },
+    requires: ["cn", "overlay"],
+    packages: ["react-dom"],
+    exports: {
+      values: ["Tooltip"],
+      types: ["TooltipProps"],
+    },
+  },
+  {
+    name: "field",
+    version: "1.0.0",
+    description: "Form field with label, description and error message wired to its control.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/field.tsx",
+      jsx: "components/field.jsx",
+    },
+    requires: ["cn", "field"],
+    exports: {
+      values: ["Field"],
+      types: ["FieldProps"],
+    },
+  },
+  {
+    name: "input",
+    version: "1.0.0",
+    description: "Text input with invalid, disabled and read-only states.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/input.tsx",
+      jsx: "components/input.jsx",
+    },
+    requires: ["cn", "field"],
+    exports: {
+      values: ["Input"],
+      types: ["InputProps"],
+    },
+  },
+  {
+    name: "textarea",
+    version: "1.0.0",
+    description: "Multi-line text input with invalid, disabled and read-only states.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/textarea.tsx",
+      jsx: "components/textarea.jsx",
+    },
+    requires: ["cn", "field"],
+    exports: {
+      values: ["Textarea"],
+      types: ["TextareaProps"],
+    },
+  },
+  {
+    name: "select",
+    version: "1.0.0",
+    description: "Native select built from items, with a placeholder and validation states.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/select.tsx",
+      jsx: "components/select.jsx",
+    },
+    requires: ["cn", "field"],
+    exports: {
+      values: ["Select"],
+      types: ["SelectProps", "SelectItem"],
+    },
+  },
+  {
+    name: "checkbox",
+    version: "1.0.0",
+    description: "Native checkbox with invalid, disabled and read-only states.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/checkbox.tsx",
+      jsx: "components/checkbox.jsx",
+    },
+    requires: ["cn", "field"],
+    exports: {
+      values: ["Checkbox"],
+      types: ["CheckboxProps"],
+    },
+  },
+  {
+    name: "radio-group",
+    version: "1.0.0",
+    description: "Radio group of native radios with controlled or uncontrolled selection.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/radio-group.tsx",
+      jsx: "components/radio-group.jsx",
+    },
+    requires: ["cn", "field"],
+    exports: {
+      values: ["RadioGroup"],
+      types: ["RadioGroupProps", "RadioGroupItem"],
+    },
+  },
+  {
+    name: "switch",
+    version: "1.0.0",
+    description: "Toggle switch button with invalid, disabled and read-only states.",
+    framework: "react",
+    kind: "primitive",
+    templates: {
+      tsx: "components/switch.tsx",
+      jsx: "components/switch.jsx",
+    },
+    requires: ["cn", "field"],
+    exports: {
+      values: ["Switch"],
+      types: ["SwitchProps"],
+    },
+  },
+  {
+    name: "button",
+    version: "1.0.0",
+    description: "Accessible button primitive with variants.",
+    framework: "vue",
+    kind: "primitive",
+    templates: {
+      tsx: "components/button.vue",
+      jsx: "components/button.js.vue",
+    },
+    requires: ["cn"],
+    exports: {
+      values: ["Button"],
+      types: [],
+    },
+  },
 ];
 
-export const componentManifestByName = new Map(
-  componentManifest.map((entry) => [entry.name, entry])
-);
+export const SUPPORTED_FRAMEWORKS: Framework[] = ["react", "vue"];
+
+/**
+ * Narrows a configured framework to one the CLI has templates for
+ * @throws For frameworks without templates (svelte, unknown)
+ */
+export function toSupportedFramework(framework: string): Framework {
+  if ((SUPPORTED_FRAMEWORKS as string[]).includes(framework)) return framework as Framework;
+  throw new Error(
+    `Unsupported framework "${framework}". Supported: ${SUPPORTED_FRAMEWORKS.join(", ")}.`
+  );
+}
+
+/**
+ * Built-in components for one framework
+ */
+export function manifestFor(framework: string): ComponentManifestEntry[] {
+  return componentManifest.filter((entry) => entry.framework === framework);
+}
+
+/**
+ * File extension of installed components
+ */
+export function componentExtension(framework: Framework, language: Language): string {
+  if (framework === "vue") return "vue";
+  return language === "ts" ? "tsx" : "jsx";
+}
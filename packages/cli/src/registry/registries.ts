@@ -0,0 +1,280 @@
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import {
+  manifestFor,
+  type ComponentManifestEntry,
+  type Framework,
+} from "./manifest.js";
+
+/**
+ * A registry listed in oxitron-ui.config.json.
+ * - name: scope used in component names, e.g. "@acme" for "@acme/data-table"
+ * - source: a local directory / JSON file, or an http(s) URL to a JSON index
+ */
+export type RegistryConfig = {
+  name: string;
+  source: string;
+};
+
+/**
+ * Shape of a registry index: either an array of entries or { components: [...] }.
+ * Template paths in entries are relative to the index location.
+ */
+export type RegistryIndex =
+  | ComponentManifestEntry[]
+  | { name?: string; components: ComponentManifestEntry[] };
+
+export type ResolvedComponent = {
+  entry: ComponentManifestEntry;
+  /**
+   * Registry scope ("@acme"), or null for the built-in manifest.
+   */
+  registry: string | null;
+  readTemplate(templatePath: string): Promise<string>;
+};
+
+type LoadedRegistry = {
+  config: RegistryConfig;
+  entries: Map<string, ComponentManifestEntry>;
+  readTemplate(templatePath: string): Promise<string>;
+};
+
+const INDEX_FILE = "index.json";
+
+export type ComponentResolver = {
+  /**
+   * Finds a component by name. Unscoped names looked up from a registry
+   * component resolve within that registry first, then the built-in manifest.
+   * @param name - "button" or "@acme/data-table"
+   * @param fromRegistry - Registry of the component that declared the dependency
+   */
+  find(name: string, fromRegistry?: string | null): Promise<ResolvedComponent | null>;
+  /**
+   * All names resolvable so far (built-in + registries already loaded).
+   */
+  available(): Promise<string[]>;
+  /**
+   * Reads a utility template, preferring the built-in one.
+   */
+  readUtilTemplate(name: string, ext: string, from: ResolvedComponent): Promise<string>;
+};
+
+/**
+ * Creates a resolver over the built-in manifest and configured registries
+ * @param cwd - Project root (local registry sources are relative to it)
+ * @param registries - Registries from the config
+ * @param templateRoot - Root of the built-in templates
+ * @param framework - Only components for this framework are resolved
+ */
+export function createComponentResolver(
+  cwd: string,
+  registries: RegistryConfig[],
+  templateRoot: string,
+  framework: Framework = "react"
+): ComponentResolver {
+  const loaded = new Map<string, Promise<LoadedRegistry>>();
+  const builtin = new Map(manifestFor(framework).map((entry) => [entry.name, entry]));
+  const readBuiltin = (templatePath: string) =>
+    fs.readFile(path.join(templateRoot, templatePath), "utf8");
+
+  const load = (scope: string): Promise<LoadedRegistry> => {
+    const config = registries.find((r) => r.name === scope);
+    if (!config) {
+      const known = registries.map((r) => r.name).join(", ") || "none";
+      throw new Error(`Unknown registry "${scope}". Configured registries: ${known}.`);
+    }
+    if (!loaded.has(scope)) {
+      loaded.set(scope, loadRegistry(cwd, config, framework));
+    }
+    return loaded.get(scope)!;
+  };
+
+  const fromBuiltin = (name: string): ResolvedComponent | null => {
+    const entry = builtin.get(name);
+    return entry ? { entry, registry: null, readTemplate: readBuiltin } : null;
+  };
+
+  return {
+    async find(name, fromRegistry = null) {
+      const scoped = parseScopedName(name);
+      if (scoped) {
+        const registry = await load(scoped.scope);
+        const entry = registry.entries.get(scoped.component);
+        return entry
+          ? { entry, registry: scoped.scope, readTemplate: registry.readTemplate }
+          : null;
+      }
+
+      if (fromRegistry) {
+        const registry = await load(fromRegistry);
+        const entry = registry.entries.get(name);
+        if (entry) {
+          return { entry, registry: fromRegistry, readTemplate: registry.readTemplate };
+        }
+      }
+      return fromBuiltin(name);
+    },
+
+    async available() {
+      const names = Array.from(builtin.keys()).sort();
+      for (const registry of await Promise.all(loaded.values())) {
+        for (const name of Array.from(registry.entries.keys()).sort()) {
+          names.push(`${registry.config.name}/${name}`);
+        }
+      }
+      return names;
+    },
+
+    readUtilTemplate(name, ext, from) {
+      const rel = path.posix.join("utils", `${name}.${ext}`);
+      if (fssync.existsSync(path.join(templateRoot, rel)) || !from.registry) {
+        return readBuiltin(rel);
+      }
+      return from.readTemplate(rel);
+    },
+  };
+}
+
+/**
+ * Loads and validates a registry index
+ * @param cwd - Project root
+ * @param config - Registry config entry
+ * @param framework - Entries for other frameworks are skipped
+ */
+export async function loadRegistry(
+  cwd: string,
+  config: RegistryConfig,
+  framework: Framework = "react"
+): Promise<LoadedRegistry> {
+  const remote = isRemote(config.source);
+  let indexLocation: string;
+  let raw: string;
+
+  if (remote) {
+    indexLocation = config.source;
+    raw = await fetchText(indexLocation);
+  } else {
+    const abs = path.resolve(cwd, config.source);
+    indexLocation =
+      fssync.existsSync(abs) && fssync.statSync(abs).isDirectory()
+        ? path.join(abs, INDEX_FILE)
+        : abs;
+    if (!fssync.existsSync(indexLocation)) {
+      throw new Error(`Registry "${config.name}": index not found at ${indexLocation}`);
+    }
+    raw = await fs.readFile(indexLocation, "utf8");
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(
+      `Registry "${config.name}": invalid JSON index (${err instanceof Error ? err.message : err})`
+    );
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { components?: unknown } | null)?.components;
+  if (!Array.isArray(list)) {
+    throw new Error(
+      `Registry "${config.name}": index must be an array or { "components": [...] }`
+    );
+  }
+
+  const entries = new Map<string, ComponentManifestEntry>();
+  list.forEach((item, index) => {
+    const issues = validateManifestEntry(item);
+    if (issues.length) {
+      throw new Error(
+        `Registry "${config.name}": invalid entry #${index}: ${issues.join("; ")}`
+      );
+    }
+    const entry = item as ComponentManifestEntry;
+    if (entry.framework === framework) entries.set(entry.name, entry);
+  });
+
+  const readTemplate = remote
+    ? (templatePath: string) => fetchText(new URL(templatePath, indexLocation).toString())
+    : (templatePath: string) =>
+        fs.readFile(path.resolve(path.dirname(indexLocation), templatePath), "utf8");
+
+  return { config, entries, readTemplate };
+}
+
+const KEBAB_CASE = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Checks that a registry item follows ComponentManifestEntry
+ * @returns One message per problem (empty when valid)
+ */
+export function validateManifestEntry(value: unknown): string[] {
+  if (!isRecord(value)) return ["entry must be an object"];
+  const templates = isRecord(value.templates) ? value.templates : {};
+  const exports = isRecord(value.exports) ? value.exports : {};
+  const issues: string[] = [];
+
+  if (typeof value.name !== "string" || !KEBAB_CASE.test(value.name)) {
+    issues.push(`"name" must be a kebab-case string`);
+  }
+  if (typeof value.description !== "string") issues.push(`"description" must be a string`);
+  if (value.version !== undefined && typeof value.version !== "string") {
+    issues.push(`"version" must be a string`);
+  }
+  if (value.framework !== "react" && value.framework !== "vue") {
+    issues.push(`"framework" must be "react" or "vue"`);
+  }
+  if (value.kind !== "primitive" && value.kind !== "wrapper") {
+    issues.push(`"kind" must be "primitive" or "wrapper"`);
+  }
+  if (typeof templates.tsx !== "string" || typeof templates.jsx !== "string") {
+    issues.push(`"templates" must have "tsx" and "jsx" paths`);
+  }
+  // Utility names become file names in the utils directory
+  if (!isStringArray(value.requires) || !value.requires.every((name) => KEBAB_CASE.test(name))) {
+    issues.push(`"requires" must be an array of kebab-case utility names`);
+  }
+  if (value.dependencies !== undefined && !isStringArray(value.dependencies)) {
+    issues.push(`"dependencies" must be an array of component names`);
+  }
+  if (value.packages !== undefined && !isStringArray(value.packages)) {
+    issues.push(`"packages" must be an array of npm package specs`);
+  }
+  if (!isStringArray(exports.values) || !isStringArray(exports.types)) {
+    issues.push(`"exports" must have "values" and "types" string arrays`);
+  }
+
+  return issues;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function parseScopedName(name: string): { scope: string; component: string } | null {
+  const match = /^(@[^/\s]+)\/(.+)$/.exec(name);
+  return match ? { scope: match[1], component: match[2] } : null;
+}
+
+function isRemote(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+async function fetchText(url: string): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(url);
+  } catch (err) {
+    throw new Error(`Could not reach ${url}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!res.ok) {
+    throw new Error(`Request to ${url} failed with ${res.status} ${res.statusText}`);
+  }
+  return res.text();
+}
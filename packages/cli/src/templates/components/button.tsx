@@ -20,7 +20,7 @@ export const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
       <button
         ref={ref}
         className={cn(
-          "inline-flex items-center justify-center rounded-md border px-4 py-2 text-sm font-semibold transition-shadow transition-transform focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950 disabled:pointer-events-none disabled:opacity-60 hover:-translate-y-0.5 hover:shadow-[0_10px_25px_rgba(56,189,248,0.2)]",
+          "inline-flex items-center justify-center rounded-md border px-4 py-2 text-sm font-semibold transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950 disabled:pointer-events-none disabled:opacity-60 hover:-translate-y-0.5 hover:shadow-[0_10px_25px_rgba(56,189,248,0.2)]",
           variantClasses[variant],
           className
         )}
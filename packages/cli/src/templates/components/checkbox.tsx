@@ -0,0 +1,34 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import { useFieldControl } from "../utils/field";
+
+export type CheckboxProps = Omit<React.InputHTMLAttributes<HTMLInputElement>, "type"> & {
+  invalid?: boolean;
+};
+
+export const Checkbox = React.forwardRef<HTMLInputElement, CheckboxProps>((props, ref) => {
+  const { className, invalid, readOnly, onClick, ...rest } = useFieldControl(props);
+
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      aria-invalid={invalid || undefined}
+      aria-readonly={readOnly || undefined}
+      // Checkboxes ignore the readonly attribute, so cancel the toggle instead
+      onClick={(event) => {
+        onClick?.(event);
+        if (readOnly) event.preventDefault();
+      }}
+      className={cn(
+        "size-4 shrink-0 cursor-pointer rounded-sm accent-sky-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950 disabled:cursor-not-allowed disabled:opacity-50",
+        readOnly && "cursor-default",
+        invalid && "outline outline-2 outline-offset-1 outline-red-500/80",
+        className
+      )}
+      {...rest}
+    />
+  );
+});
+
+Checkbox.displayName = "Checkbox";
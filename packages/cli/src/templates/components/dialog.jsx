@@ -0,0 +1,112 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import {
+  Portal,
+  cloneTrigger,
+  mergeRefs,
+  useControllableOpen,
+  useFocusTrap,
+  useLayer,
+  useScrollLock,
+} from "../utils/overlay";
+
+export const Dialog = React.forwardRef(function Dialog(
+  {
+    className,
+    title,
+    description,
+    footer,
+    trigger,
+    open: openProp,
+    defaultOpen,
+    onOpenChange,
+    modal = true,
+    children,
+    style,
+    ...props
+  },
+  ref
+) {
+  const [open, setOpen] = useControllableOpen(openProp, defaultOpen, onOpenChange);
+  const id = React.useId();
+  const contentRef = React.useRef(null);
+  const triggerRef = React.useRef(null);
+
+  const zIndex = useLayer(open, [contentRef, triggerRef], {
+    onEscape: () => setOpen(false),
+    onOutside: () => setOpen(false),
+  });
+  useFocusTrap(contentRef, open, { contain: modal });
+  useScrollLock(open && modal);
+
+  const content = (
+    <div
+      {...props}
+      ref={mergeRefs(ref, contentRef)}
+      role="dialog"
+      id={`${id}-content`}
+      aria-modal={modal}
+      aria-labelledby={`${id}-title`}
+      aria-describedby={description ? `${id}-description` : undefined}
+      tabIndex={-1}
+      data-state="open"
+      className={cn(
+        "relative flex w-full max-w-lg flex-col gap-4 rounded-xl border border-slate-800 bg-slate-950 p-6 text-slate-100 shadow-xl focus:outline-none",
+        !modal && "fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2",
+        className
+      )}
+      style={modal ? style : { ...style, zIndex }}
+    >
+      <div className="flex flex-col gap-1.5 pr-6">
+        <h2 id={`${id}-title`} className="text-lg font-semibold leading-none">
+          {title}
+        </h2>
+        {description ? (
+          <p id={`${id}-description`} className="text-sm text-slate-400">
+            {description}
+          </p>
+        ) : null}
+      </div>
+      {children ? <div className="text-sm text-slate-200/80">{children}</div> : null}
+      {footer ? <div className="flex justify-end gap-2">{footer}</div> : null}
+      <button
+        type="button"
+        aria-label="Close"
+        onClick={() => setOpen(false)}
+        className="absolute right-4 top-4 inline-flex size-6 items-center justify-center rounded-sm text-slate-400 hover:bg-slate-900 hover:text-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70"
+      >
+        <span aria-hidden="true">×</span>
+      </button>
+    </div>
+  );
+
+  return (
+    <>
+      {trigger
+        ? cloneTrigger(trigger, {
+            ref: triggerRef,
+            "aria-haspopup": "dialog",
+            "aria-expanded": open,
+            "aria-controls": open ? `${id}-content` : undefined,
+            onClick: () => setOpen(true),
+          })
+        : null}
+      {open ? (
+        <Portal>
+          {modal ? (
+            <div
+              className="fixed inset-0 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm"
+              style={{ zIndex }}
+            >
+              {content}
+            </div>
+          ) : (
+            content
+          )}
+        </Portal>
+      ) : null}
+    </>
+  );
+});
+
+Dialog.displayName = "Dialog";
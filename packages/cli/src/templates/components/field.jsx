@@ -0,0 +1,77 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import { FieldContext } from "../utils/field";
+
+export const Field = React.forwardRef(function Field(
+  {
+    className,
+    label,
+    description,
+    error,
+    id: idProp,
+    invalid: invalidProp,
+    disabled,
+    readOnly,
+    required,
+    children,
+    ...props
+  },
+  ref
+) {
+  const generatedId = React.useId();
+  const id = idProp ?? generatedId;
+  const hasDescription = description != null && description !== false;
+  const hasError = error != null && error !== false && error !== "";
+  const invalid = invalidProp ?? hasError;
+  const describedBy = [
+    hasDescription && `${id}-description`,
+    invalid && hasError && `${id}-error`,
+  ].filter(Boolean);
+
+  const field = {
+    id,
+    labelId: `${id}-label`,
+    describedBy: describedBy.length ? describedBy.join(" ") : undefined,
+    invalid,
+    disabled,
+    readOnly,
+    required,
+  };
+
+  return (
+    <FieldContext.Provider value={field}>
+      <div
+        ref={ref}
+        data-invalid={invalid || undefined}
+        className={cn("flex flex-col gap-1.5", className)}
+        {...props}
+      >
+        <label
+          id={field.labelId}
+          htmlFor={id}
+          className={cn("text-sm font-medium leading-none text-slate-200", disabled && "opacity-60")}
+        >
+          {label}
+          {required ? (
+            <span aria-hidden="true" className="ml-0.5 text-red-400">
+              *
+            </span>
+          ) : null}
+        </label>
+        {children}
+        {hasDescription ? (
+          <p id={`${id}-description`} className="text-sm text-slate-400">
+            {description}
+          </p>
+        ) : null}
+        {invalid && hasError ? (
+          <p id={`${id}-error`} role="alert" className="text-sm text-red-400">
+            {error}
+          </p>
+        ) : null}
+      </div>
+    </FieldContext.Provider>
+  );
+});
+
+Field.displayName = "Field";
@@ -0,0 +1,27 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import { useFieldControl } from "../utils/field";
+
+export type InputProps = React.InputHTMLAttributes<HTMLInputElement> & {
+  invalid?: boolean;
+};
+
+export const Input = React.forwardRef<HTMLInputElement, InputProps>((props, ref) => {
+  const { className, type = "text", invalid, ...rest } = useFieldControl(props);
+
+  return (
+    <input
+      ref={ref}
+      type={type}
+      aria-invalid={invalid || undefined}
+      className={cn(
+        "flex h-10 w-full rounded-md border border-slate-700 bg-slate-950 px-3 text-sm text-slate-100 placeholder:text-slate-500 transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70 disabled:cursor-not-allowed disabled:opacity-50 read-only:bg-slate-900/60 read-only:focus-visible:ring-slate-500/60",
+        invalid && "border-red-500/80 focus-visible:ring-red-400/70",
+        className
+      )}
+      {...rest}
+    />
+  );
+});
+
+Input.displayName = "Input";
@@ -0,0 +1,88 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import {
+  Portal,
+  cloneTrigger,
+  mergeRefs,
+  useAnchorPosition,
+  useControllableOpen,
+  useFocusTrap,
+  useLayer,
+  type Placement,
+} from "../utils/overlay";
+
+export type PopoverProps = React.HTMLAttributes<HTMLDivElement> & {
+  /**
+   * Element that toggles the popover and anchors it, e.g. <Button>Filters</Button>.
+   */
+  trigger: React.ReactElement<React.HTMLAttributes<HTMLElement>>;
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  placement?: Placement;
+  /**
+   * Gap between trigger and popover in px.
+   */
+  offset?: number;
+};
+
+export const Popover = React.forwardRef<HTMLDivElement, PopoverProps>(
+  (
+    {
+      className,
+      style,
+      trigger,
+      open: openProp,
+      defaultOpen,
+      onOpenChange,
+      placement = "bottom",
+      offset = 8,
+      ...props
+    },
+    ref
+  ) => {
+    const [open, setOpen] = useControllableOpen(openProp, defaultOpen, onOpenChange);
+    const id = React.useId();
+    const contentRef = React.useRef<HTMLDivElement>(null);
+    const triggerRef = React.useRef<HTMLElement>(null);
+
+    const zIndex = useLayer(open, [contentRef, triggerRef], {
+      onEscape: () => setOpen(false),
+      onOutside: () => setOpen(false),
+    });
+    useFocusTrap(contentRef, open, { contain: false });
+    const position = useAnchorPosition(triggerRef, contentRef, open, placement, offset);
+
+    return (
+      <>
+        {cloneTrigger(trigger, {
+          ref: triggerRef,
+          "aria-haspopup": "dialog",
+          "aria-expanded": open,
+          "aria-controls": open ? `${id}-content` : undefined,
+          onClick: () => setOpen(!open),
+        })}
+        {open ? (
+          <Portal>
+            <div
+              {...props}
+              ref={mergeRefs(ref, contentRef)}
+              role="dialog"
+              id={`${id}-content`}
+              tabIndex={-1}
+              data-state="open"
+              data-placement={position.placement}
+              className={cn(
+                "w-72 rounded-lg border border-slate-800 bg-slate-950 p-4 text-sm text-slate-100 shadow-lg focus:outline-none",
+                className
+              )}
+              style={{ ...style, ...position.style, zIndex }}
+            />
+          </Portal>
+        ) : null}
+      </>
+    );
+  }
+);
+
+Popover.displayName = "Popover";
@@ -0,0 +1,108 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import { useFieldControl } from "../utils/field";
+
+export type RadioGroupItem = {
+  value: string;
+  label: React.ReactNode;
+  disabled?: boolean;
+};
+
+export type RadioGroupProps = Omit<
+  React.HTMLAttributes<HTMLDivElement>,
+  "onChange" | "defaultValue" | "children"
+> & {
+  items: RadioGroupItem[];
+  /**
+   * Form field name shared by the radios (generated when left out).
+   */
+  name?: string;
+  value?: string;
+  defaultValue?: string;
+  onValueChange?: (value: string) => void;
+  orientation?: "horizontal" | "vertical";
+  invalid?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+};
+
+export const RadioGroup = React.forwardRef<HTMLDivElement, RadioGroupProps>((props, ref) => {
+  const {
+    className,
+    items,
+    id,
+    name,
+    value: valueProp,
+    defaultValue,
+    onValueChange,
+    orientation = "vertical",
+    invalid,
+    disabled,
+    readOnly,
+    required,
+    ...rest
+  } = useFieldControl(props);
+  const generatedId = React.useId();
+  const groupId = id ?? generatedId;
+  const [internal, setInternal] = React.useState(defaultValue);
+  const value = valueProp ?? internal;
+
+  const select = (next: string) => {
+    if (readOnly || next === value) return;
+    if (valueProp === undefined) setInternal(next);
+    onValueChange?.(next);
+  };
+
+  return (
+    <div
+      ref={ref}
+      id={groupId}
+      role="radiogroup"
+      aria-orientation={orientation}
+      aria-invalid={invalid || undefined}
+      aria-disabled={disabled || undefined}
+      aria-readonly={readOnly || undefined}
+      aria-required={required || undefined}
+      className={cn(
+        "flex gap-2 text-sm text-slate-200",
+        orientation === "horizontal" ? "flex-row flex-wrap gap-4" : "flex-col",
+        disabled && "opacity-50",
+        className
+      )}
+      {...rest}
+    >
+      {items.map((item) => {
+        const radioId = `${groupId}-${item.value}`;
+        const itemDisabled = disabled || item.disabled;
+        return (
+          <div key={item.value} className={cn("flex items-center gap-2", item.disabled && "opacity-50")}>
+            <input
+              type="radio"
+              id={radioId}
+              name={name ?? groupId}
+              value={item.value}
+              checked={value === item.value}
+              disabled={itemDisabled}
+              required={required}
+              onChange={() => select(item.value)}
+              className={cn(
+                "size-4 shrink-0 cursor-pointer accent-sky-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950 disabled:cursor-not-allowed",
+                readOnly && "cursor-default",
+                invalid && "outline outline-2 outline-offset-1 outline-red-500/80"
+              )}
+            />
+            <label
+              htmlFor={radioId}
+              className={cn("font-medium", itemDisabled || readOnly ? "cursor-default" : "cursor-pointer")}
+            >
+              {item.label}
+            </label>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+RadioGroup.displayName = "RadioGroup";
@@ -0,0 +1,63 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import { useFieldControl } from "../utils/field";
+
+export type SelectItem = {
+  value: string;
+  label: React.ReactNode;
+  disabled?: boolean;
+};
+
+export type SelectProps = Omit<React.SelectHTMLAttributes<HTMLSelectElement>, "children"> & {
+  items: SelectItem[];
+  /**
+   * Empty-valued first option shown until something is picked.
+   */
+  placeholder?: string;
+  invalid?: boolean;
+  /**
+   * Keeps focus and submits the value, but ignores attempts to change it.
+   */
+  readOnly?: boolean;
+};
+
+export const Select = React.forwardRef<HTMLSelectElement, SelectProps>((props, ref) => {
+  const { className, items, placeholder, invalid, readOnly, onMouseDown, onKeyDown, ...rest } =
+    useFieldControl(props);
+
+  return (
+    <select
+      ref={ref}
+      aria-invalid={invalid || undefined}
+      aria-readonly={readOnly || undefined}
+      onMouseDown={(event) => {
+        onMouseDown?.(event);
+        if (readOnly) event.preventDefault();
+      }}
+      onKeyDown={(event) => {
+        onKeyDown?.(event);
+        if (readOnly && event.key !== "Tab") event.preventDefault();
+      }}
+      className={cn(
+        "flex h-10 w-full cursor-pointer rounded-md border border-slate-700 bg-slate-950 px-2.5 text-sm text-slate-100 transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70 disabled:cursor-not-allowed disabled:opacity-50",
+        readOnly && "cursor-default bg-slate-900/60",
+        invalid && "border-red-500/80 focus-visible:ring-red-400/70",
+        className
+      )}
+      {...rest}
+    >
+      {placeholder !== undefined ? (
+        <option value="" hidden>
+          {placeholder}
+        </option>
+      ) : null}
+      {items.map((item) => (
+        <option key={item.value} value={item.value} disabled={item.disabled}>
+          {item.label}
+        </option>
+      ))}
+    </select>
+  );
+});
+
+Select.displayName = "Select";
@@ -0,0 +1,58 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import { useFieldControl } from "../utils/field";
+
+export const Switch = React.forwardRef(function Switch(props, ref) {
+  const {
+    className,
+    checked: checkedProp,
+    defaultChecked,
+    onCheckedChange,
+    invalid,
+    readOnly,
+    required,
+    disabled,
+    onClick,
+    ...rest
+  } = useFieldControl(props);
+  const [internal, setInternal] = React.useState(Boolean(defaultChecked));
+  const checked = checkedProp ?? internal;
+
+  return (
+    <button
+      ref={ref}
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      aria-invalid={invalid || undefined}
+      aria-readonly={readOnly || undefined}
+      aria-required={required || undefined}
+      disabled={disabled}
+      data-state={checked ? "checked" : "unchecked"}
+      onClick={(event) => {
+        onClick?.(event);
+        if (event.defaultPrevented || readOnly) return;
+        if (checkedProp === undefined) setInternal(!checked);
+        onCheckedChange?.(!checked);
+      }}
+      className={cn(
+        "relative inline-flex h-6 w-11 shrink-0 cursor-pointer items-center rounded-full border border-slate-700 transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950 disabled:cursor-not-allowed disabled:opacity-50",
+        checked ? "bg-sky-500" : "bg-slate-800",
+        readOnly && "cursor-default",
+        invalid && "border-red-500/80",
+        className
+      )}
+      {...rest}
+    >
+      <span
+        aria-hidden="true"
+        className={cn(
+          "pointer-events-none inline-block size-5 rounded-full bg-slate-50 shadow transition motion-reduce:transition-none",
+          checked ? "translate-x-5" : "translate-x-0.5"
+        )}
+      />
+    </button>
+  );
+});
+
+Switch.displayName = "Switch";
@@ -0,0 +1,79 @@
+import * as React from "react";
+import { cn } from "../utils/cn";
+import {
+  Portal,
+  cloneTrigger,
+  mergeRefs,
+  useAnchorPosition,
+  useControllableOpen,
+  useLayer,
+} from "../utils/overlay";
+
+export const Tooltip = React.forwardRef(function Tooltip(
+  {
+    className,
+    style,
+    content,
+    children,
+    open: openProp,
+    defaultOpen,
+    onOpenChange,
+    placement = "top",
+    delay = 300,
+    ...props
+  },
+  ref
+) {
+  const [open, setOpen] = useControllableOpen(openProp, defaultOpen, onOpenChange);
+  const id = React.useId();
+  const contentRef = React.useRef(null);
+  const triggerRef = React.useRef(null);
+  const timer = React.useRef(undefined);
+
+  React.useEffect(() => () => clearTimeout(timer.current), []);
+
+  const show = () => {
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => setOpen(true), delay);
+  };
+  const hide = () => {
+    clearTimeout(timer.current);
+    setOpen(false);
+  };
+
+  const zIndex = useLayer(open, [contentRef, triggerRef], { onEscape: hide });
+  const position = useAnchorPosition(triggerRef, contentRef, open, placement);
+
+  return (
+    <>
+      {cloneTrigger(children, {
+        ref: triggerRef,
+        "aria-describedby": open ? `${id}-tooltip` : undefined,
+        onPointerEnter: show,
+        onPointerLeave: hide,
+        onFocus: show,
+        onBlur: hide,
+      })}
+      {open ? (
+        <Portal>
+          <div
+            {...props}
+            ref={mergeRefs(ref, contentRef)}
+            role="tooltip"
+            id={`${id}-tooltip`}
+            data-placement={position.placement}
+            className={cn(
+              "pointer-events-none max-w-xs rounded-md border border-slate-800 bg-slate-900 px-2 py-1 text-xs text-slate-100 shadow",
+              className
+            )}
+            style={{ ...style, ...position.style, zIndex }}
+          >
+            {content}
+          </div>
+        </Portal>
+      ) : null}
+    </>
+  );
+});
+
+Tooltip.displayName = "Tooltip";
@@ -0,0 +1,62 @@
+import * as React from "react";
+
+export type FieldState = {
+  /**
+   * Id of the field's control.
+   */
+  id: string;
+  labelId: string;
+  /**
+   * Ids the control is described by: the description, and the error while invalid.
+   */
+  describedBy?: string;
+  invalid?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+};
+
+export const FieldContext = React.createContext<FieldState | null>(null);
+
+export type FieldControlProps = {
+  id?: string;
+  invalid?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+  "aria-labelledby"?: string;
+  "aria-describedby"?: string;
+};
+
+const warnedIds = new Set<string>();
+
+/**
+ * Fills in a control's id, ARIA links and invalid / disabled / readOnly /
+ * required state from the surrounding Field. Props the control sets itself
+ * win, except aria-describedby, which is joined with the field's, and id: the
+ * label and messages point at the field's id, so a different control id is
+ * ignored with a warning. Set it on the Field instead.
+ */
+export function useFieldControl<T extends FieldControlProps>(props: T): T {
+  const field = React.useContext(FieldContext);
+  if (!field) return props;
+  const describedBy = [field.describedBy, props["aria-describedby"]].filter(Boolean);
+
+  if (props.id != null && props.id !== field.id && !warnedIds.has(props.id)) {
+    warnedIds.add(props.id);
+    console.warn(
+      `A control inside a Field ignores its id "${props.id}" and uses the field's ("${field.id}") so the label stays linked. Pass id to the Field instead.`
+    );
+  }
+
+  return {
+    ...props,
+    id: field.id,
+    invalid: props.invalid ?? field.invalid,
+    disabled: props.disabled ?? field.disabled,
+    readOnly: props.readOnly ?? field.readOnly,
+    required: props.required ?? field.required,
+    "aria-labelledby": props["aria-labelledby"] ?? field.labelId,
+    "aria-describedby": describedBy.length ? describedBy.join(" ") : undefined,
+  };
+}
@@ -0,0 +1,320 @@
+import * as React from "react";
+import { createPortal } from "react-dom";
+
+export type Side = "top" | "bottom" | "left" | "right";
+export type Placement = Side | `${Side}-start` | `${Side}-end`;
+
+/**
+ * Open state that is controlled when `open` is passed and internal otherwise.
+ */
+export function useControllableOpen(
+  open: boolean | undefined,
+  defaultOpen: boolean | undefined,
+  onOpenChange: ((open: boolean) => void) | undefined
+): [boolean, (next: boolean) => void] {
+  const [internal, setInternal] = React.useState(Boolean(defaultOpen));
+  const value = open ?? internal;
+  const setOpen = React.useCallback(
+    (next: boolean) => {
+      if (next === value) return;
+      if (open === undefined) setInternal(next);
+      onOpenChange?.(next);
+    },
+    [open, value, onOpenChange]
+  );
+  return [value, setOpen];
+}
+
+const subscribe = () => () => {};
+
+/**
+ * Renders children into document.body; nothing on the server or during hydration.
+ */
+export function Portal({
+  children,
+  container,
+}: {
+  children?: React.ReactNode;
+  container?: Element | null;
+}): React.ReactPortal | null {
+  const mounted = React.useSyncExternalStore(subscribe, () => true, () => false);
+  return mounted ? createPortal(children, container ?? document.body) : null;
+}
+
+type Layer = {
+  refs: Array<React.RefObject<HTMLElement | null>>;
+  onEscape?: () => void;
+  onOutside?: () => void;
+};
+
+const layers: Layer[] = [];
+
+function onLayerKeyDown(event: KeyboardEvent) {
+  const top = layers[layers.length - 1];
+  if (event.key !== "Escape" || event.defaultPrevented || !top?.onEscape) return;
+  event.preventDefault();
+  top.onEscape();
+}
+
+function onLayerPointerDown(event: PointerEvent) {
+  const top = layers[layers.length - 1];
+  const target = event.target as Node | null;
+  if (!top || top.refs.some((ref) => ref.current?.contains(target))) return;
+  top.onOutside?.();
+}
+
+/**
+ * Registers an open overlay in a shared stack: later overlays get a higher
+ * z-index, and only the top one closes on Escape or an outside pointer down.
+ * @returns z-index for the overlay's outermost element
+ */
+export function useLayer(
+  open: boolean,
+  refs: Array<React.RefObject<HTMLElement | null>>,
+  handlers: { onEscape?: () => void; onOutside?: () => void }
+): number | undefined {
+  const [zIndex, setZIndex] = React.useState<number>();
+  const latest = React.useRef(handlers);
+  latest.current = handlers;
+
+  React.useLayoutEffect(() => {
+    if (!open) return;
+    const layer: Layer = {
+      refs,
+      onEscape: () => latest.current.onEscape?.(),
+      onOutside: () => latest.current.onOutside?.(),
+    };
+    if (layers.length === 0) {
+      document.addEventListener("keydown", onLayerKeyDown);
+      document.addEventListener("pointerdown", onLayerPointerDown, true);
+    }
+    layers.push(layer);
+    setZIndex(1000 + (layers.length - 1) * 10);
+    return () => {
+      layers.splice(layers.indexOf(layer), 1);
+      if (layers.length === 0) {
+        document.removeEventListener("keydown", onLayerKeyDown);
+        document.removeEventListener("pointerdown", onLayerPointerDown, true);
+      }
+    };
+    // refs are stable ref objects
+  }, [open]);
+
+  return zIndex;
+}
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), [tabindex]';
+
+export function getFocusable(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((el) => {
+    const tabindex = el.getAttribute("tabindex");
+    return (tabindex === null || Number(tabindex) >= 0) && !el.closest("[hidden]");
+  });
+}
+
+/**
+ * Moves focus into the container while active and back to the previously
+ * focused element afterwards. With contain, Tab cycles inside the container.
+ */
+export function useFocusTrap(
+  ref: React.RefObject<HTMLElement | null>,
+  active: boolean,
+  { contain = true }: { contain?: boolean } = {}
+): void {
+  React.useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+    const previous = document.activeElement as HTMLElement | null;
+    (getFocusable(container)[0] ?? container).focus();
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "Tab") return;
+      const elements = getFocusable(container);
+      const first = elements[0];
+      const last = elements[elements.length - 1];
+      if (!first) {
+        event.preventDefault();
+        return;
+      }
+      if (event.shiftKey && document.activeElement === first) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && document.activeElement === last) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+    if (contain) document.addEventListener("keydown", onKeyDown);
+
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      if (previous?.isConnected) previous.focus();
+    };
+  }, [ref, active, contain]);
+}
+
+let scrollLocks = 0;
+let restoreScroll: (() => void) | null = null;
+
+/**
+ * Locks page scroll while active; nested locks share one.
+ */
+export function useScrollLock(active: boolean): void {
+  React.useEffect(() => {
+    if (!active) return;
+    if (scrollLocks++ === 0) {
+      const { overflow, paddingRight } = document.body.style;
+      const scrollbar = window.innerWidth - document.documentElement.clientWidth;
+      document.body.style.overflow = "hidden";
+      if (scrollbar > 0) document.body.style.paddingRight = `${scrollbar}px`;
+      restoreScroll = () => {
+        document.body.style.overflow = overflow;
+        document.body.style.paddingRight = paddingRight;
+      };
+    }
+    return () => {
+      if (--scrollLocks === 0) restoreScroll?.();
+    };
+  }, [active]);
+}
+
+const OPPOSITE: Record<Side, Side> = { top: "bottom", bottom: "top", left: "right", right: "left" };
+
+/**
+ * Fixed-position coordinates next to the anchor, flipped to the other side
+ * when there is no room and kept inside the viewport.
+ */
+export function computePosition(
+  anchor: DOMRect,
+  floating: { width: number; height: number },
+  placement: Placement,
+  offset = 8,
+  padding = 8
+): { top: number; left: number; placement: Placement } {
+  const [preferred, align] = placement.split("-") as [Side, "start" | "end" | undefined];
+  const vw = window.innerWidth;
+  const vh = window.innerHeight;
+  const room: Record<Side, number> = {
+    top: anchor.top - padding,
+    bottom: vh - anchor.bottom - padding,
+    left: anchor.left - padding,
+    right: vw - anchor.right - padding,
+  };
+  const vertical = (side: Side) => side === "top" || side === "bottom";
+  const size = (side: Side) => (vertical(side) ? floating.height : floating.width) + offset;
+
+  let side = preferred;
+  if (room[side] < size(side) && room[OPPOSITE[side]] > room[side]) side = OPPOSITE[side];
+
+  const clamp = (value: number, max: number) => Math.max(padding, Math.min(value, max - padding));
+  let top: number;
+  let left: number;
+  if (vertical(side)) {
+    top = side === "top" ? anchor.top - floating.height - offset : anchor.bottom + offset;
+    left =
+      align === "start"
+        ? anchor.left
+        : align === "end"
+          ? anchor.right - floating.width
+          : anchor.left + (anchor.width - floating.width) / 2;
+    left = clamp(left, vw - floating.width);
+  } else {
+    left = side === "left" ? anchor.left - floating.width - offset : anchor.right + offset;
+    top =
+      align === "start"
+        ? anchor.top
+        : align === "end"
+          ? anchor.bottom - floating.height
+          : anchor.top + (anchor.height - floating.height) / 2;
+    top = clamp(top, vh - floating.height);
+  }
+
+  return {
+    top: Math.round(top),
+    left: Math.round(left),
+    placement: (align ? `${side}-${align}` : side) as Placement,
+  };
+}
+
+/**
+ * Keeps a floating element next to its anchor while open (scroll and resize included).
+ */
+export function useAnchorPosition(
+  anchorRef: React.RefObject<HTMLElement | null>,
+  floatingRef: React.RefObject<HTMLElement | null>,
+  open: boolean,
+  placement: Placement,
+  offset?: number
+): { style: React.CSSProperties; placement: Placement } {
+  const [position, setPosition] = React.useState<ReturnType<typeof computePosition> | null>(null);
+
+  React.useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    const floating = floatingRef.current;
+    if (!open || !anchor || !floating) {
+      setPosition(null);
+      return;
+    }
+    const update = () => {
+      const rect = floating.getBoundingClientRect();
+      setPosition(computePosition(anchor.getBoundingClientRect(), rect, placement, offset));
+    };
+    update();
+    window.addEventListener("scroll", update, true);
+    window.addEventListener("resize", update);
+    return () => {
+      window.removeEventListener("scroll", update, true);
+      window.removeEventListener("resize", update);
+    };
+  }, [anchorRef, floatingRef, open, placement, offset]);
+
+  return {
+    style: position
+      ? { position: "fixed", top: position.top, left: position.left }
+      : { position: "fixed", top: 0, left: 0, visibility: "hidden" },
+    placement: position?.placement ?? placement,
+  };
+}
+
+/**
+ * Calls every ref with the element.
+ */
+export function mergeRefs<T>(...refs: Array<React.Ref<T> | undefined>): React.RefCallback<T> {
+  return (element) => {
+    for (const ref of refs) {
+      if (typeof ref === "function") ref(element);
+      else if (ref) (ref as React.RefObject<T | null>).current = element;
+    }
+  };
+}
+
+type TriggerProps = React.HTMLAttributes<HTMLElement> & { ref?: React.Ref<HTMLElement> };
+
+/**
+ * Clones a trigger element with overlay props: handlers run after the
+ * element's own (skipped when it calls preventDefault) and refs are merged.
+ */
+export function cloneTrigger(
+  trigger: React.ReactElement<TriggerProps>,
+  props: TriggerProps
+): React.ReactElement {
+  // React 19 passes ref as a prop; React 18 keeps it on the element
+  const ownRef =
+    Number(React.version.split(".")[0]) >= 19
+      ? trigger.props.ref
+      : (trigger as unknown as { ref?: React.Ref<HTMLElement> }).ref;
+  const merged: Record<string, unknown> = { ...props, ref: mergeRefs(ownRef, props.ref) };
+
+  for (const [key, handler] of Object.entries(props)) {
+    const own = (trigger.props as Record<string, unknown>)[key];
+    if (!/^on[A-Z]/.test(key) || typeof own !== "function" || typeof handler !== "function") {
+      continue;
+    }
+    merged[key] = (event: React.SyntheticEvent) => {
+      own(event);
+      if (!event.defaultPrevented) handler(event);
+    };
+  }
+  return React.cloneElement(trigger, merged);
+}
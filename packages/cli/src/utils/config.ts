@@ -0,0 +1,295 @@
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import type { RegistryConfig } from "../registry/registries.js";
+import type { PackageManager } from "./packages.js";
+import { CONFIG_SCHEMA, migrateConfig } from "./migrations.js";
+
+export type Framework = "react" | "vue" | "svelte" | "unknown";
+
+export type ProjectType =
+  | "next-app-router"
+  | "next-pages-router"
+  | "vite-react"
+  | "cra"
+  | "vite-vue"
+  | "nuxt"
+  | "unknown";
+
+export type Language = "ts" | "js";
+
+export type StyleStrategy = "tailwind";
+
+/**
+ * oxitron-ui.config.json at the current schema (see schema/oxitron-ui.schema.json).
+ * Older files are migrated when loaded.
+ */
+export type StoneConfig = {
+  $schema?: string;
+  schema: typeof CONFIG_SCHEMA;
+  framework: Framework;
+  projectType: ProjectType;
+  language: Language;
+  packageManager: PackageManager;
+  /**
+   * Import specifier that points at paths.outputDir, e.g. "@/components/oxitron-ui".
+   */
+  alias?: string;
+  paths: {
+    outputDir: string;
+    primitivesDir: string;
+    wrappersDir: string;
+    utilsDir: string;
+    barrelFile: string;
+  };
+  styles: {
+    strategy: StyleStrategy;
+  };
+  /**
+   * Extra component sources; components are added as "<name>/<component>".
+   */
+  registries?: RegistryConfig[];
+};
+
+export type ResolvedPaths = {
+  outputDir: string;
+  primitivesDir: string;
+  wrappersDir: string;
+  utilsDir: string;
+  barrelFile: string;
+  /**
+   * Import specifier for outputDir, or null to use relative imports.
+   */
+  alias: string | null;
+};
+
+export type ParsedConfig = {
+  config: StoneConfig;
+  /**
+   * Migrations applied in memory, e.g. ["oxitron-ui@1 -> oxitron-ui@2"].
+   */
+  migrated: string[];
+};
+
+export const CONFIG_FILE = "oxitron-ui.config.json";
+
+export function hasConfig(cwd: string): boolean {
+  return fssync.existsSync(path.join(cwd, CONFIG_FILE));
+}
+
+/**
+ * Reads, migrates and validates oxitron-ui.config.json
+ * @param cwd - Project root
+ * @throws With one line per invalid field
+ */
+export async function loadConfig(cwd: string): Promise<StoneConfig> {
+  return (await readConfig(cwd)).config;
+}
+
+/**
+ * Like loadConfig, but also reports which migrations were applied in memory
+ */
+export async function readConfig(cwd: string): Promise<ParsedConfig> {
+  const configPath = path.join(cwd, CONFIG_FILE);
+  if (!fssync.existsSync(configPath)) {
+    throw new Error(
+      `Missing ${CONFIG_FILE}. Run "npx oxitron-ui init" first.`
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(configPath, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `${CONFIG_FILE} is not valid JSON: ${err instanceof Error ? err.message : err}`
+    );
+  }
+  return parseConfig(raw);
+}
+
+/**
+ * Migrates a parsed config to the current schema and validates it
+ * @param value - Parsed JSON
+ * @throws With one line per invalid field
+ */
+export function parseConfig(value: unknown): ParsedConfig {
+  if (!isRecord(value)) {
+    throw new Error(`${CONFIG_FILE} must contain a JSON object.`);
+  }
+
+  let migrated;
+  try {
+    migrated = migrateConfig(value);
+  } catch (err) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const issues = validateConfigShape(migrated.config);
+  if (issues.length) {
+    throw new Error(
+      `Invalid ${CONFIG_FILE}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`
+    );
+  }
+  return { config: migrated.config as StoneConfig, migrated: migrated.applied };
+}
+
+/**
+ * Paths from the config, normalized for the commands (posix, relative to cwd)
+ */
+export function resolvePaths(config: StoneConfig): ResolvedPaths {
+  return {
+    ...config.paths,
+    alias: config.alias?.trim() || null,
+  };
+}
+
+export function normalizeFs(p: string): string {
+  return p.replace(/\//g, path.sep);
+}
+
+export function toPosix(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+/**
+ * Absolute path of a file the CLI writes or deletes
+ * @param cwd - Project root
+ * @param file - Posix path relative to cwd
+ * @throws When the path is absolute or normalizes to a location outside cwd
+ *   (e.g. "../x" or "a/../../x" from a registry or lockfile)
+ */
+export function projectPath(cwd: string, file: string): string {
+  const abs = path.resolve(cwd, normalizeFs(file));
+  const rel = path.relative(cwd, abs);
+  if (
+    !staysInProject(file) ||
+    rel === "" ||
+    rel === ".." ||
+    rel.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(rel)
+  ) {
+    throw new Error(`Refusing to touch ${toPosix(file)}: it is outside the project (${cwd}).`);
+  }
+  return abs;
+}
+
+/**
+ * Whether a relative path stays inside the directory it is relative to once normalized
+ */
+function staysInProject(file: string): boolean {
+  const normalized = path.posix.normalize(file.replace(/\\/g, "/"));
+  return !(
+    path.posix.isAbsolute(normalized) ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized === ".." ||
+    normalized.startsWith("../")
+  );
+}
+
+const FRAMEWORKS = ["react", "vue", "svelte", "unknown"];
+const PROJECT_TYPES = [
+  "next-app-router",
+  "next-pages-router",
+  "vite-react",
+  "cra",
+  "vite-vue",
+  "nuxt",
+  "unknown",
+];
+const PACKAGE_MANAGERS = ["pnpm", "npm", "yarn", "bun"];
+const PATH_KEYS = ["outputDir", "primitivesDir", "wrappersDir", "utilsDir", "barrelFile"];
+const TOP_LEVEL_KEYS = [
+  "$schema",
+  "schema",
+  "framework",
+  "projectType",
+  "language",
+  "packageManager",
+  "alias",
+  "paths",
+  "styles",
+  "registries",
+];
+
+/**
+ * Checks a config at the current schema. Keep in sync with
+ * schema/oxitron-ui.schema.json.
+ * @param value - Parsed (and migrated) JSON
+ * @returns One "<field>: <problem>" message per problem (empty when valid)
+ */
+export function validateConfigShape(value: unknown): string[] {
+  if (!isRecord(value)) return ["config must be a JSON object"];
+
+  const issues: string[] = [];
+  const got = (actual: unknown) => `got ${actual === undefined ? "nothing" : JSON.stringify(actual)}`;
+  const expectOneOf = (key: string, actual: unknown, allowed: string[]) => {
+    if (typeof actual !== "string" || !allowed.includes(actual)) {
+      issues.push(`${key}: must be one of ${allowed.join(", ")} (${got(actual)})`);
+    }
+  };
+  const expectString = (key: string, actual: unknown, hint: string) => {
+    if (typeof actual !== "string" || actual.trim() === "") {
+      issues.push(`${key}: must be ${hint} (${got(actual)})`);
+    }
+  };
+  const expectKnownKeys = (prefix: string, record: Record<string, unknown>, known: string[]) => {
+    for (const key of Object.keys(record)) {
+      if (known.includes(key)) continue;
+      const suggestion = known.find((k) => k.toLowerCase() === key.toLowerCase());
+      issues.push(
+        `${prefix}${key}: unknown field${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`
+      );
+    }
+  };
+
+  expectKnownKeys("", value, TOP_LEVEL_KEYS);
+  expectOneOf("schema", value.schema, [CONFIG_SCHEMA]);
+  expectOneOf("framework", value.framework, FRAMEWORKS);
+  expectOneOf("projectType", value.projectType, PROJECT_TYPES);
+  expectOneOf("language", value.language, ["ts", "js"]);
+  expectOneOf("packageManager", value.packageManager, PACKAGE_MANAGERS);
+  if (value.$schema !== undefined) expectString("$schema", value.$schema, "a URL or path");
+  if (value.alias !== undefined) {
+    expectString("alias", value.alias, `an import specifier like "@/components/oxitron-ui"`);
+  }
+
+  if (!isRecord(value.paths)) {
+    issues.push(`paths: must be an object (${got(value.paths)})`);
+  } else {
+    expectKnownKeys("paths.", value.paths, PATH_KEYS);
+    for (const key of PATH_KEYS) {
+      const p = value.paths[key];
+      expectString(`paths.${key}`, p, "a non-empty path relative to the project root");
+      if (typeof p === "string" && !staysInProject(p)) {
+        issues.push(`paths.${key}: must stay inside the project (got ${JSON.stringify(p)})`);
+      }
+    }
+  }
+
+  if (!isRecord(value.styles)) {
+    issues.push(`styles: must be an object (${got(value.styles)})`);
+  } else {
+    expectOneOf("styles.strategy", value.styles.strategy, ["tailwind"]);
+  }
+
+  if (value.registries !== undefined) {
+    if (!Array.isArray(value.registries)) {
+      issues.push(`registries: must be an array (${got(value.registries)})`);
+    } else {
+      value.registries.forEach((registry, index) => {
+        const entry = isRecord(registry) ? registry : {};
+        if (typeof entry.name !== "string" || !/^@[^/\s]+$/.test(entry.name)) {
+          issues.push(`registries[${index}].name: must be a scope like "@acme" (${got(entry.name)})`);
+        }
+        expectString(`registries[${index}].source`, entry.source, "a directory, JSON file or URL");
+      });
+    }
+  }
+
+  return issues;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,226 @@
+/**
+ * A changed region: base lines [oldStart, oldEnd) became other lines [newStart, newEnd).
+ */
+export type Hunk = {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+};
+
+export type MergeResult = {
+  text: string;
+  conflicts: number;
+};
+
+export type MergeLabels = {
+  ours: string;
+  theirs: string;
+};
+
+/**
+ * Splits text into lines, ignoring CRLF and a single trailing newline
+ */
+export function splitLines(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, "\n");
+  if (normalized === "") return [];
+  const lines = normalized.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ * @returns Changed regions in order
+ */
+export function diffLines(oldLines: string[], newLines: string[]): Hunk[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  let current: Hunk | null = null;
+
+  const flush = () => {
+    if (current) hunks.push(current);
+    current = null;
+  };
+
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      flush();
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) current = { oldStart: i, oldEnd: i, newStart: j, newEnd: j };
+    if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      j++;
+      current.newEnd = j;
+    } else {
+      i++;
+      current.oldEnd = i;
+    }
+  }
+  flush();
+
+  return hunks;
+}
+
+/**
+ * Renders a unified diff (like `diff -u`)
+ * @returns Empty string when both texts are equal
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3
+): string {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const hunks = diffLines(a, b);
+  if (hunks.length === 0) return "";
+
+  // Group hunks whose context windows touch
+  const groups: Hunk[][] = [];
+  for (const hunk of hunks) {
+    const last = groups[groups.length - 1];
+    if (last && hunk.oldStart - last[last.length - 1].oldEnd <= context * 2) {
+      last.push(hunk);
+    } else {
+      groups.push([hunk]);
+    }
+  }
+
+  const out = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const group of groups) {
+    const first = group[0];
+    const last = group[group.length - 1];
+    const oldStart = Math.max(0, first.oldStart - context);
+    const oldEnd = Math.min(a.length, last.oldEnd + context);
+    const newStart = first.newStart - (first.oldStart - oldStart);
+    const newEnd = last.newEnd + (oldEnd - last.oldEnd);
+
+    out.push(
+      `@@ -${rangeHeader(oldStart, oldEnd - oldStart)} +${rangeHeader(newStart, newEnd - newStart)} @@`
+    );
+
+    let pos = oldStart;
+    for (const hunk of group) {
+      for (; pos < hunk.oldStart; pos++) out.push(` ${a[pos]}`);
+      for (let k = hunk.oldStart; k < hunk.oldEnd; k++) out.push(`-${a[k]}`);
+      for (let k = hunk.newStart; k < hunk.newEnd; k++) out.push(`+${b[k]}`);
+      pos = hunk.oldEnd;
+    }
+    for (; pos < oldEnd; pos++) out.push(` ${a[pos]}`);
+  }
+
+  return out.join("\n") + "\n";
+}
+
+/**
+ * Three-way merge of two edits of the same base.
+ * Regions changed on only one side are taken from that side; regions changed
+ * identically on both sides are taken once; anything else becomes a conflict
+ * block with git-style markers.
+ */
+export function merge3(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels
+): MergeResult {
+  const o = splitLines(base);
+  const a = splitLines(ours);
+  const b = splitLines(theirs);
+
+  const changes = [
+    ...diffLines(o, a).map((hunk) => ({ side: "ours" as const, hunk })),
+    ...diffLines(o, b).map((hunk) => ({ side: "theirs" as const, hunk })),
+  ].sort((x, y) => x.hunk.oldStart - y.hunk.oldStart || x.hunk.oldEnd - y.hunk.oldEnd);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let pos = 0;
+  let index = 0;
+
+  while (index < changes.length) {
+    // Collect every change overlapping (or touching) this base region
+    const group = [changes[index++]];
+    let start = group[0].hunk.oldStart;
+    let end = group[0].hunk.oldEnd;
+    while (index < changes.length && changes[index].hunk.oldStart <= end) {
+      const next = changes[index++];
+      group.push(next);
+      start = Math.min(start, next.hunk.oldStart);
+      end = Math.max(end, next.hunk.oldEnd);
+    }
+
+    for (; pos < start; pos++) out.push(o[pos]);
+
+    const oursHunks = group.filter((c) => c.side === "ours").map((c) => c.hunk);
+    const theirsHunks = group.filter((c) => c.side === "theirs").map((c) => c.hunk);
+    const oursRegion = applyRegion(o, a, oursHunks, start, end);
+    const theirsRegion = applyRegion(o, b, theirsHunks, start, end);
+
+    if (theirsHunks.length === 0) {
+      out.push(...oursRegion);
+    } else if (oursHunks.length === 0) {
+      out.push(...theirsRegion);
+    } else if (oursRegion.join("\n") === theirsRegion.join("\n")) {
+      out.push(...oursRegion);
+    } else {
+      conflicts++;
+      out.push(
+        `<<<<<<< ${labels.ours}`,
+        ...oursRegion,
+        "=======",
+        ...theirsRegion,
+        `>>>>>>> ${labels.theirs}`
+      );
+    }
+    pos = end;
+  }
+
+  for (; pos < o.length; pos++) out.push(o[pos]);
+
+  return { text: out.length ? out.join("\n") + "\n" : "", conflicts };
+}
+
+function applyRegion(
+  base: string[],
+  side: string[],
+  hunks: Hunk[],
+  start: number,
+  end: number
+): string[] {
+  const result: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(pos, hunk.oldStart));
+    result.push(...side.slice(hunk.newStart, hunk.newEnd));
+    pos = hunk.oldEnd;
+  }
+  result.push(...base.slice(pos, end));
+  return result;
+}
+
+function rangeHeader(start: number, count: number): string {
+  // diff -u prints the line before an empty range
+  const line = count === 0 ? start : start + 1;
+  return count === 1 ? `${line}` : `${line},${count}`;
+}
@@ -0,0 +1,242 @@
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import { normalizeFs, toPosix, type ResolvedPaths } from "./config.js";
+
+/**
+ * A wildcard entry of compilerOptions.paths, e.g. "@/*": ["./src/*"]
+ * becomes { prefix: "@/", target: "src/" } (target relative to cwd).
+ */
+export type PathAlias = {
+  prefix: string;
+  target: string;
+};
+
+/**
+ * Files that may declare compilerOptions.paths, in lookup order
+ * (Vite keeps them in tsconfig.app.json).
+ */
+export const TSCONFIG_FILES = ["tsconfig.json", "tsconfig.app.json", "jsconfig.json"];
+
+/**
+ * Reads wildcard path aliases from tsconfig/jsconfig files
+ * @param cwd - Project root
+ * @returns Aliases from every file found (unreadable files are ignored)
+ */
+export function readPathAliases(cwd: string): PathAlias[] {
+  const aliases: PathAlias[] = [];
+  for (const file of TSCONFIG_FILES) {
+    const abs = path.join(cwd, file);
+    if (!fssync.existsSync(abs)) continue;
+
+    let tsconfig: unknown;
+    try {
+      tsconfig = parseJsonc(fssync.readFileSync(abs, "utf8"));
+    } catch {
+      continue;
+    }
+    const compilerOptions = isRecord(tsconfig) ? tsconfig.compilerOptions : undefined;
+    if (!isRecord(compilerOptions) || !isRecord(compilerOptions.paths)) continue;
+
+    const base = typeof compilerOptions.baseUrl === "string" ? compilerOptions.baseUrl : ".";
+    for (const [key, targets] of Object.entries(compilerOptions.paths)) {
+      const first = Array.isArray(targets) ? targets[0] : undefined;
+      if (!key.endsWith("*") || typeof first !== "string" || !first.endsWith("*")) continue;
+      const target = toPosix(path.relative(cwd, path.resolve(cwd, base, first.slice(0, -1))));
+      aliases.push({ prefix: key.slice(0, -1), target: target ? `${target}/` : "" });
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Import specifier for a project file through a path alias
+ * @param file - Posix path relative to cwd (without extension)
+ * @returns e.g. "@/components/oxitron-ui" for "src/components/oxitron-ui", or null
+ */
+export function aliasFor(file: string, aliases: PathAlias[]): string | null {
+  const match = aliases
+    .filter((alias) => `${file}/`.startsWith(alias.target))
+    .sort((a, b) => b.target.length - a.target.length)[0];
+  return match ? `${match.prefix}${file.slice(match.target.length)}`.replace(/\/$/, "") : null;
+}
+
+/**
+ * Whether an alias maps onto a directory through the given path aliases
+ */
+export function aliasResolvesTo(alias: string, dir: string, aliases: PathAlias[]): boolean {
+  return aliases.some(
+    (a) => alias.startsWith(a.prefix) && `${a.target}${alias.slice(a.prefix.length)}` === dir
+  );
+}
+
+/**
+ * Location of a template inside the default layout the templates are written for,
+ * e.g. "primitives/button.tsx" or "utils/cn.ts".
+ */
+export function templateLayoutPath(
+  kind: "primitive" | "wrapper" | "utility",
+  fileName: string
+): string {
+  const dir = kind === "primitive" ? "primitives" : kind === "wrapper" ? "wrappers" : "utils";
+  return `${dir}/${fileName}`;
+}
+
+/**
+ * Relative import specifier between two project files ("./x", "../utils/cn")
+ */
+export function relativeSpecifier(fromDir: string, to: string): string {
+  const rel = path.posix.relative(fromDir, to);
+  return rel.startsWith(".") ? rel : `./${rel}`;
+}
+
+export type ImportRewriter = (source: string, layoutPath: string) => string;
+
+/**
+ * Creates a function that points a template's relative imports at the
+ * configured directories, through the config alias when tsconfig/jsconfig
+ * maps it and with correct relative paths otherwise
+ * @param cwd - Project root
+ * @param paths - Resolved config paths
+ */
+export function createImportRewriter(cwd: string, paths: ResolvedPaths): ImportRewriter {
+  const alias =
+    paths.alias && aliasResolvesTo(paths.alias, paths.outputDir, readPathAliases(cwd))
+      ? paths.alias
+      : null;
+
+  const toProject = (layoutPath: string): string => {
+    const [head, ...rest] = layoutPath.split("/");
+    const dir =
+      head === "primitives"
+        ? paths.primitivesDir
+        : head === "wrappers"
+          ? paths.wrappersDir
+          : head === "utils"
+            ? paths.utilsDir
+            : null;
+    return dir ? path.posix.join(dir, ...rest) : path.posix.join(paths.outputDir, layoutPath);
+  };
+
+  return (source, layoutPath) => {
+    const from = toProject(layoutPath);
+    return source.replace(
+      /(\bfrom\s+|\bimport\s*\(\s*|\bimport\s+)(["'])(\.\.?\/[^"']*)\2/g,
+      (match, keyword: string, quote: string, specifier: string) => {
+        const target = path.posix.normalize(
+          path.posix.join(path.posix.dirname(layoutPath), specifier)
+        );
+        if (target.startsWith("..")) return match;
+
+        const file = toProject(target);
+        const insideOutput = `${file}/`.startsWith(`${paths.outputDir}/`);
+        const rewritten =
+          alias && insideOutput
+            ? `${alias}/${path.posix.relative(paths.outputDir, file)}`
+            : relativeSpecifier(path.posix.dirname(from), file);
+        return `${keyword}${quote}${rewritten}${quote}`;
+      }
+    );
+  };
+}
+
+const SOURCE_FILE = /\.(?:[cm]?[jt]sx?|vue|svelte)$/;
+const SKIPPED_DIRS = new Set(["node_modules", "dist", "build", "coverage"]);
+const IMPORT_SPECIFIER = /(?:\bfrom\s+|\bimport\s*\(\s*|\bimport\s+|\brequire\s*\(\s*)(["'])([^"']+)\1/g;
+
+/**
+ * Finds project source files that import any of the given files, through a
+ * relative path or a tsconfig/jsconfig path alias
+ * @param cwd - Project root
+ * @param targets - Posix paths relative to cwd
+ * @param ignore - Posix paths relative to cwd that are not scanned (e.g. files about to be deleted)
+ * @returns Importing files per imported target
+ */
+export function findImporters(
+  cwd: string,
+  targets: string[],
+  ignore: string[] = []
+): Map<string, string[]> {
+  const importers = new Map<string, string[]>();
+  if (targets.length === 0) return importers;
+
+  const byStem = new Map(targets.map((target) => [withoutExtension(target), target]));
+  const skipped = new Set(ignore);
+  const aliases = readPathAliases(cwd);
+
+  for (const file of listSourceFiles(cwd)) {
+    if (skipped.has(file)) continue;
+    const source = fssync.readFileSync(path.join(cwd, normalizeFs(file)), "utf8");
+    const dir = path.posix.dirname(file);
+    for (const [, , specifier] of source.matchAll(IMPORT_SPECIFIER)) {
+      const resolved = specifier.startsWith(".")
+        ? [path.posix.join(dir, specifier)]
+        : aliases
+            .filter((alias) => specifier.startsWith(alias.prefix))
+            .map((alias) => path.posix.join(alias.target, specifier.slice(alias.prefix.length)));
+      for (const candidate of resolved) {
+        const target = byStem.get(withoutExtension(candidate));
+        if (!target) continue;
+        const list = importers.get(target) ?? [];
+        if (!list.includes(file)) list.push(file);
+        importers.set(target, list);
+      }
+    }
+  }
+  return importers;
+}
+
+/**
+ * Source files under cwd as posix paths, skipping dependencies, build output and dot directories
+ */
+function listSourceFiles(cwd: string, dir = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fssync.readdirSync(path.join(cwd, normalizeFs(dir)), {
+    withFileTypes: true,
+  })) {
+    const rel = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith(".") || SKIPPED_DIRS.has(entry.name)) continue;
+      files.push(...listSourceFiles(cwd, rel));
+    } else if (entry.isFile() && SOURCE_FILE.test(entry.name)) {
+      files.push(rel);
+    }
+  }
+  return files;
+}
+
+function withoutExtension(file: string): string {
+  return file.replace(/\.(?:[cm]?[jt]sx?)$/, "");
+}
+
+/**
+ * Parses JSON with comments and trailing commas (tsconfig style)
+ */
+function parseJsonc(text: string): unknown {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      out += char;
+      if (char === "\\") out += text[++i] ?? "";
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      out += char;
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      out += "\n";
+    } else if (char === "/" && text[i + 1] === "*") {
+      i = text.indexOf("*/", i + 2);
+      if (i < 0) break;
+      i++;
+    } else {
+      out += char;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
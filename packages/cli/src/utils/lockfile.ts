@@ -0,0 +1,111 @@
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+
+export const LOCK_FILE = "oxitron-ui.lock.json";
+
+export type LockedFile = {
+  /**
+   * Posix path relative to cwd.
+   */
+  path: string;
+  /**
+   * Hash of the template contents that were written.
+   */
+  hash: string;
+};
+
+export type LockedComponent = {
+  name: string;
+  /**
+   * Registry scope ("@acme"), or null for the built-in manifest.
+   */
+  registry: string | null;
+  version: string | null;
+  language: "ts" | "js";
+  kind: "primitive" | "wrapper";
+  file: LockedFile;
+  utilities: string[];
+  dependencies: string[];
+};
+
+export type LockedUtility = LockedFile & {
+  name: string;
+};
+
+export type Lockfile = {
+  lockfileVersion: 1;
+  /**
+   * Keyed by component id: "button" or "@acme/data-table".
+   */
+  components: Record<string, LockedComponent>;
+  /**
+   * Keyed by utility name: "cn".
+   */
+  utilities: Record<string, LockedUtility>;
+};
+
+export function emptyLock(): Lockfile {
+  return { lockfileVersion: 1, components: {}, utilities: {} };
+}
+
+export function hashContent(contents: string): string {
+  const normalized = contents.replace(/\r\n/g, "\n");
+  return `sha256-${createHash("sha256").update(normalized).digest("hex")}`;
+}
+
+/**
+ * Reads oxitron-ui.lock.json
+ * @returns An empty lock when the file does not exist
+ */
+export async function readLock(cwd: string): Promise<Lockfile> {
+  const lockPath = path.join(cwd, LOCK_FILE);
+  if (!fssync.existsSync(lockPath)) return emptyLock();
+
+  let parsed: Partial<Lockfile>;
+  try {
+    parsed = JSON.parse(await fs.readFile(lockPath, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `${LOCK_FILE} is not valid JSON: ${err instanceof Error ? err.message : err}`
+    );
+  }
+  if (parsed.lockfileVersion !== 1) {
+    throw new Error(`Unsupported ${LOCK_FILE} version: ${parsed.lockfileVersion}`);
+  }
+  return {
+    lockfileVersion: 1,
+    components: parsed.components ?? {},
+    utilities: parsed.utilities ?? {},
+  };
+}
+
+/**
+ * Writes oxitron-ui.lock.json with sorted keys so diffs stay stable
+ */
+export async function writeLock(cwd: string, lock: Lockfile): Promise<void> {
+  const sorted: Lockfile = {
+    lockfileVersion: 1,
+    components: sortKeys(lock.components),
+    utilities: sortKeys(lock.utilities),
+  };
+  await fs.writeFile(path.join(cwd, LOCK_FILE), JSON.stringify(sorted, null, 2) + "\n", "utf8");
+}
+
+/**
+ * Finds the lock entry that owns a file (component or utility)
+ */
+export function findLockedFile(lock: Lockfile, file: string): LockedFile | null {
+  for (const component of Object.values(lock.components)) {
+    if (component.file.path === file) return component.file;
+  }
+  for (const utility of Object.values(lock.utilities)) {
+    if (utility.path === file) return utility;
+  }
+  return null;
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
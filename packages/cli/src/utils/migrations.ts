@@ -0,0 +1,98 @@
+import * as path from "node:path";
+
+/**
+ * Schema version written by this CLI.
+ */
+export const CONFIG_SCHEMA = "oxitron-ui@2";
+
+/**
+ * JSON Schema for editor autocomplete, shipped in the package under schema/.
+ */
+export const CONFIG_SCHEMA_URL = "https://unpkg.com/@oxitron-ui/cli/schema/oxitron-ui.schema.json";
+
+type RawConfig = Record<string, unknown>;
+
+type Migration = {
+  from: string;
+  to: string;
+  migrate(config: RawConfig): RawConfig;
+};
+
+/**
+ * One step per schema version, applied in order. Steps only move data
+ * around; validation runs on the result.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // @2: every path is explicit and the file points at the JSON Schema
+    from: "oxitron-ui@1",
+    to: "oxitron-ui@2",
+    migrate(config) {
+      const paths = isRecord(config.paths) ? config.paths : {};
+      const outputDir = typeof paths.outputDir === "string" ? paths.outputDir : undefined;
+      const language = config.language === "js" ? "js" : "ts";
+      const withDefault = (key: string, fallback: string) =>
+        paths[key] ?? (outputDir === undefined ? undefined : path.posix.join(outputDir, fallback));
+
+      const rest = { ...config };
+      delete rest.schema;
+      delete rest.$schema;
+      return {
+        $schema: CONFIG_SCHEMA_URL,
+        schema: "oxitron-ui@2",
+        ...rest,
+        projectType: config.projectType ?? "unknown",
+        paths: {
+          ...paths,
+          primitivesDir: withDefault("primitivesDir", "primitives"),
+          wrappersDir: withDefault("wrappersDir", "wrappers"),
+          utilsDir: withDefault("utilsDir", "utils"),
+          barrelFile: withDefault("barrelFile", `index.${language}`),
+        },
+        styles: config.styles ?? { strategy: "tailwind" },
+      };
+    },
+  },
+];
+
+export const CONFIG_SCHEMAS = [...MIGRATIONS.map((m) => m.from), CONFIG_SCHEMA];
+
+export type MigrationResult = {
+  config: RawConfig;
+  /**
+   * Steps applied, e.g. ["oxitron-ui@1 -> oxitron-ui@2"]; empty when already current.
+   */
+  applied: string[];
+};
+
+/**
+ * Brings a parsed config up to CONFIG_SCHEMA
+ * @param config - Parsed JSON object
+ * @throws When the schema field is missing, unknown, or newer than this CLI
+ */
+export function migrateConfig(config: RawConfig): MigrationResult {
+  if (typeof config.schema !== "string") {
+    throw new Error(`"schema" must be one of ${CONFIG_SCHEMAS.join(", ")} (got ${JSON.stringify(config.schema)})`);
+  }
+  if (!CONFIG_SCHEMAS.includes(config.schema)) {
+    const newer = /^oxitron-ui@\d+$/.test(config.schema);
+    throw new Error(
+      newer
+        ? `Config schema ${config.schema} is newer than this CLI supports (${CONFIG_SCHEMA}). Upgrade @oxitron-ui/cli.`
+        : `Unknown config schema ${JSON.stringify(config.schema)}. Expected one of: ${CONFIG_SCHEMAS.join(", ")}`
+    );
+  }
+
+  let current = config;
+  const applied: string[] = [];
+  for (const migration of MIGRATIONS) {
+    if (current.schema !== migration.from) continue;
+    current = migration.migrate(current);
+    applied.push(`${migration.from} -> ${migration.to}`);
+  }
+  return { config: current, applied };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,56 @@
+import { spawn } from "node:child_process";
+import { packageName } from "../registry/dependencies.js";
+import { readDependencies } from "./project.js";
+
+export type PackageManager = "pnpm" | "npm" | "yarn" | "bun";
+
+/**
+ * Filters package specs down to the ones missing from package.json
+ * @param cwd - Project root
+ * @param specs - Specs like "focus-trap@^7"
+ */
+export function findMissingPackages(cwd: string, specs: string[]): string[] {
+  const deps = readDependencies(cwd);
+  return specs.filter((spec) => !deps[packageName(spec)]);
+}
+
+/**
+ * Builds the install command line for a package manager
+ * @returns Command and arguments, e.g. ["pnpm", ["add", "focus-trap@^7"]]
+ */
+export function installCommand(pm: PackageManager, specs: string[]): [string, string[]] {
+  switch (pm) {
+    case "npm":
+      return ["npm", ["install", ...specs]];
+    case "yarn":
+    case "pnpm":
+    case "bun":
+      return [pm, ["add", ...specs]];
+  }
+}
+
+/**
+ * Installs packages with the project's package manager, streaming its output
+ * @param cwd - Project root
+ * @param pm - Package manager
+ * @param specs - Package specs to install
+ */
+export function installPackages(cwd: string, pm: PackageManager, specs: string[]): Promise<void> {
+  const [command, args] = installCommand(pm, specs);
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      stdio: "inherit",
+      shell: process.platform === "win32",
+    });
+    child.on("error", (err) => reject(new Error(`Could not run ${command}: ${err.message}`)));
+    child.on("close", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`${command} ${args.join(" ")} exited with code ${code}`));
+    });
+  });
+}
+
+export function toPackageManager(value: string | undefined): PackageManager {
+  return value === "pnpm" || value === "yarn" || value === "bun" ? value : "npm";
+}
@@ -0,0 +1,94 @@
+import { colorize, log } from "./terminal.js";
+
+export type PlannedAction = "create" | "overwrite" | "skip";
+
+export type PlannedFile = {
+  /**
+   * Posix path relative to cwd.
+   */
+  path: string;
+  kind: "config" | "component" | "utility" | "barrel" | "lockfile";
+  action: PlannedAction;
+};
+
+export type PlannedComponent = {
+  id: string;
+  version: string | null;
+  /**
+   * true when added only because another component depends on it.
+   */
+  dependency: boolean;
+};
+
+/**
+ * Everything a command would do, computed without touching the disk.
+ */
+export type Plan = {
+  command: "add" | "init";
+  files: PlannedFile[];
+  components?: PlannedComponent[];
+  /**
+   * Export lines appended to the barrel file.
+   */
+  barrelExports?: string[];
+  /**
+   * npm packages that are missing and would be installed.
+   */
+  packages?: string[];
+  /**
+   * Config that would be written.
+   */
+  config?: unknown;
+  warnings: string[];
+};
+
+const ACTION_COLORS = {
+  create: "green",
+  overwrite: "yellow",
+  skip: "gray",
+} as const;
+
+/**
+ * Prints a dry-run plan, as JSON or for humans
+ */
+export function printPlan(plan: Plan, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(plan, null, 2));
+    return;
+  }
+
+  const tag = `[oxitron-ui:${plan.command}]`;
+  log.info(`${tag} Dry run, nothing was written.`);
+
+  if (plan.components?.length) {
+    log.info("Components:");
+    for (const component of plan.components) {
+      const version = component.version ? `@${component.version}` : "";
+      const note = component.dependency ? " (dependency)" : "";
+      log.muted(`  - ${component.id}${version}${note}`);
+    }
+  }
+
+  log.info("Files:");
+  const width = Math.max(...plan.files.map((file) => file.action.length));
+  for (const file of plan.files) {
+    const action = colorize(ACTION_COLORS[file.action], file.action.padEnd(width));
+    console.log(`  ${action}  ${file.path}`);
+  }
+
+  if (plan.barrelExports?.length) {
+    log.info("Barrel exports:");
+    plan.barrelExports.forEach((line) => log.muted(`  + ${line}`));
+  }
+  if (plan.packages?.length) {
+    log.info("npm packages to install:");
+    plan.packages.forEach((name) => log.muted(`  - ${name}`));
+  }
+  if (plan.config !== undefined) {
+    log.info("Config:");
+    JSON.stringify(plan.config, null, 2)
+      .split("\n")
+      .forEach((line) => log.muted(`  ${line}`));
+  }
+  plan.warnings.forEach((warning) => log.warn(warning));
+}
@@ -0,0 +1,141 @@
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import type { ComponentManifestEntry } from "../registry/manifest.js";
+import type { ComponentResolver, ResolvedComponent } from "../registry/registries.js";
+import { normalizeFs, type ResolvedPaths } from "./config.js";
+import { createImportRewriter, relativeSpecifier, templateLayoutPath } from "./imports.js";
+
+/**
+ * Reads dependencies + devDependencies from the project's package.json
+ * @param cwd - Project root
+ * @returns Merged dependency map (empty when package.json is missing or invalid)
+ */
+export function readDependencies(cwd: string): Record<string, string> {
+  try {
+    const pkg = JSON.parse(fssync.readFileSync(path.join(cwd, "package.json"), "utf8"));
+    return { ...(pkg.dependencies ?? {}), ...(pkg.devDependencies ?? {}) };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Directory a manifest entry is installed into
+ */
+export function componentDir(paths: ResolvedPaths, entry: ComponentManifestEntry): string {
+  return entry.kind === "primitive" ? paths.primitivesDir : paths.wrappersDir;
+}
+
+/**
+ * Specifier the barrel file uses to re-export a component, e.g. "./primitives/button"
+ */
+export function barrelSpecifier(paths: ResolvedPaths, entry: ComponentManifestEntry): string {
+  // Vue single-file components are imported with their extension
+  const file = entry.framework === "vue" ? `${entry.name}.vue` : entry.name;
+  return relativeSpecifier(
+    path.posix.dirname(paths.barrelFile),
+    path.posix.join(componentDir(paths, entry), file)
+  );
+}
+
+/**
+ * Export lines the barrel file needs for a component
+ */
+export function barrelExportLines(
+  paths: ResolvedPaths,
+  entry: ComponentManifestEntry,
+  language: "ts" | "js"
+): string[] {
+  const rel = barrelSpecifier(paths, entry);
+  // A Vue SFC has a single default export: the component
+  const lines = entry.exports.values.map((name) =>
+    entry.framework === "vue"
+      ? `export { default as ${name} } from "${rel}";`
+      : `export { ${name} } from "${rel}";`
+  );
+  if (language === "ts") {
+    lines.push(...entry.exports.types.map((name) => `export type { ${name} } from "${rel}";`));
+  }
+  return lines;
+}
+
+/**
+ * Finds an installed component file (tsx or jsx, or vue for Vue entries)
+ * @returns Posix path relative to cwd, or null when not installed
+ */
+export function findInstalledComponent(
+  cwd: string,
+  paths: ResolvedPaths,
+  entry: ComponentManifestEntry
+): string | null {
+  for (const ext of entry.framework === "vue" ? ["vue"] : ["tsx", "jsx"]) {
+    const rel = path.posix.join(componentDir(paths, entry), `${entry.name}.${ext}`);
+    if (fssync.existsSync(path.join(cwd, normalizeFs(rel)))) return rel;
+  }
+  return null;
+}
+
+export type InstalledFile = {
+  /**
+   * Posix path relative to cwd.
+   */
+  file: string;
+  readTemplate(): Promise<string>;
+};
+
+/**
+ * Lists a component's installed file and the installed utilities it requires,
+ * each with a reader for its current template
+ * @returns Empty when the component itself is not installed
+ */
+export function findInstalledFiles(
+  cwd: string,
+  paths: ResolvedPaths,
+  component: ResolvedComponent,
+  resolver: ComponentResolver
+): InstalledFile[] {
+  const { entry } = component;
+  const file = findInstalledComponent(cwd, paths, entry);
+  if (!file) return [];
+
+  // Compare against templates as add wrote them, with imports rewritten
+  const rewrite = createImportRewriter(cwd, paths);
+  const isTs = installedAsTs(cwd, file);
+  const componentFile = path.posix.basename(file);
+  const files: InstalledFile[] = [
+    {
+      file,
+      readTemplate: async () =>
+        rewrite(
+          await component.readTemplate(entry.templates[isTs ? "tsx" : "jsx"]),
+          templateLayoutPath(entry.kind, componentFile)
+        ),
+    },
+  ];
+
+  const utilExt = isTs ? "ts" : "js";
+  for (const name of entry.requires) {
+    const utilFile = path.posix.join(paths.utilsDir, `${name}.${utilExt}`);
+    if (fssync.existsSync(path.join(cwd, normalizeFs(utilFile)))) {
+      files.push({
+        file: utilFile,
+        readTemplate: async () =>
+          rewrite(
+            await resolver.readUtilTemplate(name, utilExt, component),
+            templateLayoutPath("utility", `${name}.${utilExt}`)
+          ),
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Whether an installed component is the TypeScript flavour of its template
+ */
+export function installedAsTs(cwd: string, file: string): boolean {
+  if (!file.endsWith(".vue")) return file.endsWith(".tsx");
+  const source = fssync.readFileSync(path.join(cwd, normalizeFs(file)), "utf8");
+  return /<script\b[^>]*\blang=["']ts["']/.test(source);
+}
@@ -0,0 +1,30 @@
+import * as fs from "node:fs/promises";
+import * as fssync from "node:fs";
+import * as path from "node:path";
+import { normalizeFs, toPosix } from "./config.js";
+
+/**
+ * Template contents as last written by add/update, used as the merge base.
+ * Mirrors the project layout: .oxitron-ui/base/<path relative to cwd>.
+ */
+export const SNAPSHOT_DIR = ".oxitron-ui/base";
+
+function snapshotPath(cwd: string, relPath: string): string {
+  return path.join(cwd, normalizeFs(SNAPSHOT_DIR), normalizeFs(toPosix(relPath)));
+}
+
+export async function writeSnapshot(cwd: string, relPath: string, contents: string): Promise<void> {
+  const target = snapshotPath(cwd, relPath);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, contents, "utf8");
+}
+
+export async function readSnapshot(cwd: string, relPath: string): Promise<string | null> {
+  const target = snapshotPath(cwd, relPath);
+  if (!fssync.existsSync(target)) return null;
+  return fs.readFile(target, "utf8");
+}
+
+export async function removeSnapshot(cwd: string, relPath: string): Promise<void> {
+  await fs.rm(snapshotPath(cwd, relPath), { force: true });
+}
@@ -5,13 +5,14 @@ import { fileURLToPath } from "node:url";
 export function resolveTemplateRoot(importMetaUrl: string): string {
   const currentDir = path.dirname(fileURLToPath(importMetaUrl));
   const candidates = [
-    path.resolve(currentDir, "../templates/react"),
-    path.resolve(currentDir, "../../templates/react"),
-    path.resolve(currentDir, "templates/react"),
+    path.resolve(currentDir, "../templates"),
+    path.resolve(currentDir, "../../templates"),
+    path.resolve(currentDir, "templates"),
   ];
 
+  // components/ (.tsx/.jsx for React, .vue for Vue), utils/ and barrel/
   for (const candidate of candidates) {
-    if (fssync.existsSync(candidate)) return candidate;
+    if (fssync.existsSync(path.join(candidate, "barrel"))) return candidate;
   }
 
   throw new Error(
@@ -35,10 +35,16 @@ export const log = {
   },
 };
 
-export function createProgress(total: number) {
+/**
+ * Step-based progress bar
+ * @param total - Number of steps
+ * @param enabled - false renders nothing (e.g. dry runs with machine-readable output)
+ */
+export function createProgress(total: number, enabled = true) {
   let current = 0;
 
   const render = (label: string) => {
+    if (!enabled) return;
     const width = 24;
     const ratio = Math.min(1, Math.max(0, current / total));
     const filled = Math.round(width * ratio);
@@ -60,6 +66,31 @@ export function createProgress(total: number) {
   };
 }
 
+/**
+ * Whether prompts can be shown (a terminal on both ends and not CI)
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY) && !process.env.CI;
+}
+
+/**
+ * Asks for a free-text answer
+ * @param question - Prompt text
+ * @param defaultValue - Returned for an empty answer
+ */
+export async function ask(question: string, defaultValue: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    const answer = (await rl.question(`${question} ${colorize("gray", `(${defaultValue})`)} `)).trim();
+    return answer || defaultValue;
+  } finally {
+    rl.close();
+  }
+}
+
 export async function confirm(question: string, defaultValue = true): Promise<boolean> {
   const prompt = `${question} ${defaultValue ? "[Y/n]" : "[y/N]"} `;
   const rl = readline.createInterface({
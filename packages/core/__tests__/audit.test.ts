@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { auditNode } from "../a11y/audit.js";
+import { component, h, host } from "../composition/Node.js";
+
+describe("auditNode", () => {
+  it("reports a button without an accessible name", () => {
+    const issues = auditNode(h("button", { type: "button" }, [h("svg", { "aria-hidden": "true" })]));
+    expect(issues.map((issue) => issue.rule)).toEqual(["accessible-name"]);
+  });
+
+  it("treats component and host children as opaque content", () => {
+    expect(auditNode(h("button", {}, [component("Icon")]))).toEqual([]);
+    expect(auditNode(h("button", {}, [host({ label: "from a framework" })]))).toEqual([]);
+  });
+
+  it("does not look inside host values", () => {
+    const fake = { type: "element", tag: "button", props: { role: "bogus" } };
+    expect(auditNode(h("div", {}, [host(fake)]))).toEqual([]);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createMachine,
+  isNavigationKey,
+  moveFocus,
+  partId,
+  staticBinding,
+} from "../behaviors/machine.js";
+import { tabsBehavior, tabsProps, type TabsOptions } from "../behaviors/tabs.js";
+import {
+  accordionBehavior,
+  accordionProps,
+  type AccordionOptions,
+} from "../behaviors/accordion.js";
+import { switchBehavior, switchProps } from "../behaviors/switch.js";
+import { checkboxBehavior, checkboxProps } from "../behaviors/checkbox.js";
+import { radioGroupBehavior, radioGroupProps } from "../behaviors/radioGroup.js";
+
+const ITEMS = [{ value: "a" }, { value: "b", disabled: true }, { value: "c" }, { value: "d" }];
+
+describe("createMachine", () => {
+  it("notifies subscribers of state changes only", () => {
+    const machine = createMachine(switchBehavior, {});
+    const listener = vi.fn();
+    const unsubscribe = machine.subscribe(listener);
+
+    machine.send({ type: "TOGGLE" });
+    machine.send({ type: "SET", checked: true });
+    expect(listener.mock.calls).toEqual([[{ checked: true }]]);
+
+    unsubscribe();
+    machine.send({ type: "TOGGLE" });
+    expect(machine.state).toEqual({ checked: false });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("staticBinding stays at the initial state", () => {
+    const binding = staticBinding(switchBehavior, { defaultChecked: true });
+    binding.send({ type: "TOGGLE" });
+    expect(binding.state).toEqual({ checked: true });
+  });
+});
+
+describe("moveFocus", () => {
+  const disabled = (index: number) => Boolean(ITEMS[index].disabled);
+  const move = (key: string, current: number) =>
+    moveFocus(key, current, ITEMS.length, disabled, "horizontal");
+
+  it("skips disabled items", () => {
+    expect(move("ArrowRight", 0)).toBe(2);
+    expect(move("ArrowLeft", 2)).toBe(0);
+  });
+
+  it("wraps around with arrow keys", () => {
+    expect(move("ArrowRight", 3)).toBe(0);
+    expect(move("ArrowLeft", 0)).toBe(3);
+  });
+
+  it("jumps to the first and last enabled item without wrapping", () => {
+    const lastDisabled = (index: number) => index === 3;
+    expect(move("Home", 2)).toBe(0);
+    expect(moveFocus("End", 0, 4, lastDisabled, "horizontal")).toBe(2);
+    expect(moveFocus("Home", 0, 2, () => true, "horizontal")).toBeNull();
+  });
+
+  it("only handles the arrow keys of its orientation", () => {
+    expect(move("ArrowDown", 0)).toBeNull();
+    expect(moveFocus("ArrowDown", 0, ITEMS.length, disabled, "vertical")).toBe(2);
+    expect(move("Tab", 0)).toBeNull();
+    expect(isNavigationKey("ArrowUp", "vertical")).toBe(true);
+    expect(isNavigationKey("ArrowUp", "horizontal")).toBe(false);
+  });
+
+  it("partId keeps ids safe", () => {
+    expect(partId("tabs", "tab", "Q1 / 2025")).toBe("tabs-tab-Q1-2025");
+  });
+});
+
+describe("tabsBehavior", () => {
+  const options: TabsOptions = { items: ITEMS };
+
+  it("starts at the controlled value, then the default, then the first enabled tab", () => {
+    expect(tabsBehavior.initial({ ...options, value: "c", defaultValue: "d" }).selected).toBe("c");
+    expect(tabsBehavior.initial({ ...options, defaultValue: "d" }).selected).toBe("d");
+    expect(tabsBehavior.initial({ items: ITEMS.slice(1) }).selected).toBe("c");
+  });
+
+  it("selects as arrow keys move focus with automatic activation", () => {
+    const machine = createMachine(tabsBehavior, options);
+    machine.send({ type: "KEY", key: "ArrowRight" });
+    expect(machine.state).toEqual({ selected: "c", focused: "c" });
+
+    machine.send({ type: "KEY", key: "ArrowRight" });
+    machine.send({ type: "KEY", key: "ArrowRight" });
+    expect(machine.state).toEqual({ selected: "a", focused: "a" });
+  });
+
+  it("only moves focus with manual activation until a tab is selected", () => {
+    const machine = createMachine(tabsBehavior, { ...options, activation: "manual" });
+    machine.send({ type: "KEY", key: "ArrowLeft" });
+    expect(machine.state).toEqual({ selected: "a", focused: "d" });
+
+    machine.send({ type: "SELECT", value: "d" });
+    expect(machine.state.selected).toBe("d");
+  });
+
+  it("ignores disabled, unknown and current tabs", () => {
+    const state = tabsBehavior.initial(options);
+    for (const value of ["b", "x", "a"]) {
+      expect(tabsBehavior.transition(state, { type: "SELECT", value }, options)).toBe(state);
+    }
+  });
+
+  it("keeps only the selected tab in the tab order", () => {
+    const send = vi.fn();
+    const binding = { state: { selected: "c", focused: null }, send };
+    const parts = tabsProps(binding, { ...options, id: "t" });
+
+    expect(parts.tab("c")).toMatchObject({ "aria-selected": true, tabIndex: 0, id: "t-tab-c" });
+    expect(parts.tab("a")).toMatchObject({ "aria-selected": false, tabIndex: -1 });
+    expect(parts.tab("b").disabled).toBe(true);
+    expect(parts.panel("a").hidden).toBe(true);
+
+    const preventDefault = vi.fn();
+    (parts.tab("c").onKeyDown as (event: object) => void)({ key: "ArrowLeft", preventDefault });
+    expect(preventDefault).toHaveBeenCalled();
+    expect(send).toHaveBeenCalledWith({ type: "KEY", key: "ArrowLeft" });
+  });
+});
+
+describe("accordionBehavior", () => {
+  const items = [{ value: "a" }, { value: "b" }, { value: "c", disabled: true }];
+  const toggle = (options: AccordionOptions, ...values: string[]) => {
+    const machine = createMachine(accordionBehavior, options);
+    values.forEach((value) => machine.send({ type: "TOGGLE", value }));
+    return machine.state.expanded;
+  };
+
+  it("keeps one item open in single mode", () => {
+    expect(toggle({ items }, "a", "b")).toEqual(["b"]);
+    expect(accordionBehavior.initial({ items, defaultValue: ["a", "b"] }).expanded).toEqual(["a"]);
+  });
+
+  it("only closes the open item when collapsible", () => {
+    expect(toggle({ items }, "a", "a")).toEqual(["a"]);
+    expect(toggle({ items, collapsible: true }, "a", "a")).toEqual([]);
+  });
+
+  it("opens and closes items independently in multiple mode", () => {
+    expect(toggle({ items, type: "multiple" }, "a", "b")).toEqual(["a", "b"]);
+    expect(toggle({ items, type: "multiple" }, "a", "b", "a")).toEqual(["b"]);
+  });
+
+  it("ignores disabled items", () => {
+    expect(toggle({ items, type: "multiple" }, "c")).toEqual([]);
+  });
+
+  it("starts at the controlled value over the default", () => {
+    const options = { items, type: "multiple" as const, value: ["b"], defaultValue: ["a"] };
+    expect(accordionBehavior.initial(options).expanded).toEqual(["b"]);
+  });
+
+  it("moves focus through enabled triggers with wrapping", () => {
+    const machine = createMachine(accordionBehavior, { items });
+    machine.send({ type: "FOCUS", value: "b" });
+    machine.send({ type: "KEY", key: "ArrowDown" });
+    expect(machine.state.focused).toBe("a");
+    machine.send({ type: "KEY", key: "End" });
+    expect(machine.state.focused).toBe("b");
+  });
+
+  it("marks the open item of a non-collapsible single accordion", () => {
+    const binding = { state: { expanded: ["a"], focused: null }, send: vi.fn() };
+    expect(accordionProps(binding, { items }).trigger("a")["aria-disabled"]).toBe(true);
+    const collapsible = accordionProps(binding, { items, collapsible: true });
+    expect(collapsible.trigger("a")["aria-disabled"]).toBeUndefined();
+    expect(accordionProps(binding, { items }).panel("b").hidden).toBe(true);
+  });
+});
+
+describe("switchBehavior", () => {
+  it("starts at the controlled value over the default", () => {
+    expect(switchBehavior.initial({ checked: false, defaultChecked: true })).toEqual({
+      checked: false,
+    });
+    expect(switchBehavior.initial({ defaultChecked: true })).toEqual({ checked: true });
+  });
+
+  it("toggles and sets unless disabled or read-only", () => {
+    const machine = createMachine(switchBehavior, {});
+    machine.send({ type: "TOGGLE" });
+    expect(machine.state.checked).toBe(true);
+    machine.send({ type: "SET", checked: false });
+    expect(machine.state.checked).toBe(false);
+
+    for (const options of [{ disabled: true }, { readOnly: true }]) {
+      const state = switchBehavior.initial(options);
+      expect(switchBehavior.transition(state, { type: "TOGGLE" }, options)).toBe(state);
+    }
+  });
+
+  it("describes the switch for assistive technology", () => {
+    const parts = switchProps({ state: { checked: true }, send: vi.fn() }, { readOnly: true });
+    expect(parts.root).toMatchObject({
+      role: "switch",
+      "aria-checked": true,
+      "aria-readonly": true,
+      "data-state": "checked",
+    });
+  });
+});
+
+describe("checkboxBehavior", () => {
+  it("toggles on change unless read-only", () => {
+    const machine = createMachine(checkboxBehavior, { defaultChecked: true });
+    const input = () => checkboxProps(machine, {}).input;
+    (input().onChange as () => void)();
+    expect(machine.state.checked).toBe(false);
+
+    const readOnly = createMachine(checkboxBehavior, { readOnly: true });
+    readOnly.send({ type: "TOGGLE" });
+    expect(readOnly.state.checked).toBe(false);
+  });
+});
+
+describe("radioGroupBehavior", () => {
+  const items = [{ value: "a" }, { value: "b", disabled: true }, { value: "c" }];
+
+  it("selects enabled items only", () => {
+    const machine = createMachine(radioGroupBehavior, { items, defaultValue: "a" });
+    machine.send({ type: "SELECT", value: "b" });
+    expect(machine.state.value).toBe("a");
+    machine.send({ type: "SELECT", value: "c" });
+    expect(machine.state.value).toBe("c");
+  });
+
+  it("ignores selection while disabled or read-only", () => {
+    for (const flag of ["disabled", "readOnly"] as const) {
+      const machine = createMachine(radioGroupBehavior, { items, value: "a", [flag]: true });
+      machine.send({ type: "SELECT", value: "c" });
+      expect(machine.state.value).toBe("a");
+    }
+  });
+
+  it("shares the group name across radios", () => {
+    const parts = radioGroupProps(
+      { state: { value: "a" }, send: vi.fn() },
+      { id: "size", items, disabled: false }
+    );
+    expect(parts.radio("a")).toMatchObject({ name: "size", checked: true, id: "size-radio-a" });
+    expect(parts.radio("b").disabled).toBe(true);
+    expect(parts.label("b")).toEqual({ htmlFor: "size-radio-b", "data-disabled": true });
+  });
+});
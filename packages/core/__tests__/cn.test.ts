@@ -0,0 +1,126 @@
+import * as fs from "node:fs";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { cn, mergeClasses } from "../utils/cn.js";
+
+describe("cn", () => {
+  it("joins strings, numbers, arrays and dictionaries, skipping falsy values", () => {
+    expect(cn("a", 0, 1, null, undefined, false, ["b", ["c"]], { d: true, e: false, f: null })).toBe(
+      "a 1 b c d"
+    );
+  });
+
+  it("keeps unknown classes and their order", () => {
+    expect(cn("btn", "card", "btn-primary")).toBe("btn card btn-primary");
+  });
+});
+
+describe("mergeClasses", () => {
+  it.each([
+    ["p-2 p-4", "p-4"],
+    ["px-2 p-4", "p-4"],
+    ["p-4 px-2", "p-4 px-2"],
+    ["pt-1 py-3", "py-3"],
+    ["m-1 mx-2 -mt-1", "m-1 mx-2 -mt-1"],
+    ["w-4 h-4 size-6", "size-6"],
+    ["bg-black bg-red-500", "bg-red-500"],
+    ["bg-black/90 bg-white", "bg-white"],
+    ["bg-cover bg-black bg-center", "bg-cover bg-black bg-center"],
+    ["text-sm text-red-600 text-lg", "text-red-600 text-lg"],
+    ["text-left text-center", "text-center"],
+    ["leading-6 text-sm", "text-sm"],
+    ["font-bold font-medium font-mono", "font-medium font-mono"],
+    ["border border-2 border-red-500 border-dashed", "border-2 border-red-500 border-dashed"],
+    ["border-l-4 border-x-2", "border-x-2"],
+    ["rounded-tl-lg rounded-t-md rounded-md", "rounded-md"],
+    ["flex inline-flex flex-col flex-row flex-wrap", "inline-flex flex-row flex-wrap"],
+    ["ring ring-2 ring-blue-500 ring-inset", "ring-2 ring-blue-500 ring-inset"],
+    ["ring-offset-2 ring-offset-white", "ring-offset-2 ring-offset-white"],
+    ["shadow shadow-lg shadow-red-500/50", "shadow-lg shadow-red-500/50"],
+    ["outline outline-2 outline-dashed outline-red-500", "outline-2 outline-dashed outline-red-500"],
+    ["hidden block", "block"],
+    ["absolute relative", "relative"],
+    ["inset-0 top-2", "inset-0 top-2"],
+    ["top-2 inset-0", "inset-0"],
+    ["overflow-x-auto overflow-hidden", "overflow-hidden"],
+    ["grow basis-1/2 flex-1", "flex-1"],
+  ])("resolves conflict groups: %s", (input, expected) => {
+    expect(mergeClasses(input)).toBe(expected);
+  });
+
+  it.each([
+    ["w-4 w-[10px]", "w-[10px]"],
+    ["w-[10px] w-4", "w-4"],
+    ["bg-black bg-[#0ea5e9]", "bg-[#0ea5e9]"],
+    ["bg-[url(/a.png)] bg-black", "bg-[url(/a.png)] bg-black"],
+    ["text-[14px] text-sm", "text-sm"],
+    ["text-[color:var(--c)] text-red-500", "text-red-500"],
+    ["border-[3px] border-2", "border-2"],
+    ["shadow-[0_0_18px_var(--glow)] shadow-md", "shadow-md"],
+    ["border-red-500 [border-color:var(--c)]", "[border-color:var(--c)]"],
+    ["[--gap:4px] [--gap:8px]", "[--gap:8px]"],
+    ["[mask-type:luminance] [mask-type:alpha]", "[mask-type:alpha]"],
+    ["font-[600] font-bold", "font-bold"],
+  ])("handles arbitrary values and properties: %s", (input, expected) => {
+    expect(mergeClasses(input)).toBe(expected);
+  });
+
+  it.each([
+    ["hover:bg-black hover:bg-red-500", "hover:bg-red-500"],
+    ["hover:bg-black bg-red-500", "hover:bg-black bg-red-500"],
+    ["md:hover:p-2 hover:md:p-4", "hover:md:p-4"],
+    ["dark:hover:p-2 hover:p-4", "dark:hover:p-2 hover:p-4"],
+    ["[&>svg]:w-4 [&>svg]:w-5", "[&>svg]:w-5"],
+    ["!p-2 p-4", "!p-2 p-4"],
+    ["!p-2 !p-4", "!p-4"],
+    ["p-2! !p-4", "!p-4"],
+    ["hover:!bg-black hover:!bg-white", "hover:!bg-white"],
+  ])("scopes conflicts by variants and important: %s", (input, expected) => {
+    expect(mergeClasses(input)).toBe(expected);
+  });
+
+  it.each([
+    ["-m-2 m-4", "m-4"],
+    ["m-4 -m-2", "-m-2"],
+    ["-mt-2 mt-4", "mt-4"],
+    ["-translate-x-2 translate-x-4", "translate-x-4"],
+    ["translate-x-4 -translate-y-2", "translate-x-4 -translate-y-2"],
+    ["-z-10 z-20", "z-20"],
+    ["top-2 -top-4", "-top-4"],
+  ])("treats negative values like positive ones: %s", (input, expected) => {
+    expect(mergeClasses(input)).toBe(expected);
+  });
+
+  it("ignores extra whitespace", () => {
+    expect(mergeClasses("  p-2 \n  p-4  ")).toBe("p-4");
+  });
+});
+
+describe("CLI cn templates", () => {
+  const core = fileURLToPath(new URL("../utils/cn.ts", import.meta.url));
+  const template = (ext: string) =>
+    fileURLToPath(new URL(`../../cli/src/templates/utils/cn.${ext}`, import.meta.url));
+
+  it("copy the core source apart from the header and exported types", () => {
+    const strip = (source: string) =>
+      source
+        .replace(/^(\/\/.*\n)+\n/, "")
+        .replace(/^export (type )/gm, "$1");
+    expect(strip(fs.readFileSync(template("ts"), "utf8"))).toBe(
+      strip(fs.readFileSync(core, "utf8"))
+    );
+  });
+
+  it.each(["ts", "js"])("cn.%s resolves classes like core", async (ext) => {
+    const copy = (await import(/* @vite-ignore */ template(ext))) as { cn: typeof cn };
+    const inputs = [
+      "px-2 p-4 hover:bg-black hover:bg-white !p-2",
+      "border border-2 border-red-500 [border-color:var(--c)] rounded-tl-lg rounded-md",
+      "text-sm text-[14px] leading-6 font-[600] -m-2 m-4 shadow-[0_0_18px_var(--g)] shadow-md",
+      "bg-black/90 bg-[url(/a.png)] bg-cover md:hover:p-2 hover:md:p-4 flex-col flex inline-flex",
+    ];
+    for (const input of inputs) {
+      expect(copy.cn(input, { "size-6": true }, ["w-4"])).toBe(cn(input, { "size-6": true }, ["w-4"]));
+    }
+  });
+});
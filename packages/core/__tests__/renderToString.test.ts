@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { ComponentBlueprint } from "../blueprints/ComponentBlueprint.js";
+import { component, h, host, type Node } from "../composition/Node.js";
+import { nodeToString, renderToString } from "../server/renderToString.js";
+
+type BadgeProps = { tone?: string; children?: Array<Node | string> };
+
+class BadgeBlueprint extends ComponentBlueprint<BadgeProps> {
+  readonly name = "Badge";
+  render(props: BadgeProps): Node {
+    return h("span", { className: `badge badge-${props.tone ?? "neutral"}` }, props.children);
+  }
+}
+
+class CardBlueprint extends ComponentBlueprint<{ title: string }> {
+  readonly name = "Card";
+  render(props: { title: string }): Node {
+    return h("div", {}, [h("h2", {}, [props.title]), component("badge", { tone: "info" }, ["New"])]);
+  }
+}
+
+describe("renderToString", () => {
+  it("expands nested blueprints from the components option", () => {
+    const html = renderToString(new CardBlueprint(), { title: "Hi" }, {}, {
+      components: { badge: new BadgeBlueprint() },
+    });
+    expect(html).toBe(`<div><h2>Hi</h2><span class="badge badge-info">New</span></div>`);
+  });
+
+  it("throws on component tags that are not registered", () => {
+    expect(() => renderToString(new CardBlueprint(), { title: "Hi" })).toThrow(
+      /Unknown component "badge"/
+    );
+  });
+});
+
+describe("nodeToString", () => {
+  it("refuses unresolved component nodes instead of printing them as tags", () => {
+    expect(() => nodeToString(component("badge"))).toThrow(/Unresolved component "badge"/);
+  });
+
+  it("refuses host nodes, whose value only a framework renderer understands", () => {
+    expect(() => nodeToString(h("div", {}, [host({ type: "svg" })]))).toThrow(/Host nodes/);
+  });
+
+  it("escapes text and attributes and drops handlers", () => {
+    const html = nodeToString(
+      h("button", { title: `"quoted"`, onClick: () => {}, disabled: true }, ["<b>"])
+    );
+    expect(html).toBe(`<button title="&quot;quoted&quot;" disabled>&lt;b&gt;</button>`);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { fragment, h, type Node } from "../composition/Node.js";
+import {
+  findAllNodes,
+  findNode,
+  insertIntoNode,
+  matchesNode,
+  replaceNode,
+  toChildren,
+  wrapNode,
+} from "../composition/slots.js";
+
+/**
+ * <div root> [ <fragment icon> [ <svg icon-inner> ], <fragment label> [ <fragment> [ <span text> ] ] ] </div>
+ */
+function tree(): Node {
+  return h(
+    "div",
+    {},
+    [
+      fragment([h("svg", {}, [], { slot: "icon", name: "Inner" })], { slot: "icon" }),
+      fragment([fragment([h("span", {}, ["Save"], { slot: "text", id: "t1" })])], { slot: "label" }),
+    ],
+    { slot: "root", name: "ButtonRoot" }
+  );
+}
+
+describe("matchesNode", () => {
+  it("requires every given meta field to match", () => {
+    const node = h("span", {}, [], { slot: "text", name: "Text", id: "t1" });
+    expect(matchesNode(node, { slot: "text", id: "t1" })).toBe(true);
+    expect(matchesNode(node, { slot: "text", id: "t2" })).toBe(false);
+    expect(matchesNode(node, (n) => n.tag === "span")).toBe(true);
+  });
+
+  it("never matches an empty selector", () => {
+    expect(matchesNode(h("span"), {})).toBe(false);
+  });
+});
+
+describe("findNode", () => {
+  it("finds nodes inside nested fragments", () => {
+    expect(findNode(tree(), { id: "t1" })?.tag).toBe("span");
+  });
+
+  it("returns the first match in pre-order", () => {
+    expect(findNode(tree(), { slot: "icon" })?.type).toBe("fragment");
+  });
+
+  it("returns undefined for a missing slot", () => {
+    expect(findNode(tree(), { slot: "missing" })).toBeUndefined();
+  });
+
+  it("finds every match with findAllNodes", () => {
+    expect(findAllNodes(tree(), { slot: "icon" }).map((n) => n.type)).toEqual(["fragment", "element"]);
+  });
+});
+
+describe("replaceNode", () => {
+  it("replaces inside nested fragments without touching the rest", () => {
+    const before = tree();
+    const after = replaceNode(before, { id: "t1" }, h("strong", {}, ["Done"]));
+
+    expect(findNode(after, { id: "t1" })).toBeUndefined();
+    expect(findNode(after, (n) => n.tag === "strong")?.children).toEqual(["Done"]);
+    expect(after.children?.[0]).toBe(before.children?.[0]);
+    expect(findNode(before, { id: "t1" })).toBeDefined();
+  });
+
+  it("returns the same tree when the slot is missing", () => {
+    const before = tree();
+    expect(replaceNode(before, { slot: "missing" }, h("b"))).toBe(before);
+  });
+
+  it("does not search inside a replaced node", () => {
+    const calls: string[] = [];
+    replaceNode(tree(), { slot: "icon" }, (node) => {
+      calls.push(node.type);
+      return node;
+    });
+    expect(calls).toEqual(["fragment"]);
+  });
+});
+
+describe("wrapNode", () => {
+  it("wraps the matching node", () => {
+    const after = wrapNode(tree(), { slot: "root" }, (node) => h("section", {}, [node]));
+    expect(after.tag).toBe("section");
+    expect((after.children?.[0] as Node).meta?.name).toBe("ButtonRoot");
+  });
+
+  it("leaves the tree alone when nothing matches", () => {
+    const before = tree();
+    expect(wrapNode(before, { slot: "missing" }, (node) => h("section", {}, [node]))).toBe(before);
+  });
+});
+
+describe("insertIntoNode", () => {
+  const list = () => h("ul", {}, ["a", "b", "c"], { slot: "list" });
+
+  it("inserts at the start, the end or an index", () => {
+    expect(insertIntoNode(list(), { slot: "list" }, "x", "start").children).toEqual(["x", "a", "b", "c"]);
+    expect(insertIntoNode(list(), { slot: "list" }, ["x", "y"]).children).toEqual(["a", "b", "c", "x", "y"]);
+    expect(insertIntoNode(list(), { slot: "list" }, "x", 1).children).toEqual(["a", "x", "b", "c"]);
+  });
+
+  it("clamps out-of-range indexes", () => {
+    expect(insertIntoNode(list(), { slot: "list" }, "x", 99).children).toEqual(["a", "b", "c", "x"]);
+    expect(insertIntoNode(list(), { slot: "list" }, "x", -3).children).toEqual(["x", "a", "b", "c"]);
+  });
+
+  it("inserts into nodes inside nested fragments", () => {
+    const after = insertIntoNode(tree(), { id: "t1" }, "!");
+    expect(findNode(after, { id: "t1" })?.children).toEqual(["Save", "!"]);
+  });
+
+  it("leaves the tree alone for a missing slot", () => {
+    const before = tree();
+    expect(insertIntoNode(before, { slot: "missing" }, "x")).toBe(before);
+  });
+});
+
+describe("toChildren", () => {
+  it("normalizes slot content", () => {
+    const node = h("b");
+    expect(toChildren(undefined)).toEqual([]);
+    expect(toChildren("x")).toEqual(["x"]);
+    expect(toChildren(node)).toEqual([node]);
+    expect(toChildren(["x", node])).toEqual(["x", node]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { ButtonBlueprint } from "../components/ButtonBlueprint.js";
+import { defaultTokens, defineTokens, mergeTokens, resolveTokens } from "../tokens/tokens.js";
+
+describe("mergeTokens", () => {
+  it("merges each group value by value, later layers winning", () => {
+    const merged = mergeTokens(
+      { color: { primary: "bg-brand", border: "border-brand" }, radius: { md: "rounded-xl" } },
+      { color: { primary: "bg-brand-dark" } }
+    );
+    expect(merged).toEqual({
+      color: { primary: "bg-brand-dark", border: "border-brand" },
+      radius: { md: "rounded-xl" },
+    });
+  });
+
+  it("skips missing layers and groups and leaves its inputs alone", () => {
+    const base = defineTokens({ color: { primary: "bg-brand" } });
+    const merged = mergeTokens(undefined, base, { color: undefined }, { motion: { transition: "" } });
+    expect(merged).toEqual({ color: { primary: "bg-brand" }, motion: { transition: "" } });
+    expect(base).toEqual({ color: { primary: "bg-brand" } });
+  });
+});
+
+describe("resolveTokens", () => {
+  it("returns the defaults without overrides", () => {
+    expect(resolveTokens()).toEqual(defaultTokens);
+  });
+
+  it("fills every value the overrides leave out", () => {
+    const tokens = resolveTokens({ color: { primary: "bg-brand" } });
+    expect(tokens.color).toEqual({ ...defaultTokens.color, primary: "bg-brand" });
+    expect(tokens.spacing).toEqual(defaultTokens.spacing);
+    expect(defaultTokens.color.primary).toBe("bg-black");
+  });
+});
+
+describe("tokens in blueprints", () => {
+  it("resolves class names from ctx.tokens", () => {
+    const button = new ButtonBlueprint();
+    const ctx = { tokens: { color: { primary: "bg-brand" }, radius: { md: "rounded-xl" } } };
+    const classes = (context: typeof ctx | {}) =>
+      String(button.render({}, context).props?.className).split(" ");
+
+    expect(classes(ctx)).toEqual(expect.arrayContaining(["bg-brand", "rounded-xl", "text-white"]));
+    expect(classes(ctx)).not.toContain("bg-black");
+    expect(classes({})).toContain("bg-black");
+  });
+});
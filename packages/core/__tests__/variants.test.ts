@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { ButtonBlueprint } from "../components/ButtonBlueprint.js";
+import { defaultTokens } from "../tokens/tokens.js";
+import { defineVariants, validateVariantProps } from "../variants/variants.js";
+
+const badge = defineVariants({
+  base: (t) => `inline-flex ${t.color.border}`,
+  variants: {
+    tone: {
+      neutral: "text-neutral-700",
+      danger: "text-red-600",
+    },
+    size: {
+      sm: "text-xs",
+      md: "text-sm",
+    },
+    pill: {
+      true: "rounded-full",
+      false: "",
+    },
+  },
+  compoundVariants: [
+    { tone: "danger", size: "md", className: "font-bold" },
+    { tone: ["neutral", "danger"], pill: true, className: "px-3" },
+  ],
+  defaultVariants: { tone: "neutral", size: "sm" },
+});
+
+describe("defineVariants", () => {
+  it("applies the base classes and default variants", () => {
+    expect(badge()).toBe(`inline-flex ${defaultTokens.color.border} text-neutral-700 text-xs`);
+  });
+
+  it("lets props override defaults, skipping undefined values", () => {
+    expect(badge({ tone: "danger", size: undefined })).toBe(
+      `inline-flex ${defaultTokens.color.border} text-red-600 text-xs`
+    );
+  });
+
+  it("adds compound classes only when every condition matches", () => {
+    expect(badge({ tone: "danger", size: "md" })).toBe(
+      `inline-flex ${defaultTokens.color.border} text-red-600 text-sm font-bold`
+    );
+    expect(badge({ tone: "danger", size: "sm" })).not.toContain("font-bold");
+  });
+
+  it("matches compound conditions listed as arrays and boolean variants", () => {
+    expect(badge({ pill: true })).toBe(
+      `inline-flex ${defaultTokens.color.border} text-neutral-700 text-xs rounded-full px-3`
+    );
+    expect(badge({ pill: false })).not.toContain("px-3");
+  });
+
+  it("derives classes from the given tokens", () => {
+    const tokens = { ...defaultTokens, color: { ...defaultTokens.color, border: "border-brand" } };
+    expect(badge({}, tokens)).toBe("inline-flex border-brand text-neutral-700 text-xs");
+  });
+
+  it("merges className last so it wins conflicts", () => {
+    expect(badge({ size: "md", className: "text-lg" })).toBe(
+      `inline-flex ${defaultTokens.color.border} text-neutral-700 text-lg`
+    );
+  });
+
+  it("exposes options and defaults", () => {
+    expect(badge.options).toEqual({
+      tone: ["neutral", "danger"],
+      size: ["sm", "md"],
+      pill: ["true", "false"],
+    });
+    expect(badge.defaults).toEqual({ tone: "neutral", size: "sm" });
+  });
+
+  it("rejects unknown variant values", () => {
+    // @ts-expect-error: not a tone
+    expect(() => badge({ tone: "loud" })).toThrow(
+      `Invalid value "loud" for Component prop "tone". Expected one of: neutral, danger.`
+    );
+    expect(() => badge.validate({ size: "xl" }, "Badge")).toThrow(/for Badge prop "size"/);
+  });
+});
+
+describe("validateVariantProps", () => {
+  const allowed = { size: ["sm", "md"], pill: ["true", "false"] };
+
+  it("accepts allowed values, booleans as strings and undefined", () => {
+    expect(() => validateVariantProps(allowed, { size: "md", pill: false, other: 1 })).not.toThrow();
+    expect(() => validateVariantProps(allowed, { size: undefined })).not.toThrow();
+  });
+
+  it("rejects values that are not allowed", () => {
+    expect(() => validateVariantProps(allowed, { size: 2 }, "Badge")).toThrow(
+      `Invalid value 2 for Badge prop "size". Expected one of: sm, md.`
+    );
+  });
+
+  it("runs in ComponentBlueprint.resolveProps", () => {
+    // @ts-expect-error: not an intent
+    expect(() => new ButtonBlueprint().resolveProps({ intent: "secondary" })).toThrow(
+      /for Button prop "intent"/
+    );
+  });
+});
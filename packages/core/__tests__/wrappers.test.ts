@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { WRAPPER_SLOT, WrapperBlueprint, applyWrappers } from "../blueprints/WrapperBlueprint.js";
+import { fragment, h, type Node } from "../composition/Node.js";
+
+type BoxOptions = { tone?: string };
+
+class BoxWrapper extends WrapperBlueprint<BoxOptions> {
+  readonly defaultOptions: Partial<BoxOptions> = { tone: "plain" };
+
+  constructor(
+    readonly name: string,
+    readonly priority = 0,
+    private readonly compatible = true
+  ) {
+    super();
+  }
+
+  isCompatible(): boolean {
+    return this.compatible;
+  }
+
+  wrap(node: Node, options: BoxOptions): Node {
+    return this.wrapRoot(node, (root) =>
+      h("div", { "data-tone": options.tone }, [root], { slot: WRAPPER_SLOT, name: this.name })
+    );
+  }
+}
+
+const root = () => h("button", {}, ["Save"], { slot: "root", name: "ButtonRoot" });
+
+/**
+ * meta.name of each node from the outside in, following the first child.
+ */
+function nesting(node: Node | string | undefined): string[] {
+  if (node === undefined || typeof node === "string") return [];
+  return [node.meta?.name ?? node.tag ?? node.type, ...nesting(node.children?.[0])];
+}
+
+describe("applyWrappers", () => {
+  it("runs lower priorities first, so they sit closest to the node", () => {
+    const node = applyWrappers(
+      root(),
+      [
+        { wrapper: new BoxWrapper("outer", 10), options: {} },
+        { wrapper: new BoxWrapper("inner", -5), options: {} },
+        { wrapper: new BoxWrapper("middle", 0), options: {} },
+      ],
+      {}
+    );
+    expect(nesting(node)).toEqual(["outer", "middle", "inner", "ButtonRoot"]);
+  });
+
+  it("keeps the given order for equal priorities", () => {
+    const wrappers = ["a", "b", "c", "d"].map((name) => ({
+      wrapper: new BoxWrapper(name, 1),
+      options: {},
+    }));
+    expect(nesting(applyWrappers(root(), wrappers, {}))).toEqual(["d", "c", "b", "a", "ButtonRoot"]);
+  });
+
+  it("wraps the root slot in place and stacks later wrappers outside earlier ones", () => {
+    const tree = h("label", {}, [root(), "hint"]);
+    const node = applyWrappers(
+      tree,
+      [
+        { wrapper: new BoxWrapper("first"), options: {} },
+        { wrapper: new BoxWrapper("second"), options: {} },
+      ],
+      {}
+    );
+    expect(node.tag).toBe("label");
+    expect(node.children?.[1]).toBe("hint");
+    expect(nesting(node)).toEqual(["label", "second", "first", "ButtonRoot"]);
+  });
+
+  it("wraps the whole tree when no root slot is declared", () => {
+    const node = applyWrappers(
+      fragment([h("span"), h("span")]),
+      [{ wrapper: new BoxWrapper("box"), options: {} }],
+      {}
+    );
+    expect(node.meta?.name).toBe("box");
+    expect(node.children?.[0]).toMatchObject({ type: "fragment" });
+  });
+
+  it("skips incompatible wrappers and merges default options", () => {
+    const node = applyWrappers(
+      root(),
+      [
+        { wrapper: new BoxWrapper("skipped", 0, false), options: {} },
+        { wrapper: new BoxWrapper("plain"), options: {} },
+        { wrapper: new BoxWrapper("loud", 1), options: { tone: "loud" } },
+      ],
+      {}
+    );
+    expect(nesting(node)).toEqual(["loud", "plain", "ButtonRoot"]);
+    expect(node.props?.["data-tone"]).toBe("loud");
+    expect((node.children?.[0] as Node).props?.["data-tone"]).toBe("plain");
+  });
+});
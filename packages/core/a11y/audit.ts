@@ -0,0 +1,452 @@
+// packages/core/src/a11y/audit.ts
+import type { Node } from "../composition/Node.js";
+
+export type A11yRule =
+  | "accessible-name"
+  | "aria-attribute"
+  | "aria-role"
+  | "nested-interactive"
+  | "disabled";
+
+export type A11yIssue = {
+  rule: A11yRule;
+  /**
+   * "error" breaks assistive technology; "warning" is redundant or suspicious markup.
+   */
+  severity: "error" | "warning";
+  message: string;
+  /**
+   * Where the node sits, by meta.name or tag (e.g. "ButtonRoot > ButtonIconLeft").
+   */
+  path: string;
+  node: Node;
+};
+
+/**
+ * ARIA 1.2 states and properties.
+ */
+const ARIA_ATTRIBUTES = new Set([
+  "aria-activedescendant",
+  "aria-atomic",
+  "aria-autocomplete",
+  "aria-braillelabel",
+  "aria-brailleroledescription",
+  "aria-busy",
+  "aria-checked",
+  "aria-colcount",
+  "aria-colindex",
+  "aria-colindextext",
+  "aria-colspan",
+  "aria-controls",
+  "aria-current",
+  "aria-describedby",
+  "aria-description",
+  "aria-details",
+  "aria-disabled",
+  "aria-dropeffect",
+  "aria-errormessage",
+  "aria-expanded",
+  "aria-flowto",
+  "aria-grabbed",
+  "aria-haspopup",
+  "aria-hidden",
+  "aria-invalid",
+  "aria-keyshortcuts",
+  "aria-label",
+  "aria-labelledby",
+  "aria-level",
+  "aria-live",
+  "aria-modal",
+  "aria-multiline",
+  "aria-multiselectable",
+  "aria-orientation",
+  "aria-owns",
+  "aria-placeholder",
+  "aria-posinset",
+  "aria-pressed",
+  "aria-readonly",
+  "aria-relevant",
+  "aria-required",
+  "aria-roledescription",
+  "aria-rowcount",
+  "aria-rowindex",
+  "aria-rowindextext",
+  "aria-rowspan",
+  "aria-selected",
+  "aria-setsize",
+  "aria-sort",
+  "aria-valuemax",
+  "aria-valuemin",
+  "aria-valuenow",
+  "aria-valuetext",
+]);
+
+/**
+ * Attributes whose value must be true or false.
+ */
+const BOOLEAN_ARIA = new Set([
+  "aria-atomic",
+  "aria-busy",
+  "aria-disabled",
+  "aria-hidden",
+  "aria-modal",
+  "aria-multiline",
+  "aria-multiselectable",
+  "aria-readonly",
+  "aria-required",
+]);
+
+/**
+ * Attributes with a fixed set of tokens.
+ */
+const ENUM_ARIA: Record<string, readonly string[]> = {
+  "aria-autocomplete": ["inline", "list", "both", "none"],
+  "aria-checked": ["true", "false", "mixed", "undefined"],
+  "aria-current": ["page", "step", "location", "date", "time", "true", "false"],
+  "aria-expanded": ["true", "false", "undefined"],
+  "aria-haspopup": ["false", "true", "menu", "listbox", "tree", "grid", "dialog"],
+  "aria-invalid": ["grammar", "false", "spelling", "true"],
+  "aria-live": ["assertive", "off", "polite"],
+  "aria-orientation": ["horizontal", "vertical", "undefined"],
+  "aria-pressed": ["true", "false", "mixed", "undefined"],
+  "aria-selected": ["true", "false", "undefined"],
+  "aria-sort": ["ascending", "descending", "none", "other"],
+};
+
+/**
+ * Concrete (non-abstract) ARIA 1.2 roles.
+ */
+const ROLES = new Set([
+  "alert",
+  "alertdialog",
+  "application",
+  "article",
+  "banner",
+  "blockquote",
+  "button",
+  "caption",
+  "cell",
+  "checkbox",
+  "code",
+  "columnheader",
+  "combobox",
+  "complementary",
+  "contentinfo",
+  "definition",
+  "deletion",
+  "dialog",
+  "document",
+  "emphasis",
+  "feed",
+  "figure",
+  "form",
+  "generic",
+  "grid",
+  "gridcell",
+  "group",
+  "heading",
+  "img",
+  "insertion",
+  "link",
+  "list",
+  "listbox",
+  "listitem",
+  "log",
+  "main",
+  "marquee",
+  "math",
+  "menu",
+  "menubar",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "meter",
+  "navigation",
+  "none",
+  "note",
+  "option",
+  "paragraph",
+  "presentation",
+  "progressbar",
+  "radio",
+  "radiogroup",
+  "region",
+  "row",
+  "rowgroup",
+  "rowheader",
+  "scrollbar",
+  "search",
+  "searchbox",
+  "separator",
+  "slider",
+  "spinbutton",
+  "status",
+  "strong",
+  "subscript",
+  "superscript",
+  "switch",
+  "tab",
+  "table",
+  "tablist",
+  "tabpanel",
+  "term",
+  "textbox",
+  "time",
+  "timer",
+  "toolbar",
+  "tooltip",
+  "tree",
+  "treegrid",
+  "treeitem",
+]);
+
+/**
+ * Roles that make an element interactive (and so need a name and must not nest).
+ */
+const INTERACTIVE_ROLES = new Set([
+  "button",
+  "checkbox",
+  "combobox",
+  "link",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "option",
+  "radio",
+  "searchbox",
+  "slider",
+  "spinbutton",
+  "switch",
+  "tab",
+  "textbox",
+  "treeitem",
+]);
+
+/**
+ * Elements that support the disabled attribute.
+ */
+const DISABLEABLE = new Set(["button", "fieldset", "input", "optgroup", "option", "select", "textarea"]);
+
+type Scope = {
+  path: string[];
+  interactive: string | null;
+  inLabel: boolean;
+  labelledIds: Set<string>;
+};
+
+/**
+ * Walks a Node tree and reports accessibility problems: interactive elements
+ * and images without an accessible name, unknown or malformed ARIA attributes
+ * and roles, interactive elements nested in each other, and `disabled` used
+ * where only `aria-disabled` works (or both at once).
+ * Component and host nodes (React elements, vnodes, ...) are opaque and
+ * assumed to be fine.
+ * @param node - Tree to audit
+ */
+export function auditNode(node: Node | string): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  if (typeof node === "string") return issues;
+
+  const labelledIds = new Set<string>();
+  collectLabelTargets(node, labelledIds);
+  visit(node, { path: [], interactive: null, inLabel: false, labelledIds }, issues);
+  return issues;
+}
+
+/**
+ * One line per issue, for warnings and assertion messages.
+ */
+export function formatA11yIssues(issues: A11yIssue[]): string {
+  return issues
+    .map((issue) => `  - [${issue.rule}] ${issue.path}: ${issue.message}`)
+    .join("\n");
+}
+
+/**
+ * Throws when auditNode reports errors (warnings are ignored unless strict).
+ * Meant for tests: `assertAccessible(blueprint.render(props, ctx))`.
+ * @param node - Tree to audit
+ * @param options - strict also fails on warnings
+ */
+export function assertAccessible(node: Node | string, options: { strict?: boolean } = {}): void {
+  const failing = auditNode(node).filter(
+    (issue) => options.strict || issue.severity === "error"
+  );
+  if (failing.length) {
+    throw new Error(`Accessibility check failed:\n${formatA11yIssues(failing)}`);
+  }
+}
+
+function visit(node: Node, scope: Scope, issues: A11yIssue[]): void {
+  if (node.type !== "element") {
+    // Fragments and components add no element of their own
+    for (const child of node.children ?? []) {
+      if (isNode(child)) visit(child, scope, issues);
+    }
+    return;
+  }
+
+  const tag = node.tag ?? "div";
+  const props = node.props ?? {};
+  const path = [...scope.path, node.meta?.name ?? tag];
+  const report = (rule: A11yRule, message: string, severity: A11yIssue["severity"] = "error") =>
+    issues.push({ rule, severity, message, path: path.join(" > "), node });
+
+  checkAria(props, report);
+  checkDisabled(tag, props, report);
+
+  const role = typeof props.role === "string" ? props.role.trim().split(/\s+/)[0] : undefined;
+  const interactive = isInteractive(tag, props, role);
+  if (interactive && scope.interactive) {
+    report(
+      "nested-interactive",
+      `Interactive <${interactive}> is nested inside <${scope.interactive}>; screen readers and click handling break.`
+    );
+  }
+
+  if (interactive && !hasAccessibleName(node, scope)) {
+    report(
+      "accessible-name",
+      `<${interactive}> has no accessible name. Add text content, aria-label or aria-labelledby.`
+    );
+  }
+  if (tag === "img" && props.alt == null && !hasAriaName(props) && !isHidden(props)) {
+    report("accessible-name", `<img> needs alt text (alt="" for decorative images).`);
+  }
+
+  const childScope: Scope = {
+    ...scope,
+    path,
+    interactive: interactive ?? scope.interactive,
+    inLabel: scope.inLabel || tag === "label",
+  };
+  for (const child of node.children ?? []) {
+    if (isNode(child)) visit(child, childScope, issues);
+  }
+}
+
+function checkAria(
+  props: Record<string, unknown>,
+  report: (rule: A11yRule, message: string) => void
+): void {
+  for (const [name, value] of Object.entries(props)) {
+    if (!name.startsWith("aria-") || value == null) continue;
+    if (!ARIA_ATTRIBUTES.has(name)) {
+      report("aria-attribute", `${name} is not an ARIA attribute.`);
+      continue;
+    }
+    const token = String(value);
+    if (BOOLEAN_ARIA.has(name) && token !== "true" && token !== "false") {
+      report("aria-attribute", `${name} must be true or false (got ${JSON.stringify(value)}).`);
+    }
+    const allowed = ENUM_ARIA[name];
+    if (allowed && !allowed.includes(token)) {
+      report(
+        "aria-attribute",
+        `${name} must be one of ${allowed.join(", ")} (got ${JSON.stringify(value)}).`
+      );
+    }
+  }
+
+  if (props.role != null) {
+    const roles = String(props.role).trim().split(/\s+/).filter(Boolean);
+    if (roles.length === 0) report("aria-role", "role is empty.");
+    for (const role of roles) {
+      if (!ROLES.has(role)) report("aria-role", `"${role}" is not a valid ARIA role.`);
+    }
+  }
+}
+
+function checkDisabled(
+  tag: string,
+  props: Record<string, unknown>,
+  report: (rule: A11yRule, message: string, severity?: A11yIssue["severity"]) => void
+): void {
+  const disabled = props.disabled === true || props.disabled === "" || props.disabled === "disabled";
+  if (!disabled) return;
+
+  if (!DISABLEABLE.has(tag)) {
+    report(
+      "disabled",
+      `disabled has no effect on <${tag}>; use aria-disabled="true" and ignore activation instead.`
+    );
+    return;
+  }
+  if (props["aria-disabled"] === false || props["aria-disabled"] === "false") {
+    report("disabled", `disabled contradicts aria-disabled="false".`);
+  } else if (props["aria-disabled"] != null) {
+    report("disabled", "aria-disabled is redundant next to disabled.", "warning");
+  }
+}
+
+/**
+ * Tag (or role) that makes the element interactive, or null.
+ */
+function isInteractive(
+  tag: string,
+  props: Record<string, unknown>,
+  role: string | undefined
+): string | null {
+  if (role) return INTERACTIVE_ROLES.has(role) ? `${tag} role="${role}"` : null;
+  if (isHidden(props)) return null;
+  if (tag === "button" || tag === "select" || tag === "textarea") return tag;
+  if (tag === "a" && props.href != null) return "a";
+  if (tag === "input" && props.type !== "hidden") return "input";
+  return null;
+}
+
+function hasAccessibleName(node: Node, scope: Scope): boolean {
+  const props = node.props ?? {};
+  if (hasAriaName(props) || hasText(props.title)) return true;
+
+  if (node.tag === "input" || node.tag === "select" || node.tag === "textarea") {
+    if (node.tag === "input" && ["submit", "reset", "button"].includes(String(props.type))) {
+      return hasText(props.value) || props.type !== "button";
+    }
+    if (node.tag === "input" && props.type === "image") return hasText(props.alt);
+    return scope.inLabel || (props.id != null && scope.labelledIds.has(String(props.id)));
+  }
+
+  return contentHasName(node.children ?? []);
+}
+
+function contentHasName(children: Array<Node | string>): boolean {
+  return children.some((child) => {
+    if (typeof child === "string") return child.trim().length > 0;
+    // Components and host values: can't see inside, assume they carry text
+    if (!isNode(child) || child.type === "component" || child.type === "host") return true;
+    const props = child.props ?? {};
+    if (isHidden(props)) return false;
+    if (hasAriaName(props)) return true;
+    if (child.tag === "img") return hasText(props.alt);
+    return contentHasName(child.children ?? []);
+  });
+}
+
+function collectLabelTargets(node: Node, ids: Set<string>): void {
+  const target = node.props?.htmlFor ?? node.props?.for;
+  if (node.tag === "label" && target != null) ids.add(String(target));
+  for (const child of node.children ?? []) {
+    if (isNode(child)) collectLabelTargets(child, ids);
+  }
+}
+
+function hasAriaName(props: Record<string, unknown>): boolean {
+  return hasText(props["aria-label"]) || hasText(props["aria-labelledby"]);
+}
+
+function isHidden(props: Record<string, unknown>): boolean {
+  return props["aria-hidden"] === true || props["aria-hidden"] === "true" || props.hidden === true;
+}
+
+function hasText(value: unknown): boolean {
+  return (typeof value === "string" && value.trim().length > 0) || typeof value === "number";
+}
+
+function isNode(value: unknown): value is Node {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ["element", "component", "fragment", "host"].includes((value as Node).type)
+  );
+}
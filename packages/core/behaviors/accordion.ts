@@ -0,0 +1,162 @@
+// packages/core/src/behaviors/accordion.ts
+import type { Props } from "../composition/Node.js";
+import {
+  isNavigationKey,
+  moveFocus,
+  partId,
+  type Behavior,
+  type BehaviorBinding,
+  type KeyboardEventLike,
+} from "./machine.js";
+
+export type AccordionItem = {
+  value: string;
+  disabled?: boolean;
+};
+
+export type AccordionOptions = {
+  /**
+   * Prefix for trigger and panel ids (must be unique on the page).
+   */
+  id?: string;
+  items: AccordionItem[];
+  /**
+   * "single" keeps at most one item open; "multiple" lets items open independently.
+   */
+  type?: "single" | "multiple";
+  /**
+   * In "single" mode, whether the open item can be closed again.
+   */
+  collapsible?: boolean;
+  /**
+   * Controlled open items; adapters keep it in sync.
+   */
+  value?: string[];
+  defaultValue?: string[];
+};
+
+export type AccordionState = {
+  expanded: string[];
+  /**
+   * Trigger with keyboard focus; adapters move DOM focus to it.
+   */
+  focused: string | null;
+};
+
+export type AccordionEvent =
+  | { type: "TOGGLE"; value: string }
+  | { type: "FOCUS"; value: string }
+  | { type: "BLUR" }
+  | { type: "KEY"; key: string };
+
+export const accordionBehavior: Behavior<AccordionState, AccordionEvent, AccordionOptions> = {
+  name: "Accordion",
+  initial(options) {
+    const expanded = options.value ?? options.defaultValue ?? [];
+    return {
+      expanded: options.type === "multiple" ? [...expanded] : expanded.slice(0, 1),
+      focused: null,
+    };
+  },
+  transition(state, event, options) {
+    switch (event.type) {
+      case "TOGGLE": {
+        const item = options.items.find((i) => i.value === event.value);
+        if (!item || item.disabled || isLocked(state, event.value, options)) return state;
+        const open = state.expanded.includes(event.value);
+        const expanded = open
+          ? state.expanded.filter((v) => v !== event.value)
+          : options.type === "multiple"
+            ? [...state.expanded, event.value]
+            : [event.value];
+        return { ...state, expanded };
+      }
+      case "FOCUS":
+        return state.focused === event.value ? state : { ...state, focused: event.value };
+      case "BLUR":
+        return state.focused === null ? state : { ...state, focused: null };
+      case "KEY": {
+        const { items } = options;
+        const current = items.findIndex((i) => i.value === state.focused);
+        const index = moveFocus(
+          event.key,
+          current,
+          items.length,
+          (i) => Boolean(items[i].disabled),
+          "vertical"
+        );
+        if (index === null) return state;
+        return { ...state, focused: items[index].value };
+      }
+    }
+  },
+};
+
+export type AccordionParts = {
+  item(value: string): Props;
+  trigger(value: string): Props;
+  panel(value: string): Props;
+};
+
+export function accordionTriggerId(id: string, value: string): string {
+  return partId(id, "trigger", value);
+}
+
+export function accordionPanelId(id: string, value: string): string {
+  return partId(id, "panel", value);
+}
+
+/**
+ * ARIA, state and event props for the items, triggers and panels
+ * @param binding - Current state and send
+ * @param options - Accordion options
+ */
+export function accordionProps(
+  { state, send }: BehaviorBinding<AccordionState, AccordionEvent>,
+  options: AccordionOptions
+): AccordionParts {
+  const id = options.id ?? "accordion";
+  const dataState = (value: string) => (state.expanded.includes(value) ? "open" : "closed");
+
+  return {
+    item: (value) => ({ "data-state": dataState(value) }),
+    trigger(value) {
+      const item = options.items.find((i) => i.value === value);
+      return {
+        type: "button",
+        id: accordionTriggerId(id, value),
+        "aria-expanded": state.expanded.includes(value),
+        "aria-controls": accordionPanelId(id, value),
+        // The open item of a non-collapsible single accordion cannot be closed
+        "aria-disabled": isLocked(state, value, options) || undefined,
+        disabled: Boolean(item?.disabled),
+        "data-state": dataState(value),
+        onClick: () => send({ type: "TOGGLE", value }),
+        onFocus: () => send({ type: "FOCUS", value }),
+        onBlur: () => send({ type: "BLUR" }),
+        onKeyDown: (event: KeyboardEventLike) => {
+          if (isNavigationKey(event.key, "vertical")) event.preventDefault?.();
+          send({ type: "KEY", key: event.key });
+        },
+      };
+    },
+    panel(value) {
+      return {
+        role: "region",
+        id: accordionPanelId(id, value),
+        "aria-labelledby": accordionTriggerId(id, value),
+        hidden: !state.expanded.includes(value),
+        "data-state": dataState(value),
+      };
+    },
+  };
+}
+
+function isLocked(state: AccordionState, value: string, options: AccordionOptions): boolean {
+  return (
+    options.type !== "multiple" &&
+    !options.collapsible &&
+    state.expanded.length === 1 &&
+    state.expanded[0] === value
+  );
+}
@@ -0,0 +1,68 @@
+// packages/core/src/behaviors/checkbox.ts
+import type { Props } from "../composition/Node.js";
+import type { Behavior, BehaviorBinding } from "./machine.js";
+
+export type CheckboxOptions = {
+  /**
+   * Controlled value; adapters keep it in sync.
+   */
+  checked?: boolean;
+  defaultChecked?: boolean;
+  disabled?: boolean;
+  /**
+   * Focusable and submitted with the form, but ignores toggles.
+   */
+  readOnly?: boolean;
+  required?: boolean;
+  invalid?: boolean;
+  name?: string;
+  /**
+   * Submitted value while checked (the browser default is "on").
+   */
+  value?: string;
+};
+
+export type CheckboxState = { checked: boolean };
+
+export type CheckboxEvent = { type: "TOGGLE" } | { type: "SET"; checked: boolean };
+
+export const checkboxBehavior: Behavior<CheckboxState, CheckboxEvent, CheckboxOptions> = {
+  name: "Checkbox",
+  initial: (options) => ({ checked: Boolean(options.checked ?? options.defaultChecked) }),
+  transition(state, event, options) {
+    if (options.disabled || options.readOnly) return state;
+    const checked = event.type === "TOGGLE" ? !state.checked : event.checked;
+    return checked === state.checked ? state : { checked };
+  },
+};
+
+export type CheckboxParts = {
+  input: Props;
+};
+
+/**
+ * Props for a native checkbox input. Read-only checkboxes still fire change
+ * events; the transition ignores them and controlled adapters put the
+ * checked state back.
+ * @param binding - Current state and send
+ * @param options - Checkbox options
+ */
+export function checkboxProps(
+  { state, send }: BehaviorBinding<CheckboxState, CheckboxEvent>,
+  options: CheckboxOptions
+): CheckboxParts {
+  return {
+    input: {
+      type: "checkbox",
+      name: options.name,
+      value: options.value,
+      checked: state.checked,
+      disabled: Boolean(options.disabled),
+      required: Boolean(options.required),
+      "aria-readonly": options.readOnly || undefined,
+      "aria-invalid": options.invalid || undefined,
+      "data-state": state.checked ? "checked" : "unchecked",
+      onChange: () => send({ type: "TOGGLE" }),
+    },
+  };
+}
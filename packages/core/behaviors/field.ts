@@ -0,0 +1,76 @@
+// packages/core/src/behaviors/field.ts
+import type { Props } from "../composition/Node.js";
+
+export type FieldOptions = {
+  /**
+   * Id of the control; the label, description and error ids derive from it
+   * (must be unique on the page).
+   */
+  id?: string;
+  invalid?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+  /**
+   * Whether a description part is rendered (links it with aria-describedby).
+   */
+  hasDescription?: boolean;
+  /**
+   * Whether an error message part is rendered; it is linked only while invalid.
+   */
+  hasError?: boolean;
+};
+
+export type FieldParts = {
+  root: Props;
+  label: Props;
+  control: Props;
+  description: Props;
+  error: Props;
+};
+
+export function fieldLabelId(id: string): string {
+  return `${id}-label`;
+}
+
+export function fieldDescriptionId(id: string): string {
+  return `${id}-description`;
+}
+
+export function fieldErrorId(id: string): string {
+  return `${id}-error`;
+}
+
+/**
+ * Ids and ARIA wiring between a label, its control, a description and an
+ * error message. Fields have no state of their own: validity comes from the
+ * options, and the control gets invalid / disabled / readOnly / required as
+ * its own props so it can apply them natively.
+ * @param options - Field options
+ */
+export function fieldProps(options: FieldOptions): FieldParts {
+  const id = options.id ?? "field";
+  const describedBy = [
+    options.hasDescription ? fieldDescriptionId(id) : null,
+    options.invalid && options.hasError ? fieldErrorId(id) : null,
+  ].filter(Boolean);
+  const data = {
+    "data-invalid": options.invalid || undefined,
+    "data-disabled": options.disabled || undefined,
+    "data-readonly": options.readOnly || undefined,
+  };
+
+  return {
+    root: data,
+    label: { id: fieldLabelId(id), htmlFor: id, ...data },
+    control: {
+      id,
+      // Also names controls a <label for> cannot point at, like radio groups
+      "aria-labelledby": fieldLabelId(id),
+      "aria-describedby": describedBy.length ? describedBy.join(" ") : undefined,
+      "aria-invalid": options.invalid || undefined,
+    },
+    description: { id: fieldDescriptionId(id) },
+    error: { id: fieldErrorId(id), role: "alert" },
+  };
+}
@@ -0,0 +1,124 @@
+// packages/core/src/behaviors/machine.ts
+
+/**
+ * A framework-agnostic state machine: pure transitions, no DOM or framework
+ * state. Adapters keep the state (useReducer, a ref, a store) and feed events in.
+ */
+export interface Behavior<TState, TEvent extends { type: string }, TOptions> {
+  readonly name: string;
+  initial(options: TOptions): TState;
+  /**
+   * Next state; return the same object when nothing changes.
+   */
+  transition(state: TState, event: TEvent, options: TOptions): TState;
+}
+
+export type Send<TEvent> = (event: TEvent) => void;
+
+/**
+ * Current state plus a way to change it, as handed to blueprints.
+ */
+export type BehaviorBinding<TState, TEvent> = {
+  state: TState;
+  send: Send<TEvent>;
+};
+
+/**
+ * The parts of a keyboard event behaviors read (React, DOM and Vue events all fit).
+ */
+export type KeyboardEventLike = {
+  key: string;
+  preventDefault?: () => void;
+};
+
+export type MachineService<TState, TEvent> = BehaviorBinding<TState, TEvent> & {
+  /**
+   * Called after every state change; returns an unsubscribe function.
+   */
+  subscribe(listener: (state: TState) => void): () => void;
+};
+
+/**
+ * Runs a behavior outside any framework (plain DOM pages, tests)
+ * @param behavior - Behavior to run
+ * @param options - Behavior options
+ */
+export function createMachine<TState, TEvent extends { type: string }, TOptions>(
+  behavior: Behavior<TState, TEvent, TOptions>,
+  options: TOptions
+): MachineService<TState, TEvent> {
+  const listeners = new Set<(state: TState) => void>();
+  const service: MachineService<TState, TEvent> = {
+    state: behavior.initial(options),
+    send(event) {
+      const next = behavior.transition(service.state, event, options);
+      if (next === service.state) return;
+      service.state = next;
+      listeners.forEach((listener) => listener(next));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  return service;
+}
+
+/**
+ * Whether moveFocus handles the key (so the page should not scroll)
+ */
+export function isNavigationKey(key: string, orientation: "horizontal" | "vertical"): boolean {
+  const keys =
+    orientation === "horizontal" ? ["ArrowLeft", "ArrowRight"] : ["ArrowUp", "ArrowDown"];
+  return [...keys, "Home", "End"].includes(key);
+}
+
+/**
+ * Index after moving through `count` items by key, skipping disabled ones.
+ * Arrow keys wrap; Home/End jump to the first/last enabled item.
+ * @returns null when the key is not a navigation key
+ */
+export function moveFocus(
+  key: string,
+  current: number,
+  count: number,
+  isDisabled: (index: number) => boolean,
+  orientation: "horizontal" | "vertical"
+): number | null {
+  const next = orientation === "horizontal" ? "ArrowRight" : "ArrowDown";
+  const prev = orientation === "horizontal" ? "ArrowLeft" : "ArrowUp";
+
+  let start: number;
+  let step: number;
+  if (key === next) [start, step] = [current + 1, 1];
+  else if (key === prev) [start, step] = [current - 1, -1];
+  else if (key === "Home") [start, step] = [0, 1];
+  else if (key === "End") [start, step] = [count - 1, -1];
+  else return null;
+
+  const wraps = key === next || key === prev;
+  for (let i = 0, index = start; i < count; i++, index += step) {
+    if (wraps) index = (index + count) % count;
+    else if (index < 0 || index >= count) break;
+    if (!isDisabled(index)) return index;
+  }
+  return null;
+}
+
+/**
+ * A binding frozen at the initial state, for renders without an adapter
+ * driving the behavior (SSR, renderToString, static pages).
+ */
+export function staticBinding<TState, TEvent extends { type: string }, TOptions>(
+  behavior: Behavior<TState, TEvent, TOptions>,
+  options: TOptions
+): BehaviorBinding<TState, TEvent> {
+  return { state: behavior.initial(options), send: () => {} };
+}
+
+/**
+ * Id-safe form of an item value.
+ */
+export function partId(base: string, part: string, value: string): string {
+  return `${base}-${part}-${value.replace(/[^\w-]+/g, "-")}`;
+}
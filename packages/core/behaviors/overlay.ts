@@ -0,0 +1,217 @@
+// packages/core/src/behaviors/overlay.ts
+import type { Props } from "../composition/Node.js";
+import type { Behavior, BehaviorBinding } from "./machine.js";
+
+export type PlacementSide = "top" | "bottom" | "left" | "right";
+
+/**
+ * Where a popover or tooltip sits relative to its anchor: a side, optionally
+ * aligned to the anchor's start or end edge (centered otherwise).
+ */
+export type Placement = PlacementSide | `${PlacementSide}-start` | `${PlacementSide}-end`;
+
+export type OverlayOptions = {
+  /**
+   * Prefix for the content, title and description ids (must be unique on the page).
+   */
+  id?: string;
+  /**
+   * Controlled open state; adapters keep it in sync.
+   */
+  open?: boolean;
+  defaultOpen?: boolean;
+  /**
+   * Ignore requests to open.
+   */
+  disabled?: boolean;
+  /**
+   * Close on Escape (default true).
+   */
+  closeOnEscape?: boolean;
+  /**
+   * Close on a pointer down outside the content and trigger (default true).
+   */
+  closeOnOutsideClick?: boolean;
+};
+
+export type OverlayState = { open: boolean };
+
+/**
+ * DISMISS comes from the adapter's layer handling (Escape, outside pointer
+ * down) and respects closeOnEscape / closeOnOutsideClick; CLOSE always closes.
+ */
+export type OverlayEvent =
+  | { type: "OPEN" }
+  | { type: "CLOSE" }
+  | { type: "TOGGLE" }
+  | { type: "DISMISS"; reason: "escape" | "outside" };
+
+export const overlayBehavior: Behavior<OverlayState, OverlayEvent, OverlayOptions> = {
+  name: "Overlay",
+  initial: (options) => ({ open: Boolean(options.open ?? options.defaultOpen) }),
+  transition(state, event, options) {
+    let open: boolean;
+    switch (event.type) {
+      case "OPEN":
+        open = true;
+        break;
+      case "CLOSE":
+        open = false;
+        break;
+      case "TOGGLE":
+        open = !state.open;
+        break;
+      case "DISMISS": {
+        const allowed =
+          event.reason === "escape"
+            ? options.closeOnEscape !== false
+            : options.closeOnOutsideClick !== false;
+        open = allowed ? false : state.open;
+        break;
+      }
+    }
+    if (open && options.disabled) return state;
+    return open === state.open ? state : { open };
+  },
+};
+
+export function overlayContentId(id: string): string {
+  return `${id}-content`;
+}
+
+export function overlayTitleId(id: string): string {
+  return `${id}-title`;
+}
+
+export function overlayDescriptionId(id: string): string {
+  return `${id}-description`;
+}
+
+export type DialogOptions = OverlayOptions & {
+  /**
+   * Modal dialogs trap focus, lock page scroll and render a backdrop (default true).
+   */
+  modal?: boolean;
+  /**
+   * "alertdialog" for confirmations that interrupt the user.
+   */
+  role?: "dialog" | "alertdialog";
+  /**
+   * Whether a description part is rendered (links it with aria-describedby).
+   */
+  hasDescription?: boolean;
+};
+
+export type DialogParts = {
+  trigger: Props;
+  overlay: Props;
+  content: Props;
+  title: Props;
+  description: Props;
+  close: Props;
+};
+
+/**
+ * ARIA, state and event props for the dialog parts. Escape and outside clicks
+ * are left to the adapter, which knows which layer is on top.
+ * @param binding - Current state and send
+ * @param options - Dialog options
+ */
+export function dialogProps(
+  { state, send }: BehaviorBinding<OverlayState, OverlayEvent>,
+  options: DialogOptions
+): DialogParts {
+  const id = options.id ?? "dialog";
+  const dataState = state.open ? "open" : "closed";
+
+  return {
+    trigger: {
+      "aria-haspopup": "dialog",
+      "aria-expanded": state.open,
+      "aria-controls": state.open ? overlayContentId(id) : undefined,
+      "data-state": dataState,
+      onClick: () => send({ type: "OPEN" }),
+    },
+    overlay: { "data-state": dataState, "aria-hidden": true },
+    content: {
+      role: options.role ?? "dialog",
+      id: overlayContentId(id),
+      "aria-modal": options.modal !== false,
+      "aria-labelledby": overlayTitleId(id),
+      "aria-describedby": options.hasDescription ? overlayDescriptionId(id) : undefined,
+      // Focusable so focus can land on the dialog itself when it has no controls
+      tabIndex: -1,
+      "data-state": dataState,
+    },
+    title: { id: overlayTitleId(id) },
+    description: { id: overlayDescriptionId(id) },
+    close: { type: "button", onClick: () => send({ type: "CLOSE" }) },
+  };
+}
+
+export type PopoverParts = {
+  trigger: Props;
+  content: Props;
+  close: Props;
+};
+
+/**
+ * ARIA, state and event props for the popover parts
+ * @param binding - Current state and send
+ * @param options - Overlay options
+ */
+export function popoverProps(
+  { state, send }: BehaviorBinding<OverlayState, OverlayEvent>,
+  options: OverlayOptions
+): PopoverParts {
+  const id = options.id ?? "popover";
+  const dataState = state.open ? "open" : "closed";
+
+  return {
+    trigger: {
+      "aria-haspopup": "dialog",
+      "aria-expanded": state.open,
+      "aria-controls": state.open ? overlayContentId(id) : undefined,
+      "data-state": dataState,
+      onClick: () => send({ type: "TOGGLE" }),
+    },
+    content: {
+      role: "dialog",
+      id: overlayContentId(id),
+      tabIndex: -1,
+      "data-state": dataState,
+    },
+    close: { type: "button", onClick: () => send({ type: "CLOSE" }) },
+  };
+}
+
+export type TooltipParts = {
+  trigger: Props;
+  content: Props;
+};
+
+/**
+ * ARIA, state and event props for the tooltip parts. Hover and focus send
+ * OPEN / CLOSE; adapters can delay them by passing a wrapped send.
+ * @param binding - Current state and send
+ * @param options - Overlay options
+ */
+export function tooltipProps(
+  { state, send }: BehaviorBinding<OverlayState, OverlayEvent>,
+  options: OverlayOptions
+): TooltipParts {
+  const id = options.id ?? "tooltip";
+  const dataState = state.open ? "open" : "closed";
+
+  return {
+    trigger: {
+      "aria-describedby": state.open ? overlayContentId(id) : undefined,
+      "data-state": dataState,
+      onPointerEnter: () => send({ type: "OPEN" }),
+      onPointerLeave: () => send({ type: "CLOSE" }),
+      onFocus: () => send({ type: "OPEN" }),
+      onBlur: () => send({ type: "CLOSE" }),
+    },
+    content: { role: "tooltip", id: overlayContentId(id), "data-state": dataState },
+  };
+}
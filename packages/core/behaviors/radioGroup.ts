@@ -0,0 +1,108 @@
+// packages/core/src/behaviors/radioGroup.ts
+import type { Props } from "../composition/Node.js";
+import { partId, type Behavior, type BehaviorBinding } from "./machine.js";
+
+export type RadioGroupItem = {
+  value: string;
+  disabled?: boolean;
+};
+
+export type RadioGroupOptions = {
+  /**
+   * Prefix for radio ids and the default input name (must be unique on the page).
+   */
+  id?: string;
+  items: RadioGroupItem[];
+  /**
+   * Form field name shared by the radios (defaults to the id).
+   */
+  name?: string;
+  /**
+   * Controlled selection; adapters keep it in sync.
+   */
+  value?: string;
+  defaultValue?: string;
+  disabled?: boolean;
+  /**
+   * Focusable and submitted with the form, but ignores selection changes.
+   */
+  readOnly?: boolean;
+  required?: boolean;
+  invalid?: boolean;
+  orientation?: "horizontal" | "vertical";
+};
+
+export type RadioGroupState = { value: string | null };
+
+export type RadioGroupEvent = { type: "SELECT"; value: string };
+
+export const radioGroupBehavior: Behavior<RadioGroupState, RadioGroupEvent, RadioGroupOptions> = {
+  name: "RadioGroup",
+  initial: (options) => ({ value: options.value ?? options.defaultValue ?? null }),
+  transition(state, event, options) {
+    if (options.disabled || options.readOnly) return state;
+    const item = options.items.find((i) => i.value === event.value);
+    if (!item || item.disabled || state.value === event.value) return state;
+    return { value: event.value };
+  },
+};
+
+export type RadioGroupParts = {
+  root: Props;
+  radio(value: string): Props;
+  label(value: string): Props;
+};
+
+export function radioId(id: string, value: string): string {
+  return partId(id, "radio", value);
+}
+
+/**
+ * ARIA, state and event props for the group, its native radio inputs and
+ * their labels. The browser's own arrow-key handling moves the selection
+ * within the shared name.
+ * @param binding - Current state and send
+ * @param options - Radio group options
+ */
+export function radioGroupProps(
+  { state, send }: BehaviorBinding<RadioGroupState, RadioGroupEvent>,
+  options: RadioGroupOptions
+): RadioGroupParts {
+  const id = options.id ?? "radio-group";
+  const orientation = options.orientation ?? "vertical";
+
+  return {
+    root: {
+      role: "radiogroup",
+      id,
+      "aria-orientation": orientation,
+      "aria-disabled": options.disabled || undefined,
+      "aria-readonly": options.readOnly || undefined,
+      "aria-required": options.required || undefined,
+      "aria-invalid": options.invalid || undefined,
+      "data-orientation": orientation,
+    },
+    radio(value) {
+      const item = options.items.find((i) => i.value === value);
+      const checked = state.value === value;
+      return {
+        type: "radio",
+        id: radioId(id, value),
+        name: options.name ?? id,
+        value,
+        checked,
+        disabled: Boolean(options.disabled || item?.disabled),
+        required: Boolean(options.required),
+        "data-state": checked ? "checked" : "unchecked",
+        onChange: () => send({ type: "SELECT", value }),
+      };
+    },
+    label(value) {
+      const item = options.items.find((i) => i.value === value);
+      return {
+        htmlFor: radioId(id, value),
+        "data-disabled": options.disabled || item?.disabled || undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+// packages/core/src/behaviors/switch.ts
+import type { Props } from "../composition/Node.js";
+import type { Behavior, BehaviorBinding } from "./machine.js";
+
+export type SwitchOptions = {
+  /**
+   * Controlled value; adapters keep it in sync.
+   */
+  checked?: boolean;
+  defaultChecked?: boolean;
+  disabled?: boolean;
+  /**
+   * Focusable and announced, but ignores toggles.
+   */
+  readOnly?: boolean;
+  required?: boolean;
+  invalid?: boolean;
+};
+
+export type SwitchState = { checked: boolean };
+
+export type SwitchEvent = { type: "TOGGLE" } | { type: "SET"; checked: boolean };
+
+export const switchBehavior: Behavior<SwitchState, SwitchEvent, SwitchOptions> = {
+  name: "Switch",
+  initial: (options) => ({ checked: Boolean(options.checked ?? options.defaultChecked) }),
+  transition(state, event, options) {
+    if (options.disabled || options.readOnly) return state;
+    const checked = event.type === "TOGGLE" ? !state.checked : event.checked;
+    return checked === state.checked ? state : { checked };
+  },
+};
+
+export type SwitchParts = {
+  root: Props;
+  thumb: Props;
+};
+
+/**
+ * ARIA, state and event props for the switch parts
+ * @param binding - Current state and send
+ * @param options - Switch options
+ */
+export function switchProps(
+  { state, send }: BehaviorBinding<SwitchState, SwitchEvent>,
+  options: SwitchOptions
+): SwitchParts {
+  const dataState = state.checked ? "checked" : "unchecked";
+  return {
+    // A native button already toggles on Space and Enter
+    root: {
+      type: "button",
+      role: "switch",
+      "aria-checked": state.checked,
+      "aria-readonly": options.readOnly || undefined,
+      "aria-required": options.required || undefined,
+      "aria-invalid": options.invalid || undefined,
+      disabled: Boolean(options.disabled),
+      "data-state": dataState,
+      onClick: () => send({ type: "TOGGLE" }),
+    },
+    thumb: { "data-state": dataState, "aria-hidden": true },
+  };
+}
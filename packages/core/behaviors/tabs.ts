@@ -0,0 +1,153 @@
+// packages/core/src/behaviors/tabs.ts
+import type { Props } from "../composition/Node.js";
+import {
+  isNavigationKey,
+  moveFocus,
+  partId,
+  type Behavior,
+  type BehaviorBinding,
+  type KeyboardEventLike,
+} from "./machine.js";
+
+export type TabsItem = {
+  value: string;
+  disabled?: boolean;
+};
+
+export type TabsOptions = {
+  /**
+   * Prefix for tab and panel ids (must be unique on the page).
+   */
+  id?: string;
+  items: TabsItem[];
+  /**
+   * Controlled selection; adapters keep it in sync.
+   */
+  value?: string;
+  defaultValue?: string;
+  orientation?: "horizontal" | "vertical";
+  /**
+   * "automatic" selects tabs as arrow keys focus them; "manual" waits for Enter/Space.
+   */
+  activation?: "automatic" | "manual";
+};
+
+export type TabsState = {
+  selected: string | null;
+  /**
+   * Tab with keyboard focus; adapters move DOM focus to it.
+   */
+  focused: string | null;
+};
+
+export type TabsEvent =
+  | { type: "SELECT"; value: string }
+  | { type: "FOCUS"; value: string }
+  | { type: "BLUR" }
+  | { type: "KEY"; key: string };
+
+export const tabsBehavior: Behavior<TabsState, TabsEvent, TabsOptions> = {
+  name: "Tabs",
+  initial(options) {
+    const selected =
+      options.value ??
+      options.defaultValue ??
+      options.items.find((item) => !item.disabled)?.value ??
+      null;
+    return { selected, focused: null };
+  },
+  transition(state, event, options) {
+    switch (event.type) {
+      case "SELECT": {
+        const item = options.items.find((i) => i.value === event.value);
+        if (!item || item.disabled || state.selected === event.value) return state;
+        return { ...state, selected: event.value };
+      }
+      case "FOCUS":
+        return state.focused === event.value ? state : { ...state, focused: event.value };
+      case "BLUR":
+        return state.focused === null ? state : { ...state, focused: null };
+      case "KEY": {
+        const { items } = options;
+        const current = items.findIndex((i) => i.value === (state.focused ?? state.selected));
+        const index = moveFocus(
+          event.key,
+          current,
+          items.length,
+          (i) => Boolean(items[i].disabled),
+          options.orientation ?? "horizontal"
+        );
+        if (index === null) return state;
+        const value = items[index].value;
+        const selected = options.activation === "manual" ? state.selected : value;
+        return { focused: value, selected };
+      }
+    }
+  },
+};
+
+export type TabsParts = {
+  list: Props;
+  tab(value: string): Props;
+  panel(value: string): Props;
+};
+
+export function tabId(id: string, value: string): string {
+  return partId(id, "tab", value);
+}
+
+export function tabPanelId(id: string, value: string): string {
+  return partId(id, "panel", value);
+}
+
+/**
+ * ARIA, state and event props for the tablist, tabs and panels
+ * @param binding - Current state and send
+ * @param options - Tabs options
+ */
+export function tabsProps(
+  { state, send }: BehaviorBinding<TabsState, TabsEvent>,
+  options: TabsOptions
+): TabsParts {
+  const id = options.id ?? "tabs";
+  const orientation = options.orientation ?? "horizontal";
+
+  return {
+    list: { role: "tablist", "aria-orientation": orientation, "data-orientation": orientation },
+    tab(value) {
+      const item = options.items.find((i) => i.value === value);
+      const selected = state.selected === value;
+      return {
+        type: "button",
+        role: "tab",
+        id: tabId(id, value),
+        "aria-selected": selected,
+        "aria-controls": tabPanelId(id, value),
+        // Roving tabindex: only the selected tab is in the tab order
+        tabIndex: selected ? 0 : -1,
+        disabled: Boolean(item?.disabled),
+        "data-state": selected ? "active" : "inactive",
+        onClick: () => send({ type: "SELECT", value }),
+        onFocus: () => send({ type: "FOCUS", value }),
+        onBlur: () => send({ type: "BLUR" }),
+        // Enter and Space click the native button, which selects
+        onKeyDown: (event: KeyboardEventLike) => {
+          if (isNavigationKey(event.key, orientation)) event.preventDefault?.();
+          send({ type: "KEY", key: event.key });
+        },
+      };
+    },
+    panel(value) {
+      const selected = state.selected === value;
+      return {
+        role: "tabpanel",
+        id: tabPanelId(id, value),
+        "aria-labelledby": tabId(id, value),
+        tabIndex: 0,
+        hidden: !selected,
+        "data-state": selected ? "active" : "inactive",
+      };
+    },
+  };
+}
+
@@ -1,22 +1,31 @@
 // packages/core/src/blueprint/ComponentBlueprint.ts
-import type { Node, Props } from "../composition/Node.js";
+import { fragment, type Node, type Props } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { resolveTokens, type DesignTokens, type TokenOverrides } from "../tokens/tokens.js";
+import { validateVariantProps } from "../variants/variants.js";
 
 export type VariantMap = Record<string, string | number | boolean | undefined>;
 export type RenderContext = {
   /**
-   * Space for tokens, theme, direction, density, motion prefs, etc.
+   * Design token overrides; missing groups/values fall back to defaultTokens.
    */
-  tokens?: Record<string, unknown>;
+  tokens?: TokenOverrides;
 };
 
 export abstract class ComponentBlueprint<TProps extends Props = Props> {
   abstract readonly name: string;
 
   /**
-   * Optional: allowed variants (size, intent, etc.). Kept minimal here.
+   * Optional: allowed variants (size, intent, etc.).
+   * Usually the `options` of a defineVariants() resolver; resolveProps validates against it.
    */
   readonly variants?: Record<string, readonly string[]>;
 
+  /**
+   * Optional: named slots consumers can fill through props (icon-left, label, etc.).
+   */
+  readonly slots?: readonly string[];
+
   /**
    * Optional: default props.
    */
@@ -29,9 +38,35 @@ export abstract class ComponentBlueprint<TProps extends Props = Props> {
   abstract render(props: TProps, ctx: RenderContext): Node;
 
   /**
-   * Merge props with defaults (basic utility).
+   * Merge props with defaults and validate variant values.
    */
   resolveProps(props: TProps): TProps {
-    return { ...(this.defaultProps ?? {}), ...(props ?? {}) } as TProps;
+    const resolved = { ...(this.defaultProps ?? {}), ...(props ?? {}) } as TProps;
+    if (this.variants) {
+      validateVariantProps(this.variants, resolved, this.name);
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolve the full token set for this render.
+   */
+  protected tokens(ctx: RenderContext): DesignTokens {
+    return resolveTokens(ctx?.tokens);
+  }
+
+  /**
+   * Build a fragment tagged with meta.slot so the part can be targeted later.
+   * Uses the fallback when the consumer left the slot empty; null when both are empty.
+   */
+  protected renderSlot(
+    slot: string,
+    content: SlotContent | undefined,
+    fallback?: SlotContent
+  ): Node | null {
+    const children = toChildren(content);
+    const resolved = children.length > 0 ? children : toChildren(fallback);
+    if (resolved.length === 0) return null;
+    return fragment(resolved, { slot });
   }
 }
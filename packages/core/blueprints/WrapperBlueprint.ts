@@ -0,0 +1,89 @@
+// packages/core/src/blueprint/WrapperBlueprint.ts
+import type { Node } from "../composition/Node.js";
+import { findNode, replaceNode, type NodeSelector } from "../composition/slots.js";
+import type { RenderContext } from "./ComponentBlueprint.js";
+
+/**
+ * Slot given to nodes created by wrappers.
+ */
+export const WRAPPER_SLOT = "wrapper";
+
+const ROOT_OR_WRAPPER: NodeSelector = (node) =>
+  node.meta?.slot === "root" || node.meta?.slot === WRAPPER_SLOT;
+
+export abstract class WrapperBlueprint<TOptions = unknown> {
+  abstract readonly name: string;
+
+  /**
+   * Lower priority runs first, so it ends up closest to the wrapped node.
+   */
+  readonly priority: number = 0;
+
+  /**
+   * Optional: default options.
+   */
+  readonly defaultOptions?: Partial<TOptions>;
+
+  /**
+   * Return false to skip this wrapper for a given tree.
+   */
+  isCompatible(_node: Node): boolean {
+    return true;
+  }
+
+  /**
+   * Transform a framework-agnostic Node tree.
+   */
+  abstract wrap(node: Node, options: TOptions, ctx: RenderContext): Node;
+
+  /**
+   * Merge options with defaults (basic utility).
+   */
+  resolveOptions(options: TOptions): TOptions {
+    return { ...(this.defaultOptions ?? {}), ...(options ?? {}) } as TOptions;
+  }
+
+  /**
+   * Replace the node marked with meta.slot === "root" (or the outermost
+   * wrapper already around it, so later wrappers stack outside earlier ones).
+   * Falls back to the top-level node when no root slot is declared.
+   */
+  protected wrapRoot(node: Node, wrap: (root: Node) => Node): Node {
+    return findNode(node, ROOT_OR_WRAPPER)
+      ? replaceNode(node, ROOT_OR_WRAPPER, wrap)
+      : wrap(node);
+  }
+}
+
+export type WrapperUse<TOptions = unknown> = {
+  wrapper: WrapperBlueprint<TOptions>;
+  options: TOptions;
+};
+
+/**
+ * Run wrappers in ascending priority order (stable for equal priorities).
+ */
+export function applyWrappers(
+  node: Node,
+  wrappers: ReadonlyArray<WrapperUse>,
+  ctx: RenderContext
+): Node {
+  const ordered = wrappers
+    .map((use, index) => ({ use, index }))
+    .sort(
+      (a, b) =>
+        a.use.wrapper.priority - b.use.wrapper.priority || a.index - b.index
+    );
+
+  let result = node;
+  for (const { use } of ordered) {
+    if (use.wrapper.isCompatible(result)) {
+      result = use.wrapper.wrap(
+        result,
+        use.wrapper.resolveOptions(use.options),
+        ctx
+      );
+    }
+  }
+  return result;
+}
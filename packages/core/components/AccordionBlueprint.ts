@@ -0,0 +1,95 @@
+// packages/core/src/components/accordion/AccordionBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { h, type Node } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { cn } from "../utils/cn.js";
+import { staticBinding, type BehaviorBinding } from "../behaviors/machine.js";
+import {
+  accordionBehavior,
+  accordionProps,
+  type AccordionEvent,
+  type AccordionItem,
+  type AccordionOptions,
+  type AccordionState,
+} from "../behaviors/accordion.js";
+
+export type AccordionBlueprintItem = AccordionItem & {
+  title: SlotContent;
+  content: SlotContent;
+};
+
+export type AccordionProps = Omit<AccordionOptions, "items"> & {
+  items: AccordionBlueprintItem[];
+  className?: string;
+  /**
+   * State and send from an adapter (e.g. useAccordion); without it the
+   * accordion renders its initial state.
+   */
+  behavior?: BehaviorBinding<AccordionState, AccordionEvent>;
+};
+
+export class AccordionBlueprint extends ComponentBlueprint<AccordionProps> {
+  readonly name = "Accordion";
+
+  render(rawProps: AccordionProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const binding = p.behavior ?? staticBinding(accordionBehavior, p);
+    const parts = accordionProps(binding, p);
+
+    const items = p.items.map((item) => {
+      const open = binding.state.expanded.includes(item.value);
+      return h(
+        "div",
+        { ...parts.item(item.value), className: cn("border-b", t.color.border) },
+        [
+          h("h3", { className: "flex" }, [
+            h(
+              "button",
+              {
+                ...parts.trigger(item.value),
+                className: cn(
+                  "flex flex-1 items-center justify-between py-3 text-left focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:pointer-events-none disabled:opacity-50",
+                  t.typography.md,
+                  t.typography.weight,
+                  t.motion.transition,
+                  t.motion.reduced
+                ),
+              },
+              [
+                h("span", {}, toChildren(item.title), { slot: "title" }),
+                h(
+                  "span",
+                  {
+                    "aria-hidden": true,
+                    className: cn(
+                      "size-2 border-b-2 border-r-2 border-current",
+                      t.motion.transition,
+                      t.motion.reduced,
+                      open ? "-rotate-135" : "rotate-45"
+                    ),
+                  },
+                  [],
+                  { slot: "indicator" }
+                ),
+              ],
+              { slot: "trigger", name: "AccordionTrigger" }
+            ),
+          ]),
+          h(
+            "div",
+            { ...parts.panel(item.value), className: cn("pb-3", t.typography.sm) },
+            toChildren(item.content),
+            { slot: "panel", name: "AccordionPanel" }
+          ),
+        ],
+        { slot: "item", name: "AccordionItem", id: item.value }
+      );
+    });
+
+    return h("div", { className: cn("w-full", p.className) }, items, {
+      slot: "root",
+      name: "AccordionRoot",
+    });
+  }
+}
@@ -1,62 +1,72 @@
 // packages/core/src/components/button/ButtonBlueprint.ts
 import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
 import { h, type Node } from "../composition/Node.js";
+import type { SlotProps } from "../composition/slots.js";
+import { defineVariants, type VariantProps } from "../variants/variants.js";
 
-export type ButtonProps = {
-  intent?: "primary" | "outline";
-  size?: "sm" | "md" | "lg";
+export const buttonVariants = defineVariants({
+  base: (t) =>
+    [
+      "inline-flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-offset-2",
+      t.radius.md,
+      t.typography.weight,
+      t.motion.transition,
+      t.motion.reduced,
+    ].join(" "),
+  variants: {
+    intent: {
+      primary: (t) => `${t.color.primary} ${t.color.onPrimary} ${t.color.primaryHover}`,
+      outline: (t) => `border ${t.color.border} ${t.color.subtleHover}`,
+    },
+    size: {
+      sm: (t) => `${t.spacing.sm} ${t.typography.sm}`,
+      md: (t) => `${t.spacing.md} ${t.typography.md}`,
+      lg: (t) => `${t.spacing.lg} ${t.typography.lg}`,
+    },
+  },
+  defaultVariants: {
+    intent: "primary",
+    size: "md",
+  },
+});
+
+export type ButtonVariantProps = VariantProps<typeof buttonVariants>;
+
+export type ButtonSlot = "icon-left" | "icon-right" | "label";
+
+export type ButtonProps = ButtonVariantProps & {
   disabled?: boolean;
 
   // Recommended additions for usability:
   className?: string;
   children?: Array<Node | string> | string;
+
+  /**
+   * Fill named slots; "label" takes precedence over children.
+   */
+  slots?: SlotProps<ButtonSlot>;
 };
 
 export class ButtonBlueprint extends ComponentBlueprint<ButtonProps> {
   readonly name = "Button";
 
-  readonly variants = {
-    intent: ["primary", "outline"],
-    size: ["sm", "md", "lg"],
-  } as const;
-
-  readonly defaultProps: Partial<ButtonProps> = {
-    intent: "primary",
-    size: "md",
-  };
-
-  render(rawProps: ButtonProps, _ctx: RenderContext): Node {
-    const p = this.resolveProps(rawProps);
+  readonly variants = buttonVariants.options;
 
-    const base =
-      "inline-flex items-center justify-center rounded-md font-medium transition focus:outline-none focus:ring-2 focus:ring-offset-2";
+  readonly slots = ["icon-left", "label", "icon-right"] as const;
 
-    const intentClass: Record<NonNullable<ButtonProps["intent"]>, string> = {
-      primary: "bg-black text-white hover:bg-black/90",
-      outline: "border border-neutral-300 hover:bg-neutral-100",
-    };
+  readonly defaultProps: Partial<ButtonProps> = buttonVariants.defaults;
 
-    const sizeClass: Record<NonNullable<ButtonProps["size"]>, string> = {
-      sm: "h-8 px-3 text-sm",
-      md: "h-10 px-4 text-sm",
-      lg: "h-12 px-6 text-base",
-    };
+  render(rawProps: ButtonProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
 
-    const className = [
-      base,
-      intentClass[p.intent ?? "primary"],
-      sizeClass[p.size ?? "md"],
-      p.className,
-    ]
-      .filter(Boolean)
-      .join(" ");
+    const className = buttonVariants(p, t);
 
-    const children =
-      typeof p.children === "string"
-        ? [p.children]
-        : Array.isArray(p.children) && p.children.length > 0
-          ? p.children
-          : ["Button"];
+    const children = [
+      this.renderIcon("icon-left", p.slots?.["icon-left"]),
+      this.renderSlot("label", p.slots?.label ?? p.children, "Button"),
+      this.renderIcon("icon-right", p.slots?.["icon-right"]),
+    ].filter((child): child is Node => child !== null);
 
     return h(
       "button",
@@ -69,4 +79,18 @@ export class ButtonBlueprint extends ComponentBlueprint<ButtonProps> {
       { slot: "root", name: "ButtonRoot" }
     );
   }
+
+  private renderIcon(
+    slot: "icon-left" | "icon-right",
+    content: SlotProps<ButtonSlot>[ButtonSlot]
+  ): Node | null {
+    const icon = this.renderSlot(slot, content);
+    if (!icon) return null;
+    return h(
+      "span",
+      { className: "inline-flex shrink-0", "aria-hidden": true },
+      icon.children,
+      { slot, name: slot === "icon-left" ? "ButtonIconLeft" : "ButtonIconRight" }
+    );
+  }
 }
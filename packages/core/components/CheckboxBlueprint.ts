@@ -0,0 +1,83 @@
+// packages/core/src/components/checkbox/CheckboxBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import type { DesignTokens } from "../tokens/tokens.js";
+import { h, type Node } from "../composition/Node.js";
+import { defineVariants, type VariantProps } from "../variants/variants.js";
+import { staticBinding, type BehaviorBinding } from "../behaviors/machine.js";
+import {
+  checkboxBehavior,
+  checkboxProps,
+  type CheckboxEvent,
+  type CheckboxOptions,
+  type CheckboxState,
+} from "../behaviors/checkbox.js";
+
+export const checkboxVariants = defineVariants({
+  base: (t: DesignTokens) =>
+    [
+      "shrink-0 cursor-pointer accent-neutral-900 focus:outline-none focus:ring-2 focus:ring-offset-2",
+      t.radius.sm,
+    ].join(" "),
+  variants: {
+    size: {
+      sm: "size-3.5",
+      md: "size-4",
+      lg: "size-5",
+    },
+    invalid: {
+      true: "outline outline-2 outline-offset-1 outline-red-500",
+      false: "",
+    },
+    disabled: {
+      true: "cursor-not-allowed opacity-50",
+      false: "",
+    },
+    readOnly: {
+      true: "cursor-default",
+      false: "",
+    },
+  },
+  defaultVariants: {
+    size: "md",
+    invalid: false,
+    disabled: false,
+    readOnly: false,
+  },
+});
+
+export type CheckboxVariantProps = VariantProps<typeof checkboxVariants>;
+
+export type CheckboxProps = CheckboxVariantProps &
+  Omit<CheckboxOptions, keyof CheckboxVariantProps> & {
+    className?: string;
+    /**
+     * State and send from an adapter (e.g. useCheckbox); without it the
+     * checkbox renders its initial state.
+     */
+    behavior?: BehaviorBinding<CheckboxState, CheckboxEvent>;
+  };
+
+/**
+ * A native checkbox input; pair it with a <label> or a Field for its name.
+ */
+export class CheckboxBlueprint extends ComponentBlueprint<CheckboxProps> {
+  readonly name = "Checkbox";
+
+  readonly variants = checkboxVariants.options;
+
+  readonly defaultProps: Partial<CheckboxProps> = checkboxVariants.defaults;
+
+  render(rawProps: CheckboxProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const binding = p.behavior ?? staticBinding(checkboxBehavior, p);
+    const parts = checkboxProps(binding, p);
+
+    return h(
+      "input",
+      { ...parts.input, className: checkboxVariants(p, t) },
+      [],
+      { slot: "root", name: "CheckboxRoot" }
+    );
+  }
+}
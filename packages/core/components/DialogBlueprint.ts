@@ -0,0 +1,155 @@
+// packages/core/src/components/dialog/DialogBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { h, type Node } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { defineVariants, type VariantProps } from "../variants/variants.js";
+import { cn } from "../utils/cn.js";
+import { staticBinding, type BehaviorBinding } from "../behaviors/machine.js";
+import {
+  dialogProps,
+  overlayBehavior,
+  type DialogOptions,
+  type OverlayEvent,
+  type OverlayState,
+} from "../behaviors/overlay.js";
+
+export const dialogVariants = defineVariants({
+  base: (t) =>
+    [
+      "relative flex w-full flex-col gap-4 border bg-white p-6 shadow-lg focus:outline-none",
+      t.color.border,
+      t.radius.lg,
+    ].join(" "),
+  variants: {
+    size: {
+      sm: "max-w-sm",
+      md: "max-w-lg",
+      lg: "max-w-2xl",
+    },
+  },
+  defaultVariants: {
+    size: "md",
+  },
+});
+
+export type DialogVariantProps = VariantProps<typeof dialogVariants>;
+
+export type DialogProps = DialogVariantProps &
+  Omit<DialogOptions, "hasDescription"> & {
+    title: SlotContent;
+    description?: SlotContent;
+    children?: SlotContent;
+    footer?: SlotContent;
+    className?: string;
+    /**
+     * Accessible name of the close button (default "Close").
+     */
+    closeLabel?: string;
+    /**
+     * Stacking order from the adapter's layer stack, set on the outermost node.
+     */
+    zIndex?: number;
+    /**
+     * State and send from an adapter (e.g. useDialog); without it the dialog
+     * renders its initial state.
+     */
+    behavior?: BehaviorBinding<OverlayState, OverlayEvent>;
+  };
+
+/**
+ * The dialog surface (backdrop, panel, title, description, body, footer and
+ * close button). Adapters decide when to mount it and portal it to the body;
+ * the trigger is the adapter's as well.
+ */
+export class DialogBlueprint extends ComponentBlueprint<DialogProps> {
+  readonly name = "Dialog";
+
+  readonly variants = dialogVariants.options;
+
+  readonly defaultProps: Partial<DialogProps> = dialogVariants.defaults;
+
+  render(rawProps: DialogProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const hasDescription = toChildren(p.description).length > 0;
+    const options = { ...p, hasDescription };
+    const binding = p.behavior ?? staticBinding(overlayBehavior, options);
+    const parts = dialogProps(binding, options);
+    const modal = p.modal !== false;
+    const style = p.zIndex === undefined ? undefined : { zIndex: p.zIndex };
+
+    const header = h(
+      "div",
+      { className: "flex flex-col gap-1.5 pr-6" },
+      [
+        h(
+          "h2",
+          { ...parts.title, className: cn("text-lg font-semibold leading-none") },
+          toChildren(p.title),
+          { slot: "title", name: "DialogTitle" }
+        ),
+        ...(hasDescription
+          ? [
+              h(
+                "p",
+                { ...parts.description, className: "text-sm text-neutral-500" },
+                toChildren(p.description),
+                { slot: "description", name: "DialogDescription" }
+              ),
+            ]
+          : []),
+      ],
+      { slot: "header" }
+    );
+
+    const body = this.renderSlot("body", p.children);
+    const footer = this.renderSlot("footer", p.footer);
+
+    const content = h(
+      "div",
+      {
+        ...parts.content,
+        className: dialogVariants(
+          { size: p.size, className: cn(!modal && "fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2", p.className) },
+          t
+        ),
+        style: modal ? undefined : style,
+      },
+      [
+        header,
+        ...(body ? [h("div", { className: "text-sm" }, body.children, { slot: "body", name: "DialogBody" })] : []),
+        ...(footer
+          ? [h("div", { className: "flex justify-end gap-2" }, footer.children, { slot: "footer", name: "DialogFooter" })]
+          : []),
+        h(
+          "button",
+          {
+            ...parts.close,
+            "aria-label": p.closeLabel ?? "Close",
+            className: cn(
+              "absolute right-4 top-4 inline-flex size-6 items-center justify-center focus:outline-none focus:ring-2",
+              t.radius.sm,
+              t.color.subtleHover
+            ),
+          },
+          [h("span", { "aria-hidden": true }, ["×"])],
+          { slot: "close", name: "DialogClose" }
+        ),
+      ],
+      { slot: "root", name: "DialogContent" }
+    );
+
+    if (!modal) return content;
+
+    return h(
+      "div",
+      {
+        ...parts.overlay,
+        className: "fixed inset-0 flex items-center justify-center bg-black/50 p-4",
+        style,
+      },
+      [content],
+      { slot: "overlay", name: "DialogOverlay" }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+// packages/core/src/components/field/FieldBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { fragment, h, type Node } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { cn } from "../utils/cn.js";
+import { fieldProps, type FieldOptions } from "../behaviors/field.js";
+
+export type FieldProps = Omit<FieldOptions, "hasDescription" | "hasError"> & {
+  label: SlotContent;
+  description?: SlotContent;
+  /**
+   * Error message; shown (and announced) while the field is invalid, which
+   * it is by default whenever an error is given.
+   */
+  error?: SlotContent;
+  /**
+   * The control (Input, Select, RadioGroup...).
+   */
+  children?: SlotContent;
+  className?: string;
+};
+
+/**
+ * Label, control, description and error message with their ids wired up.
+ * The first element node among the children is taken as the control and
+ * gets the id and ARIA links; adapters with opaque children (React elements)
+ * hand them to the control through context instead.
+ */
+export class FieldBlueprint extends ComponentBlueprint<FieldProps> {
+  readonly name = "Field";
+
+  render(rawProps: FieldProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const description = toChildren(p.description);
+    const error = toChildren(p.error).filter((child) => child !== "");
+    const hasError = error.length > 0;
+    const invalid = p.invalid ?? hasError;
+    const parts = fieldProps({
+      ...p,
+      invalid,
+      hasDescription: description.length > 0,
+      hasError,
+    });
+
+    const wiring = Object.entries(parts.control).filter(([, value]) => value !== undefined);
+    let wired = false;
+    const control = toChildren(p.children).map((child) => {
+      if (wired || typeof child === "string" || child.type !== "element") return child;
+      wired = true;
+      return { ...child, props: { ...child.props, ...Object.fromEntries(wiring) } };
+    });
+
+    const children: Node[] = [
+      h(
+        "label",
+        {
+          ...parts.label,
+          className: cn(
+            t.typography.sm,
+            t.typography.weight,
+            "leading-none",
+            p.disabled && "opacity-70"
+          ),
+        },
+        [
+          ...toChildren(p.label),
+          ...(p.required
+            ? [h("span", { className: cn("ml-0.5", t.color.danger), "aria-hidden": true }, ["*"])]
+            : []),
+        ],
+        { slot: "label", name: "FieldLabel" }
+      ),
+      fragment(control, { slot: "control", name: "FieldControl" }),
+    ];
+    if (description.length) {
+      children.push(
+        h(
+          "p",
+          { ...parts.description, className: cn(t.typography.sm, t.color.muted) },
+          description,
+          { slot: "description", name: "FieldDescription" }
+        )
+      );
+    }
+    if (invalid && hasError) {
+      children.push(
+        h(
+          "p",
+          { ...parts.error, className: cn(t.typography.sm, t.color.danger) },
+          error,
+          { slot: "error", name: "FieldError" }
+        )
+      );
+    }
+
+    return h(
+      "div",
+      { ...parts.root, className: cn("flex flex-col gap-1.5", p.className) },
+      children,
+      { slot: "root", name: "FieldRoot" }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+// packages/core/src/components/input/InputBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import type { DesignTokens } from "../tokens/tokens.js";
+import { h, type Node } from "../composition/Node.js";
+import { defineVariants, type VariantProps, type VariantSchema } from "../variants/variants.js";
+
+/**
+ * Validation and interaction states shared by the text-like controls
+ * (Input, Textarea, Select). Token functions in definitions with boolean
+ * variants need their parameter annotated, or the schema is not inferred.
+ */
+export const controlStateVariants = {
+  invalid: {
+    true: (t: DesignTokens) => t.color.dangerBorder,
+    false: "",
+  },
+  disabled: {
+    true: "cursor-not-allowed opacity-50",
+    false: "",
+  },
+  readOnly: {
+    true: "bg-neutral-50 focus:ring-neutral-300",
+    false: "",
+  },
+} satisfies VariantSchema;
+
+export const controlStateDefaults = { invalid: false, disabled: false, readOnly: false } as const;
+
+export const inputVariants = defineVariants({
+  base: (t: DesignTokens) =>
+    [
+      "flex w-full border bg-white placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-offset-2",
+      t.color.border,
+      t.radius.md,
+      t.motion.transition,
+      t.motion.reduced,
+    ].join(" "),
+  variants: {
+    size: {
+      sm: (t: DesignTokens) => `h-8 px-2.5 ${t.typography.sm}`,
+      md: (t: DesignTokens) => `h-10 px-3 ${t.typography.md}`,
+      lg: (t: DesignTokens) => `h-12 px-4 ${t.typography.lg}`,
+    },
+    ...controlStateVariants,
+  },
+  defaultVariants: {
+    size: "md",
+    ...controlStateDefaults,
+  },
+});
+
+export type InputVariantProps = VariantProps<typeof inputVariants>;
+
+export type InputProps = InputVariantProps & {
+  className?: string;
+  /**
+   * Native input type (default "text").
+   */
+  type?: string;
+  required?: boolean;
+};
+
+export class InputBlueprint extends ComponentBlueprint<InputProps> {
+  readonly name = "Input";
+
+  readonly variants = inputVariants.options;
+
+  readonly defaultProps: Partial<InputProps> = { ...inputVariants.defaults, type: "text" };
+
+  render(rawProps: InputProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+
+    return h(
+      "input",
+      {
+        type: p.type,
+        className: inputVariants(p, t),
+        disabled: Boolean(p.disabled),
+        readOnly: Boolean(p.readOnly),
+        required: Boolean(p.required),
+        "aria-invalid": p.invalid || undefined,
+      },
+      [],
+      { slot: "root", name: "InputRoot" }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// packages/core/src/components/popover/PopoverBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { h, type Node } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { cn } from "../utils/cn.js";
+import { staticBinding, type BehaviorBinding } from "../behaviors/machine.js";
+import {
+  overlayBehavior,
+  popoverProps,
+  type OverlayEvent,
+  type OverlayOptions,
+  type OverlayState,
+  type Placement,
+} from "../behaviors/overlay.js";
+
+export type PopoverProps = OverlayOptions & {
+  children?: SlotContent;
+  className?: string;
+  /**
+   * Preferred side of the anchor; adapters report the side actually used
+   * after flipping, and it lands in data-placement.
+   */
+  placement?: Placement;
+  /**
+   * Stacking order from the adapter's layer stack.
+   */
+  zIndex?: number;
+  /**
+   * State and send from an adapter (e.g. usePopover); without it the
+   * popover renders its initial state.
+   */
+  behavior?: BehaviorBinding<OverlayState, OverlayEvent>;
+};
+
+/**
+ * The floating popover panel. Adapters mount it while open, portal it and
+ * position it next to the trigger.
+ */
+export class PopoverBlueprint extends ComponentBlueprint<PopoverProps> {
+  readonly name = "Popover";
+
+  readonly defaultProps: Partial<PopoverProps> = { placement: "bottom" };
+
+  render(rawProps: PopoverProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const binding = p.behavior ?? staticBinding(overlayBehavior, p);
+    const parts = popoverProps(binding, p);
+
+    return h(
+      "div",
+      {
+        ...parts.content,
+        className: cn(
+          "w-72 border bg-white p-4 shadow-md focus:outline-none",
+          t.color.border,
+          t.radius.md,
+          t.typography.sm,
+          p.className
+        ),
+        "data-placement": p.placement,
+        style: p.zIndex === undefined ? undefined : { zIndex: p.zIndex },
+      },
+      toChildren(p.children),
+      { slot: "root", name: "PopoverContent" }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+// packages/core/src/components/radio-group/RadioGroupBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import type { DesignTokens } from "../tokens/tokens.js";
+import { h, type Node } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { defineVariants, type VariantProps } from "../variants/variants.js";
+import { cn } from "../utils/cn.js";
+import { staticBinding, type BehaviorBinding } from "../behaviors/machine.js";
+import {
+  radioGroupBehavior,
+  radioGroupProps,
+  type RadioGroupEvent,
+  type RadioGroupItem,
+  type RadioGroupOptions,
+  type RadioGroupState,
+} from "../behaviors/radioGroup.js";
+
+export const radioGroupVariants = defineVariants({
+  base: "flex",
+  variants: {
+    size: {
+      sm: (t: DesignTokens) => `gap-1.5 ${t.typography.sm}`,
+      md: (t: DesignTokens) => `gap-2 ${t.typography.md}`,
+      lg: (t: DesignTokens) => `gap-3 ${t.typography.lg}`,
+    },
+    invalid: {
+      true: (t: DesignTokens) => t.color.danger,
+      false: "",
+    },
+    disabled: {
+      true: "cursor-not-allowed opacity-50",
+      false: "",
+    },
+    readOnly: {
+      true: "[&_input]:cursor-default [&_label]:cursor-default",
+      false: "",
+    },
+  },
+  defaultVariants: {
+    size: "md",
+    invalid: false,
+    disabled: false,
+    readOnly: false,
+  },
+});
+
+export type RadioGroupVariantProps = VariantProps<typeof radioGroupVariants>;
+
+export type RadioGroupBlueprintItem = RadioGroupItem & {
+  label: SlotContent;
+};
+
+export type RadioGroupProps = RadioGroupVariantProps &
+  Omit<RadioGroupOptions, "items" | keyof RadioGroupVariantProps> & {
+    items: RadioGroupBlueprintItem[];
+    className?: string;
+    /**
+     * State and send from an adapter (e.g. useRadioGroup); without it the
+     * group renders its initial selection.
+     */
+    behavior?: BehaviorBinding<RadioGroupState, RadioGroupEvent>;
+  };
+
+/**
+ * A role="radiogroup" of native radio inputs, each with its own label.
+ */
+export class RadioGroupBlueprint extends ComponentBlueprint<RadioGroupProps> {
+  readonly name = "RadioGroup";
+
+  readonly variants = radioGroupVariants.options;
+
+  readonly defaultProps: Partial<RadioGroupProps> = {
+    ...radioGroupVariants.defaults,
+    orientation: "vertical",
+  };
+
+  render(rawProps: RadioGroupProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const binding = p.behavior ?? staticBinding(radioGroupBehavior, p);
+    const parts = radioGroupProps(binding, p);
+    const horizontal = p.orientation === "horizontal";
+
+    const items = p.items.map((item) => {
+      const disabled = p.disabled || item.disabled;
+      return h(
+        "div",
+        { className: cn("flex items-center gap-2", item.disabled && "opacity-50") },
+        [
+          h(
+            "input",
+            {
+              ...parts.radio(item.value),
+              className: cn(
+                "size-4 shrink-0 accent-neutral-900 focus:outline-none focus:ring-2 focus:ring-offset-2",
+                disabled ? "cursor-not-allowed" : "cursor-pointer",
+                t.radius.full
+              ),
+            },
+            [],
+            { slot: "radio", name: "RadioGroupRadio" }
+          ),
+          h(
+            "label",
+            {
+              ...parts.label(item.value),
+              className: cn(t.typography.weight, !disabled && "cursor-pointer"),
+            },
+            toChildren(item.label),
+            { slot: "label", name: "RadioGroupLabel" }
+          ),
+        ],
+        { slot: "item", name: "RadioGroupItem", id: item.value }
+      );
+    });
+
+    return h(
+      "div",
+      {
+        ...parts.root,
+        className: radioGroupVariants(
+          { ...p, className: cn(horizontal ? "flex-row flex-wrap" : "flex-col", p.className) },
+          t
+        ),
+      },
+      items,
+      { slot: "root", name: "RadioGroupRoot" }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+// packages/core/src/components/select/SelectBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import type { DesignTokens } from "../tokens/tokens.js";
+import { h, type Node } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { defineVariants, type VariantProps } from "../variants/variants.js";
+import type { KeyboardEventLike } from "../behaviors/machine.js";
+import { controlStateDefaults, controlStateVariants } from "./InputBlueprint.js";
+
+export const selectVariants = defineVariants({
+  base: (t: DesignTokens) =>
+    [
+      "flex w-full cursor-pointer border bg-white focus:outline-none focus:ring-2 focus:ring-offset-2",
+      t.color.border,
+      t.radius.md,
+      t.motion.transition,
+      t.motion.reduced,
+    ].join(" "),
+  variants: {
+    size: {
+      sm: (t: DesignTokens) => `h-8 px-2 ${t.typography.sm}`,
+      md: (t: DesignTokens) => `h-10 px-2.5 ${t.typography.md}`,
+      lg: (t: DesignTokens) => `h-12 px-3.5 ${t.typography.lg}`,
+    },
+    ...controlStateVariants,
+  },
+  compoundVariants: [{ readOnly: true, className: "cursor-default" }],
+  defaultVariants: {
+    size: "md",
+    ...controlStateDefaults,
+  },
+});
+
+export type SelectVariantProps = VariantProps<typeof selectVariants>;
+
+export type SelectBlueprintItem = {
+  value: string;
+  label: SlotContent;
+  disabled?: boolean;
+};
+
+export type SelectProps = SelectVariantProps & {
+  className?: string;
+  items: SelectBlueprintItem[];
+  /**
+   * Empty-valued first option shown until the user picks one; with required
+   * it makes an untouched select fail validation.
+   */
+  placeholder?: string;
+  required?: boolean;
+};
+
+/**
+ * A native <select>. Read-only selects keep focus and submit their value but
+ * swallow the pointer and keyboard input that would change it.
+ */
+export class SelectBlueprint extends ComponentBlueprint<SelectProps> {
+  readonly name = "Select";
+
+  readonly variants = selectVariants.options;
+
+  readonly defaultProps: Partial<SelectProps> = selectVariants.defaults;
+
+  render(rawProps: SelectProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+
+    const options = p.items.map((item) =>
+      h("option", { value: item.value, disabled: Boolean(item.disabled) }, toChildren(item.label), {
+        slot: "option",
+        name: "SelectOption",
+        id: item.value,
+      })
+    );
+    if (p.placeholder !== undefined) {
+      options.unshift(
+        h("option", { value: "", hidden: true }, [p.placeholder], {
+          slot: "placeholder",
+          name: "SelectPlaceholder",
+        })
+      );
+    }
+
+    return h(
+      "select",
+      {
+        className: selectVariants(p, t),
+        disabled: Boolean(p.disabled),
+        required: Boolean(p.required),
+        "aria-readonly": p.readOnly || undefined,
+        "aria-invalid": p.invalid || undefined,
+        ...(p.readOnly && {
+          onMouseDown: (event: { preventDefault?: () => void }) => event.preventDefault?.(),
+          onKeyDown: (event: KeyboardEventLike) => {
+            if (event.key !== "Tab") event.preventDefault?.();
+          },
+        }),
+      },
+      options,
+      { slot: "root", name: "SelectRoot" }
+    );
+  }
+}
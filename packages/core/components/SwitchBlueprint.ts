@@ -0,0 +1,108 @@
+// packages/core/src/components/switch/SwitchBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { h, type Node } from "../composition/Node.js";
+import { defineVariants, type VariantProps } from "../variants/variants.js";
+import { cn } from "../utils/cn.js";
+import { staticBinding, type BehaviorBinding } from "../behaviors/machine.js";
+import {
+  switchBehavior,
+  switchProps,
+  type SwitchEvent,
+  type SwitchOptions,
+  type SwitchState,
+} from "../behaviors/switch.js";
+
+export const switchVariants = defineVariants({
+  base: (t) =>
+    [
+      "relative inline-flex shrink-0 cursor-pointer items-center border-2 border-transparent focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50",
+      t.radius.full,
+      t.motion.transition,
+      t.motion.reduced,
+    ].join(" "),
+  variants: {
+    size: {
+      sm: "h-5 w-9",
+      md: "h-6 w-11",
+    },
+    invalid: {
+      true: "ring-2 ring-red-500 ring-offset-2",
+      false: "",
+    },
+    readOnly: {
+      true: "cursor-default",
+      false: "",
+    },
+  },
+  defaultVariants: {
+    size: "md",
+  },
+});
+
+export type SwitchVariantProps = VariantProps<typeof switchVariants>;
+
+export type SwitchProps = SwitchVariantProps &
+  SwitchOptions & {
+    className?: string;
+    /**
+     * State and send from an adapter (e.g. useSwitch); without it the switch
+     * renders its initial state.
+     */
+    behavior?: BehaviorBinding<SwitchState, SwitchEvent>;
+  };
+
+const THUMB_SIZES = {
+  sm: { thumb: "h-4 w-4", on: "translate-x-4" },
+  md: { thumb: "h-5 w-5", on: "translate-x-5" },
+};
+
+export class SwitchBlueprint extends ComponentBlueprint<SwitchProps> {
+  readonly name = "Switch";
+
+  readonly variants = switchVariants.options;
+
+  readonly defaultProps: Partial<SwitchProps> = switchVariants.defaults;
+
+  render(rawProps: SwitchProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const { state, send } = p.behavior ?? staticBinding(switchBehavior, p);
+    const parts = switchProps({ state, send }, p);
+    const size = THUMB_SIZES[p.size ?? "md"];
+
+    return h(
+      "button",
+      {
+        ...parts.root,
+        className: switchVariants(
+          {
+            size: p.size,
+            invalid: p.invalid,
+            readOnly: p.readOnly,
+            className: cn(state.checked ? t.color.primary : "bg-neutral-300", p.className),
+          },
+          t
+        ),
+      },
+      [
+        h(
+          "span",
+          {
+            ...parts.thumb,
+            className: cn(
+              "pointer-events-none inline-block bg-white shadow",
+              t.radius.full,
+              t.motion.transition,
+              t.motion.reduced,
+              size.thumb,
+              state.checked ? size.on : "translate-x-0"
+            ),
+          },
+          [],
+          { slot: "thumb", name: "SwitchThumb" }
+        ),
+      ],
+      { slot: "root", name: "SwitchRoot" }
+    );
+  }
+}
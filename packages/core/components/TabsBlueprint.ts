@@ -0,0 +1,97 @@
+// packages/core/src/components/tabs/TabsBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { h, type Node } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { cn } from "../utils/cn.js";
+import { staticBinding, type BehaviorBinding } from "../behaviors/machine.js";
+import {
+  tabsBehavior,
+  tabsProps,
+  type TabsEvent,
+  type TabsItem,
+  type TabsOptions,
+  type TabsState,
+} from "../behaviors/tabs.js";
+
+export type TabsBlueprintItem = TabsItem & {
+  label: SlotContent;
+  content: SlotContent;
+};
+
+export type TabsProps = Omit<TabsOptions, "items"> & {
+  items: TabsBlueprintItem[];
+  className?: string;
+  /**
+   * State and send from an adapter (e.g. useTabs); without it the tabs
+   * render their initial state.
+   */
+  behavior?: BehaviorBinding<TabsState, TabsEvent>;
+};
+
+export class TabsBlueprint extends ComponentBlueprint<TabsProps> {
+  readonly name = "Tabs";
+
+  render(rawProps: TabsProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const binding = p.behavior ?? staticBinding(tabsBehavior, p);
+    const parts = tabsProps(binding, p);
+    const vertical = p.orientation === "vertical";
+
+    const tabs = p.items.map((item) =>
+      h(
+        "button",
+        {
+          ...parts.tab(item.value),
+          className: cn(
+            "inline-flex items-center justify-center focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:pointer-events-none disabled:opacity-50",
+            t.radius.md,
+            t.spacing.sm,
+            t.typography.sm,
+            t.typography.weight,
+            t.motion.transition,
+            t.motion.reduced,
+            binding.state.selected === item.value
+              ? `${t.color.primary} ${t.color.onPrimary}`
+              : t.color.subtleHover
+          ),
+        },
+        toChildren(item.label),
+        { slot: "tab", name: "TabsTrigger", id: item.value }
+      )
+    );
+
+    const panels = p.items.map((item) =>
+      h(
+        "div",
+        {
+          ...parts.panel(item.value),
+          className: cn("focus:outline-none focus:ring-2 focus:ring-offset-2", t.radius.md),
+        },
+        toChildren(item.content),
+        { slot: "panel", name: "TabsPanel", id: item.value }
+      )
+    );
+
+    return h(
+      "div",
+      {
+        className: cn("flex gap-3", vertical ? "flex-row" : "flex-col", p.className),
+        "data-orientation": p.orientation ?? "horizontal",
+      },
+      [
+        h(
+          "div",
+          {
+            ...parts.list,
+            className: cn("inline-flex gap-1", vertical ? "flex-col" : "flex-row"),
+          },
+          tabs,
+          { slot: "list", name: "TabsList" }
+        ),
+        ...panels,
+      ],
+      { slot: "root", name: "TabsRoot" }
+    );
+  }
+}
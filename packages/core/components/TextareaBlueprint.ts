@@ -0,0 +1,70 @@
+// packages/core/src/components/textarea/TextareaBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import type { DesignTokens } from "../tokens/tokens.js";
+import { h, type Node } from "../composition/Node.js";
+import { defineVariants, type VariantProps } from "../variants/variants.js";
+import { controlStateDefaults, controlStateVariants } from "./InputBlueprint.js";
+
+export const textareaVariants = defineVariants({
+  base: (t: DesignTokens) =>
+    [
+      "flex w-full border bg-white placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-offset-2",
+      t.color.border,
+      t.radius.md,
+      t.motion.transition,
+      t.motion.reduced,
+    ].join(" "),
+  variants: {
+    size: {
+      sm: (t: DesignTokens) => `min-h-16 px-2.5 py-1.5 ${t.typography.sm}`,
+      md: (t: DesignTokens) => `min-h-20 px-3 py-2 ${t.typography.md}`,
+      lg: (t: DesignTokens) => `min-h-28 px-4 py-3 ${t.typography.lg}`,
+    },
+    resize: {
+      none: "resize-none",
+      vertical: "resize-y",
+      both: "resize",
+    },
+    ...controlStateVariants,
+  },
+  defaultVariants: {
+    size: "md",
+    resize: "vertical",
+    ...controlStateDefaults,
+  },
+});
+
+export type TextareaVariantProps = VariantProps<typeof textareaVariants>;
+
+export type TextareaProps = TextareaVariantProps & {
+  className?: string;
+  rows?: number;
+  required?: boolean;
+};
+
+export class TextareaBlueprint extends ComponentBlueprint<TextareaProps> {
+  readonly name = "Textarea";
+
+  readonly variants = textareaVariants.options;
+
+  readonly defaultProps: Partial<TextareaProps> = textareaVariants.defaults;
+
+  render(rawProps: TextareaProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+
+    return h(
+      "textarea",
+      {
+        rows: p.rows,
+        className: textareaVariants(p, t),
+        disabled: Boolean(p.disabled),
+        readOnly: Boolean(p.readOnly),
+        required: Boolean(p.required),
+        "aria-invalid": p.invalid || undefined,
+      },
+      [],
+      { slot: "root", name: "TextareaRoot" }
+    );
+  }
+}
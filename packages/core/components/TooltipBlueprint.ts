@@ -0,0 +1,64 @@
+// packages/core/src/components/tooltip/TooltipBlueprint.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { h, type Node } from "../composition/Node.js";
+import { toChildren, type SlotContent } from "../composition/slots.js";
+import { cn } from "../utils/cn.js";
+import { staticBinding, type BehaviorBinding } from "../behaviors/machine.js";
+import {
+  overlayBehavior,
+  tooltipProps,
+  type OverlayEvent,
+  type OverlayOptions,
+  type OverlayState,
+  type Placement,
+} from "../behaviors/overlay.js";
+
+export type TooltipProps = OverlayOptions & {
+  children?: SlotContent;
+  className?: string;
+  placement?: Placement;
+  /**
+   * Stacking order from the adapter's layer stack.
+   */
+  zIndex?: number;
+  /**
+   * State and send from an adapter (e.g. useTooltip); without it the
+   * tooltip renders its initial state.
+   */
+  behavior?: BehaviorBinding<OverlayState, OverlayEvent>;
+};
+
+/**
+ * The tooltip bubble. Adapters mount it while open and position it next to
+ * the element it describes.
+ */
+export class TooltipBlueprint extends ComponentBlueprint<TooltipProps> {
+  readonly name = "Tooltip";
+
+  readonly defaultProps: Partial<TooltipProps> = { placement: "top" };
+
+  render(rawProps: TooltipProps, ctx: RenderContext): Node {
+    const p = this.resolveProps(rawProps);
+    const t = this.tokens(ctx);
+    const binding = p.behavior ?? staticBinding(overlayBehavior, p);
+    const parts = tooltipProps(binding, p);
+
+    return h(
+      "div",
+      {
+        ...parts.content,
+        className: cn(
+          "pointer-events-none max-w-xs px-2 py-1 text-xs shadow",
+          t.color.primary,
+          t.color.onPrimary,
+          t.radius.sm,
+          p.className
+        ),
+        "data-placement": p.placement,
+        style: p.zIndex === undefined ? undefined : { zIndex: p.zIndex },
+      },
+      toChildren(p.children),
+      { slot: "root", name: "TooltipContent" }
+    );
+  }
+}
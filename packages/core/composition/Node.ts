@@ -4,7 +4,8 @@ export type Props = Record<string, unknown>;
 export type NodeType =
   | "element"      // a host element, like "button" / "div" (framework-agnostic tag)
   | "component"    // a named component (optional; often you only need "element")
-  | "fragment";    // group of children
+  | "fragment"     // group of children
+  | "host";        // a value native to the adapter (React element, Vue vnode, DOM node)
 
 export interface Node {
   type: NodeType;
@@ -12,15 +13,22 @@ export interface Node {
   /**
    * For type="element": tag = "button" | "div" | ...
    * For type="component": tag = a component key/name (resolved by adapter if you want)
-   * For type="fragment": tag is unused
+   * For type="fragment" and type="host": tag is unused
    */
   tag?: string;
 
+  /**
+   * For type="host": the adapter-native value, rendered as it is. Core code
+   * never looks inside it.
+   */
+  value?: unknown;
+
   props?: Props;
 
   /**
    * "slots" help you attach structure without hardcoding children positions.
-   * Minimal version: treat it as children, and wrappers can wrap root slot.
+   * Children are positional; use meta.slot plus the helpers in slots.ts to
+   * find, replace, insert into or wrap a part of the tree.
    */
   children?: Array<Node | string>;
 
@@ -47,7 +55,38 @@ export const h = (
   meta,
 });
 
-export const fragment = (children: Array<Node | string> = []): Node => ({
+export const fragment = (
+  children: Array<Node | string> = [],
+  meta: Node["meta"] = {}
+): Node => ({
   type: "fragment",
   children,
+  meta,
+});
+
+/**
+ * A node resolved by name through a component registry (a nested blueprint
+ * or an adapter-specific component).
+ */
+export const component = (
+  tag: string,
+  props: Props = {},
+  children: Array<Node | string> = [],
+  meta: Node["meta"] = {}
+): Node => ({
+  type: "component",
+  tag,
+  props,
+  children,
+  meta,
+});
+
+/**
+ * Wraps something only the adapter understands (slot vnodes, React elements,
+ * DOM nodes) so it can sit inside a Node tree, e.g. as a blueprint's children.
+ */
+export const host = (value: unknown, meta: Node["meta"] = {}): Node => ({
+  type: "host",
+  value,
+  meta,
 });
@@ -0,0 +1,66 @@
+// packages/core/src/composition/components.ts
+import { ComponentBlueprint, type RenderContext } from "../blueprints/ComponentBlueprint.js";
+import type { Node, Props } from "./Node.js";
+
+/**
+ * What `type: "component"` tags resolve to: blueprints, or host components
+ * an adapter knows how to render (React components for @oxitron-ui/react).
+ */
+export type ComponentRegistry<THostComponent = never> = Record<
+  string,
+  ComponentBlueprint<Props> | THostComponent
+>;
+
+/**
+ * Replace `type: "component"` nodes whose tag names a blueprint with that
+ * blueprint's tree, rendered with the same RenderContext. The node's props are
+ * the blueprint props; its children (if any) become `children`. Host
+ * components are left in place for the adapter.
+ * @param node - Tree to resolve
+ * @param registry - Components by tag
+ * @param ctx - Render context passed to nested blueprints
+ * @throws On unknown tags and on blueprints that (indirectly) render themselves
+ */
+export function resolveComponents<THostComponent>(
+  node: Node,
+  registry: ComponentRegistry<THostComponent>,
+  ctx: RenderContext
+): Node {
+  return resolveNode(node, registry, ctx, []);
+}
+
+function resolveNode<THostComponent>(
+  node: Node,
+  registry: ComponentRegistry<THostComponent>,
+  ctx: RenderContext,
+  stack: string[]
+): Node {
+  // Children belong to the caller's scope, so resolve them before nesting
+  const children = node.children?.map((child) =>
+    typeof child === "string" ? child : resolveNode(child, registry, ctx, stack)
+  );
+  const resolved: Node = children ? { ...node, children } : node;
+  if (node.type !== "component") return resolved;
+
+  const tag = node.tag ?? "";
+  const entry = Object.prototype.hasOwnProperty.call(registry, tag) ? registry[tag] : undefined;
+  if (entry === undefined) {
+    const known = Object.keys(registry).sort().join(", ") || "none registered";
+    throw new Error(
+      `Unknown component "${tag}" in a type: "component" node. Register it in the components option (known: ${known}).`
+    );
+  }
+  if (!(entry instanceof ComponentBlueprint)) return resolved;
+
+  if (stack.includes(tag)) {
+    throw new Error(`Circular component reference: ${[...stack, tag].join(" -> ")}`);
+  }
+
+  const props: Props = { ...(node.props ?? {}) };
+  if (children?.length) props.children = children;
+  const tree = entry.render(entry.resolveProps(props), ctx);
+
+  // Keep the caller's id so keyed lists of components stay stable
+  const rendered = node.meta?.id ? { ...tree, meta: { ...tree.meta, id: node.meta.id } } : tree;
+  return resolveNode(rendered, registry, ctx, [...stack, tag]);
+}
@@ -0,0 +1,126 @@
+// packages/core/src/composition/slots.ts
+import type { Node } from "./Node.js";
+
+/**
+ * Match nodes by meta (slot / name / id) or with a custom predicate.
+ * Every provided meta field must match.
+ */
+export type NodeSelector =
+  | { slot?: string; name?: string; id?: string }
+  | ((node: Node) => boolean);
+
+/**
+ * What a consumer can put into a named slot.
+ */
+export type SlotContent = Node | string | Array<Node | string>;
+
+export type SlotProps<TSlot extends string> = Partial<Record<TSlot, SlotContent>>;
+
+export type InsertPosition = "start" | "end" | number;
+
+export function matchesNode(node: Node, selector: NodeSelector): boolean {
+  if (typeof selector === "function") return selector(node);
+
+  const { slot, name, id } = selector;
+  if (slot === undefined && name === undefined && id === undefined) return false;
+  if (slot !== undefined && node.meta?.slot !== slot) return false;
+  if (name !== undefined && node.meta?.name !== name) return false;
+  if (id !== undefined && node.meta?.id !== id) return false;
+  return true;
+}
+
+/**
+ * First matching node in depth-first (pre-order) order.
+ */
+export function findNode(tree: Node, selector: NodeSelector): Node | undefined {
+  if (matchesNode(tree, selector)) return tree;
+  for (const child of tree.children ?? []) {
+    if (typeof child === "string") continue;
+    const found = findNode(child, selector);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function findAllNodes(tree: Node, selector: NodeSelector): Node[] {
+  const found: Node[] = [];
+  const visit = (node: Node) => {
+    if (matchesNode(node, selector)) found.push(node);
+    for (const child of node.children ?? []) {
+      if (typeof child !== "string") visit(child);
+    }
+  };
+  visit(tree);
+  return found;
+}
+
+/**
+ * Replace every matching node. Matched nodes are not searched further,
+ * so nested matches inside a replaced node are left alone.
+ * Returns the original tree (same reference) when nothing matched.
+ */
+export function replaceNode(
+  tree: Node,
+  selector: NodeSelector,
+  replacement: Node | ((node: Node) => Node)
+): Node {
+  if (matchesNode(tree, selector)) {
+    return typeof replacement === "function" ? replacement(tree) : replacement;
+  }
+
+  const children = tree.children;
+  if (!children?.length) return tree;
+
+  let changed = false;
+  const next = children.map((child) => {
+    if (typeof child === "string") return child;
+    const replaced = replaceNode(child, selector, replacement);
+    if (replaced !== child) changed = true;
+    return replaced;
+  });
+
+  return changed ? { ...tree, children: next } : tree;
+}
+
+/**
+ * Wrap every matching node, e.g. wrapNode(tree, { slot: "root" }, (n) => h("div", {}, [n])).
+ */
+export function wrapNode(
+  tree: Node,
+  selector: NodeSelector,
+  wrap: (node: Node) => Node
+): Node {
+  return replaceNode(tree, selector, wrap);
+}
+
+/**
+ * Insert children into every matching node.
+ */
+export function insertIntoNode(
+  tree: Node,
+  selector: NodeSelector,
+  content: SlotContent,
+  position: InsertPosition = "end"
+): Node {
+  const inserted = toChildren(content);
+  return replaceNode(tree, selector, (node) => {
+    const children = (node.children ?? []).slice();
+    const index =
+      position === "start"
+        ? 0
+        : position === "end"
+          ? children.length
+          : Math.max(0, Math.min(children.length, position));
+    children.splice(index, 0, ...inserted);
+    return { ...node, children };
+  });
+}
+
+/**
+ * Normalize slot content to a children array.
+ */
+export function toChildren(content: SlotContent | undefined): Array<Node | string> {
+  if (content === undefined) return [];
+  if (Array.isArray(content)) return content;
+  return [content];
+}
@@ -1,8 +1,174 @@
 export { ComponentBlueprint } from "./blueprints/ComponentBlueprint.js";
 export type { RenderContext, VariantMap } from "./blueprints/ComponentBlueprint.js";
 
-export { ButtonBlueprint } from "./components/ButtonBlueprint.js";
-export type { ButtonProps } from "./components/ButtonBlueprint.js";
+export { WrapperBlueprint, WRAPPER_SLOT, applyWrappers } from "./blueprints/WrapperBlueprint.js";
+export type { WrapperUse } from "./blueprints/WrapperBlueprint.js";
 
-export { h, fragment } from "./composition/Node.js";
+export { defaultTokens, defineTokens, mergeTokens, resolveTokens } from "./tokens/tokens.js";
+export type {
+  DesignTokens,
+  TokenOverrides,
+  TokenScale,
+  ColorTokens,
+  RadiusTokens,
+  SpacingTokens,
+  TypographyTokens,
+  MotionTokens,
+} from "./tokens/tokens.js";
+
+export { cn, mergeClasses } from "./utils/cn.js";
+export type { ClassValue, ClassDictionary, ClassArray } from "./utils/cn.js";
+
+export { defineVariants, validateVariantProps } from "./variants/variants.js";
+export type {
+  ClassSource,
+  VariantSchema,
+  VariantValue,
+  VariantSelection,
+  CompoundVariant,
+  VariantDefinition,
+  VariantResolver,
+  VariantProps,
+} from "./variants/variants.js";
+
+export { ButtonBlueprint, buttonVariants } from "./components/ButtonBlueprint.js";
+export type { ButtonProps, ButtonSlot, ButtonVariantProps } from "./components/ButtonBlueprint.js";
+
+export { SwitchBlueprint, switchVariants } from "./components/SwitchBlueprint.js";
+export type { SwitchProps, SwitchVariantProps } from "./components/SwitchBlueprint.js";
+
+export { InputBlueprint, inputVariants } from "./components/InputBlueprint.js";
+export type { InputProps, InputVariantProps } from "./components/InputBlueprint.js";
+
+export { TextareaBlueprint, textareaVariants } from "./components/TextareaBlueprint.js";
+export type { TextareaProps, TextareaVariantProps } from "./components/TextareaBlueprint.js";
+
+export { SelectBlueprint, selectVariants } from "./components/SelectBlueprint.js";
+export type {
+  SelectProps,
+  SelectVariantProps,
+  SelectBlueprintItem,
+} from "./components/SelectBlueprint.js";
+
+export { CheckboxBlueprint, checkboxVariants } from "./components/CheckboxBlueprint.js";
+export type { CheckboxProps, CheckboxVariantProps } from "./components/CheckboxBlueprint.js";
+
+export { RadioGroupBlueprint, radioGroupVariants } from "./components/RadioGroupBlueprint.js";
+export type {
+  RadioGroupProps,
+  RadioGroupVariantProps,
+  RadioGroupBlueprintItem,
+} from "./components/RadioGroupBlueprint.js";
+
+export { FieldBlueprint } from "./components/FieldBlueprint.js";
+export type { FieldProps } from "./components/FieldBlueprint.js";
+
+export { TabsBlueprint } from "./components/TabsBlueprint.js";
+export type { TabsProps, TabsBlueprintItem } from "./components/TabsBlueprint.js";
+
+export { AccordionBlueprint } from "./components/AccordionBlueprint.js";
+export type { AccordionProps, AccordionBlueprintItem } from "./components/AccordionBlueprint.js";
+
+export { DialogBlueprint, dialogVariants } from "./components/DialogBlueprint.js";
+export type { DialogProps, DialogVariantProps } from "./components/DialogBlueprint.js";
+
+export { PopoverBlueprint } from "./components/PopoverBlueprint.js";
+export type { PopoverProps } from "./components/PopoverBlueprint.js";
+
+export { TooltipBlueprint } from "./components/TooltipBlueprint.js";
+export type { TooltipProps } from "./components/TooltipBlueprint.js";
+
+export {
+  createMachine,
+  staticBinding,
+  moveFocus,
+  isNavigationKey,
+  partId,
+} from "./behaviors/machine.js";
+export type {
+  Behavior,
+  BehaviorBinding,
+  KeyboardEventLike,
+  MachineService,
+  Send,
+} from "./behaviors/machine.js";
+export { switchBehavior, switchProps } from "./behaviors/switch.js";
+export type { SwitchEvent, SwitchOptions, SwitchParts, SwitchState } from "./behaviors/switch.js";
+export { checkboxBehavior, checkboxProps } from "./behaviors/checkbox.js";
+export type {
+  CheckboxEvent,
+  CheckboxOptions,
+  CheckboxParts,
+  CheckboxState,
+} from "./behaviors/checkbox.js";
+export { radioGroupBehavior, radioGroupProps, radioId } from "./behaviors/radioGroup.js";
+export type {
+  RadioGroupEvent,
+  RadioGroupItem,
+  RadioGroupOptions,
+  RadioGroupParts,
+  RadioGroupState,
+} from "./behaviors/radioGroup.js";
+export { fieldProps, fieldLabelId, fieldDescriptionId, fieldErrorId } from "./behaviors/field.js";
+export type { FieldOptions, FieldParts } from "./behaviors/field.js";
+export { tabsBehavior, tabsProps, tabId, tabPanelId } from "./behaviors/tabs.js";
+export type { TabsEvent, TabsItem, TabsOptions, TabsParts, TabsState } from "./behaviors/tabs.js";
+export {
+  accordionBehavior,
+  accordionProps,
+  accordionTriggerId,
+  accordionPanelId,
+} from "./behaviors/accordion.js";
+export type {
+  AccordionEvent,
+  AccordionItem,
+  AccordionOptions,
+  AccordionParts,
+  AccordionState,
+} from "./behaviors/accordion.js";
+export {
+  overlayBehavior,
+  dialogProps,
+  popoverProps,
+  tooltipProps,
+  overlayContentId,
+  overlayTitleId,
+  overlayDescriptionId,
+} from "./behaviors/overlay.js";
+export type {
+  DialogOptions,
+  DialogParts,
+  OverlayEvent,
+  OverlayOptions,
+  OverlayState,
+  Placement,
+  PlacementSide,
+  PopoverParts,
+  TooltipParts,
+} from "./behaviors/overlay.js";
+
+export { NeonBorderWrapper } from "./wrappers/NeonBorderWrapper.js";
+export type { NeonBorderOptions } from "./wrappers/NeonBorderWrapper.js";
+
+export { auditNode, assertAccessible, formatA11yIssues } from "./a11y/audit.js";
+export type { A11yIssue, A11yRule } from "./a11y/audit.js";
+
+export { renderToString, nodeToString } from "./server/renderToString.js";
+export type { RenderToStringOptions } from "./server/renderToString.js";
+
+export { h, fragment, component, host } from "./composition/Node.js";
 export type { Node, NodeType, Props } from "./composition/Node.js";
+
+export { resolveComponents } from "./composition/components.js";
+export type { ComponentRegistry } from "./composition/components.js";
+
+export {
+  matchesNode,
+  findNode,
+  findAllNodes,
+  replaceNode,
+  wrapNode,
+  insertIntoNode,
+  toChildren,
+} from "./composition/slots.js";
+export type { NodeSelector, SlotContent, SlotProps, InsertPosition } from "./composition/slots.js";
@@ -0,0 +1,171 @@
+// packages/core/src/server/renderToString.ts
+import type { ComponentBlueprint, RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { applyWrappers, type WrapperUse } from "../blueprints/WrapperBlueprint.js";
+import { resolveComponents, type ComponentRegistry } from "../composition/components.js";
+import type { Node, Props } from "../composition/Node.js";
+
+export type RenderToStringOptions = {
+  /**
+   * Wrappers applied to the Node tree before it is serialized,
+   * in ascending priority order.
+   */
+  wrappers?: Array<WrapperUse>;
+  /**
+   * Blueprints for `type: "component"` tags, rendered with the same ctx.
+   */
+  components?: ComponentRegistry;
+};
+
+/**
+ * Elements that never have children or a closing tag.
+ */
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/**
+ * React-style prop names whose HTML attribute is spelled differently.
+ */
+const ATTRIBUTE_ALIASES: Record<string, string> = {
+  className: "class",
+  htmlFor: "for",
+  acceptCharset: "accept-charset",
+  httpEquiv: "http-equiv",
+};
+
+/**
+ * Anything else could break out of the tag.
+ */
+const VALID_ATTRIBUTE = /^[^\s"'<>/=\u0000-\u001f]+$/;
+
+/**
+ * Render a core blueprint to an HTML string, for SSR, emails and static pages.
+ * @param blueprint - Blueprint to render
+ * @param props - Blueprint props
+ * @param ctx - Render context (token overrides)
+ * @param options - Nested components and wrappers
+ * @throws On component tags missing from options.components
+ */
+export function renderToString<TProps extends Props>(
+  blueprint: ComponentBlueprint<TProps>,
+  props: TProps,
+  ctx: RenderContext = {},
+  options: RenderToStringOptions = {}
+): string {
+  let node: Node = blueprint.render(blueprint.resolveProps(props), ctx);
+  node = resolveComponents(node, options.components ?? {}, ctx);
+  if (options.wrappers?.length) {
+    node = applyWrappers(node, options.wrappers, ctx);
+  }
+  return nodeToString(node);
+}
+
+/**
+ * Serializes a Node tree to HTML. Text and attribute values are escaped;
+ * function props (event handlers) and `key` are dropped.
+ * @throws On `type: "component"` nodes (run resolveComponents first) and host nodes
+ */
+export function nodeToString(node: Node | string): string {
+  if (typeof node === "string") return escapeHtml(node);
+
+  const children = (node.children ?? []).map(nodeToString).join("");
+  if (node.type === "fragment") return children;
+
+  if (node.type === "component") {
+    throw new Error(
+      `Unresolved component "${node.tag ?? ""}": pass it in the components option of renderToString.`
+    );
+  }
+  if (node.type === "host") {
+    throw new Error("Host nodes hold framework values (React elements, vnodes) and cannot be serialized.");
+  }
+
+  const tag = node.tag ?? "div";
+  const attrs = serializeAttributes(node);
+  if (VOID_ELEMENTS.has(tag)) return `<${tag}${attrs}>`;
+  return `<${tag}${attrs}>${children}</${tag}>`;
+}
+
+function serializeAttributes(node: Node): string {
+  const attrs = new Map<string, string | true>();
+
+  for (const [name, value] of Object.entries(node.props ?? {})) {
+    if (name === "key" || name === "children" || typeof value === "function") continue;
+    const attr = ATTRIBUTE_ALIASES[name] ?? name;
+    if (!VALID_ATTRIBUTE.test(attr)) continue;
+
+    const serialized = attr === "style" ? serializeStyle(value) : serializeValue(attr, value);
+    if (serialized === null) continue;
+
+    // className and class both map to class
+    const existing = attrs.get(attr);
+    attrs.set(
+      attr,
+      attr === "class" && typeof existing === "string" && typeof serialized === "string"
+        ? `${existing} ${serialized}`
+        : serialized
+    );
+  }
+
+  if (node.meta?.name && !attrs.has("data-stone")) {
+    attrs.set("data-stone", node.meta.name);
+  }
+
+  let out = "";
+  for (const [name, value] of attrs) {
+    out += value === true ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`;
+  }
+  return out;
+}
+
+/**
+ * @returns true for a bare boolean attribute, null to omit the attribute
+ */
+function serializeValue(name: string, value: unknown): string | true | null {
+  // aria-* and data-* keep "true"/"false"; other booleans are presence attributes
+  const stringly = name.startsWith("aria-") || name.startsWith("data-");
+  if (typeof value === "boolean") {
+    if (stringly) return String(value);
+    return value ? true : null;
+  }
+  if (typeof value === "string" || typeof value === "number" || typeof value === "bigint") {
+    return String(value);
+  }
+  return null;
+}
+
+function serializeStyle(value: unknown): string | null {
+  if (typeof value === "string") return value || null;
+  if (typeof value !== "object" || value === null) return null;
+
+  const declarations = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v != null && v !== false && v !== "")
+    .map(([key, v]) => {
+      const property = key.startsWith("--")
+        ? key
+        : key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+      return `${property}:${String(v)}`;
+    });
+  return declarations.length ? declarations.join(";") : null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
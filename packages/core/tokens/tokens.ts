@@ -0,0 +1,122 @@
+// packages/core/src/tokens/tokens.ts
+
+/**
+ * Token values are Tailwind utility classes, so blueprints can compose them
+ * directly into className strings (and Tailwind can still scan them).
+ */
+export type TokenScale = "sm" | "md" | "lg";
+
+export type ColorTokens = {
+  /** Primary surface, e.g. "bg-black" */
+  primary: string;
+  /** Content on primary surfaces, e.g. "text-white" */
+  onPrimary: string;
+  /** Hover state of primary surfaces, e.g. "hover:bg-black/90" */
+  primaryHover: string;
+  /** Neutral borders, e.g. "border-neutral-300" */
+  border: string;
+  /** Hover state of neutral/transparent surfaces, e.g. "hover:bg-neutral-100" */
+  subtleHover: string;
+  /** Secondary text such as field descriptions, e.g. "text-neutral-500" */
+  muted: string;
+  /** Error text, e.g. "text-red-600" */
+  danger: string;
+  /** Borders and focus rings of invalid controls, e.g. "border-red-500 focus:ring-red-500" */
+  dangerBorder: string;
+};
+
+export type RadiusTokens = Record<TokenScale | "none" | "full", string>;
+
+/** Control heights and horizontal padding per size. */
+export type SpacingTokens = Record<TokenScale, string>;
+
+export type TypographyTokens = Record<TokenScale, string> & {
+  weight: string;
+};
+
+export type MotionTokens = {
+  transition: string;
+  /** Applied alongside transition for prefers-reduced-motion users. */
+  reduced: string;
+};
+
+export type DesignTokens = {
+  color: ColorTokens;
+  radius: RadiusTokens;
+  spacing: SpacingTokens;
+  typography: TypographyTokens;
+  motion: MotionTokens;
+};
+
+/**
+ * Any subset of the token schema; missing values fall back to defaults.
+ */
+export type TokenOverrides = {
+  [K in keyof DesignTokens]?: Partial<DesignTokens[K]>;
+};
+
+export const defaultTokens: DesignTokens = {
+  color: {
+    primary: "bg-black",
+    onPrimary: "text-white",
+    primaryHover: "hover:bg-black/90",
+    border: "border-neutral-300",
+    subtleHover: "hover:bg-neutral-100",
+    muted: "text-neutral-500",
+    danger: "text-red-600",
+    dangerBorder: "border-red-500 focus:ring-red-500",
+  },
+  radius: {
+    none: "rounded-none",
+    sm: "rounded-sm",
+    md: "rounded-md",
+    lg: "rounded-lg",
+    full: "rounded-full",
+  },
+  spacing: {
+    sm: "h-8 px-3",
+    md: "h-10 px-4",
+    lg: "h-12 px-6",
+  },
+  typography: {
+    sm: "text-sm",
+    md: "text-sm",
+    lg: "text-base",
+    weight: "font-medium",
+  },
+  motion: {
+    transition: "transition",
+    reduced: "motion-reduce:transition-none",
+  },
+};
+
+/**
+ * Identity helper that type-checks a brand palette.
+ */
+export function defineTokens(overrides: TokenOverrides): TokenOverrides {
+  return overrides;
+}
+
+/**
+ * Merge overrides left to right (later wins), one group at a time.
+ */
+export function mergeTokens(
+  ...layers: Array<TokenOverrides | undefined>
+): TokenOverrides {
+  const merged: Record<string, Record<string, string>> = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [group, values] of Object.entries(layer)) {
+      if (!values) continue;
+      merged[group] = { ...(merged[group] ?? {}), ...values };
+    }
+  }
+  return merged as TokenOverrides;
+}
+
+/**
+ * Fill in defaults for every group the overrides leave out.
+ */
+export function resolveTokens(overrides?: TokenOverrides): DesignTokens {
+  return mergeTokens(defaultTokens, overrides) as DesignTokens;
+}
@@ -0,0 +1,334 @@
+// packages/core/src/utils/cn.ts
+// Keep in sync with packages/cli/src/templates/utils/cn.{ts,js}; __tests__/cn.test.ts checks both.
+
+export type ClassValue =
+  | string
+  | number
+  | null
+  | undefined
+  | false
+  | ClassDictionary
+  | ClassArray;
+
+export type ClassDictionary = Record<string, boolean | null | undefined>;
+export type ClassArray = ClassValue[];
+
+type GroupResolver = string | ((value: string) => string);
+
+const EXACT_GROUPS: Record<string, string> = {
+  block: "display",
+  "inline-block": "display",
+  inline: "display",
+  flex: "display",
+  "inline-flex": "display",
+  grid: "display",
+  "inline-grid": "display",
+  table: "display",
+  contents: "display",
+  "flow-root": "display",
+  "list-item": "display",
+  hidden: "display",
+  static: "position",
+  fixed: "position",
+  absolute: "position",
+  relative: "position",
+  sticky: "position",
+  visible: "visibility",
+  invisible: "visibility",
+  collapse: "visibility",
+  underline: "text-decoration",
+  overline: "text-decoration",
+  "line-through": "text-decoration",
+  "no-underline": "text-decoration",
+  uppercase: "text-transform",
+  lowercase: "text-transform",
+  capitalize: "text-transform",
+  "normal-case": "text-transform",
+  italic: "font-style",
+  "not-italic": "font-style",
+  truncate: "text-overflow",
+  antialiased: "font-smoothing",
+  "subpixel-antialiased": "font-smoothing",
+  "sr-only": "sr",
+  "not-sr-only": "sr",
+};
+
+const SIDES = ["x", "y", "t", "r", "b", "l", "s", "e"];
+const CORNERS = ["t", "r", "b", "l", "s", "e", "tl", "tr", "br", "bl", "ss", "se", "es", "ee"];
+const SIMPLE_PREFIXES = [
+  "p", "m", "w", "h", "size", "min-w", "min-h", "max-w", "max-h",
+  "gap", "gap-x", "gap-y", "space-x", "space-y",
+  "inset", "inset-x", "inset-y", "top", "right", "bottom", "left", "start", "end",
+  "z", "opacity", "order", "basis", "grow", "shrink",
+  "items", "justify", "justify-items", "justify-self", "self", "content",
+  "place-items", "place-content", "place-self",
+  "grid-cols", "grid-rows", "col-span", "row-span",
+  "overflow", "overflow-x", "overflow-y",
+  "cursor", "pointer-events", "select", "whitespace",
+  "leading", "tracking", "line-clamp",
+  "transition", "duration", "ease", "delay", "animate",
+  "translate", "translate-x", "translate-y", "scale", "scale-x", "scale-y",
+  "rotate", "skew-x", "skew-y", "origin",
+  "blur", "backdrop-blur", "aspect", "fill", "outline-offset",
+  ...SIDES.flatMap((side) => [`p${side}`, `m${side}`]),
+];
+
+const PREFIX_GROUPS: Record<string, GroupResolver> = {
+  ...Object.fromEntries(SIMPLE_PREFIXES.map((prefix) => [prefix, prefix])),
+  rounded: "rounded",
+  ...Object.fromEntries(CORNERS.map((corner) => [`rounded-${corner}`, `rounded-${corner}`])),
+  border: (value) => borderGroup("", value),
+  ...Object.fromEntries(
+    SIDES.map((side) => [`border-${side}`, (value: string) => borderGroup(`-${side}`, value)])
+  ),
+  flex: (value) =>
+    ["row", "row-reverse", "col", "col-reverse"].includes(value)
+      ? "flex-direction"
+      : ["wrap", "nowrap", "wrap-reverse"].includes(value)
+        ? "flex-wrap"
+        : "flex",
+  outline: (value) =>
+    value === "" || isLength(value)
+      ? "outline-w"
+      : ["none", "solid", "dashed", "dotted", "double", "hidden"].includes(value)
+        ? "outline-style"
+        : "outline-color",
+  ring: (value) =>
+    value === "" || isLength(value) ? "ring-w" : value === "inset" ? "ring-inset" : "ring-color",
+  "ring-offset": (value) => (isLength(value) ? "ring-offset-w" : "ring-offset-color"),
+  shadow: (value) =>
+    value === "" ||
+    ["2xs", "xs", "sm", "md", "lg", "xl", "2xl", "inner", "none"].includes(value) ||
+    (isArbitrary(value) && !isColor(value))
+      ? "shadow"
+      : "shadow-color",
+  bg: bgGroup,
+  text: (value) =>
+    ["xs", "sm", "base", "lg", "xl"].includes(value) || /^\d+xl$/.test(value) || isLength(value)
+      ? "font-size"
+      : ["left", "center", "right", "justify", "start", "end"].includes(value)
+        ? "text-align"
+        : ["wrap", "nowrap", "balance", "pretty"].includes(value)
+          ? "text-wrap"
+          : ["ellipsis", "clip"].includes(value)
+            ? "text-overflow"
+            : "text-color",
+  font: (value) =>
+    ["thin", "extralight", "light", "normal", "medium", "semibold", "bold", "extrabold", "black"].includes(value) ||
+    /^\[\d+\]$/.test(value)
+      ? "font-weight"
+      : "font-family",
+};
+
+/**
+ * Arbitrary properties ([border-color:red]) conflict with the matching utility group.
+ */
+const ARBITRARY_PROPERTY_GROUPS: Record<string, string> = {
+  "border-color": "border-color",
+  "background-color": "bg-color",
+  color: "text-color",
+  "font-size": "font-size",
+  "font-weight": "font-weight",
+  padding: "p",
+  margin: "m",
+  width: "w",
+  height: "h",
+  display: "display",
+  opacity: "opacity",
+  "box-shadow": "shadow",
+};
+
+const CONFLICTS: Record<string, string[]> = {
+  p: SIDES.map((side) => `p${side}`),
+  px: ["pr", "pl", "ps", "pe"],
+  py: ["pt", "pb"],
+  m: SIDES.map((side) => `m${side}`),
+  mx: ["mr", "ml", "ms", "me"],
+  my: ["mt", "mb"],
+  size: ["w", "h"],
+  gap: ["gap-x", "gap-y"],
+  inset: ["inset-x", "inset-y", "top", "right", "bottom", "left", "start", "end"],
+  "inset-x": ["right", "left"],
+  "inset-y": ["top", "bottom"],
+  overflow: ["overflow-x", "overflow-y"],
+  flex: ["basis", "grow", "shrink"],
+  "font-size": ["leading"],
+  translate: ["translate-x", "translate-y"],
+  scale: ["scale-x", "scale-y"],
+  rounded: CORNERS.map((corner) => `rounded-${corner}`),
+  "rounded-t": ["rounded-tl", "rounded-tr"],
+  "rounded-r": ["rounded-tr", "rounded-br"],
+  "rounded-b": ["rounded-br", "rounded-bl"],
+  "rounded-l": ["rounded-tl", "rounded-bl"],
+  "rounded-s": ["rounded-ss", "rounded-es"],
+  "rounded-e": ["rounded-se", "rounded-ee"],
+  ...sideConflicts("border-w"),
+  ...sideConflicts("border-color"),
+};
+
+function sideConflicts(group: string): Record<string, string[]> {
+  return {
+    [group]: SIDES.map((side) => `${group}-${side}`),
+    [`${group}-x`]: [`${group}-r`, `${group}-l`, `${group}-s`, `${group}-e`],
+    [`${group}-y`]: [`${group}-t`, `${group}-b`],
+  };
+}
+
+function borderGroup(side: string, value: string): string {
+  if (value === "" || isLength(value)) return `border-w${side}`;
+  if (!side && ["solid", "dashed", "dotted", "double", "hidden", "none"].includes(value)) {
+    return "border-style";
+  }
+  if (!side && ["collapse", "separate"].includes(value)) return "border-collapse";
+  return `border-color${side}`;
+}
+
+function bgGroup(value: string): string {
+  if (["fixed", "local", "scroll"].includes(value)) return "bg-attachment";
+  if (value.startsWith("clip-")) return "bg-clip";
+  if (value.startsWith("origin-")) return "bg-origin";
+  if (value.startsWith("repeat") || value === "no-repeat") return "bg-repeat";
+  if (["auto", "cover", "contain"].includes(value)) return "bg-size";
+  if (/^(bottom|center|left|right|top)(-|$)/.test(value)) return "bg-position";
+  if (value === "none" || /^(gradient|linear|radial|conic)-/.test(value) || value.startsWith("[url(")) {
+    return "bg-image";
+  }
+  return "bg-color";
+}
+
+function isArbitrary(value: string): boolean {
+  return value.startsWith("[") && value.endsWith("]");
+}
+
+function isLength(value: string): boolean {
+  if (/^\d+(\.\d+)?$/.test(value) || value === "px") return true;
+  if (!isArbitrary(value)) return false;
+  const inner = value.slice(1, -1);
+  return (
+    inner.startsWith("length:") ||
+    inner.startsWith("calc(") ||
+    /^-?\d*\.?\d+(px|r?em|%|vh|vw|ch|ex|pt)?$/.test(inner)
+  );
+}
+
+function isColor(value: string): boolean {
+  const inner = isArbitrary(value) ? value.slice(1, -1) : value;
+  return /^(color:|#|rgba?\(|hsla?\(|oklch\(|oklab\()/.test(inner);
+}
+
+/**
+ * Split "hover:md:!bg-black/90" into sorted modifiers, importance and base utility.
+ */
+function parseClass(cls: string): { modifiers: string; important: boolean; base: string } {
+  const modifiers: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < cls.length; i++) {
+    const ch = cls[i];
+    if (ch === "[" || ch === "(") depth++;
+    else if (ch === "]" || ch === ")") depth--;
+    else if (ch === ":" && depth === 0) {
+      modifiers.push(cls.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  let base = cls.slice(start);
+  let important = false;
+  if (base.startsWith("!")) {
+    important = true;
+    base = base.slice(1);
+  } else if (base.endsWith("!")) {
+    important = true;
+    base = base.slice(0, -1);
+  }
+
+  return { modifiers: modifiers.sort().join(":"), important, base };
+}
+
+function getGroup(base: string): string | null {
+  if (isArbitrary(base)) {
+    const colon = base.indexOf(":");
+    if (colon < 0) return null;
+    const property = base.slice(1, colon);
+    return ARBITRARY_PROPERTY_GROUPS[property] ?? `[${property}]`;
+  }
+
+  const utility = base.startsWith("-") ? base.slice(1) : base;
+  if (EXACT_GROUPS[utility]) return EXACT_GROUPS[utility];
+
+  let prefix = "";
+  for (const candidate of Object.keys(PREFIX_GROUPS)) {
+    if (
+      candidate.length > prefix.length &&
+      (utility === candidate || utility.startsWith(`${candidate}-`))
+    ) {
+      prefix = candidate;
+    }
+  }
+  if (!prefix) return null;
+
+  const resolver = PREFIX_GROUPS[prefix];
+  if (typeof resolver === "string") return resolver;
+
+  // Drop opacity / line-height modifiers ("black/90", "sm/6") before classifying.
+  const value = utility.slice(prefix.length + 1);
+  return resolver(isArbitrary(value) ? value : value.split("/")[0]);
+}
+
+/**
+ * Resolve Tailwind conflicts: for each utility group (per modifier set),
+ * the last class wins. Unknown classes are kept as-is.
+ */
+export function mergeClasses(classList: string): string {
+  const classes = classList.trim().split(/\s+/);
+  const taken = new Set<string>();
+  const result: string[] = [];
+
+  for (let i = classes.length - 1; i >= 0; i--) {
+    const cls = classes[i];
+    if (!cls) continue;
+
+    const { modifiers, important, base } = parseClass(cls);
+    const group = getGroup(base);
+    if (!group) {
+      result.push(cls);
+      continue;
+    }
+
+    const scope = `${modifiers}|${important ? "!" : ""}|`;
+    if (taken.has(scope + group)) continue;
+
+    taken.add(scope + group);
+    for (const conflict of CONFLICTS[group] ?? []) {
+      taken.add(scope + conflict);
+    }
+    result.push(cls);
+  }
+
+  return result.reverse().join(" ");
+}
+
+function toValue(value: ClassValue): string {
+  if (!value) return "";
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toValue).filter(Boolean).join(" ");
+  }
+  if (typeof value === "object") {
+    return Object.entries(value)
+      .filter(([, enabled]) => enabled)
+      .map(([key]) => key)
+      .join(" ");
+  }
+  return "";
+}
+
+/**
+ * Join class values and resolve Tailwind conflicts (later classes win).
+ */
+export function cn(...inputs: ClassValue[]): string {
+  return mergeClasses(inputs.map(toValue).filter(Boolean).join(" "));
+}
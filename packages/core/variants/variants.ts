@@ -0,0 +1,125 @@
+// packages/core/src/variants/variants.ts
+import { defaultTokens, type DesignTokens } from "../tokens/tokens.js";
+import { cn } from "../utils/cn.js";
+
+/**
+ * Class names for a variant value: a static string or derived from tokens.
+ */
+export type ClassSource = string | ((tokens: DesignTokens) => string);
+
+export type VariantSchema = Record<string, Record<string, ClassSource>>;
+
+type StringToBoolean<T> = T extends "true" | "false" ? boolean : T;
+
+export type VariantValue<TOptions> = StringToBoolean<keyof TOptions & string>;
+
+export type VariantSelection<V extends VariantSchema> = {
+  [K in keyof V]?: VariantValue<V[K]>;
+};
+
+export type CompoundVariant<V extends VariantSchema> = {
+  [K in keyof V]?: VariantValue<V[K]> | Array<VariantValue<V[K]>>;
+} & {
+  className: ClassSource;
+};
+
+export type VariantDefinition<V extends VariantSchema> = {
+  base?: ClassSource;
+  variants: V;
+  compoundVariants?: Array<CompoundVariant<V>>;
+  defaultVariants?: VariantSelection<V>;
+};
+
+export interface VariantResolver<V extends VariantSchema> {
+  /**
+   * Build the class string for the given props. className is merged last,
+   * so it wins Tailwind conflicts (e.g. bg-red-500 over bg-black).
+   */
+  (props?: VariantSelection<V> & { className?: string }, tokens?: DesignTokens): string;
+  readonly definition: VariantDefinition<V>;
+  /** Allowed values per variant, e.g. { size: ["sm", "md", "lg"] }. */
+  readonly options: { readonly [K in keyof V]: ReadonlyArray<keyof V[K] & string> };
+  readonly defaults: VariantSelection<V>;
+  /** Throws when a prop holds a value the definition does not allow. */
+  validate(props: Record<string, unknown>, owner?: string): void;
+}
+
+/**
+ * Infer the variant prop types of a resolver created by defineVariants.
+ */
+export type VariantProps<T> = T extends VariantResolver<infer V> ? VariantSelection<V> : never;
+
+export function defineVariants<V extends VariantSchema>(
+  definition: VariantDefinition<V>
+): VariantResolver<V> {
+  const options = Object.fromEntries(
+    Object.entries(definition.variants).map(([key, values]) => [key, Object.keys(values)])
+  ) as unknown as VariantResolver<V>["options"];
+  const defaults = { ...(definition.defaultVariants ?? {}) } as VariantSelection<V>;
+
+  const resolve = (
+    props: VariantSelection<V> & { className?: string } = {},
+    tokens: DesignTokens = defaultTokens
+  ): string => {
+    const selection: Record<string, unknown> = { ...defaults };
+    for (const [key, value] of Object.entries(props)) {
+      if (value !== undefined) selection[key] = value;
+    }
+    validateVariantProps(options, selection);
+
+    const classes = [toClass(definition.base, tokens)];
+
+    for (const [key, values] of Object.entries(definition.variants)) {
+      const value = selection[key];
+      if (value === undefined) continue;
+      classes.push(toClass(values[String(value)], tokens));
+    }
+
+    for (const compound of definition.compoundVariants ?? []) {
+      const { className, ...conditions } = compound;
+      const matches = Object.entries(conditions).every(([key, expected]) => {
+        const actual = selection[key];
+        return Array.isArray(expected)
+          ? (expected as unknown[]).includes(actual)
+          : expected === actual;
+      });
+      if (matches) classes.push(toClass(className, tokens));
+    }
+
+    return cn(classes, props.className);
+  };
+
+  return Object.assign(resolve, {
+    definition,
+    options,
+    defaults,
+    validate(props: Record<string, unknown>, owner?: string) {
+      validateVariantProps(options, props, owner);
+    },
+  });
+}
+
+/**
+ * Check every variant prop against its allowed values.
+ * Booleans are compared as "true" / "false"; undefined is always allowed.
+ */
+export function validateVariantProps(
+  allowed: Readonly<Record<string, readonly string[]>>,
+  props: Record<string, unknown>,
+  owner = "Component"
+): void {
+  for (const [key, values] of Object.entries(allowed)) {
+    const value = props[key];
+    if (value === undefined) continue;
+    if (!values.includes(String(value))) {
+      throw new Error(
+        `Invalid value ${JSON.stringify(value)} for ${owner} prop "${key}". Expected one of: ${values.join(", ")}.`
+      );
+    }
+  }
+}
+
+function toClass(source: ClassSource | undefined, tokens: DesignTokens): string {
+  if (!source) return "";
+  return typeof source === "function" ? source(tokens) : source;
+}
@@ -0,0 +1,43 @@
+// packages/core/src/wrappers/NeonBorderWrapper.ts
+import type { RenderContext } from "../blueprints/ComponentBlueprint.js";
+import { WRAPPER_SLOT, WrapperBlueprint } from "../blueprints/WrapperBlueprint.js";
+import { h, type Node } from "../composition/Node.js";
+import { cn } from "../utils/cn.js";
+
+export type NeonBorderOptions = {
+  glowColor?: string;
+  className?: string;
+};
+
+/**
+ * Core port of the CLI "neon-border" wrapper.
+ * Wraps the root slot in a glowing bordered container.
+ */
+export class NeonBorderWrapper extends WrapperBlueprint<NeonBorderOptions> {
+  readonly name = "NeonBorder";
+
+  readonly priority = 100;
+
+  readonly defaultOptions: Partial<NeonBorderOptions> = {
+    glowColor: "#6ee7ff",
+  };
+
+  wrap(node: Node, options: NeonBorderOptions, _ctx: RenderContext): Node {
+    const className = cn(
+      "rounded-xl border bg-slate-950/60 p-4 shadow-[0_0_18px_var(--stone-neon-color)] [border-color:var(--stone-neon-color)]",
+      options.className
+    );
+
+    return this.wrapRoot(node, (root) =>
+      h(
+        "div",
+        {
+          className,
+          style: { "--stone-neon-color": options.glowColor },
+        },
+        [root],
+        { slot: WRAPPER_SLOT, name: "NeonBorder" }
+      )
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createFocusTrap, focusableElements } from "../src/overlay/focusTrap.js";
+
+function tab(shiftKey = false): KeyboardEvent {
+  const event = new KeyboardEvent("keydown", { key: "Tab", shiftKey, bubbles: true, cancelable: true });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+}
+
+function setup(): { opener: HTMLButtonElement; container: HTMLElement; buttons: HTMLButtonElement[] } {
+  document.body.innerHTML = `
+    <button id="opener">Open</button>
+    <div id="dialog" tabindex="-1">
+      <button id="first">First</button>
+      <button disabled>Disabled</button>
+      <input type="hidden" />
+      <button id="middle">Middle</button>
+      <button id="last">Last</button>
+    </div>
+  `;
+  const opener = document.getElementById("opener") as HTMLButtonElement;
+  const container = document.getElementById("dialog") as HTMLElement;
+  opener.focus();
+  return { opener, container, buttons: Array.from(container.querySelectorAll("button:not([disabled])")) };
+}
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("focusableElements", () => {
+  it("skips disabled, hidden and negative tabindex elements", () => {
+    const { container, buttons } = setup();
+    expect(focusableElements(container)).toEqual(buttons);
+  });
+});
+
+describe("createFocusTrap", () => {
+  it("moves focus to the first focusable element on activate", () => {
+    const { container, buttons } = setup();
+    const trap = createFocusTrap(container);
+    trap.activate();
+    expect(document.activeElement).toBe(buttons[0]);
+    trap.deactivate();
+  });
+
+  it("focuses initialFocus when given", () => {
+    const { container, buttons } = setup();
+    const trap = createFocusTrap(container, { initialFocus: buttons[1] });
+    trap.activate();
+    expect(document.activeElement).toBe(buttons[1]);
+    trap.deactivate();
+  });
+
+  it("cycles Tab from the last element to the first and Shift+Tab back", () => {
+    const { container, buttons } = setup();
+    const trap = createFocusTrap(container);
+    trap.activate();
+
+    buttons[2].focus();
+    const forward = tab();
+    expect(forward.defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(buttons[0]);
+
+    const backward = tab(true);
+    expect(backward.defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(buttons[2]);
+    trap.deactivate();
+  });
+
+  it("leaves Tab between inner elements to the browser", () => {
+    const { container, buttons } = setup();
+    const trap = createFocusTrap(container);
+    trap.activate();
+
+    expect(tab().defaultPrevented).toBe(false);
+    buttons[1].focus();
+    expect(tab(true).defaultPrevented).toBe(false);
+    trap.deactivate();
+  });
+
+  it("pulls focus back when it moves outside", () => {
+    const { opener, container, buttons } = setup();
+    const trap = createFocusTrap(container);
+    trap.activate();
+
+    opener.focus();
+    expect(document.activeElement).toBe(buttons[0]);
+    trap.deactivate();
+  });
+
+  it("lets allowOutside targets keep focus", () => {
+    const { opener, container } = setup();
+    const trap = createFocusTrap(container, { allowOutside: (target) => target === opener });
+    trap.activate();
+
+    opener.focus();
+    expect(document.activeElement).toBe(opener);
+    trap.deactivate();
+  });
+
+  it("restores focus to the previously focused element on deactivate", () => {
+    const { opener, container } = setup();
+    const trap = createFocusTrap(container);
+    trap.activate();
+    trap.deactivate();
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it("does not restore focus with restoreFocus: false", () => {
+    const { opener, container, buttons } = setup();
+    const trap = createFocusTrap(container, { restoreFocus: false });
+    trap.activate();
+    trap.deactivate();
+    expect(document.activeElement).toBe(buttons[0]);
+    expect(document.activeElement).not.toBe(opener);
+  });
+
+  it("only moves and restores focus with contain: false", () => {
+    const { opener, container, buttons } = setup();
+    const trap = createFocusTrap(container, { contain: false });
+    trap.activate();
+    expect(document.activeElement).toBe(buttons[0]);
+
+    buttons[2].focus();
+    expect(tab().defaultPrevented).toBe(false);
+    trap.deactivate();
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it("pauses the outer trap while a nested one is active", () => {
+    const { container, buttons } = setup();
+    const inner = document.createElement("div");
+    inner.innerHTML = `<button>Inner</button>`;
+    document.body.append(inner);
+    const innerButton = inner.querySelector("button")!;
+
+    const outer = createFocusTrap(container);
+    outer.activate();
+    const nested = createFocusTrap(inner);
+    nested.activate();
+    expect(document.activeElement).toBe(innerButton);
+
+    // Tab wraps inside the nested trap; the outer one does not pull focus back
+    expect(tab().defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(innerButton);
+
+    nested.deactivate();
+    expect(document.activeElement).toBe(buttons[0]);
+    buttons[2].focus();
+    tab();
+    expect(document.activeElement).toBe(buttons[0]);
+    outer.deactivate();
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LAYER_BASE_Z_INDEX, pushLayer, type Layer } from "../src/overlay/layers.js";
+
+const layers: Layer[] = [];
+
+function push(...args: Parameters<typeof pushLayer>): Layer {
+  const layer = pushLayer(...args);
+  layers.push(layer);
+  return layer;
+}
+
+function element(): HTMLElement {
+  const el = document.createElement("div");
+  document.body.append(el);
+  return el;
+}
+
+function escape(): KeyboardEvent {
+  const event = new KeyboardEvent("keydown", { key: "Escape", bubbles: true, cancelable: true });
+  document.body.dispatchEvent(event);
+  return event;
+}
+
+function pointerDown(target: Element): void {
+  target.dispatchEvent(new MouseEvent("pointerdown", { bubbles: true }));
+}
+
+afterEach(() => {
+  for (const layer of layers.splice(0)) layer.remove();
+  document.body.innerHTML = "";
+});
+
+describe("pushLayer", () => {
+  it("stacks nested layers above each other", () => {
+    const dialog = push();
+    const popover = push();
+    const tooltip = push();
+
+    expect(dialog.zIndex).toBe(LAYER_BASE_Z_INDEX);
+    expect(popover.zIndex).toBeGreaterThan(dialog.zIndex);
+    expect(tooltip.zIndex).toBeGreaterThan(popover.zIndex);
+    expect(tooltip.isTop()).toBe(true);
+    expect(dialog.isTop()).toBe(false);
+  });
+
+  it("starts from the base again once the stack is empty", () => {
+    push().remove();
+    expect(push().zIndex).toBe(LAYER_BASE_Z_INDEX);
+  });
+
+  it("makes the layer below the top one after removal", () => {
+    const dialog = push();
+    const popover = push();
+    popover.remove();
+    expect(dialog.isTop()).toBe(true);
+  });
+
+  it("sends Escape to the top layer only", () => {
+    const onDialogEscape = vi.fn();
+    const onPopoverEscape = vi.fn();
+    push({ onEscape: onDialogEscape });
+    const popover = push({ onEscape: onPopoverEscape });
+
+    expect(escape().defaultPrevented).toBe(true);
+    expect(onPopoverEscape).toHaveBeenCalledTimes(1);
+    expect(onDialogEscape).not.toHaveBeenCalled();
+
+    popover.remove();
+    escape();
+    expect(onDialogEscape).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores Escape that was already handled", () => {
+    const onEscape = vi.fn();
+    push({ onEscape });
+    const input = element();
+    input.addEventListener("keydown", (event) => event.preventDefault());
+    input.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape", bubbles: true, cancelable: true }));
+    expect(onEscape).not.toHaveBeenCalled();
+  });
+
+  it("reports pointer downs outside the top layer's elements", () => {
+    const content = element();
+    const trigger = element();
+    const outside = element();
+    const onOutsidePointerDown = vi.fn();
+    push({ contains: () => [content, trigger], onOutsidePointerDown });
+
+    pointerDown(content);
+    pointerDown(trigger);
+    expect(onOutsidePointerDown).not.toHaveBeenCalled();
+
+    pointerDown(outside);
+    expect(onOutsidePointerDown).toHaveBeenCalledTimes(1);
+  });
+
+  it("treats a pointer down in a nested layer as outside only for that layer", () => {
+    const dialogContent = element();
+    const popoverContent = element();
+    const onDialogOutside = vi.fn();
+    const onPopoverOutside = vi.fn();
+    const dialog = push({ contains: () => [dialogContent], onOutsidePointerDown: onDialogOutside });
+    push({ contains: () => [popoverContent], onOutsidePointerDown: onPopoverOutside });
+
+    expect(dialog.isAbove(popoverContent)).toBe(true);
+    expect(dialog.isAbove(dialogContent)).toBe(false);
+
+    pointerDown(dialogContent);
+    expect(onPopoverOutside).toHaveBeenCalledTimes(1);
+    expect(onDialogOutside).not.toHaveBeenCalled();
+  });
+
+  it("stops listening once the last layer is removed", () => {
+    const onEscape = vi.fn();
+    const layer = pushLayer({ onEscape });
+    layer.remove();
+    layer.remove();
+    expect(escape().defaultPrevented).toBe(false);
+    expect(onEscape).not.toHaveBeenCalled();
+  });
+});
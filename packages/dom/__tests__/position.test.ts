@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { computePosition, type Rect } from "../src/overlay/position.js";
+
+const viewport = { width: 1000, height: 800 };
+const floating = { width: 200, height: 100 };
+
+function anchorAt(top: number, left: number): Rect {
+  return { top, left, width: 100, height: 40 };
+}
+
+describe("computePosition", () => {
+  it("centers below the anchor by default", () => {
+    expect(computePosition(anchorAt(300, 400), floating, viewport)).toEqual({
+      top: 348,
+      left: 350,
+      placement: "bottom",
+    });
+  });
+
+  it("places on each side with the offset", () => {
+    const anchor = anchorAt(300, 400);
+    const at = (placement: "top" | "left" | "right") =>
+      computePosition(anchor, floating, viewport, { placement, offset: 4 });
+
+    expect(at("top")).toEqual({ top: 196, left: 350, placement: "top" });
+    expect(at("left")).toEqual({ top: 270, left: 196, placement: "left" });
+    expect(at("right")).toEqual({ top: 270, left: 504, placement: "right" });
+  });
+
+  it("aligns to the anchor's start and end", () => {
+    const anchor = anchorAt(300, 400);
+    expect(computePosition(anchor, floating, viewport, { placement: "bottom-start" }).left).toBe(400);
+    expect(computePosition(anchor, floating, viewport, { placement: "bottom-end" }).left).toBe(300);
+    expect(computePosition(anchor, floating, viewport, { placement: "right-start" }).top).toBe(300);
+    expect(computePosition(anchor, floating, viewport, { placement: "right-end" }).top).toBe(240);
+  });
+
+  it("flips to the opposite side when the preferred one has no room", () => {
+    const nearBottom = computePosition(anchorAt(700, 400), floating, viewport);
+    expect(nearBottom).toEqual({ top: 592, left: 350, placement: "top" });
+
+    const nearTop = computePosition(anchorAt(20, 400), floating, viewport, { placement: "top-start" });
+    expect(nearTop).toEqual({ top: 68, left: 400, placement: "bottom-start" });
+
+    const nearRight = computePosition(anchorAt(300, 850), floating, viewport, { placement: "right" });
+    expect(nearRight.placement).toBe("left");
+    expect(nearRight.left).toBe(642);
+  });
+
+  it("keeps the preferred side when the opposite one has even less room", () => {
+    const tall = { width: 200, height: 500 };
+    const position = computePosition(anchorAt(380, 400), tall, viewport);
+    expect(position.placement).toBe("bottom");
+  });
+
+  it("does not flip with flip: false", () => {
+    const position = computePosition(anchorAt(700, 400), floating, viewport, { flip: false });
+    expect(position).toEqual({ top: 748, left: 350, placement: "bottom" });
+  });
+
+  it("shifts along the anchor to stay inside the viewport padding", () => {
+    expect(computePosition(anchorAt(300, 0), floating, viewport).left).toBe(8);
+    expect(computePosition(anchorAt(300, 950), floating, viewport).left).toBe(792);
+    expect(computePosition(anchorAt(300, 0), floating, viewport, { padding: 20 }).left).toBe(20);
+
+    const side = computePosition(anchorAt(0, 400), floating, viewport, { placement: "right" });
+    expect(side.top).toBe(8);
+  });
+
+  it("pins to the padding when the floating element is wider than the viewport", () => {
+    const wide = { width: 1200, height: 100 };
+    expect(computePosition(anchorAt(300, 400), wide, viewport).left).toBe(8);
+  });
+
+  it("rounds to whole pixels", () => {
+    const anchor = { top: 10.4, left: 10.6, width: 33, height: 20 };
+    const position = computePosition(anchor, { width: 10, height: 10 }, viewport);
+    expect(Number.isInteger(position.top)).toBe(true);
+    expect(Number.isInteger(position.left)).toBe(true);
+  });
+});
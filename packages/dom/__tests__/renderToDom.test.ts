@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ComponentBlueprint, component, h, host, type Node } from "@oxitron-ui/core";
+import { mount, renderToDom } from "../src/runtime/renderToDom.js";
+import { DefaultDomHostAdapter } from "../src/adapter/DomHostAdapter.js";
+
+type BadgeProps = { tone?: string; children?: Array<Node | string> };
+
+class BadgeBlueprint extends ComponentBlueprint<BadgeProps> {
+  readonly name = "Badge";
+  render(props: BadgeProps): Node {
+    return h("span", { className: `badge badge-${props.tone ?? "neutral"}` }, props.children);
+  }
+}
+
+class CardBlueprint extends ComponentBlueprint<{ tone: string }> {
+  readonly name = "Card";
+  render(props: { tone: string }): Node {
+    return h("div", {}, [component("badge", { tone: props.tone }, ["New"])]);
+  }
+}
+
+const components = { badge: new BadgeBlueprint() };
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("renderToDom", () => {
+  it("expands nested blueprints from the components option", () => {
+    const el = renderToDom(new CardBlueprint(), { tone: "info" }, { components }) as Element;
+    expect(el.outerHTML).toBe(`<div><span class="badge badge-info">New</span></div>`);
+  });
+
+  it("throws on component tags that are not registered", () => {
+    expect(() => renderToDom(new CardBlueprint(), { tone: "info" })).toThrow(
+      /Unknown component "badge"/
+    );
+  });
+});
+
+describe("mount", () => {
+  it("keeps the components option across updates", () => {
+    const target = document.createElement("div");
+    const mounted = mount(new CardBlueprint(), { tone: "info" }, target, { components });
+    const badge = target.querySelector("span");
+
+    mounted.update({ tone: "danger" });
+    expect(target.querySelector("span")).toBe(badge);
+    expect(badge?.className).toBe("badge badge-danger");
+  });
+});
+
+describe("DefaultDomHostAdapter", () => {
+  it("inserts DOM nodes from host nodes and keeps them across patches", () => {
+    const adapter = new DefaultDomHostAdapter();
+    const target = document.createElement("div");
+    const chart = document.createElement("canvas");
+
+    adapter.patch(target, h("figure", {}, [host(chart), "Sales"]));
+    expect(target.innerHTML).toBe("<figure><canvas></canvas>Sales</figure>");
+
+    adapter.patch(target, h("figure", { className: "wide" }, [host(chart), "Sales 2025"]));
+    expect(target.querySelector("canvas")).toBe(chart);
+    expect(target.innerHTML).toBe(`<figure class="wide"><canvas></canvas>Sales 2025</figure>`);
+  });
+
+  it("refuses host values that are not DOM nodes", () => {
+    expect(() => new DefaultDomHostAdapter().toDomNode(host({ $$typeof: "react" }))).toThrow(
+      /only render host nodes that hold a DOM node/
+    );
+  });
+
+  it("refuses unresolved component nodes instead of creating elements", () => {
+    expect(() => new DefaultDomHostAdapter().toDomNode(component("badge"))).toThrow(
+      /Unresolved component "badge"/
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { lockScroll } from "../src/overlay/scrollLock.js";
+
+/**
+ * jsdom has no layout; fake a 15px scrollbar.
+ */
+function withScrollbar(width: number): void {
+  Object.defineProperty(document.documentElement, "clientWidth", {
+    configurable: true,
+    get: () => window.innerWidth - width,
+  });
+}
+
+afterEach(() => {
+  delete (document.documentElement as unknown as Record<string, unknown>).clientWidth;
+  document.body.removeAttribute("style");
+});
+
+describe("lockScroll", () => {
+  it("hides overflow and pads the body by the scrollbar width", () => {
+    withScrollbar(15);
+    const release = lockScroll();
+    expect(document.body.style.overflow).toBe("hidden");
+    expect(document.body.style.paddingRight).toBe("15px");
+    release();
+  });
+
+  it("adds the scrollbar width to the body's own padding", () => {
+    withScrollbar(15);
+    document.body.style.paddingRight = "10px";
+    const release = lockScroll();
+    expect(document.body.style.paddingRight).toBe("25px");
+    release();
+    expect(document.body.style.paddingRight).toBe("10px");
+  });
+
+  it("restores the previous body styles on release", () => {
+    withScrollbar(15);
+    document.body.style.overflow = "scroll";
+    const release = lockScroll();
+    release();
+    expect(document.body.style.overflow).toBe("scroll");
+    expect(document.body.style.paddingRight).toBe("");
+  });
+
+  it("keeps the page locked until the last lock is released", () => {
+    withScrollbar(0);
+    const first = lockScroll();
+    const second = lockScroll();
+
+    first();
+    expect(document.body.style.overflow).toBe("hidden");
+    second();
+    expect(document.body.style.overflow).toBe("");
+  });
+
+  it("ignores repeated releases of the same lock", () => {
+    withScrollbar(0);
+    const first = lockScroll();
+    const second = lockScroll();
+
+    first();
+    first();
+    expect(document.body.style.overflow).toBe("hidden");
+    second();
+    expect(document.body.style.overflow).toBe("");
+  });
+
+  it("does not pad the body without a scrollbar", () => {
+    withScrollbar(0);
+    const release = lockScroll();
+    expect(document.body.style.paddingRight).toBe("");
+    release();
+  });
+});
@@ -0,0 +1,341 @@
+import type { Node as StoneNode } from "@oxitron-ui/core";
+
+export interface DomHostAdapter {
+  /**
+   * Creates DOM nodes for a Node tree; a fragment becomes a DocumentFragment.
+   */
+  toDomNode(node: StoneNode | string): globalThis.Node;
+
+  /**
+   * Updates the children of container in place so they match node,
+   * reusing elements by meta.id (or props.key) and otherwise by position.
+   */
+  patch(container: Element, node: StoneNode | string): void;
+}
+
+/**
+ * What a DOM node was last rendered from, so patch can diff against it.
+ */
+type Rendered = {
+  node: StoneNode | string;
+  attrs: Record<string, unknown>;
+  handlers: Record<string, unknown>;
+  listen: EventListener;
+};
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/**
+ * Set as DOM properties rather than attributes: the attribute only holds
+ * the initial value once the user has interacted with the element.
+ */
+const PROPERTIES = new Set(["value", "checked", "selected", "indeterminate", "muted"]);
+
+/**
+ * React-style prop names whose DOM attribute is spelled differently.
+ */
+const ATTRIBUTE_ALIASES: Record<string, string> = {
+  className: "class",
+  htmlFor: "for",
+  acceptCharset: "accept-charset",
+  httpEquiv: "http-equiv",
+};
+
+/**
+ * React-style event props whose DOM event is named differently.
+ */
+const EVENT_ALIASES: Record<string, string> = {
+  doubleclick: "dblclick",
+};
+
+const rendered = new WeakMap<globalThis.Node, Rendered>();
+
+export class DefaultDomHostAdapter implements DomHostAdapter {
+  /**
+   * @param document - Document to create nodes in (defaults to the global one)
+   */
+  constructor(private readonly document?: Document) {}
+
+  toDomNode(node: StoneNode | string): globalThis.Node {
+    const doc = this.document ?? globalThis.document;
+    if (typeof node !== "string" && node.type === "fragment") {
+      const fragment = doc.createDocumentFragment();
+      for (const child of flatten(node.children)) {
+        fragment.appendChild(this.create(child, null, doc));
+      }
+      return fragment;
+    }
+    return this.create(node, null, doc);
+  }
+
+  patch(container: Element, node: StoneNode | string): void {
+    this.patchChildren(container, flatten([node]));
+  }
+
+  private create(node: StoneNode | string, ns: string | null, doc: Document): globalThis.Node {
+    if (typeof node === "string") {
+      const text = doc.createTextNode(node);
+      rendered.set(text, createRecord(node));
+      return text;
+    }
+    if (node.type === "host") {
+      const dom = hostValue(node);
+      rendered.set(dom, createRecord(node));
+      return dom;
+    }
+
+    const tag = hostTag(node);
+    const elementNs = tag === "svg" ? SVG_NS : ns;
+    const el = elementNs ? doc.createElementNS(elementNs, tag) : doc.createElement(tag);
+    const record = createRecord(node);
+    rendered.set(el, record);
+
+    applyProps(el, record, normalizeProps(node));
+    const childNs = childNamespace(el);
+    for (const child of flatten(node.children)) {
+      el.appendChild(this.create(child, childNs, doc));
+    }
+    return el;
+  }
+
+  private patchChildren(parent: Element, next: Array<StoneNode | string>): void {
+    const doc = parent.ownerDocument;
+    const ns = childNamespace(parent);
+
+    const keyed = new Map<string, ChildNode>();
+    const unkeyed: ChildNode[] = [];
+    for (const dom of Array.from(parent.childNodes)) {
+      const key = keyOf(rendered.get(dom)?.node);
+      if (key != null) keyed.set(key, dom);
+      else unkeyed.push(dom);
+    }
+
+    next.forEach((child, index) => {
+      const key = keyOf(child);
+      let dom: ChildNode | undefined;
+      if (key != null) {
+        dom = keyed.get(key);
+        keyed.delete(key);
+      } else {
+        dom = unkeyed.shift();
+      }
+
+      if (dom && sameKind(dom, child)) {
+        this.update(dom, child);
+      } else {
+        dom = this.create(child, ns, doc) as ChildNode;
+      }
+
+      const current = parent.childNodes[index];
+      if (current !== dom) parent.insertBefore(dom, current ?? null);
+    });
+
+    // Everything reused or created now sits in front; the rest is stale
+    while (parent.childNodes.length > next.length) {
+      parent.lastChild!.remove();
+    }
+  }
+
+  private update(dom: ChildNode, node: StoneNode | string): void {
+    let record = rendered.get(dom);
+    if (!record) {
+      record = createRecord(node);
+      rendered.set(dom, record);
+    }
+    record.node = node;
+
+    if (typeof node === "string") {
+      if (dom.nodeValue !== node) dom.nodeValue = node;
+      return;
+    }
+    // Host DOM nodes are the caller's to update
+    if (node.type === "host") return;
+
+    const el = dom as Element;
+    applyProps(el, record, normalizeProps(node));
+    this.patchChildren(el, flatten(node.children));
+  }
+}
+
+/**
+ * Normalizes core props to DOM attributes:
+ * - className / class -> class (merged when both are set)
+ * - htmlFor -> for
+ * - meta.name -> data-stone
+ * - key is dropped (patch reads it from the Node)
+ */
+function normalizeProps(node: StoneNode): Record<string, unknown> {
+  const attrs: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(node.props ?? {})) {
+    if (name === "key") continue;
+    const attr = ATTRIBUTE_ALIASES[name] ?? name;
+    if (attr === "class" && attrs.class) {
+      attrs.class = [attrs.class, value].filter(Boolean).join(" ");
+    } else {
+      attrs[attr] = value;
+    }
+  }
+
+  if (node.meta?.name && attrs["data-stone"] == null) {
+    attrs["data-stone"] = node.meta.name;
+  }
+
+  return attrs;
+}
+
+function applyProps(el: Element, record: Rendered, next: Record<string, unknown>): void {
+  const prev = record.attrs;
+  for (const name of Object.keys(prev)) {
+    if (!(name in next)) setProp(el, record, name, undefined, prev[name]);
+  }
+  // Events last, so onChange sees the element's final type
+  const entries = Object.entries(next).sort(
+    ([a], [b]) => Number(/^on[A-Z]/.test(a)) - Number(/^on[A-Z]/.test(b))
+  );
+  for (const [name, value] of entries) {
+    if (prev[name] !== value || name === "style") setProp(el, record, name, value, prev[name]);
+  }
+  record.attrs = next;
+}
+
+function setProp(
+  el: Element,
+  record: Rendered,
+  name: string,
+  value: unknown,
+  prev: unknown
+): void {
+  // onClick, onKeyDown, ...: one listener per event, dispatching to the latest handler
+  if (/^on[A-Z]/.test(name)) {
+    const event = eventName(el, name);
+    if (!(event in record.handlers)) el.addEventListener(event, record.listen);
+    record.handlers[event] = value;
+    return;
+  }
+
+  if (name === "style") {
+    setStyle(el as HTMLElement, prev, value);
+    return;
+  }
+
+  if (PROPERTIES.has(name) && name in el) {
+    (el as unknown as Record<string, unknown>)[name] = value ?? (name === "value" ? "" : false);
+    return;
+  }
+
+  // aria-* and data-* keep "true"/"false"; other booleans are presence attributes
+  const stringly = name.startsWith("aria-") || name.startsWith("data-");
+  if (value == null || (value === false && !stringly) || typeof value === "function") {
+    el.removeAttribute(name);
+  } else if (value === true && !stringly) {
+    el.setAttribute(name, "");
+  } else if (typeof value !== "object") {
+    el.setAttribute(name, String(value));
+  }
+}
+
+function setStyle(el: HTMLElement, prev: unknown, next: unknown): void {
+  if (typeof next === "string" || next == null) {
+    if (next) el.style.cssText = next;
+    else el.removeAttribute("style");
+    return;
+  }
+  if (typeof next !== "object") return;
+
+  const style = next as Record<string, unknown>;
+  if (typeof prev === "object" && prev !== null) {
+    for (const key of Object.keys(prev)) {
+      if (!(key in style)) writeStyle(el, key, null);
+    }
+  } else if (typeof prev === "string") {
+    el.style.cssText = "";
+  }
+  for (const [key, value] of Object.entries(style)) {
+    writeStyle(el, key, value);
+  }
+}
+
+function writeStyle(el: HTMLElement, key: string, value: unknown): void {
+  const property = key.startsWith("--") ? key : key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+  if (value == null || value === false || value === "") el.style.removeProperty(property);
+  else el.style.setProperty(property, String(value));
+}
+
+/**
+ * Maps an event prop to its DOM event: onClick -> click, onDoubleClick -> dblclick,
+ * and (as in React) onChange on text fields -> input.
+ */
+function eventName(el: Element, prop: string): string {
+  const name = prop.slice(2).toLowerCase();
+  if (name === "change") {
+    const type = el.getAttribute("type");
+    const textField =
+      el.localName === "textarea" ||
+      (el.localName === "input" && type !== "checkbox" && type !== "radio" && type !== "file");
+    if (textField) return "input";
+  }
+  return EVENT_ALIASES[name] ?? name;
+}
+
+function createRecord(node: StoneNode | string): Rendered {
+  const record: Rendered = {
+    node,
+    attrs: {},
+    handlers: {},
+    listen: (event) => {
+      const handler = record.handlers[event.type];
+      if (typeof handler === "function") handler(event);
+    },
+  };
+  return record;
+}
+
+/**
+ * Inlines fragments so every child maps to one DOM node.
+ */
+function flatten(children: Array<StoneNode | string> = []): Array<StoneNode | string> {
+  return children.flatMap((child) =>
+    typeof child !== "string" && child.type === "fragment" ? flatten(child.children) : [child]
+  );
+}
+
+function keyOf(node: StoneNode | string | undefined): string | null {
+  if (node == null || typeof node === "string") return null;
+  const key = node.meta?.id ?? node.props?.key;
+  return key == null ? null : String(key);
+}
+
+function sameKind(dom: globalThis.Node, node: StoneNode | string): boolean {
+  if (typeof node === "string") return dom.nodeType === 3;
+  if (node.type === "host") return dom === node.value;
+  return dom.nodeType === 1 && (dom as Element).localName === hostTag(node);
+}
+
+/**
+ * @throws On `type: "component"` nodes, which renderBlueprint expands first
+ */
+function hostTag(node: StoneNode): string {
+  if (node.type === "component") {
+    throw new Error(
+      `Unresolved component "${node.tag ?? ""}": pass it in the components option of renderToDom or mount.`
+    );
+  }
+  return node.tag ?? "div";
+}
+
+/**
+ * DOM nodes wrapped with host() are inserted as they are.
+ * @throws On any other host value
+ */
+function hostValue(node: StoneNode): globalThis.Node {
+  const value = node.value as globalThis.Node | null | undefined;
+  if (typeof value !== "object" || value === null || typeof value.nodeType !== "number") {
+    throw new Error("DefaultDomHostAdapter can only render host nodes that hold a DOM node.");
+  }
+  return value;
+}
+
+function childNamespace(el: Element): string | null {
+  return el.namespaceURI === SVG_NS && el.localName !== "foreignObject" ? SVG_NS : null;
+}
@@ -0,0 +1,13 @@
+export { renderToDom, renderBlueprint, mount } from "./runtime/renderToDom.js";
+export type { RenderOptions, MountedBlueprint } from "./runtime/renderToDom.js";
+
+export { DefaultDomHostAdapter } from "./adapter/DomHostAdapter.js";
+export type { DomHostAdapter } from "./adapter/DomHostAdapter.js";
+
+export { pushLayer, LAYER_BASE_Z_INDEX } from "./overlay/layers.js";
+export type { Layer, LayerOptions } from "./overlay/layers.js";
+export { createFocusTrap, focusableElements } from "./overlay/focusTrap.js";
+export type { FocusTrap, FocusTrapOptions } from "./overlay/focusTrap.js";
+export { lockScroll } from "./overlay/scrollLock.js";
+export { computePosition, measurePosition, anchorTo, autoUpdate } from "./overlay/position.js";
+export type { Position, PositionOptions, Rect } from "./overlay/position.js";
@@ -0,0 +1,133 @@
+export type FocusTrapOptions = {
+  /**
+   * Element focused on activate; defaults to the first focusable element,
+   * then the container itself.
+   */
+  initialFocus?: HTMLElement | null;
+  /**
+   * Keep Tab and focus inside the container (default true). With false the
+   * trap only moves focus in and restores it.
+   */
+  contain?: boolean;
+  /**
+   * Focus the previously focused element on deactivate (default true).
+   */
+  restoreFocus?: boolean;
+  /**
+   * Focus may move here without being pulled back (e.g. into a popover
+   * stacked above the dialog).
+   */
+  allowOutside?: (target: EventTarget | null) => boolean;
+};
+
+export type FocusTrap = {
+  activate(): void;
+  deactivate(): void;
+};
+
+const FOCUSABLE = [
+  "a[href]",
+  "area[href]",
+  "button:not([disabled])",
+  "input:not([disabled]):not([type=hidden])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "iframe",
+  "audio[controls]",
+  "video[controls]",
+  "[contenteditable]:not([contenteditable=false])",
+  "[tabindex]",
+].join(",");
+
+/**
+ * Elements inside container reachable with Tab, in DOM order.
+ */
+export function focusableElements(container: Element): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((el) => {
+    // Read the attribute: tabIndex of native controls is not reliable outside browsers
+    const tabindex = el.getAttribute("tabindex");
+    if (tabindex !== null && Number(tabindex) < 0) return false;
+    return !el.hidden && !el.closest("[hidden], [inert]");
+  });
+}
+
+/**
+ * Active traps; only the most recent one handles Tab and focus changes.
+ */
+const traps: FocusTrap[] = [];
+
+/**
+ * Keeps keyboard focus inside container while active and hands it back
+ * afterwards. Traps nest: activating one pauses the one below it.
+ * @param container - Element to keep focus in
+ * @param options - Initial focus, containment and restore behavior
+ */
+export function createFocusTrap(container: HTMLElement, options: FocusTrapOptions = {}): FocusTrap {
+  const doc = container.ownerDocument;
+  let previous: Element | null = null;
+  let active = false;
+
+  const isTop = () => traps[traps.length - 1] === trap;
+
+  const focusFirst = () => {
+    const target = options.initialFocus ?? focusableElements(container)[0] ?? container;
+    target.focus();
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== "Tab" || !isTop()) return;
+    const elements = focusableElements(container);
+    if (elements.length === 0) {
+      event.preventDefault();
+      container.focus();
+      return;
+    }
+    const first = elements[0];
+    const last = elements[elements.length - 1];
+    const current = doc.activeElement;
+    const inside = current !== null && container.contains(current);
+    if (event.shiftKey && (!inside || current === first || current === container)) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && (!inside || current === last)) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  const onFocusIn = (event: FocusEvent) => {
+    if (!isTop() || container.contains(event.target as globalThis.Node)) return;
+    if (options.allowOutside?.(event.target)) return;
+    focusFirst();
+  };
+
+  const trap: FocusTrap = {
+    activate() {
+      if (active) return;
+      active = true;
+      previous = doc.activeElement;
+      traps.push(trap);
+      if (options.contain !== false) {
+        doc.addEventListener("keydown", onKeyDown);
+        doc.addEventListener("focusin", onFocusIn);
+      }
+      if (!container.contains(doc.activeElement)) focusFirst();
+    },
+    deactivate() {
+      if (!active) return;
+      active = false;
+      doc.removeEventListener("keydown", onKeyDown);
+      doc.removeEventListener("focusin", onFocusIn);
+      const index = traps.indexOf(trap);
+      if (index !== -1) traps.splice(index, 1);
+
+      // Leave focus alone if the user already moved it somewhere else
+      const current = doc.activeElement;
+      const focusLost = !current || current === doc.body || container.contains(current);
+      if (options.restoreFocus !== false && focusLost && previous instanceof HTMLElement && previous.isConnected) {
+        previous.focus();
+      }
+    },
+  };
+  return trap;
+}
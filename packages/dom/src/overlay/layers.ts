@@ -0,0 +1,107 @@
+export type LayerOptions = {
+  /**
+   * Elements that count as inside the layer (its content, the trigger).
+   * Pointer downs inside them are not outside clicks.
+   */
+  contains?: () => Array<Element | null | undefined>;
+  /**
+   * Escape while this layer is on top.
+   */
+  onEscape?: (event: KeyboardEvent) => void;
+  /**
+   * Pointer down outside the layer while it is on top.
+   */
+  onOutsidePointerDown?: (event: Event) => void;
+  document?: Document;
+};
+
+export type Layer = {
+  /**
+   * z-index for the layer's outermost element; later layers stack higher.
+   */
+  readonly zIndex: number;
+  isTop(): boolean;
+  /**
+   * Whether the target is inside a layer stacked above this one
+   * (e.g. a popover opened from a dialog).
+   */
+  isAbove(target: EventTarget | null): boolean;
+  remove(): void;
+};
+
+export const LAYER_BASE_Z_INDEX = 1000;
+const LAYER_STEP = 10;
+
+type Entry = { options: LayerOptions; layer: Layer };
+
+const stacks = new WeakMap<Document, Entry[]>();
+
+/**
+ * Registers an overlay in the document's layer stack. Only the top layer
+ * receives Escape and outside pointer downs, so nested overlays close one at
+ * a time. Listeners are attached while the stack is non-empty.
+ * @param options - Dismissal handlers and what counts as inside
+ */
+export function pushLayer(options: LayerOptions = {}): Layer {
+  const doc = options.document ?? document;
+  let stack = stacks.get(doc);
+  if (!stack) {
+    stack = [];
+    stacks.set(doc, stack);
+  }
+  if (stack.length === 0) {
+    doc.addEventListener("keydown", onKeyDown);
+    doc.addEventListener("pointerdown", onPointerDown, true);
+  }
+
+  const entries = stack;
+  const top = entries[entries.length - 1];
+  const layer: Layer = {
+    zIndex: top ? top.layer.zIndex + LAYER_STEP : LAYER_BASE_Z_INDEX,
+    isTop: () => entries[entries.length - 1] === entry,
+    isAbove(target) {
+      const index = entries.indexOf(entry);
+      return entries.slice(index + 1).some((above) => containsTarget(above, target));
+    },
+    remove() {
+      const index = entries.indexOf(entry);
+      if (index === -1) return;
+      entries.splice(index, 1);
+      if (entries.length === 0) {
+        doc.removeEventListener("keydown", onKeyDown);
+        doc.removeEventListener("pointerdown", onPointerDown, true);
+      }
+    },
+  };
+  const entry: Entry = { options, layer };
+  entries.push(entry);
+  return layer;
+}
+
+function onKeyDown(event: Event): void {
+  const keyboard = event as KeyboardEvent;
+  if (keyboard.key !== "Escape" || keyboard.defaultPrevented) return;
+  const top = topEntry(event);
+  if (!top?.options.onEscape) return;
+  keyboard.preventDefault();
+  top.options.onEscape(keyboard);
+}
+
+function onPointerDown(event: Event): void {
+  const top = topEntry(event);
+  if (!top || containsTarget(top, event.target)) return;
+  top.options.onOutsidePointerDown?.(event);
+}
+
+function topEntry(event: Event): Entry | undefined {
+  const doc = (event.currentTarget as Document | null) ?? document;
+  const stack = stacks.get(doc);
+  return stack?.[stack.length - 1];
+}
+
+function containsTarget(entry: Entry, target: EventTarget | null): boolean {
+  if (!target || !("nodeType" in target)) return false;
+  return (entry.options.contains?.() ?? []).some(
+    (el) => el != null && el.contains(target as globalThis.Node)
+  );
+}
@@ -0,0 +1,175 @@
+import type { Placement, PlacementSide } from "@oxitron-ui/core";
+
+export type Rect = { top: number; left: number; width: number; height: number };
+
+export type PositionOptions = {
+  /**
+   * Preferred placement (default "bottom").
+   */
+  placement?: Placement;
+  /**
+   * Gap between anchor and floating element in px (default 8).
+   */
+  offset?: number;
+  /**
+   * Minimum distance from the viewport edges in px (default 8).
+   */
+  padding?: number;
+  /**
+   * Move to the opposite side when the preferred one has no room (default true).
+   */
+  flip?: boolean;
+};
+
+export type Position = {
+  top: number;
+  left: number;
+  /**
+   * Placement after flipping.
+   */
+  placement: Placement;
+};
+
+const OPPOSITE: Record<PlacementSide, PlacementSide> = {
+  top: "bottom",
+  bottom: "top",
+  left: "right",
+  right: "left",
+};
+
+/**
+ * Viewport coordinates for a floating element next to an anchor: flipped to
+ * the opposite side when it does not fit, then shifted along the anchor to
+ * stay inside the viewport. Pure, so it works without layout (tests, SSR).
+ * @param anchor - Anchor rect in viewport coordinates
+ * @param floating - Size of the floating element
+ * @param viewport - Viewport size
+ * @param options - Placement, offset, padding and flip
+ */
+export function computePosition(
+  anchor: Rect,
+  floating: { width: number; height: number },
+  viewport: { width: number; height: number },
+  options: PositionOptions = {}
+): Position {
+  const offset = options.offset ?? 8;
+  const padding = options.padding ?? 8;
+  const [preferred, align] = (options.placement ?? "bottom").split("-") as [
+    PlacementSide,
+    "start" | "end" | undefined,
+  ];
+
+  const room: Record<PlacementSide, number> = {
+    top: anchor.top - padding,
+    bottom: viewport.height - (anchor.top + anchor.height) - padding,
+    left: anchor.left - padding,
+    right: viewport.width - (anchor.left + anchor.width) - padding,
+  };
+  const needed = (side: PlacementSide) =>
+    (side === "top" || side === "bottom" ? floating.height : floating.width) + offset;
+
+  let side = preferred;
+  const opposite = OPPOSITE[preferred];
+  if (options.flip !== false && room[side] < needed(side) && room[opposite] > room[side]) {
+    side = opposite;
+  }
+
+  let top: number;
+  let left: number;
+  if (side === "top" || side === "bottom") {
+    top = side === "top" ? anchor.top - floating.height - offset : anchor.top + anchor.height + offset;
+    left =
+      align === "start"
+        ? anchor.left
+        : align === "end"
+          ? anchor.left + anchor.width - floating.width
+          : anchor.left + (anchor.width - floating.width) / 2;
+    left = clamp(left, padding, viewport.width - floating.width - padding);
+  } else {
+    left = side === "left" ? anchor.left - floating.width - offset : anchor.left + anchor.width + offset;
+    top =
+      align === "start"
+        ? anchor.top
+        : align === "end"
+          ? anchor.top + anchor.height - floating.height
+          : anchor.top + (anchor.height - floating.height) / 2;
+    top = clamp(top, padding, viewport.height - floating.height - padding);
+  }
+
+  return {
+    top: Math.round(top),
+    left: Math.round(left),
+    placement: (align ? `${side}-${align}` : side) as Placement,
+  };
+}
+
+/**
+ * Measures anchor and floating element and computes the floating element's
+ * fixed position.
+ */
+export function measurePosition(
+  anchor: Element,
+  floating: HTMLElement,
+  options: PositionOptions = {}
+): Position {
+  const view = floating.ownerDocument.defaultView;
+  const root = floating.ownerDocument.documentElement;
+  const rect = floating.getBoundingClientRect();
+  return computePosition(
+    anchor.getBoundingClientRect(),
+    { width: rect.width, height: rect.height },
+    { width: view?.innerWidth ?? root.clientWidth, height: view?.innerHeight ?? root.clientHeight },
+    options
+  );
+}
+
+/**
+ * Positions floating next to anchor (position: fixed) and keeps it there on
+ * scroll and resize
+ * @returns Stops following the anchor
+ */
+export function anchorTo(
+  anchor: Element,
+  floating: HTMLElement,
+  options: PositionOptions & { onUpdate?: (position: Position) => void } = {}
+): () => void {
+  const update = () => {
+    const position = measurePosition(anchor, floating, options);
+    Object.assign(floating.style, {
+      position: "fixed",
+      top: `${position.top}px`,
+      left: `${position.left}px`,
+    });
+    floating.dataset.placement = position.placement;
+    options.onUpdate?.(position);
+  };
+  update();
+  return autoUpdate(anchor, floating, update);
+}
+
+/**
+ * Calls update when the page scrolls (in any scroll container), the window
+ * resizes, or either element changes size
+ * @returns Removes the listeners
+ */
+export function autoUpdate(anchor: Element, floating: HTMLElement, update: () => void): () => void {
+  const view = floating.ownerDocument.defaultView;
+  if (!view) return () => {};
+
+  view.addEventListener("scroll", update, { capture: true, passive: true });
+  view.addEventListener("resize", update);
+  const observer =
+    typeof view.ResizeObserver === "function" ? new view.ResizeObserver(() => update()) : null;
+  observer?.observe(anchor);
+  observer?.observe(floating);
+
+  return () => {
+    view.removeEventListener("scroll", update, { capture: true });
+    view.removeEventListener("resize", update);
+    observer?.disconnect();
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, Math.max(min, max)));
+}
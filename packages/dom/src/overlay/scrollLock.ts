@@ -0,0 +1,41 @@
+type LockState = {
+  count: number;
+  overflow: string;
+  paddingRight: string;
+};
+
+const locks = new WeakMap<Document, LockState>();
+
+/**
+ * Stops the page behind a modal from scrolling, padding the body by the
+ * scrollbar width so the layout does not shift. Locks are counted, so
+ * stacked modals release the page only when the last one closes.
+ * @returns Releases this lock; calling it again does nothing
+ */
+export function lockScroll(doc: Document = document): () => void {
+  const body = doc.body;
+  let state = locks.get(doc);
+  if (!state) {
+    const view = doc.defaultView;
+    const scrollbar = view ? view.innerWidth - doc.documentElement.clientWidth : 0;
+    state = { count: 0, overflow: body.style.overflow, paddingRight: body.style.paddingRight };
+    locks.set(doc, state);
+    if (scrollbar > 0) {
+      const padding = view ? parseFloat(view.getComputedStyle(body).paddingRight) || 0 : 0;
+      body.style.paddingRight = `${padding + scrollbar}px`;
+    }
+    body.style.overflow = "hidden";
+  }
+  state.count++;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const current = locks.get(doc);
+    if (!current || --current.count > 0) return;
+    body.style.overflow = current.overflow;
+    body.style.paddingRight = current.paddingRight;
+    locks.delete(doc);
+  };
+}
@@ -0,0 +1,102 @@
+import {
+  ComponentBlueprint,
+  RenderContext,
+  Node,
+  applyWrappers,
+  resolveComponents,
+  type ComponentRegistry,
+  type WrapperUse,
+} from "@oxitron-ui/core";
+import { DefaultDomHostAdapter, type DomHostAdapter } from "../adapter/DomHostAdapter.js";
+
+export type RenderOptions = {
+  ctx?: RenderContext;
+  /**
+   * Wrappers applied to the Node tree before it reaches the adapter,
+   * in ascending priority order.
+   */
+  wrappers?: Array<WrapperUse>;
+  /**
+   * Blueprints for `type: "component"` tags, rendered with the same ctx.
+   */
+  components?: ComponentRegistry;
+  adapter?: DomHostAdapter;
+};
+
+export type MountedBlueprint<TProps> = {
+  /**
+   * Re-renders with new props (and optionally a new ctx, wrappers or components) and
+   * patches the DOM in place.
+   */
+  update(props: TProps, options?: Pick<RenderOptions, "ctx" | "wrappers" | "components">): void;
+  /**
+   * Removes everything the blueprint rendered into the target.
+   */
+  destroy(): void;
+};
+
+/**
+ * Runs a blueprint, its nested components and its wrappers, without touching the DOM.
+ * @throws On component tags missing from options.components
+ */
+export function renderBlueprint<TProps extends Record<string, unknown>>(
+  blueprint: ComponentBlueprint<TProps>,
+  props: TProps,
+  options: Pick<RenderOptions, "ctx" | "wrappers" | "components"> = {}
+): Node {
+  const ctx = options.ctx ?? {};
+
+  // 1) Core render -> Node tree, with nested blueprints expanded
+  let node: Node = blueprint.render(blueprint.resolveProps(props), ctx);
+  node = resolveComponents(node, options.components ?? {}, ctx);
+
+  // 2) Wrappers pipeline
+  if (options.wrappers?.length) {
+    node = applyWrappers(node, options.wrappers, ctx);
+  }
+
+  return node;
+}
+
+/**
+ * Render a core blueprint into detached DOM nodes.
+ * This is the "bridge" between @oxitron-ui/core and the DOM.
+ */
+export function renderToDom<TProps extends Record<string, unknown>>(
+  blueprint: ComponentBlueprint<TProps>,
+  props: TProps,
+  options: RenderOptions = {}
+): globalThis.Node {
+  const adapter = options.adapter ?? new DefaultDomHostAdapter();
+  return adapter.toDomNode(renderBlueprint(blueprint, props, options));
+}
+
+/**
+ * Render a core blueprint into target (replacing its children) and keep it
+ * patchable.
+ * @param blueprint - Blueprint to render
+ * @param props - Initial props
+ * @param target - Element whose children the blueprint owns
+ * @param options - ctx, wrappers, components and adapter
+ */
+export function mount<TProps extends Record<string, unknown>>(
+  blueprint: ComponentBlueprint<TProps>,
+  props: TProps,
+  target: Element,
+  options: RenderOptions = {}
+): MountedBlueprint<TProps> {
+  const adapter = options.adapter ?? new DefaultDomHostAdapter();
+  let current: Pick<RenderOptions, "ctx" | "wrappers" | "components"> = options;
+
+  adapter.patch(target, renderBlueprint(blueprint, props, current));
+
+  return {
+    update(nextProps, nextOptions) {
+      current = { ...current, ...nextOptions };
+      adapter.patch(target, renderBlueprint(blueprint, nextProps, current));
+    },
+    destroy() {
+      target.replaceChildren();
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Test against the sources, not a stale build
+    alias: {
+      "@oxitron-ui/core": fileURLToPath(new URL("../core/index.ts", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "jsdom",
+    include: ["__tests__/**/*.test.ts"],
+  },
+});
@@ -0,0 +1,98 @@
+import * as React from "react";
+import { describe, expect, it } from "vitest";
+import { Dialog } from "../src/primitives/Dialog.js";
+import { Popover } from "../src/primitives/Popover.js";
+import { byText, click, keyDown, pointerDown, render } from "./render.js";
+
+function dialog(): HTMLElement | null {
+  return document.querySelector('[role="dialog"]');
+}
+
+describe("Dialog", () => {
+  it("moves focus into the dialog on open and back to the trigger on close", () => {
+    render(<Dialog title="Settings" trigger={<button>Open</button>} />);
+    const trigger = byText("Open");
+    trigger.focus();
+
+    click(trigger);
+    expect(dialog()).not.toBeNull();
+    expect(dialog()?.contains(document.activeElement)).toBe(true);
+
+    keyDown("Escape");
+    expect(dialog()).toBeNull();
+    expect(document.activeElement).toBe(trigger);
+  });
+
+  it("keeps Tab inside a modal dialog", () => {
+    render(
+      <Dialog
+        title="Settings"
+        defaultOpen
+        footer={
+          <>
+            <button>Cancel</button>
+            <button>Save</button>
+          </>
+        }
+      />
+    );
+    const close = document.querySelector<HTMLElement>('[aria-label="Close"]')!;
+    const cancel = byText("Cancel");
+    expect(document.activeElement).toBe(cancel);
+
+    close.focus();
+    keyDown("Tab");
+    expect(document.activeElement).toBe(cancel);
+    keyDown("Tab", { shiftKey: true });
+    expect(document.activeElement).toBe(close);
+  });
+
+  it("closes on a pointer down on the backdrop", () => {
+    render(<Dialog title="Settings" defaultOpen />);
+    pointerDown(byText("Settings"));
+    expect(dialog()).not.toBeNull();
+
+    pointerDown(document.querySelector('[data-stone="DialogOverlay"]')!);
+    expect(dialog()).toBeNull();
+  });
+
+  it("locks page scroll while a modal dialog is open", () => {
+    const { rerender } = render(<Dialog title="Settings" open />);
+    expect(document.body.style.overflow).toBe("hidden");
+
+    rerender(<Dialog title="Settings" open={false} />);
+    expect(document.body.style.overflow).toBe("");
+  });
+
+  it("does not lock scroll or trap focus when not modal", () => {
+    render(<Dialog title="Settings" defaultOpen modal={false} />);
+    expect(document.body.style.overflow).toBe("");
+    const close = document.querySelector<HTMLElement>('[aria-label="Close"]')!;
+    expect(document.activeElement).toBe(close);
+    expect(keyDown("Tab").defaultPrevented).toBe(false);
+  });
+
+  it("stacks a popover above the dialog and closes them one at a time", () => {
+    render(
+      <Dialog
+        title="Settings"
+        defaultOpen
+        footer={<Popover trigger={<button>More</button>}>Popover body</Popover>}
+      />
+    );
+    click(byText("More"));
+    const popover = byText("Popover body").closest<HTMLElement>('[data-stone="PopoverContent"]')!;
+    const dialogLayer = document.querySelector<HTMLElement>('[data-stone="DialogOverlay"]')!;
+    expect(Number(popover.style.zIndex)).toBeGreaterThan(Number(dialogLayer.style.zIndex));
+
+    // Focus may move into the popover although it is outside the dialog
+    expect(popover.contains(document.activeElement) || document.activeElement === popover).toBe(true);
+
+    keyDown("Escape");
+    expect(document.querySelector('[data-stone="PopoverContent"]')).toBeNull();
+    expect(dialog()).not.toBeNull();
+
+    keyDown("Escape");
+    expect(dialog()).toBeNull();
+  });
+});
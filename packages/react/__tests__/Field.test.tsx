@@ -0,0 +1,60 @@
+import * as React from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Field } from "../src/primitives/Field.js";
+import { Input } from "../src/primitives/Input.js";
+import { render } from "./render.js";
+
+function parts() {
+  const label = document.querySelector("label")!;
+  const input = document.querySelector("input")!;
+  return { label, input };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("Field", () => {
+  it("links the label and description to the control", () => {
+    render(
+      <Field label="Email" description="We never share it.">
+        <Input name="email" />
+      </Field>
+    );
+    const { label, input } = parts();
+    expect(input.id).not.toBe("");
+    expect(label.htmlFor).toBe(input.id);
+    const describedBy = input.getAttribute("aria-describedby") ?? "";
+    expect(document.getElementById(describedBy)?.textContent).toBe("We never share it.");
+  });
+
+  it("uses the Field's id for the control", () => {
+    render(
+      <Field id="email" label="Email">
+        <Input name="email" />
+      </Field>
+    );
+    expect(parts().input.id).toBe("email");
+    expect(parts().label.htmlFor).toBe("email");
+  });
+
+  it("ignores a conflicting control id and warns once", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { rerender } = render(
+      <Field id="email" label="Email">
+        <Input id="work-email" name="email" />
+      </Field>
+    );
+    rerender(
+      <Field id="email" label="Email" required>
+        <Input id="work-email" name="email" />
+      </Field>
+    );
+
+    const { label, input } = parts();
+    expect(input.id).toBe("email");
+    expect(label.htmlFor).toBe("email");
+    const conflicts = warn.mock.calls.filter(([message]) => String(message).includes('"work-email"'));
+    expect(conflicts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,31 @@
+import * as React from "react";
+import { describe, expect, it, vi } from "vitest";
+import { ButtonBlueprint, auditNode, h } from "@oxitron-ui/core";
+import { DefaultReactHostAdapter, hostChildren } from "../src/adapter/ReactHostAdapter.js";
+import { renderToReact } from "../src/runtime/renderToReact.js";
+import { render } from "./render.js";
+
+describe("hostChildren", () => {
+  it("keeps text as strings and wraps elements in host nodes", () => {
+    const icon = <svg aria-hidden="true" />;
+    expect(hostChildren(["Save ", 2, null, false, icon])).toEqual([
+      "Save ",
+      "2",
+      { type: "host", value: expect.objectContaining({ type: "svg" }), meta: {} },
+    ]);
+  });
+
+  it("renders wrapped elements as they are", () => {
+    const strong = <strong key="s">Save</strong>;
+    const node = h("button", { type: "button" }, hostChildren(strong));
+    const { container } = render(<>{new DefaultReactHostAdapter().toReactNode(node)}</>);
+    expect(container.innerHTML).toBe(`<button type="button"><strong>Save</strong></button>`);
+  });
+
+  it("counts wrapped elements as an accessible name", () => {
+    const handler = vi.fn();
+    renderToReact(new ButtonBlueprint(), { children: hostChildren(<b>Save</b>) }, { a11y: handler });
+    expect(handler).not.toHaveBeenCalled();
+    expect(auditNode(h("button", {}, hostChildren(<b>Save</b>)))).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import * as React from "react";
+import { describe, expect, it } from "vitest";
+import { ThemeProvider, useRenderContext } from "../src/theme/ThemeProvider.js";
+import { Button } from "../src/primitives/Button.js";
+import { byText, render } from "./render.js";
+
+function Tokens() {
+  return <pre>{JSON.stringify(useRenderContext().tokens ?? null)}</pre>;
+}
+
+describe("ThemeProvider", () => {
+  it("is empty outside a provider", () => {
+    render(<Tokens />);
+    expect(document.querySelector("pre")?.textContent).toBe("null");
+  });
+
+  it("merges nested providers on top of their parent", () => {
+    const brand = { color: { primary: "bg-brand", border: "border-brand" }, radius: { md: "rounded-xl" } };
+    render(
+      <ThemeProvider tokens={brand}>
+        <Button>Outer</Button>
+        <ThemeProvider tokens={{ color: { primary: "bg-accent" } }}>
+          <Button>Inner</Button>
+          <Button intent="outline">Outline</Button>
+          <Tokens />
+        </ThemeProvider>
+      </ThemeProvider>
+    );
+
+    const classes = (label: string) => byText(label).closest("button")!.className.split(" ");
+    expect(classes("Outer")).toEqual(expect.arrayContaining(["bg-brand", "rounded-xl"]));
+    expect(classes("Inner")).toEqual(expect.arrayContaining(["bg-accent", "rounded-xl"]));
+    expect(classes("Inner")).not.toContain("bg-brand");
+    expect(classes("Outline")).toEqual(expect.arrayContaining(["border-brand", "rounded-xl"]));
+    expect(JSON.parse(document.querySelector("pre")!.textContent!)).toEqual({
+      color: { primary: "bg-accent", border: "border-brand" },
+      radius: { md: "rounded-xl" },
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import * as React from "react";
+import { act } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Tooltip } from "../src/primitives/Tooltip.js";
+import { byText, keyDown, render } from "./render.js";
+
+function tooltip(): HTMLElement | null {
+  return document.querySelector('[role="tooltip"]');
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("Tooltip", () => {
+  it("opens on focus after openDelay and closes on blur", () => {
+    render(
+      <Tooltip content="Saves the draft" openDelay={200}>
+        <button>Save</button>
+      </Tooltip>
+    );
+    const trigger = byText("Save");
+
+    act(() => trigger.focus());
+    expect(tooltip()).toBeNull();
+    act(() => vi.advanceTimersByTime(200));
+    expect(tooltip()?.textContent).toBe("Saves the draft");
+    expect(trigger.getAttribute("aria-describedby")).toBe(tooltip()?.id);
+
+    act(() => trigger.blur());
+    expect(tooltip()).toBeNull();
+  });
+
+  it("does not open when focus leaves before the delay", () => {
+    render(
+      <Tooltip content="Saves the draft">
+        <button>Save</button>
+      </Tooltip>
+    );
+    const trigger = byText("Save");
+
+    act(() => trigger.focus());
+    act(() => trigger.blur());
+    act(() => vi.advanceTimersByTime(500));
+    expect(tooltip()).toBeNull();
+  });
+
+  it("closes on Escape without waiting for closeDelay", () => {
+    render(
+      <Tooltip content="Saves the draft" defaultOpen closeDelay={500}>
+        <button>Save</button>
+      </Tooltip>
+    );
+    expect(tooltip()).not.toBeNull();
+
+    keyDown("Escape");
+    expect(tooltip()).toBeNull();
+  });
+
+  it("positions the tooltip with a layer z-index", () => {
+    render(
+      <Tooltip content="Saves the draft" defaultOpen>
+        <button>Save</button>
+      </Tooltip>
+    );
+    const content = tooltip()!;
+    expect(content.style.position).toBe("fixed");
+    expect(Number(content.style.zIndex)).toBeGreaterThan(0);
+  });
+});
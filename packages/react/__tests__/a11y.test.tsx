@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ButtonBlueprint, ComponentBlueprint, assertAccessible, h, type Node } from "@oxitron-ui/core";
+import { renderToReact } from "../src/runtime/renderToReact.js";
+
+class IconButtonBlueprint extends ComponentBlueprint<{ disabled?: boolean }> {
+  readonly name = "IconButton";
+  render(props: { disabled?: boolean }): Node {
+    return h("button", { type: "button", disabled: props.disabled, "aria-disabled": props.disabled }, [
+      h("svg", { "aria-hidden": "true" }),
+    ]);
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("assertAccessible", () => {
+  it("passes for a labelled button", () => {
+    const button = new ButtonBlueprint();
+    expect(() => assertAccessible(button.render({ children: "Save" }, {}))).not.toThrow();
+  });
+
+  it("throws on a button without an accessible name", () => {
+    const node = new IconButtonBlueprint().render({});
+    expect(() => assertAccessible(node)).toThrow(/Accessibility check failed/);
+  });
+
+  it("fails on warnings only when strict", () => {
+    const node = h("button", { type: "button", disabled: true, "aria-disabled": true }, ["Save"]);
+    expect(() => assertAccessible(node)).not.toThrow();
+    expect(() => assertAccessible(node, { strict: true })).toThrow(/\[disabled\]/);
+  });
+});
+
+describe("renderToReact a11y option", () => {
+  it("passes the issues to a handler", () => {
+    const handler = vi.fn();
+    renderToReact(new IconButtonBlueprint(), {}, { a11y: handler });
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler.mock.calls[0][0][0].severity).toBe("error");
+  });
+
+  it("skips the audit in production unless a handler is passed", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    renderToReact(new IconButtonBlueprint(), { disabled: true });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("warns outside production", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    renderToReact(new IconButtonBlueprint(), {});
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("IconButton has accessibility issues"));
+  });
+});
@@ -0,0 +1,34 @@
+import * as React from "react";
+import { describe, expect, it, vi } from "vitest";
+import { Button } from "../src/primitives/Button.js";
+import { byText, click, render } from "./render.js";
+
+function RouterLink({ to, ...props }: { to?: string } & React.ComponentProps<"a">) {
+  return <a href={to} data-router="" {...props} />;
+}
+
+describe("asChild", () => {
+  it("renders a component child with the root's props merged in", () => {
+    const onClick = vi.fn();
+    render(
+      <Button asChild onClick={onClick}>
+        <RouterLink to="#docs">Docs</RouterLink>
+      </Button>
+    );
+
+    const link = byText("Docs").closest("a")!;
+    expect(link.dataset.router).toBe("");
+    expect(link.getAttribute("href")).toBe("#docs");
+    expect(link.className).not.toBe("");
+    expect(link.hasAttribute("type")).toBe(false);
+
+    click(link);
+    expect(onClick).toHaveBeenCalledOnce();
+  });
+
+  it("throws when the child is not an element", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => render(<Button asChild>Docs</Button>)).toThrow();
+    vi.restoreAllMocks();
+  });
+});
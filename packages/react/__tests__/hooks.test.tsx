@@ -0,0 +1,229 @@
+import * as React from "react";
+import { act } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { switchBehavior, type Props } from "@oxitron-ui/core";
+import { useMachine } from "../src/hooks/useMachine.js";
+import { useTabs, type UseTabsOptions } from "../src/hooks/useTabs.js";
+import { useAccordion, type UseAccordionOptions } from "../src/hooks/useAccordion.js";
+import { useSwitch, type UseSwitchOptions } from "../src/hooks/useSwitch.js";
+import { click, keyDown, render } from "./render.js";
+
+const ITEMS = [{ value: "a" }, { value: "b", disabled: true }, { value: "c" }];
+
+/**
+ * Core part props typed for a <button>
+ */
+function button(props: Props): React.ButtonHTMLAttributes<HTMLButtonElement> {
+  return props as React.ButtonHTMLAttributes<HTMLButtonElement>;
+}
+
+function TestTabs(props: Omit<UseTabsOptions, "id" | "items">) {
+  const { parts } = useTabs({ ...props, id: "t", items: ITEMS });
+  return (
+    <div {...(parts.list as React.HTMLAttributes<HTMLDivElement>)}>
+      {ITEMS.map(({ value }) => (
+        <button key={value} {...button(parts.tab(value))}>
+          {value}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function TestAccordion(props: Omit<UseAccordionOptions, "id" | "items">) {
+  const { parts } = useAccordion({ ...props, id: "acc", items: ITEMS });
+  return (
+    <div>
+      {ITEMS.map(({ value }) => (
+        <button key={value} {...button(parts.trigger(value))}>
+          {value}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function TestSwitch(props: UseSwitchOptions) {
+  const { parts } = useSwitch(props);
+  return <button {...button(parts.root)}>switch</button>;
+}
+
+function tab(value: string): HTMLButtonElement {
+  return document.getElementById(`t-tab-${value}`) as HTMLButtonElement;
+}
+
+function trigger(value: string): HTMLButtonElement {
+  return document.getElementById(`acc-trigger-${value}`) as HTMLButtonElement;
+}
+
+function focus(el: HTMLElement): void {
+  act(() => el.focus());
+}
+
+describe("useMachine", () => {
+  it("applies controlled state over the internal state and reports every transition", () => {
+    const onChange = vi.fn();
+    const seen: boolean[] = [];
+    function Probe({ checked }: { checked?: boolean }) {
+      const { state, send } = useMachine(switchBehavior, {}, { state: { checked }, onChange });
+      seen.push(state.checked);
+      return <button onClick={() => send({ type: "TOGGLE" })}>toggle</button>;
+    }
+
+    const { container, rerender } = render(<Probe checked={false} />);
+    click(container.querySelector("button")!);
+    expect(onChange).toHaveBeenCalledWith({ checked: true }, { checked: false });
+    expect(seen.at(-1)).toBe(false);
+
+    rerender(<Probe />);
+    expect(seen.at(-1)).toBe(true);
+  });
+
+  it("builds events in the same tick on each other", () => {
+    const onChange = vi.fn();
+    function Probe() {
+      const { send } = useMachine(switchBehavior, {}, { onChange });
+      const twice = () => {
+        send({ type: "TOGGLE" });
+        send({ type: "TOGGLE" });
+      };
+      return <button onClick={twice}>toggle</button>;
+    }
+
+    const { container } = render(<Probe />);
+    click(container.querySelector("button")!);
+    expect(onChange.mock.calls.map(([next]) => next.checked)).toEqual([true, false]);
+  });
+});
+
+describe("useTabs", () => {
+  it("selects and focuses the next enabled tab on arrow keys, wrapping at the end", () => {
+    const onValueChange = vi.fn();
+    render(<TestTabs onValueChange={onValueChange} />);
+    focus(tab("a"));
+
+    keyDown("ArrowRight");
+    expect(document.activeElement).toBe(tab("c"));
+    expect(tab("c").getAttribute("aria-selected")).toBe("true");
+    expect(tab("c").tabIndex).toBe(0);
+
+    keyDown("ArrowRight");
+    expect(document.activeElement).toBe(tab("a"));
+    expect(onValueChange.mock.calls).toEqual([["c"], ["a"]]);
+  });
+
+  it("waits for a click with manual activation", () => {
+    const onValueChange = vi.fn();
+    render(<TestTabs activation="manual" onValueChange={onValueChange} />);
+    focus(tab("a"));
+
+    keyDown("End");
+    expect(document.activeElement).toBe(tab("c"));
+    expect(tab("a").getAttribute("aria-selected")).toBe("true");
+    expect(onValueChange).not.toHaveBeenCalled();
+
+    click(tab("c"));
+    expect(tab("c").getAttribute("aria-selected")).toBe("true");
+    expect(onValueChange).toHaveBeenCalledWith("c");
+  });
+
+  it("follows the controlled value and only requests changes", () => {
+    const onValueChange = vi.fn();
+    const { rerender } = render(<TestTabs value="a" onValueChange={onValueChange} />);
+
+    click(tab("c"));
+    expect(onValueChange).toHaveBeenCalledWith("c");
+    expect(tab("a").getAttribute("aria-selected")).toBe("true");
+
+    rerender(<TestTabs value="c" onValueChange={onValueChange} />);
+    expect(tab("c").getAttribute("aria-selected")).toBe("true");
+  });
+});
+
+describe("useAccordion", () => {
+  it("keeps one item open and only collapses it when collapsible", () => {
+    const onValueChange = vi.fn();
+    const { rerender } = render(<TestAccordion onValueChange={onValueChange} />);
+
+    click(trigger("a"));
+    click(trigger("c"));
+    click(trigger("c"));
+    expect(trigger("c").getAttribute("aria-expanded")).toBe("true");
+    expect(trigger("a").getAttribute("aria-expanded")).toBe("false");
+    expect(onValueChange.mock.calls).toEqual([[["a"]], [["c"]]]);
+
+    rerender(<TestAccordion collapsible onValueChange={onValueChange} />);
+    click(trigger("c"));
+    expect(trigger("c").getAttribute("aria-expanded")).toBe("false");
+    expect(onValueChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it("opens items independently in multiple mode", () => {
+    const onValueChange = vi.fn();
+    render(<TestAccordion type="multiple" onValueChange={onValueChange} />);
+
+    click(trigger("a"));
+    click(trigger("c"));
+    expect(onValueChange).toHaveBeenLastCalledWith(["a", "c"]);
+    expect(trigger("a").getAttribute("aria-expanded")).toBe("true");
+  });
+
+  it("follows the controlled value", () => {
+    const onValueChange = vi.fn();
+    const { rerender } = render(
+      <TestAccordion type="multiple" value={[]} onValueChange={onValueChange} />
+    );
+
+    click(trigger("a"));
+    expect(onValueChange).toHaveBeenCalledWith(["a"]);
+    expect(trigger("a").getAttribute("aria-expanded")).toBe("false");
+
+    rerender(<TestAccordion type="multiple" value={["a"]} onValueChange={onValueChange} />);
+    expect(trigger("a").getAttribute("aria-expanded")).toBe("true");
+  });
+
+  it("moves focus between enabled triggers with the arrow keys", () => {
+    render(<TestAccordion />);
+    focus(trigger("a"));
+
+    keyDown("ArrowDown");
+    expect(document.activeElement).toBe(trigger("c"));
+    keyDown("ArrowDown");
+    expect(document.activeElement).toBe(trigger("a"));
+  });
+});
+
+describe("useSwitch", () => {
+  it("toggles uncontrolled and reports the new value", () => {
+    const onCheckedChange = vi.fn();
+    const { container } = render(<TestSwitch defaultChecked onCheckedChange={onCheckedChange} />);
+    const root = container.querySelector("button")!;
+
+    click(root);
+    expect(root.getAttribute("aria-checked")).toBe("false");
+    expect(onCheckedChange).toHaveBeenCalledWith(false);
+  });
+
+  it("stays at the controlled value until the parent changes it", () => {
+    const onCheckedChange = vi.fn();
+    const { container, rerender } = render(
+      <TestSwitch checked={false} onCheckedChange={onCheckedChange} />
+    );
+    const root = container.querySelector("button")!;
+
+    click(root);
+    expect(onCheckedChange).toHaveBeenCalledWith(true);
+    expect(root.getAttribute("aria-checked")).toBe("false");
+
+    rerender(<TestSwitch checked onCheckedChange={onCheckedChange} />);
+    expect(root.getAttribute("aria-checked")).toBe("true");
+  });
+
+  it("ignores toggles while read-only", () => {
+    const onCheckedChange = vi.fn();
+    const { container } = render(<TestSwitch readOnly onCheckedChange={onCheckedChange} />);
+
+    click(container.querySelector("button")!);
+    expect(onCheckedChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import * as React from "react";
+import { describe, expect, it, vi } from "vitest";
+import { cloneWithProps, composeRefs, mergeProps } from "../src/runtime/mergeProps.js";
+import { Button } from "../src/primitives/Button.js";
+import { render } from "./render.js";
+
+describe("composeRefs", () => {
+  it("sets callback and object refs", () => {
+    const callback = vi.fn();
+    const object = React.createRef<HTMLElement>();
+    const el = document.createElement("div");
+
+    composeRefs<HTMLElement>(callback, object, undefined)(el);
+    expect(callback).toHaveBeenCalledWith(el);
+    expect(object.current).toBe(el);
+  });
+
+  it("returns the same callback for the same refs", () => {
+    const a = vi.fn();
+    const b = React.createRef<HTMLElement>();
+    expect(composeRefs(a, b)).toBe(composeRefs(a, b));
+    expect(composeRefs(a, undefined, b)).toBe(composeRefs(a, b));
+    expect(composeRefs(a, b)).not.toBe(composeRefs(b, a));
+  });
+});
+
+describe("mergeProps", () => {
+  it("merges className, chains handlers and combines refs", () => {
+    const calls: string[] = [];
+    const ref = vi.fn();
+    const merged = mergeProps(
+      { className: "a", onClick: () => calls.push("base"), ref },
+      { className: "b", onClick: () => calls.push("override"), ref: React.createRef() }
+    );
+    expect(merged.className).toBe("a b");
+    (merged.onClick as () => void)();
+    expect(calls).toEqual(["override", "base"]);
+    expect(typeof merged.ref).toBe("function");
+  });
+});
+
+describe("ref stability", () => {
+  it("does not re-attach cloned refs on re-render", () => {
+    const own = vi.fn();
+    const added = vi.fn();
+    function Host({ count }: { count: number }) {
+      return cloneWithProps(<span ref={own}>{count}</span>, { ref: added });
+    }
+
+    const { rerender } = render(<Host count={1} />);
+    rerender(<Host count={2} />);
+    rerender(<Host count={3} />);
+    expect(own).toHaveBeenCalledTimes(1);
+    expect(added).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not re-attach asChild refs on re-render", () => {
+    const forwarded = vi.fn();
+    const own = vi.fn();
+    const { rerender } = render(
+      <Button asChild ref={forwarded}>
+        <a href="/docs" ref={own}>
+          Docs
+        </a>
+      </Button>
+    );
+    rerender(
+      <Button asChild ref={forwarded} intent="outline">
+        <a href="/docs" ref={own}>
+          Docs
+        </a>
+      </Button>
+    );
+    expect(forwarded).toHaveBeenCalledTimes(1);
+    expect(own).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,193 @@
+import * as React from "react";
+import { describe, expect, it, vi } from "vitest";
+import { LAYER_BASE_Z_INDEX } from "@oxitron-ui/dom";
+import { useOverlay, type UseOverlayOptions } from "../src/hooks/useOverlay.js";
+import { useFocusTrap } from "../src/hooks/useFocusTrap.js";
+import { useScrollLock } from "../src/hooks/useScrollLock.js";
+import { useAnchorPosition } from "../src/hooks/useAnchorPosition.js";
+import { byText, click, keyDown, pointerDown, render } from "./render.js";
+
+function Overlay({
+  label,
+  children,
+  ...options
+}: UseOverlayOptions & { label: string; children?: React.ReactNode }) {
+  const overlay = useOverlay("overlay", options);
+  return (
+    <>
+      <button ref={overlay.triggerRef} onClick={() => overlay.send({ type: "TOGGLE" })}>
+        {label}
+      </button>
+      {overlay.state.open && (
+        <div ref={overlay.contentRef} data-testid={label} data-z={overlay.layer?.zIndex}>
+          {children}
+        </div>
+      )}
+    </>
+  );
+}
+
+function content(label: string): HTMLElement | null {
+  return document.querySelector(`[data-testid="${label}"]`);
+}
+
+describe("useOverlay", () => {
+  it("closes on Escape", () => {
+    const onOpenChange = vi.fn();
+    render(<Overlay label="menu" defaultOpen onOpenChange={onOpenChange} />);
+    expect(content("menu")).not.toBeNull();
+
+    keyDown("Escape");
+    expect(content("menu")).toBeNull();
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it("closes on a pointer down outside the content and trigger", () => {
+    render(
+      <>
+        <Overlay label="menu" defaultOpen>
+          <span>inside</span>
+        </Overlay>
+        <p>elsewhere</p>
+      </>
+    );
+
+    pointerDown(byText("inside"));
+    pointerDown(byText("menu"));
+    expect(content("menu")).not.toBeNull();
+
+    pointerDown(byText("elsewhere"));
+    expect(content("menu")).toBeNull();
+  });
+
+  it("respects closeOnEscape and closeOnOutsideClick", () => {
+    render(<Overlay label="menu" defaultOpen closeOnEscape={false} closeOnOutsideClick={false} />);
+    keyDown("Escape");
+    pointerDown(document.body);
+    expect(content("menu")).not.toBeNull();
+  });
+
+  it("stays open when controlled and reports the dismissal", () => {
+    const onOpenChange = vi.fn();
+    render(<Overlay label="menu" open onOpenChange={onOpenChange} />);
+    keyDown("Escape");
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+    expect(content("menu")).not.toBeNull();
+  });
+
+  it("stacks nested overlays and dismisses the top one first", () => {
+    render(
+      <Overlay label="outer" defaultOpen>
+        <Overlay label="inner" />
+      </Overlay>
+    );
+    click(byText("inner"));
+    const outerZ = Number(content("outer")?.dataset.z);
+    const innerZ = Number(content("inner")?.dataset.z);
+    expect(outerZ).toBe(LAYER_BASE_Z_INDEX);
+    expect(innerZ).toBeGreaterThan(outerZ);
+
+    keyDown("Escape");
+    expect(content("inner")).toBeNull();
+    expect(content("outer")).not.toBeNull();
+
+    keyDown("Escape");
+    expect(content("outer")).toBeNull();
+  });
+
+  it("leaves the layer stack when closed", () => {
+    render(<Overlay label="first" defaultOpen />);
+    click(byText("first"));
+    expect(content("first")).toBeNull();
+
+    render(<Overlay label="second" defaultOpen />);
+    expect(Number(content("second")?.dataset.z)).toBe(LAYER_BASE_Z_INDEX);
+  });
+});
+
+function Trap({ enabled, contain }: { enabled: boolean; contain?: boolean }) {
+  const [container, setContainer] = React.useState<HTMLElement | null>(null);
+  useFocusTrap(container, enabled, { contain });
+  return (
+    <div ref={setContainer}>
+      <button>first</button>
+      <button>last</button>
+    </div>
+  );
+}
+
+describe("useFocusTrap", () => {
+  it("moves focus in, cycles Tab and restores focus when disabled", () => {
+    const { container } = render(<button>opener</button>);
+    const opener = byText("opener");
+    opener.focus();
+
+    const { rerender } = render(<Trap enabled />);
+    expect(document.activeElement).toBe(byText("first"));
+
+    byText("last").focus();
+    keyDown("Tab");
+    expect(document.activeElement).toBe(byText("first"));
+    keyDown("Tab", { shiftKey: true });
+    expect(document.activeElement).toBe(byText("last"));
+
+    rerender(<Trap enabled={false} />);
+    expect(document.activeElement).toBe(opener);
+    expect(container.contains(opener)).toBe(true);
+  });
+
+  it("does not trap Tab with contain: false", () => {
+    render(<Trap enabled contain={false} />);
+    byText("last").focus();
+    expect(keyDown("Tab").defaultPrevented).toBe(false);
+  });
+});
+
+function Locked({ enabled }: { enabled: boolean }) {
+  useScrollLock(enabled);
+  return null;
+}
+
+describe("useScrollLock", () => {
+  it("locks while enabled and shares the lock between components", () => {
+    const first = render(<Locked enabled />);
+    const second = render(<Locked enabled />);
+    expect(document.body.style.overflow).toBe("hidden");
+
+    first.rerender(<Locked enabled={false} />);
+    expect(document.body.style.overflow).toBe("hidden");
+
+    second.unmount();
+    expect(document.body.style.overflow).toBe("");
+  });
+});
+
+function Anchored({ open }: { open: boolean }) {
+  const [anchor, setAnchor] = React.useState<HTMLElement | null>(null);
+  const [floating, setFloating] = React.useState<HTMLElement | null>(null);
+  const position = useAnchorPosition(anchor, open ? floating : null, { placement: "bottom-start" });
+  return (
+    <>
+      <button ref={setAnchor}>anchor</button>
+      <div ref={setFloating} style={position.style} data-placement={position.placement}>
+        floating
+      </div>
+    </>
+  );
+}
+
+describe("useAnchorPosition", () => {
+  it("hides the floating element until both elements are measured", () => {
+    render(<Anchored open={false} />);
+    expect(byText("floating").style.visibility).toBe("hidden");
+  });
+
+  it("positions the floating element with position: fixed", () => {
+    render(<Anchored open />);
+    const floating = byText("floating");
+    expect(floating.style.position).toBe("fixed");
+    expect(floating.style.visibility).toBe("");
+    expect(floating.style.top).toMatch(/px$/);
+    expect(floating.dataset.placement).toBe("bottom-start");
+  });
+});
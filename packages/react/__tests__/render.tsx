@@ -0,0 +1,71 @@
+import * as React from "react";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach } from "vitest";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const mounted: Array<{ root: Root; container: HTMLElement }> = [];
+
+afterEach(() => {
+  for (const { root, container } of mounted.splice(0)) {
+    act(() => root.unmount());
+    container.remove();
+  }
+  document.body.innerHTML = "";
+});
+
+export type Rendered = {
+  container: HTMLElement;
+  rerender(element: React.ReactElement): void;
+  unmount(): void;
+};
+
+/**
+ * Mounts element into a fresh container in document.body; unmounted after each test.
+ */
+export function render(element: React.ReactElement): Rendered {
+  const container = document.createElement("div");
+  document.body.append(container);
+  const root = createRoot(container);
+  const entry = { root, container };
+  mounted.push(entry);
+  act(() => root.render(element));
+
+  return {
+    container,
+    rerender: (next) => act(() => root.render(next)),
+    unmount() {
+      act(() => root.unmount());
+      mounted.splice(mounted.indexOf(entry), 1);
+    },
+  };
+}
+
+export function click(target: Element): void {
+  act(() => {
+    (target as HTMLElement).click();
+  });
+}
+
+export function pointerDown(target: Element): void {
+  act(() => {
+    target.dispatchEvent(new MouseEvent("pointerdown", { bubbles: true }));
+  });
+}
+
+export function keyDown(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true, ...init });
+  act(() => {
+    (document.activeElement ?? document.body).dispatchEvent(event);
+  });
+  return event;
+}
+
+export function byText(text: string, root: ParentNode = document.body): HTMLElement {
+  const found = Array.from(root.querySelectorAll<HTMLElement>("*")).find(
+    (el) => el.textContent === text && el.children.length === 0
+  );
+  if (!found) throw new Error(`No element with text "${text}"`);
+  return found;
+}
@@ -1,13 +1,26 @@
 import * as React from "react";
-import type { Node } from "@oxitron-ui/core";
+import { ComponentBlueprint, host, type ComponentRegistry, type Node } from "@oxitron-ui/core";
+
+/**
+ * Resolves `type: "component"` tags to nested blueprints or React components.
+ */
+export type ReactComponentRegistry = ComponentRegistry<React.ComponentType<Record<string, unknown>>>;
 
 export interface ReactHostAdapter {
   toReactNode(node: Node | string): React.ReactNode;
 }
 
 export class DefaultReactHostAdapter implements ReactHostAdapter {
+  /**
+   * @param components - React components for `type: "component"` nodes
+   * (blueprints are expanded by renderToReact before the adapter runs)
+   */
+  constructor(private readonly components: ReactComponentRegistry = {}) {}
+
   toReactNode(node: Node | string): React.ReactNode {
     if (typeof node === "string") return node;
+    // React elements embedded with hostChildren() are already rendered
+    if (node.type === "host") return node.value as React.ReactNode;
 
     // Convert children first
     const children = (node.children ?? []).map((c) => this.toReactNode(c));
@@ -16,12 +29,58 @@ export class DefaultReactHostAdapter implements ReactHostAdapter {
       return React.createElement(React.Fragment, null, ...children);
     }
 
-    // For minimal v1: treat "element" and "component" as host elements by tag
+    if (node.type === "component") {
+      return React.createElement(this.resolveComponent(node), componentProps(node), ...children);
+    }
+
     const tag = node.tag ?? "div";
     const props = normalizeProps(node.props ?? {}, node);
 
     return React.createElement(tag, props, ...children);
   }
+
+  private resolveComponent(node: Node): React.ComponentType<Record<string, unknown>> {
+    const tag = node.tag ?? "";
+    const entry = Object.prototype.hasOwnProperty.call(this.components, tag)
+      ? this.components[tag]
+      : undefined;
+    if (entry === undefined) {
+      const known = Object.keys(this.components).sort().join(", ") || "none registered";
+      throw new Error(
+        `Unknown component "${tag}" in a type: "component" node. Register it in the components option (known: ${known}).`
+      );
+    }
+    if (entry instanceof ComponentBlueprint) {
+      throw new Error(
+        `Component "${tag}" is a blueprint; expand it with resolveComponents (renderToReact does this) before the adapter runs.`
+      );
+    }
+    return entry;
+  }
+}
+
+/**
+ * React children as Node children, for blueprint props and slots: strings stay
+ * strings, numbers become strings, elements are wrapped in host nodes the
+ * adapter renders untouched.
+ */
+export function hostChildren(children: React.ReactNode): Array<Node | string> {
+  return React.Children.toArray(children).map((child) => {
+    if (typeof child === "string") return child;
+    if (typeof child === "number" || typeof child === "bigint") return String(child);
+    return host(child);
+  });
+}
+
+/**
+ * Props for a React component node: passed through as-is, plus a key from meta.id.
+ */
+function componentProps(node: Node): Record<string, unknown> {
+  const props: Record<string, unknown> = { ...(node.props ?? {}) };
+  if (node.meta?.id && props.key == null) {
+    props.key = node.meta.id;
+  }
+  return props;
 }
 
 /**
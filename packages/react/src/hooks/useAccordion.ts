@@ -0,0 +1,45 @@
+import * as React from "react";
+import {
+  accordionBehavior,
+  accordionProps,
+  accordionTriggerId,
+  type AccordionEvent,
+  type AccordionOptions,
+  type AccordionParts,
+  type AccordionState,
+  type BehaviorBinding,
+} from "@oxitron-ui/core";
+import { useMachine } from "./useMachine.js";
+import { useFocusPart } from "./useFocusPart.js";
+
+export type UseAccordionOptions = AccordionOptions & {
+  onValueChange?: (value: string[]) => void;
+};
+
+export type UseAccordionResult = BehaviorBinding<AccordionState, AccordionEvent> & {
+  /**
+   * Id prefix used for triggers and panels (options.id or a generated one).
+   */
+  id: string;
+  parts: AccordionParts;
+};
+
+/**
+ * Accordion state (controlled through value, or uncontrolled), arrow-key
+ * focus management and the props for items, triggers and panels
+ */
+export function useAccordion(options: UseAccordionOptions): UseAccordionResult {
+  const generatedId = React.useId();
+  const id = options.id ?? `accordion${generatedId.replace(/[^\w-]/g, "")}`;
+  const withId = { ...options, id };
+
+  const binding = useMachine(accordionBehavior, withId, {
+    state: { expanded: options.value },
+    onChange: (next, prev) => {
+      if (next.expanded !== prev.expanded) options.onValueChange?.(next.expanded);
+    },
+  });
+  useFocusPart(binding.state.focused, (value) => accordionTriggerId(id, value));
+
+  return { ...binding, id, parts: accordionProps(binding, withId) };
+}
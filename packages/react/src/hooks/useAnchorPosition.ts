@@ -0,0 +1,58 @@
+import * as React from "react";
+import type { Placement } from "@oxitron-ui/core";
+import { autoUpdate, measurePosition, type Position, type PositionOptions } from "@oxitron-ui/dom";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect.js";
+
+export type UseAnchorPositionResult = {
+  /**
+   * position: fixed coordinates; hidden until the first measurement.
+   */
+  style: React.CSSProperties;
+  /**
+   * Placement after flipping.
+   */
+  placement: Placement;
+};
+
+/**
+ * Positions a floating element next to an anchor and follows it on scroll
+ * and resize
+ * @param anchor - Anchor element (null until mounted)
+ * @param floating - Floating element (null while closed)
+ * @param options - Placement, offset, padding and flip
+ */
+export function useAnchorPosition(
+  anchor: Element | null,
+  floating: HTMLElement | null,
+  options: PositionOptions = {}
+): UseAnchorPositionResult {
+  const [position, setPosition] = React.useState<Position | null>(null);
+  const { placement = "bottom", offset, padding, flip } = options;
+
+  useIsomorphicLayoutEffect(() => {
+    if (!anchor || !floating) {
+      setPosition(null);
+      return;
+    }
+    const update = () => {
+      const next = measurePosition(anchor, floating, { placement, offset, padding, flip });
+      setPosition((prev) =>
+        prev &&
+        prev.top === next.top &&
+        prev.left === next.left &&
+        prev.placement === next.placement
+          ? prev
+          : next
+      );
+    };
+    update();
+    return autoUpdate(anchor, floating, update);
+  }, [anchor, floating, placement, offset, padding, flip]);
+
+  return {
+    style: position
+      ? { position: "fixed", top: position.top, left: position.left }
+      : { position: "fixed", top: 0, left: 0, visibility: "hidden" },
+    placement: position?.placement ?? placement,
+  };
+}
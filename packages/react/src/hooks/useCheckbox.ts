@@ -0,0 +1,32 @@
+import {
+  checkboxBehavior,
+  checkboxProps,
+  type BehaviorBinding,
+  type CheckboxEvent,
+  type CheckboxOptions,
+  type CheckboxParts,
+  type CheckboxState,
+} from "@oxitron-ui/core";
+import { useMachine } from "./useMachine.js";
+
+export type UseCheckboxOptions = CheckboxOptions & {
+  onCheckedChange?: (checked: boolean) => void;
+};
+
+export type UseCheckboxResult = BehaviorBinding<CheckboxState, CheckboxEvent> & {
+  parts: CheckboxParts;
+};
+
+/**
+ * Checkbox state (controlled through checked, or uncontrolled) and the props
+ * for its input
+ */
+export function useCheckbox(options: UseCheckboxOptions = {}): UseCheckboxResult {
+  const binding = useMachine(checkboxBehavior, options, {
+    state: { checked: options.checked },
+    onChange: (next, prev) => {
+      if (next.checked !== prev.checked) options.onCheckedChange?.(next.checked);
+    },
+  });
+  return { ...binding, parts: checkboxProps(binding, options) };
+}
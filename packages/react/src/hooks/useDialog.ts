@@ -0,0 +1,32 @@
+import { dialogProps, type DialogOptions, type DialogParts } from "@oxitron-ui/core";
+import { useOverlay, type UseOverlayResult } from "./useOverlay.js";
+import { useFocusTrap } from "./useFocusTrap.js";
+import { useScrollLock } from "./useScrollLock.js";
+
+export type UseDialogOptions = DialogOptions & {
+  onOpenChange?: (open: boolean) => void;
+};
+
+export type UseDialogResult = UseOverlayResult & {
+  parts: DialogParts;
+};
+
+/**
+ * Dialog state and focus management: modal dialogs trap focus and lock page
+ * scroll, every dialog moves focus in on open and back to the trigger on
+ * close, and Escape / outside clicks dismiss the top-most one
+ */
+export function useDialog(options: UseDialogOptions = {}): UseDialogResult {
+  const overlay = useOverlay("dialog", options);
+  const { open } = overlay.state;
+  const modal = options.modal !== false;
+
+  useFocusTrap(overlay.content, open, {
+    contain: modal,
+    // Focus may go to overlays opened from inside the dialog
+    allowOutside: (target) => overlay.layer?.isAbove(target) ?? false,
+  });
+  useScrollLock(open && modal);
+
+  return { ...overlay, parts: dialogProps(overlay, { ...options, id: overlay.id }) };
+}
@@ -0,0 +1,79 @@
+import * as React from "react";
+import { fieldProps, type FieldOptions, type FieldParts } from "@oxitron-ui/core";
+import { isDevelopment } from "../runtime/env.js";
+
+export type UseFieldOptions = FieldOptions;
+
+export type UseFieldResult = Pick<
+  FieldOptions,
+  "invalid" | "disabled" | "readOnly" | "required"
+> & {
+  /**
+   * Control id (options.id or a generated one); the other part ids derive from it.
+   */
+  id: string;
+  parts: FieldParts;
+};
+
+/**
+ * Ids and ARIA links for a label, control, description and error message
+ */
+export function useField(options: UseFieldOptions = {}): UseFieldResult {
+  const generatedId = React.useId();
+  const id = options.id ?? `field${generatedId.replace(/[^\w-]/g, "")}`;
+  const { invalid, disabled, readOnly, required } = options;
+
+  return { id, invalid, disabled, readOnly, required, parts: fieldProps({ ...options, id }) };
+}
+
+const FieldContext = React.createContext<UseFieldResult | null>(null);
+
+export const FieldProvider = FieldContext.Provider;
+
+/**
+ * Props a control reads from the surrounding Field.
+ */
+export type FieldControlProps = {
+  id?: string;
+  invalid?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+  "aria-labelledby"?: string;
+  "aria-describedby"?: string;
+};
+
+const warnedIds = new Set<string>();
+
+/**
+ * Fills in a control's id, ARIA links and invalid / disabled / readOnly /
+ * required state from the nearest Field. Props the control sets itself win,
+ * except aria-describedby, which is joined with the field's, and id: the
+ * label and messages point at the field's id, so a different control id is
+ * ignored (with a warning outside production). Set it on the Field instead.
+ */
+export function useFieldControl<T extends FieldControlProps>(props: T): T {
+  const field = React.useContext(FieldContext);
+  if (!field) return props;
+  const control = field.parts.control as FieldControlProps;
+  const describedBy = [control["aria-describedby"], props["aria-describedby"]].filter(Boolean);
+
+  if (props.id != null && props.id !== field.id && isDevelopment()) {
+    const message = `[oxitron-ui] A control inside a Field ignores its id "${props.id}" and uses the field's ("${field.id}") so the label stays linked. Pass id to the Field instead.`;
+    if (!warnedIds.has(message)) {
+      warnedIds.add(message);
+      console.warn(message);
+    }
+  }
+
+  return {
+    ...props,
+    id: field.id,
+    invalid: props.invalid ?? field.invalid,
+    disabled: props.disabled ?? field.disabled,
+    readOnly: props.readOnly ?? field.readOnly,
+    required: props.required ?? field.required,
+    "aria-labelledby": props["aria-labelledby"] ?? control["aria-labelledby"],
+    "aria-describedby": describedBy.length ? describedBy.join(" ") : undefined,
+  };
+}
@@ -0,0 +1,17 @@
+import * as React from "react";
+
+/**
+ * Moves DOM focus to the part a behavior marked as focused (arrow-key navigation)
+ * @param focused - state.focused of the behavior
+ * @param idFor - Element id of a part
+ */
+export function useFocusPart(focused: string | null, idFor: (value: string) => string): void {
+  const idForRef = React.useRef(idFor);
+  idForRef.current = idFor;
+
+  React.useEffect(() => {
+    if (focused === null) return;
+    const el = document.getElementById(idForRef.current(focused));
+    if (el && el !== document.activeElement) el.focus();
+  }, [focused]);
+}
@@ -0,0 +1,31 @@
+import * as React from "react";
+import { createFocusTrap, type FocusTrapOptions } from "@oxitron-ui/dom";
+
+/**
+ * Moves focus into container while enabled (keeping it there unless
+ * options.contain is false) and restores it afterwards
+ * @param container - Element to trap focus in (null until mounted)
+ * @param enabled - Whether the trap is active
+ * @param options - Trap options; allowOutside is read when focus moves
+ */
+export function useFocusTrap(
+  container: HTMLElement | null,
+  enabled: boolean,
+  options: FocusTrapOptions = {}
+): void {
+  const latest = React.useRef(options);
+  latest.current = options;
+
+  React.useEffect(() => {
+    if (!container || !enabled) return;
+    const { initialFocus, contain, restoreFocus } = latest.current;
+    const trap = createFocusTrap(container, {
+      initialFocus,
+      contain,
+      restoreFocus,
+      allowOutside: (target) => latest.current.allowOutside?.(target) ?? false,
+    });
+    trap.activate();
+    return () => trap.deactivate();
+  }, [container, enabled]);
+}
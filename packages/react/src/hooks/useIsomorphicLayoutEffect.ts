@@ -0,0 +1,8 @@
+import * as React from "react";
+
+/**
+ * useLayoutEffect in the browser (measure before paint), useEffect on the
+ * server where layout effects only warn.
+ */
+export const useIsomorphicLayoutEffect =
+  typeof document !== "undefined" ? React.useLayoutEffect : React.useEffect;
@@ -0,0 +1,42 @@
+import * as React from "react";
+import { pushLayer, type Layer } from "@oxitron-ui/dom";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect.js";
+
+export type UseLayerOptions = {
+  /**
+   * Elements that count as inside the layer (content, trigger).
+   */
+  contains?: Array<Element | null>;
+  onEscape?: () => void;
+  onOutsidePointerDown?: () => void;
+};
+
+/**
+ * Keeps an open overlay in the document's layer stack, so it gets a z-index
+ * above earlier overlays and only the top one reacts to Escape and outside
+ * clicks
+ * @param enabled - Whether the overlay is open
+ * @param options - Inside elements and dismissal handlers (read when events fire)
+ * @returns The layer while registered
+ */
+export function useLayer(enabled: boolean, options: UseLayerOptions): Layer | null {
+  const [layer, setLayer] = React.useState<Layer | null>(null);
+  const latest = React.useRef(options);
+  latest.current = options;
+
+  useIsomorphicLayoutEffect(() => {
+    if (!enabled) return;
+    const next = pushLayer({
+      contains: () => latest.current.contains ?? [],
+      onEscape: () => latest.current.onEscape?.(),
+      onOutsidePointerDown: () => latest.current.onOutsidePointerDown?.(),
+    });
+    setLayer(next);
+    return () => {
+      next.remove();
+      setLayer(null);
+    };
+  }, [enabled]);
+
+  return layer;
+}
@@ -0,0 +1,50 @@
+import * as React from "react";
+import type { Behavior, BehaviorBinding } from "@oxitron-ui/core";
+
+export type MachineSync<TState> = {
+  /**
+   * Controlled parts of the state; undefined values stay uncontrolled.
+   */
+  state?: Partial<TState>;
+  /**
+   * Called after a transition changed the state (controlled parts included).
+   */
+  onChange?: (next: TState, prev: TState) => void;
+};
+
+/**
+ * Binds a core behavior to React state
+ * @param behavior - Behavior to run
+ * @param options - Behavior options (read on every event, so they can change)
+ * @param sync - Controlled state and change callback
+ */
+export function useMachine<TState, TEvent extends { type: string }, TOptions>(
+  behavior: Behavior<TState, TEvent, TOptions>,
+  options: TOptions,
+  sync: MachineSync<TState> = {}
+): BehaviorBinding<TState, TEvent> {
+  const [internal, setInternal] = React.useState(() => behavior.initial(options));
+
+  const overrides = Object.entries(sync.state ?? {}).filter(([, value]) => value !== undefined);
+  const state: TState = overrides.length
+    ? { ...internal, ...Object.fromEntries(overrides) }
+    : internal;
+
+  const latest = React.useRef({ state, options, onChange: sync.onChange });
+  latest.current = { state, options, onChange: sync.onChange };
+
+  const send = React.useCallback(
+    (event: TEvent) => {
+      const { state: prev, options: currentOptions, onChange } = latest.current;
+      const next = behavior.transition(prev, event, currentOptions);
+      if (next === prev) return;
+      // Later events in the same tick build on this one
+      latest.current = { ...latest.current, state: next };
+      setInternal(next);
+      onChange?.(next, prev);
+    },
+    [behavior]
+  );
+
+  return { state, send };
+}
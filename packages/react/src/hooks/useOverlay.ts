@@ -0,0 +1,62 @@
+import * as React from "react";
+import {
+  overlayBehavior,
+  type BehaviorBinding,
+  type OverlayEvent,
+  type OverlayOptions,
+  type OverlayState,
+} from "@oxitron-ui/core";
+import type { Layer } from "@oxitron-ui/dom";
+import { useMachine } from "./useMachine.js";
+import { useLayer } from "./useLayer.js";
+
+export type UseOverlayOptions = OverlayOptions & {
+  onOpenChange?: (open: boolean) => void;
+};
+
+export type UseOverlayResult = BehaviorBinding<OverlayState, OverlayEvent> & {
+  /**
+   * Id prefix of the content, title and description (options.id or a generated one).
+   */
+  id: string;
+  trigger: HTMLElement | null;
+  content: HTMLElement | null;
+  /**
+   * Callback refs for the trigger and content elements.
+   */
+  triggerRef: (element: HTMLElement | null) => void;
+  contentRef: (element: HTMLElement | null) => void;
+  /**
+   * Layer of the open overlay (null while closed).
+   */
+  layer: Layer | null;
+};
+
+/**
+ * Open state (controlled through open, or uncontrolled) plus the layer that
+ * turns Escape and outside pointer downs into DISMISS events. Shared by
+ * useDialog, usePopover and useTooltip.
+ * @param prefix - Prefix of generated ids
+ * @param options - Overlay options
+ */
+export function useOverlay(prefix: string, options: UseOverlayOptions): UseOverlayResult {
+  const generatedId = React.useId();
+  const id = options.id ?? `${prefix}${generatedId.replace(/[^\w-]/g, "")}`;
+
+  const binding = useMachine(overlayBehavior, { ...options, id }, {
+    state: { open: options.open },
+    onChange: (next, prev) => {
+      if (next.open !== prev.open) options.onOpenChange?.(next.open);
+    },
+  });
+  const [trigger, triggerRef] = React.useState<HTMLElement | null>(null);
+  const [content, contentRef] = React.useState<HTMLElement | null>(null);
+
+  const layer = useLayer(binding.state.open, {
+    contains: [content, trigger],
+    onEscape: () => binding.send({ type: "DISMISS", reason: "escape" }),
+    onOutsidePointerDown: () => binding.send({ type: "DISMISS", reason: "outside" }),
+  });
+
+  return { ...binding, id, trigger, content, triggerRef, contentRef, layer };
+}
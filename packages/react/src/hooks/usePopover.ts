@@ -0,0 +1,40 @@
+import {
+  popoverProps,
+  type OverlayOptions,
+  type Placement,
+  type PopoverParts,
+} from "@oxitron-ui/core";
+import { useOverlay, type UseOverlayResult } from "./useOverlay.js";
+import { useFocusTrap } from "./useFocusTrap.js";
+import { useAnchorPosition, type UseAnchorPositionResult } from "./useAnchorPosition.js";
+
+export type UsePopoverOptions = OverlayOptions & {
+  onOpenChange?: (open: boolean) => void;
+  placement?: Placement;
+  /**
+   * Gap between trigger and popover in px (default 8).
+   */
+  offset?: number;
+};
+
+export type UsePopoverResult = UseOverlayResult & {
+  parts: PopoverParts;
+  position: UseAnchorPositionResult;
+};
+
+/**
+ * Popover state, positioning next to the trigger and focus handling (focus
+ * moves into the popover on open and back to the trigger on close, without
+ * trapping it)
+ */
+export function usePopover(options: UsePopoverOptions = {}): UsePopoverResult {
+  const overlay = useOverlay("popover", options);
+
+  useFocusTrap(overlay.content, overlay.state.open, { contain: false });
+  const position = useAnchorPosition(overlay.trigger, overlay.content, {
+    placement: options.placement ?? "bottom",
+    offset: options.offset,
+  });
+
+  return { ...overlay, parts: popoverProps(overlay, { ...options, id: overlay.id }), position };
+}
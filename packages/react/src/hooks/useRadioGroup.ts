@@ -0,0 +1,42 @@
+import * as React from "react";
+import {
+  radioGroupBehavior,
+  radioGroupProps,
+  type BehaviorBinding,
+  type RadioGroupEvent,
+  type RadioGroupOptions,
+  type RadioGroupParts,
+  type RadioGroupState,
+} from "@oxitron-ui/core";
+import { useMachine } from "./useMachine.js";
+
+export type UseRadioGroupOptions = RadioGroupOptions & {
+  onValueChange?: (value: string) => void;
+};
+
+export type UseRadioGroupResult = BehaviorBinding<RadioGroupState, RadioGroupEvent> & {
+  /**
+   * Id prefix used for the radios and their default name (options.id or a generated one).
+   */
+  id: string;
+  parts: RadioGroupParts;
+};
+
+/**
+ * Radio group selection (controlled through value, or uncontrolled) and the
+ * props for the group, its radios and their labels
+ */
+export function useRadioGroup(options: UseRadioGroupOptions): UseRadioGroupResult {
+  const generatedId = React.useId();
+  const id = options.id ?? `radio-group${generatedId.replace(/[^\w-]/g, "")}`;
+  const withId = { ...options, id };
+
+  const binding = useMachine(radioGroupBehavior, withId, {
+    state: { value: options.value },
+    onChange: (next, prev) => {
+      if (next.value !== prev.value && next.value !== null) options.onValueChange?.(next.value);
+    },
+  });
+
+  return { ...binding, id, parts: radioGroupProps(binding, withId) };
+}
@@ -0,0 +1,9 @@
+import * as React from "react";
+import { lockScroll } from "@oxitron-ui/dom";
+
+/**
+ * Locks page scrolling while enabled (counted, so stacked modals share it).
+ */
+export function useScrollLock(enabled: boolean): void {
+  React.useEffect(() => (enabled ? lockScroll() : undefined), [enabled]);
+}
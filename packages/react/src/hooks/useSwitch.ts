@@ -0,0 +1,32 @@
+import {
+  switchBehavior,
+  switchProps,
+  type BehaviorBinding,
+  type SwitchEvent,
+  type SwitchOptions,
+  type SwitchParts,
+  type SwitchState,
+} from "@oxitron-ui/core";
+import { useMachine } from "./useMachine.js";
+
+export type UseSwitchOptions = SwitchOptions & {
+  onCheckedChange?: (checked: boolean) => void;
+};
+
+export type UseSwitchResult = BehaviorBinding<SwitchState, SwitchEvent> & {
+  parts: SwitchParts;
+};
+
+/**
+ * Switch state (controlled through checked, or uncontrolled) and the props
+ * for its parts
+ */
+export function useSwitch(options: UseSwitchOptions = {}): UseSwitchResult {
+  const binding = useMachine(switchBehavior, options, {
+    state: { checked: options.checked },
+    onChange: (next, prev) => {
+      if (next.checked !== prev.checked) options.onCheckedChange?.(next.checked);
+    },
+  });
+  return { ...binding, parts: switchProps(binding, options) };
+}
@@ -0,0 +1,47 @@
+import * as React from "react";
+import {
+  tabId,
+  tabsBehavior,
+  tabsProps,
+  type BehaviorBinding,
+  type TabsEvent,
+  type TabsOptions,
+  type TabsParts,
+  type TabsState,
+} from "@oxitron-ui/core";
+import { useMachine } from "./useMachine.js";
+import { useFocusPart } from "./useFocusPart.js";
+
+export type UseTabsOptions = TabsOptions & {
+  onValueChange?: (value: string) => void;
+};
+
+export type UseTabsResult = BehaviorBinding<TabsState, TabsEvent> & {
+  /**
+   * Id prefix used for tabs and panels (options.id or a generated one).
+   */
+  id: string;
+  parts: TabsParts;
+};
+
+/**
+ * Tabs state (controlled through value, or uncontrolled), arrow-key focus
+ * management and the props for the tablist, tabs and panels
+ */
+export function useTabs(options: UseTabsOptions): UseTabsResult {
+  const generatedId = React.useId();
+  const id = options.id ?? `tabs${generatedId.replace(/[^\w-]/g, "")}`;
+  const withId = { ...options, id };
+
+  const binding = useMachine(tabsBehavior, withId, {
+    state: { selected: options.value },
+    onChange: (next, prev) => {
+      if (next.selected !== prev.selected && next.selected !== null) {
+        options.onValueChange?.(next.selected);
+      }
+    },
+  });
+  useFocusPart(binding.state.focused, (value) => tabId(id, value));
+
+  return { ...binding, id, parts: tabsProps(binding, withId) };
+}
@@ -0,0 +1,63 @@
+import * as React from "react";
+import {
+  tooltipProps,
+  type OverlayEvent,
+  type OverlayOptions,
+  type Placement,
+  type TooltipParts,
+} from "@oxitron-ui/core";
+import { useOverlay, type UseOverlayResult } from "./useOverlay.js";
+import { useAnchorPosition, type UseAnchorPositionResult } from "./useAnchorPosition.js";
+
+export type UseTooltipOptions = OverlayOptions & {
+  onOpenChange?: (open: boolean) => void;
+  placement?: Placement;
+  offset?: number;
+  /**
+   * Hover/focus time before opening in ms (default 300).
+   */
+  openDelay?: number;
+  /**
+   * Time before closing in ms (default 0).
+   */
+  closeDelay?: number;
+};
+
+export type UseTooltipResult = UseOverlayResult & {
+  parts: TooltipParts;
+  position: UseAnchorPositionResult;
+};
+
+/**
+ * Tooltip state with open/close delays and positioning next to the trigger
+ */
+export function useTooltip(options: UseTooltipOptions = {}): UseTooltipResult {
+  const overlay = useOverlay("tooltip", options);
+  const { send } = overlay;
+  const { openDelay = 300, closeDelay = 0 } = options;
+  const timer = React.useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  React.useEffect(() => () => clearTimeout(timer.current), []);
+
+  // Hover and focus go through the delays; Escape and outside clicks do not
+  const delayedSend = React.useCallback(
+    (event: OverlayEvent) => {
+      clearTimeout(timer.current);
+      const delay = event.type === "OPEN" ? openDelay : event.type === "CLOSE" ? closeDelay : 0;
+      if (delay > 0) timer.current = setTimeout(() => send(event), delay);
+      else send(event);
+    },
+    [send, openDelay, closeDelay]
+  );
+
+  const position = useAnchorPosition(overlay.trigger, overlay.content, {
+    placement: options.placement ?? "top",
+    offset: options.offset,
+  });
+
+  return {
+    ...overlay,
+    parts: tooltipProps({ state: overlay.state, send: delayedSend }, { ...options, id: overlay.id }),
+    position,
+  };
+}
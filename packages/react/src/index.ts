@@ -1,8 +1,86 @@
 export { renderToReact } from "./runtime/renderToReact.js";
 export type { RenderOptions } from "./runtime/renderToReact.js";
+export type { A11yOption } from "./runtime/a11y.js";
 
-export { DefaultReactHostAdapter } from "./adapter/ReactHostAdapter.js";
-export type { ReactHostAdapter } from "./adapter/ReactHostAdapter.js";
+export { DefaultReactHostAdapter, hostChildren } from "./adapter/ReactHostAdapter.js";
+export type { ReactHostAdapter, ReactComponentRegistry } from "./adapter/ReactHostAdapter.js";
+
+export { ThemeProvider, useRenderContext } from "./theme/ThemeProvider.js";
+export type { ThemeProviderProps } from "./theme/ThemeProvider.js";
+
+export { createReactPrimitive } from "./primitives/createReactPrimitive.js";
+export type {
+  ReactPrimitive,
+  ReactPrimitiveOptions,
+  ReactPrimitiveProps,
+} from "./primitives/createReactPrimitive.js";
 
 export { Button } from "./primitives/Button.js";
 export type { ButtonProps } from "./primitives/Button.js";
+
+export { Switch } from "./primitives/Switch.js";
+export type { SwitchProps } from "./primitives/Switch.js";
+
+export { Field } from "./primitives/Field.js";
+export type { FieldProps } from "./primitives/Field.js";
+
+export { Input } from "./primitives/Input.js";
+export type { InputProps } from "./primitives/Input.js";
+
+export { Textarea } from "./primitives/Textarea.js";
+export type { TextareaProps } from "./primitives/Textarea.js";
+
+export { Select } from "./primitives/Select.js";
+export type { SelectProps, SelectItemProps } from "./primitives/Select.js";
+
+export { Checkbox } from "./primitives/Checkbox.js";
+export type { CheckboxProps } from "./primitives/Checkbox.js";
+
+export { RadioGroup } from "./primitives/RadioGroup.js";
+export type { RadioGroupProps, RadioGroupItemProps } from "./primitives/RadioGroup.js";
+
+export { Tabs } from "./primitives/Tabs.js";
+export type { TabsProps, TabsItemProps } from "./primitives/Tabs.js";
+
+export { Accordion } from "./primitives/Accordion.js";
+export type { AccordionProps, AccordionItemProps } from "./primitives/Accordion.js";
+
+export { Dialog } from "./primitives/Dialog.js";
+export type { DialogProps } from "./primitives/Dialog.js";
+
+export { Popover } from "./primitives/Popover.js";
+export type { PopoverProps } from "./primitives/Popover.js";
+
+export { Tooltip } from "./primitives/Tooltip.js";
+export type { TooltipProps } from "./primitives/Tooltip.js";
+
+export { Portal } from "./primitives/Portal.js";
+export type { PortalProps } from "./primitives/Portal.js";
+
+export { useMachine } from "./hooks/useMachine.js";
+export type { MachineSync } from "./hooks/useMachine.js";
+export { useSwitch } from "./hooks/useSwitch.js";
+export type { UseSwitchOptions, UseSwitchResult } from "./hooks/useSwitch.js";
+export { useCheckbox } from "./hooks/useCheckbox.js";
+export type { UseCheckboxOptions, UseCheckboxResult } from "./hooks/useCheckbox.js";
+export { useRadioGroup } from "./hooks/useRadioGroup.js";
+export type { UseRadioGroupOptions, UseRadioGroupResult } from "./hooks/useRadioGroup.js";
+export { useField, useFieldControl, FieldProvider } from "./hooks/useField.js";
+export type { UseFieldOptions, UseFieldResult, FieldControlProps } from "./hooks/useField.js";
+export { useTabs } from "./hooks/useTabs.js";
+export type { UseTabsOptions, UseTabsResult } from "./hooks/useTabs.js";
+export { useAccordion } from "./hooks/useAccordion.js";
+export type { UseAccordionOptions, UseAccordionResult } from "./hooks/useAccordion.js";
+export { useDialog } from "./hooks/useDialog.js";
+export type { UseDialogOptions, UseDialogResult } from "./hooks/useDialog.js";
+export { usePopover } from "./hooks/usePopover.js";
+export type { UsePopoverOptions, UsePopoverResult } from "./hooks/usePopover.js";
+export { useTooltip } from "./hooks/useTooltip.js";
+export type { UseTooltipOptions, UseTooltipResult } from "./hooks/useTooltip.js";
+export type { UseOverlayResult } from "./hooks/useOverlay.js";
+export { useLayer } from "./hooks/useLayer.js";
+export type { UseLayerOptions } from "./hooks/useLayer.js";
+export { useFocusTrap } from "./hooks/useFocusTrap.js";
+export { useScrollLock } from "./hooks/useScrollLock.js";
+export { useAnchorPosition } from "./hooks/useAnchorPosition.js";
+export type { UseAnchorPositionResult } from "./hooks/useAnchorPosition.js";
@@ -0,0 +1,58 @@
+import * as React from "react";
+import {
+  AccordionBlueprint,
+  type AccordionItem,
+  type AccordionProps as AccordionBlueprintProps,
+} from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { useAccordion, type UseAccordionOptions } from "../hooks/useAccordion.js";
+import { hostChildren } from "../adapter/ReactHostAdapter.js";
+
+const AccordionRoot = createReactPrimitive(new AccordionBlueprint(), {
+  element: "div",
+  displayName: "Accordion",
+  props: ["items", "behavior", "id", "type", "collapsible", "value", "defaultValue"],
+});
+
+export type AccordionItemProps = AccordionItem & {
+  title: React.ReactNode;
+  content: React.ReactNode;
+};
+
+export type AccordionProps = Omit<
+  ReactPrimitiveProps<AccordionBlueprintProps, "div">,
+  "behavior" | "items"
+> &
+  Pick<UseAccordionOptions, "onValueChange"> & {
+    items: AccordionItemProps[];
+  };
+
+/**
+ * Accordion primitive driven by useAccordion: single or multiple open items
+ * and arrow/Home/End keys between triggers.
+ */
+export const Accordion = React.forwardRef<HTMLDivElement, AccordionProps>(function Accordion(
+  { items, id, type, collapsible, value, defaultValue, onValueChange, ...props },
+  ref
+) {
+  const behavior = useAccordion({ id, items, type, collapsible, value, defaultValue, onValueChange });
+  const blueprintItems = items.map((item) => ({
+    ...item,
+    title: hostChildren(item.title),
+    content: hostChildren(item.content),
+  }));
+
+  return (
+    <AccordionRoot
+      ref={ref}
+      {...props}
+      id={behavior.id}
+      items={blueprintItems}
+      type={type}
+      collapsible={collapsible}
+      value={value}
+      defaultValue={defaultValue}
+      behavior={behavior}
+    />
+  );
+});
@@ -1,11 +1,10 @@
-import * as React from "react";
-import { ButtonBlueprint, type ButtonProps } from "@oxitron-ui/core";
-import { renderToReact } from "../runtime/renderToReact.js";
+import { ButtonBlueprint, type ButtonProps as ButtonBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
 
-const blueprint = new ButtonBlueprint();
+export const Button = createReactPrimitive(new ButtonBlueprint(), {
+  element: "button",
+  displayName: "Button",
+  props: ["disabled"],
+});
 
-export function Button(props: ButtonProps): React.ReactElement {
-  return renderToReact(blueprint, props) as React.ReactElement;
-}
-
-export type { ButtonProps };
+export type ButtonProps = ReactPrimitiveProps<ButtonBlueprintProps, "button">;
@@ -0,0 +1,65 @@
+import * as React from "react";
+import { CheckboxBlueprint, type CheckboxProps as CheckboxBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { useCheckbox, type UseCheckboxOptions } from "../hooks/useCheckbox.js";
+import { useFieldControl } from "../hooks/useField.js";
+
+const CheckboxRoot = createReactPrimitive(new CheckboxBlueprint(), {
+  element: "input",
+  displayName: "Checkbox",
+  props: ["behavior", "checked", "defaultChecked", "required", "name", "value"],
+});
+
+export type CheckboxProps = Omit<
+  ReactPrimitiveProps<CheckboxBlueprintProps, "input">,
+  "behavior" | "children"
+> &
+  Pick<UseCheckboxOptions, "onCheckedChange">;
+
+/**
+ * Checkbox primitive: a native checkbox driven by useCheckbox. Pass checked
+ * and onCheckedChange to control it, or defaultChecked to let it keep its
+ * own state. Inside a Field it takes the field's id, ARIA links and state.
+ */
+export const Checkbox = React.forwardRef<HTMLInputElement, CheckboxProps>(function Checkbox(
+  props,
+  ref
+) {
+  const {
+    checked,
+    defaultChecked,
+    disabled,
+    readOnly,
+    required,
+    invalid,
+    name,
+    value,
+    onCheckedChange,
+    ...rest
+  } = useFieldControl(props);
+  const behavior = useCheckbox({
+    checked,
+    defaultChecked,
+    disabled,
+    readOnly,
+    required,
+    invalid,
+    name,
+    value,
+    onCheckedChange,
+  });
+
+  return (
+    <CheckboxRoot
+      ref={ref}
+      {...rest}
+      disabled={disabled}
+      readOnly={readOnly}
+      required={required}
+      invalid={invalid}
+      name={name}
+      value={value}
+      behavior={behavior}
+    />
+  );
+});
@@ -0,0 +1,109 @@
+import * as React from "react";
+import { DialogBlueprint, type DialogProps as DialogBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { Portal } from "./Portal.js";
+import { useDialog, type UseDialogOptions } from "../hooks/useDialog.js";
+import { hostChildren } from "../adapter/ReactHostAdapter.js";
+import { cloneWithProps, composeRefs } from "../runtime/mergeProps.js";
+
+const DialogContent = createReactPrimitive(new DialogBlueprint(), {
+  element: "div",
+  displayName: "Dialog",
+  props: [
+    "title",
+    "description",
+    "footer",
+    "closeLabel",
+    "zIndex",
+    "behavior",
+    "id",
+    "open",
+    "defaultOpen",
+    "disabled",
+    "modal",
+    "role",
+    "closeOnEscape",
+    "closeOnOutsideClick",
+  ],
+});
+
+export type DialogProps = Omit<
+  ReactPrimitiveProps<DialogBlueprintProps, "div">,
+  "behavior" | "zIndex" | "title" | "description" | "footer" | "as" | "asChild"
+> &
+  Pick<UseDialogOptions, "onOpenChange"> & {
+    title: React.ReactNode;
+    description?: React.ReactNode;
+    footer?: React.ReactNode;
+    /**
+     * Element that opens the dialog; it receives the trigger's ARIA props,
+     * click handler and ref.
+     */
+    trigger?: React.ReactElement;
+    /**
+     * Portal target (default document.body).
+     */
+    container?: Element | DocumentFragment | null;
+  };
+
+/**
+ * Dialog primitive: portals the DialogBlueprint while open, traps focus and
+ * locks scroll when modal, restores focus to the trigger on close and closes
+ * on Escape or a click outside the panel.
+ */
+export const Dialog = React.forwardRef<HTMLDivElement, DialogProps>(function Dialog(
+  {
+    trigger,
+    container,
+    title,
+    description,
+    footer,
+    id,
+    open,
+    defaultOpen,
+    disabled,
+    modal,
+    role,
+    closeOnEscape,
+    closeOnOutsideClick,
+    onOpenChange,
+    ...props
+  },
+  ref
+) {
+  const dialog = useDialog({
+    id,
+    open,
+    defaultOpen,
+    disabled,
+    modal,
+    role,
+    closeOnEscape,
+    closeOnOutsideClick,
+    hasDescription: description != null,
+    onOpenChange,
+  });
+  const contentRef = composeRefs(ref, dialog.contentRef);
+
+  return (
+    <>
+      {trigger && cloneWithProps(trigger, { ...dialog.parts.trigger, ref: dialog.triggerRef })}
+      {dialog.state.open && (
+        <Portal container={container}>
+          <DialogContent
+            {...props}
+            ref={contentRef}
+            id={dialog.id}
+            title={hostChildren(title)}
+            description={description == null ? undefined : hostChildren(description)}
+            footer={footer == null ? undefined : hostChildren(footer)}
+            modal={modal}
+            role={role}
+            zIndex={dialog.layer?.zIndex}
+            behavior={dialog}
+          />
+        </Portal>
+      )}
+    </>
+  );
+});
@@ -0,0 +1,65 @@
+import * as React from "react";
+import { FieldBlueprint, type FieldProps as FieldBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { FieldProvider, useField } from "../hooks/useField.js";
+import { hostChildren } from "../adapter/ReactHostAdapter.js";
+
+const FieldRoot = createReactPrimitive(new FieldBlueprint(), {
+  element: "div",
+  displayName: "Field",
+  props: ["id", "label", "description", "error", "invalid", "disabled", "readOnly", "required"],
+});
+
+export type FieldProps = Omit<
+  ReactPrimitiveProps<FieldBlueprintProps, "div">,
+  "label" | "description" | "error" | "as" | "asChild"
+> & {
+  label: React.ReactNode;
+  description?: React.ReactNode;
+  /**
+   * Error message; makes the field invalid unless invalid is set explicitly.
+   */
+  error?: React.ReactNode;
+};
+
+/**
+ * Field primitive: a label, description and error message around one
+ * control (Input, Textarea, Select, Checkbox, RadioGroup, Switch). The
+ * control picks up its id, aria-labelledby, aria-describedby and the
+ * invalid / disabled / readOnly / required state from the field.
+ */
+export const Field = React.forwardRef<HTMLDivElement, FieldProps>(function Field(
+  { id, label, description, error, invalid, disabled, readOnly, required, children, ...props },
+  ref
+) {
+  const hasError = error != null && error !== false && error !== "";
+  const hasDescription = description != null && description !== false;
+  const field = useField({
+    id,
+    invalid: invalid ?? hasError,
+    disabled,
+    readOnly,
+    required,
+    hasDescription,
+    hasError,
+  });
+
+  return (
+    <FieldProvider value={field}>
+      <FieldRoot
+        ref={ref}
+        {...props}
+        id={field.id}
+        label={hostChildren(label)}
+        description={hasDescription ? hostChildren(description) : undefined}
+        error={hasError ? hostChildren(error) : undefined}
+        invalid={field.invalid}
+        disabled={disabled}
+        readOnly={readOnly}
+        required={required}
+      >
+        {children}
+      </FieldRoot>
+    </FieldProvider>
+  );
+});
@@ -0,0 +1,20 @@
+import * as React from "react";
+import { InputBlueprint, type InputProps as InputBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { useFieldControl } from "../hooks/useField.js";
+
+const InputRoot = createReactPrimitive(new InputBlueprint(), {
+  element: "input",
+  displayName: "Input",
+  props: ["type", "required"],
+});
+
+export type InputProps = Omit<ReactPrimitiveProps<InputBlueprintProps, "input">, "children">;
+
+/**
+ * Input primitive: a native input with size, invalid, disabled and readOnly
+ * variants. Inside a Field it takes the field's id, ARIA links and state.
+ */
+export const Input = React.forwardRef<HTMLInputElement, InputProps>(function Input(props, ref) {
+  return <InputRoot ref={ref} {...useFieldControl(props)} />;
+});
@@ -0,0 +1,92 @@
+import * as React from "react";
+import { PopoverBlueprint, type PopoverProps as PopoverBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { Portal } from "./Portal.js";
+import { usePopover, type UsePopoverOptions } from "../hooks/usePopover.js";
+import { cloneWithProps, composeRefs } from "../runtime/mergeProps.js";
+
+const PopoverContent = createReactPrimitive(new PopoverBlueprint(), {
+  element: "div",
+  displayName: "Popover",
+  props: [
+    "zIndex",
+    "behavior",
+    "id",
+    "open",
+    "defaultOpen",
+    "disabled",
+    "closeOnEscape",
+    "closeOnOutsideClick",
+  ],
+});
+
+export type PopoverProps = Omit<
+  ReactPrimitiveProps<PopoverBlueprintProps, "div">,
+  "behavior" | "zIndex" | "as" | "asChild"
+> &
+  Pick<UsePopoverOptions, "onOpenChange" | "offset"> & {
+    /**
+     * Element that toggles the popover and anchors it.
+     */
+    trigger: React.ReactElement;
+    /**
+     * Portal target (default document.body).
+     */
+    container?: Element | DocumentFragment | null;
+  };
+
+/**
+ * Popover primitive: portals the PopoverBlueprint next to its trigger
+ * (flipping when there is no room), moves focus in and back, and closes on
+ * Escape or a click outside.
+ */
+export const Popover = React.forwardRef<HTMLDivElement, PopoverProps>(function Popover(
+  {
+    trigger,
+    container,
+    id,
+    open,
+    defaultOpen,
+    disabled,
+    closeOnEscape,
+    closeOnOutsideClick,
+    onOpenChange,
+    placement,
+    offset,
+    style,
+    ...props
+  },
+  ref
+) {
+  const popover = usePopover({
+    id,
+    open,
+    defaultOpen,
+    disabled,
+    closeOnEscape,
+    closeOnOutsideClick,
+    onOpenChange,
+    placement,
+    offset,
+  });
+  const contentRef = composeRefs(ref, popover.contentRef);
+
+  return (
+    <>
+      {cloneWithProps(trigger, { ...popover.parts.trigger, ref: popover.triggerRef })}
+      {popover.state.open && (
+        <Portal container={container}>
+          <PopoverContent
+            {...props}
+            ref={contentRef}
+            style={{ ...style, ...popover.position.style }}
+            id={popover.id}
+            placement={popover.position.placement}
+            zIndex={popover.layer?.zIndex}
+            behavior={popover}
+          />
+        </Portal>
+      )}
+    </>
+  );
+});
@@ -0,0 +1,26 @@
+import * as React from "react";
+import { createPortal } from "react-dom";
+
+export type PortalProps = {
+  children?: React.ReactNode;
+  /**
+   * Where to render (default document.body).
+   */
+  container?: Element | DocumentFragment | null;
+};
+
+const subscribe = () => () => {};
+
+/**
+ * Renders children into document.body (or container). Renders nothing on
+ * the server and during hydration, then portals on the client.
+ */
+export function Portal({ children, container }: PortalProps): React.ReactElement | null {
+  const mounted = React.useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false
+  );
+  if (!mounted) return null;
+  return createPortal(children, container ?? document.body);
+}
@@ -0,0 +1,79 @@
+import * as React from "react";
+import {
+  RadioGroupBlueprint,
+  type RadioGroupBlueprintItem,
+  type RadioGroupProps as RadioGroupBlueprintProps,
+} from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { useRadioGroup, type UseRadioGroupOptions } from "../hooks/useRadioGroup.js";
+import { useFieldControl } from "../hooks/useField.js";
+import { hostChildren } from "../adapter/ReactHostAdapter.js";
+
+const RadioGroupRoot = createReactPrimitive(new RadioGroupBlueprint(), {
+  element: "div",
+  displayName: "RadioGroup",
+  props: ["items", "behavior", "id", "name", "value", "defaultValue", "required", "orientation"],
+});
+
+export type RadioGroupItemProps = Omit<RadioGroupBlueprintItem, "label"> & {
+  label: React.ReactNode;
+};
+
+export type RadioGroupProps = Omit<
+  ReactPrimitiveProps<RadioGroupBlueprintProps, "div">,
+  "behavior" | "items" | "children"
+> &
+  Pick<UseRadioGroupOptions, "onValueChange"> & {
+    items: RadioGroupItemProps[];
+  };
+
+/**
+ * RadioGroup primitive: native radios sharing a name, driven by
+ * useRadioGroup. Pass value and onValueChange to control it, or defaultValue
+ * to let it keep its own selection. Inside a Field it takes the field's id,
+ * ARIA links and state.
+ */
+export const RadioGroup = React.forwardRef<HTMLDivElement, RadioGroupProps>(function RadioGroup(
+  props,
+  ref
+) {
+  const {
+    items,
+    id,
+    name,
+    value,
+    defaultValue,
+    disabled,
+    readOnly,
+    required,
+    invalid,
+    orientation,
+    onValueChange,
+    ...rest
+  } = useFieldControl(props);
+  const options = {
+    id,
+    items,
+    name,
+    value,
+    defaultValue,
+    disabled,
+    readOnly,
+    required,
+    invalid,
+    orientation,
+  };
+  const behavior = useRadioGroup({ ...options, onValueChange });
+  const blueprintItems = items.map((item) => ({ ...item, label: hostChildren(item.label) }));
+
+  return (
+    <RadioGroupRoot
+      ref={ref}
+      {...rest}
+      {...options}
+      id={behavior.id}
+      items={blueprintItems}
+      behavior={behavior}
+    />
+  );
+});
@@ -0,0 +1,40 @@
+import * as React from "react";
+import {
+  SelectBlueprint,
+  type SelectBlueprintItem,
+  type SelectProps as SelectBlueprintProps,
+} from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { useFieldControl } from "../hooks/useField.js";
+import { hostChildren } from "../adapter/ReactHostAdapter.js";
+
+const SelectRoot = createReactPrimitive(new SelectBlueprint(), {
+  element: "select",
+  displayName: "Select",
+  props: ["items", "placeholder", "required"],
+});
+
+export type SelectItemProps = Omit<SelectBlueprintItem, "label"> & {
+  label: React.ReactNode;
+};
+
+export type SelectProps = Omit<
+  ReactPrimitiveProps<SelectBlueprintProps, "select">,
+  "items" | "children"
+> & {
+  items: SelectItemProps[];
+};
+
+/**
+ * Select primitive: a native select built from items, with an optional
+ * placeholder and size, invalid, disabled and readOnly variants. value /
+ * defaultValue and onChange work as on a plain select. Inside a Field it
+ * takes the field's id, ARIA links and state.
+ */
+export const Select = React.forwardRef<HTMLSelectElement, SelectProps>(function Select(
+  { items, ...props },
+  ref
+) {
+  const blueprintItems = items.map((item) => ({ ...item, label: hostChildren(item.label) }));
+  return <SelectRoot ref={ref} {...useFieldControl(props)} items={blueprintItems} />;
+});
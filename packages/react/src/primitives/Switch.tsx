@@ -0,0 +1,56 @@
+import * as React from "react";
+import { SwitchBlueprint, type SwitchProps as SwitchBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { useSwitch, type UseSwitchOptions } from "../hooks/useSwitch.js";
+import { useFieldControl } from "../hooks/useField.js";
+
+const SwitchRoot = createReactPrimitive(new SwitchBlueprint(), {
+  element: "button",
+  displayName: "Switch",
+  props: ["behavior", "checked", "defaultChecked", "disabled", "required"],
+});
+
+export type SwitchProps = Omit<ReactPrimitiveProps<SwitchBlueprintProps, "button">, "behavior"> &
+  Pick<UseSwitchOptions, "onCheckedChange">;
+
+/**
+ * Switch primitive: a role="switch" button driven by useSwitch. Pass checked
+ * and onCheckedChange to control it, or defaultChecked to let it keep its own
+ * state. Inside a Field it takes the field's id, ARIA links and state.
+ */
+export const Switch = React.forwardRef<HTMLButtonElement, SwitchProps>(function Switch(
+  props,
+  ref
+) {
+  const {
+    checked,
+    defaultChecked,
+    disabled,
+    readOnly,
+    required,
+    invalid,
+    onCheckedChange,
+    ...rest
+  } = useFieldControl(props);
+  const behavior = useSwitch({
+    checked,
+    defaultChecked,
+    disabled,
+    readOnly,
+    required,
+    invalid,
+    onCheckedChange,
+  });
+
+  return (
+    <SwitchRoot
+      ref={ref}
+      {...rest}
+      disabled={disabled}
+      readOnly={readOnly}
+      required={required}
+      invalid={invalid}
+      behavior={behavior}
+    />
+  );
+});
@@ -0,0 +1,58 @@
+import * as React from "react";
+import {
+  TabsBlueprint,
+  type TabsItem,
+  type TabsProps as TabsBlueprintProps,
+} from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { useTabs, type UseTabsOptions } from "../hooks/useTabs.js";
+import { hostChildren } from "../adapter/ReactHostAdapter.js";
+
+const TabsRoot = createReactPrimitive(new TabsBlueprint(), {
+  element: "div",
+  displayName: "Tabs",
+  props: ["items", "behavior", "id", "value", "defaultValue", "orientation", "activation"],
+});
+
+export type TabsItemProps = TabsItem & {
+  label: React.ReactNode;
+  content: React.ReactNode;
+};
+
+export type TabsProps = Omit<
+  ReactPrimitiveProps<TabsBlueprintProps, "div">,
+  "behavior" | "items"
+> &
+  Pick<UseTabsOptions, "onValueChange"> & {
+    items: TabsItemProps[];
+  };
+
+/**
+ * Tabs primitive driven by useTabs: roving tabindex, arrow/Home/End keys and
+ * automatic or manual activation.
+ */
+export const Tabs = React.forwardRef<HTMLDivElement, TabsProps>(function Tabs(
+  { items, id, value, defaultValue, orientation, activation, onValueChange, ...props },
+  ref
+) {
+  const behavior = useTabs({ id, items, value, defaultValue, orientation, activation, onValueChange });
+  const blueprintItems = items.map((item) => ({
+    ...item,
+    label: hostChildren(item.label),
+    content: hostChildren(item.content),
+  }));
+
+  return (
+    <TabsRoot
+      ref={ref}
+      {...props}
+      id={behavior.id}
+      items={blueprintItems}
+      value={value}
+      defaultValue={defaultValue}
+      orientation={orientation}
+      activation={activation}
+      behavior={behavior}
+    />
+  );
+});
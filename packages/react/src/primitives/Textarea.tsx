@@ -0,0 +1,26 @@
+import * as React from "react";
+import { TextareaBlueprint, type TextareaProps as TextareaBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { useFieldControl } from "../hooks/useField.js";
+
+const TextareaRoot = createReactPrimitive(new TextareaBlueprint(), {
+  element: "textarea",
+  displayName: "Textarea",
+  props: ["rows", "required"],
+});
+
+export type TextareaProps = Omit<
+  ReactPrimitiveProps<TextareaBlueprintProps, "textarea">,
+  "children"
+>;
+
+/**
+ * Textarea primitive: a native textarea with size, resize, invalid, disabled
+ * and readOnly variants. Inside a Field it takes the field's id, ARIA links and state.
+ */
+export const Textarea = React.forwardRef<HTMLTextAreaElement, TextareaProps>(function Textarea(
+  props,
+  ref
+) {
+  return <TextareaRoot ref={ref} {...useFieldControl(props)} />;
+});
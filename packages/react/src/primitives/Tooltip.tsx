@@ -0,0 +1,99 @@
+import * as React from "react";
+import { TooltipBlueprint, type TooltipProps as TooltipBlueprintProps } from "@oxitron-ui/core";
+import { createReactPrimitive, type ReactPrimitiveProps } from "./createReactPrimitive.js";
+import { Portal } from "./Portal.js";
+import { useTooltip, type UseTooltipOptions } from "../hooks/useTooltip.js";
+import { cloneWithProps, composeRefs } from "../runtime/mergeProps.js";
+
+const TooltipContent = createReactPrimitive(new TooltipBlueprint(), {
+  element: "div",
+  displayName: "Tooltip",
+  props: [
+    "zIndex",
+    "behavior",
+    "id",
+    "open",
+    "defaultOpen",
+    "disabled",
+    "closeOnEscape",
+    "closeOnOutsideClick",
+  ],
+});
+
+export type TooltipProps = Omit<
+  ReactPrimitiveProps<TooltipBlueprintProps, "div">,
+  "behavior" | "zIndex" | "children" | "content" | "as" | "asChild"
+> &
+  Pick<UseTooltipOptions, "onOpenChange" | "offset" | "openDelay" | "closeDelay"> & {
+    /**
+     * Tooltip text; the trigger points at it with aria-describedby.
+     */
+    content: React.ReactNode;
+    /**
+     * The element the tooltip describes.
+     */
+    children: React.ReactElement;
+    container?: Element | DocumentFragment | null;
+  };
+
+/**
+ * Tooltip primitive: shows the TooltipBlueprint next to its child on hover
+ * or focus (after openDelay) and hides it on leave, blur or Escape.
+ */
+export const Tooltip = React.forwardRef<HTMLDivElement, TooltipProps>(function Tooltip(
+  {
+    children,
+    content,
+    container,
+    id,
+    open,
+    defaultOpen,
+    disabled,
+    closeOnEscape,
+    closeOnOutsideClick,
+    onOpenChange,
+    placement,
+    offset,
+    openDelay,
+    closeDelay,
+    style,
+    ...props
+  },
+  ref
+) {
+  const tooltip = useTooltip({
+    id,
+    open,
+    defaultOpen,
+    disabled,
+    closeOnEscape,
+    closeOnOutsideClick,
+    onOpenChange,
+    placement,
+    offset,
+    openDelay,
+    closeDelay,
+  });
+  const contentRef = composeRefs(ref, tooltip.contentRef);
+
+  return (
+    <>
+      {cloneWithProps(children, { ...tooltip.parts.trigger, ref: tooltip.triggerRef })}
+      {tooltip.state.open && (
+        <Portal container={container}>
+          <TooltipContent
+            {...props}
+            ref={contentRef}
+            style={{ ...style, ...tooltip.position.style }}
+            id={tooltip.id}
+            placement={tooltip.position.placement}
+            zIndex={tooltip.layer?.zIndex}
+            behavior={tooltip}
+          >
+            {content}
+          </TooltipContent>
+        </Portal>
+      )}
+    </>
+  );
+});
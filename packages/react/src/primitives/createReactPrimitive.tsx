@@ -0,0 +1,161 @@
+import * as React from "react";
+import {
+  ComponentBlueprint,
+  findNode,
+  replaceNode,
+  resolveComponents,
+  type Node,
+  type NodeSelector,
+  type Props,
+} from "@oxitron-ui/core";
+import {
+  DefaultReactHostAdapter,
+  hostChildren,
+  type ReactComponentRegistry,
+} from "../adapter/ReactHostAdapter.js";
+import { useRenderContext } from "../theme/ThemeProvider.js";
+import { checkA11y, type A11yOption } from "../runtime/a11y.js";
+import { childRef, mergeProps } from "../runtime/mergeProps.js";
+
+type IntrinsicTag = keyof React.JSX.IntrinsicElements;
+
+export type ReactPrimitiveProps<TProps, TTag extends IntrinsicTag> = Omit<
+  React.ComponentPropsWithoutRef<TTag>,
+  keyof TProps | "children"
+> &
+  Omit<TProps, "children"> & {
+    children?: React.ReactNode;
+    /**
+     * Render the root as another element, e.g. as="a" for a link button.
+     */
+    as?: IntrinsicTag;
+    /**
+     * Render the single child element as the root, merging the root's props
+     * (className, handlers, ref) into it.
+     */
+    asChild?: boolean;
+  };
+
+export type ReactPrimitive<TProps, TTag extends IntrinsicTag> = React.ForwardRefExoticComponent<
+  ReactPrimitiveProps<TProps, TTag> & React.RefAttributes<React.ComponentRef<TTag>>
+>;
+
+export type ReactPrimitiveOptions<TTag extends IntrinsicTag> = {
+  /**
+   * Element the blueprint renders as its root; types the HTML props and ref.
+   */
+  element: TTag;
+  displayName?: string;
+  /**
+   * Blueprint props that are not variants or defaults (e.g. "disabled"). Variant
+   * keys, defaultProps keys, children, className and slots are always blueprint props;
+   * everything else goes onto the root node.
+   */
+  props?: readonly string[];
+  /**
+   * Resolves `type: "component"` nodes the blueprint renders.
+   */
+  components?: ReactComponentRegistry;
+  /**
+   * Accessibility audit of each render (see RenderOptions.a11y).
+   */
+  a11y?: A11yOption;
+};
+
+const ROOT: NodeSelector = { slot: "root" };
+
+/**
+ * Registry key for the asChild element's component type.
+ */
+const AS_CHILD = "oxitron-ui:as-child";
+
+/**
+ * Builds a forwardRef React component from a blueprint. Blueprint props drive
+ * the render; ref and any other props land on the meta.slot === "root" node.
+ * @param blueprint - Blueprint to render
+ * @param options - Root element, extra blueprint prop names, components
+ */
+export function createReactPrimitive<TProps extends Props, TTag extends IntrinsicTag>(
+  blueprint: ComponentBlueprint<TProps>,
+  options: ReactPrimitiveOptions<TTag>
+): ReactPrimitive<TProps, TTag> {
+  const blueprintKeys = new Set<string>([
+    "children",
+    "className",
+    "slots",
+    ...Object.keys(blueprint.variants ?? {}),
+    ...Object.keys(blueprint.defaultProps ?? {}),
+    ...(options.props ?? []),
+  ]);
+  const displayName = options.displayName ?? blueprint.name;
+
+  const Primitive = React.forwardRef<unknown, Record<string, unknown>>(
+    function Primitive({ as, asChild, ...props }, ref) {
+      const ctx = useRenderContext();
+
+      const own: Record<string, unknown> = {};
+      const rootProps: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(props)) {
+        if (blueprintKeys.has(key)) own[key] = value;
+        else rootProps[key] = value;
+      }
+      if (ref) rootProps.ref = ref;
+
+      let components = options.components ?? {};
+      let child: React.ReactElement<Record<string, unknown>> | null = null;
+      if (asChild) {
+        const only = React.Children.only(own.children as React.ReactNode);
+        if (!React.isValidElement<Record<string, unknown>>(only)) {
+          throw new Error(`${displayName} with asChild expects a single element child.`);
+        }
+        child = only;
+        own.children = child.props.children;
+        if (typeof child.type !== "string") {
+          const type: React.ElementType = child.type;
+          components = { ...components, [AS_CHILD]: type };
+        }
+      }
+      own.children =
+        own.children == null || own.children === false
+          ? undefined
+          : hostChildren(own.children as React.ReactNode);
+
+      let node = blueprint.render(blueprint.resolveProps(own as TProps), ctx);
+      node = resolveComponents(node, components, ctx);
+
+      const route = (root: Node): Node => {
+        let routed: Node = { ...root, props: mergeProps(root.props ?? {}, rootProps) };
+        if (child) routed = asChildRoot(routed, child);
+        else if (typeof as === "string" && routed.type === "element") routed.tag = as;
+
+        // The blueprint's type="button" means nothing (or something else) on a link
+        if (root.tag === "button" && routed.tag !== "button" && routed.props?.type === root.props?.type) {
+          const { type: _type, ...rest } = routed.props ?? {};
+          routed = { ...routed, props: rest };
+        }
+        return routed;
+      };
+      node = findNode(node, ROOT) ? replaceNode(node, ROOT, route) : route(node);
+      checkA11y(node, options.a11y, displayName);
+
+      return new DefaultReactHostAdapter(components).toReactNode(node) as React.ReactElement;
+    }
+  );
+  Primitive.displayName = displayName;
+
+  return Primitive as unknown as ReactPrimitive<TProps, TTag>;
+}
+
+/**
+ * Turns the root into the asChild element: its tag (or component) and props,
+ * with the root's props merged underneath.
+ */
+function asChildRoot(root: Node, child: React.ReactElement<Record<string, unknown>>): Node {
+  const { children: _children, ...childProps } = child.props;
+  const props = mergeProps(root.props ?? {}, { ...childProps, ref: childRef(child) });
+
+  if (typeof child.type === "string") {
+    return { ...root, type: "element", tag: child.type, props };
+  }
+  return { ...root, type: "component", tag: AS_CHILD, props };
+}
@@ -0,0 +1,34 @@
+import { auditNode, formatA11yIssues, type A11yIssue, type Node } from "@oxitron-ui/core";
+import { isDevelopment } from "./env.js";
+
+/**
+ * false turns the audit off; a function receives the issues instead of the
+ * default console warning.
+ */
+export type A11yOption = false | ((issues: A11yIssue[], node: Node) => void);
+
+const warned = new Set<string>();
+
+/**
+ * Audits a Node tree before it reaches React. Runs outside production
+ * (NODE_ENV) unless a handler is passed; each distinct report is warned once.
+ * @param node - Tree about to be rendered
+ * @param option - RenderOptions.a11y
+ * @param name - Component name for the warning
+ */
+export function checkA11y(node: Node, option: A11yOption | undefined, name: string): void {
+  if (option === false || (option === undefined && !isDevelopment())) return;
+
+  const issues = auditNode(node);
+  if (issues.length === 0) return;
+
+  if (option) {
+    option(issues, node);
+    return;
+  }
+
+  const message = `[oxitron-ui] ${name} has accessibility issues:\n${formatA11yIssues(issues)}`;
+  if (warned.has(message)) return;
+  warned.add(message);
+  console.warn(message);
+}
@@ -0,0 +1,13 @@
+/**
+ * Bundlers replace process.env.NODE_ENV; typed here so the package does not
+ * need @types/node.
+ */
+declare const process: { env: { NODE_ENV?: string } };
+
+/**
+ * True outside production builds. Spelled out literally so bundlers can
+ * replace the check and drop development-only code.
+ */
+export function isDevelopment(): boolean {
+  return typeof process === "undefined" || process.env.NODE_ENV !== "production";
+}
@@ -0,0 +1,90 @@
+import * as React from "react";
+import { cn } from "@oxitron-ui/core";
+
+/**
+ * Later props win, except className (merged), event handlers (both run,
+ * later first), style (shallow-merged) and refs (both set).
+ */
+export function mergeProps(
+  base: Record<string, unknown>,
+  overrides: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = merged[key];
+    if (value === undefined) continue;
+    if (key === "className" || key === "class") {
+      merged.className = cn(merged.className as string, merged.class as string, value as string);
+      delete merged.class;
+    } else if (/^on[A-Z]/.test(key) && typeof current === "function" && typeof value === "function") {
+      merged[key] = (...args: unknown[]) => {
+        value(...args);
+        current(...args);
+      };
+    } else if (key === "style" && isObject(current) && isObject(value)) {
+      merged[key] = { ...current, ...value };
+    } else if (key === "ref" && current) {
+      merged[key] = composeRefs(current as React.Ref<unknown>, value as React.Ref<unknown>);
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+type ComposedRefCache = {
+  next: WeakMap<object, ComposedRefCache>;
+  composed?: React.RefCallback<never>;
+};
+
+const composedRefs: ComposedRefCache = { next: new WeakMap() };
+
+/**
+ * One callback ref that sets all refs. The same refs give the same callback,
+ * so props merged during render do not make React detach and re-attach the
+ * element every time.
+ */
+export function composeRefs<T>(...refs: Array<React.Ref<T> | undefined>): React.RefCallback<T> {
+  const set = refs.filter((ref): ref is NonNullable<React.Ref<T>> => ref != null);
+  let cache = composedRefs;
+  for (const ref of set) {
+    let next = cache.next.get(ref);
+    if (!next) {
+      next = { next: new WeakMap() };
+      cache.next.set(ref, next);
+    }
+    cache = next;
+  }
+  cache.composed ??= (instance: T | null) => {
+    for (const ref of set) {
+      if (typeof ref === "function") ref(instance);
+      else ref.current = instance;
+    }
+  };
+  return cache.composed as React.RefCallback<T>;
+}
+
+/**
+ * React 19 passes ref as a prop; React 18 keeps it on the element.
+ */
+export function childRef(child: React.ReactElement<Record<string, unknown>>): unknown {
+  return Number(React.version.split(".")[0]) >= 19
+    ? child.props.ref
+    : (child as unknown as { ref?: unknown }).ref;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Clones element with props merged underneath its own (handlers composed,
+ * refs combined, className merged).
+ */
+export function cloneWithProps(
+  element: React.ReactElement,
+  props: Record<string, unknown>
+): React.ReactElement {
+  const child = element as React.ReactElement<Record<string, unknown>>;
+  return React.cloneElement(child, mergeProps(props, { ...child.props, ref: childRef(child) }));
+}
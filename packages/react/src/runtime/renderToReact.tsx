@@ -1,18 +1,38 @@
 import * as React from "react";
-import { ComponentBlueprint, RenderContext, Node } from "@oxitron-ui/core";
-import { DefaultReactHostAdapter, type ReactHostAdapter } from "../adapter/ReactHostAdapter.js";
-
-// Optional wrapper support (future-ready). If you already have wrappers, keep this.
-// export type WrapperUse<TOptions = unknown> = {
-//   // wrapper: WrapperDecorator<TOptions>;
-//   // options: TOptions;
-//   // For now keep placeholder to avoid coupling until you add wrappers in react package.
-// };
+import {
+  ComponentBlueprint,
+  RenderContext,
+  Node,
+  applyWrappers,
+  resolveComponents,
+  type WrapperUse,
+} from "@oxitron-ui/core";
+import {
+  DefaultReactHostAdapter,
+  type ReactComponentRegistry,
+  type ReactHostAdapter,
+} from "../adapter/ReactHostAdapter.js";
+import { checkA11y, type A11yOption } from "./a11y.js";
 
 export type RenderOptions = {
   ctx?: RenderContext;
-  // wrappers?: Array<WrapperUse>;
+  /**
+   * Wrappers applied to the Node tree before it reaches the adapter,
+   * in ascending priority order.
+   */
+  wrappers?: Array<WrapperUse>;
+  /**
+   * Resolves `type: "component"` tags: blueprints render recursively with the
+   * same ctx, React components are rendered by the adapter.
+   */
+  components?: ReactComponentRegistry;
   adapter?: ReactHostAdapter;
+  /**
+   * Accessibility audit of the final Node tree. Outside production it warns
+   * in the console by default; pass a handler to collect the issues or false
+   * to skip it.
+   */
+  a11y?: A11yOption;
 };
 
 /**
@@ -25,20 +45,19 @@ export function renderToReact<TProps extends Record<string, unknown>>(
   options: RenderOptions = {}
 ): React.ReactNode {
   const ctx = options.ctx ?? {};
-  const adapter = options.adapter ?? new DefaultReactHostAdapter();
+  const components = options.components ?? {};
+  const adapter = options.adapter ?? new DefaultReactHostAdapter(components);
 
-  // 1) Core render -> Node tree
+  // 1) Core render -> Node tree, with nested blueprints expanded
   let node: Node = blueprint.render(blueprint.resolveProps(props), ctx);
+  node = resolveComponents(node, components, ctx);
+
+  // 2) Wrappers pipeline
+  if (options.wrappers?.length) {
+    node = applyWrappers(node, options.wrappers, ctx);
+  }
 
-  // 2) Wrappers pipeline (add later)
-  // if (options.wrappers?.length) {
-  //   const wrappers = options.wrappers.slice().sort((a, b) => a.wrapper.priority - b.wrapper.priority);
-  //   for (const w of wrappers) {
-  //     if (w.wrapper.isCompatible(node)) {
-  //       node = w.wrapper.wrap(node, w.options, { tokens: ctx.tokens });
-  //     }
-  //   }
-  // }
+  checkA11y(node, options.a11y, blueprint.name);
 
   // 3) Node -> React
   return adapter.toReactNode(node);
@@ -0,0 +1,32 @@
+import * as React from "react";
+import { mergeTokens, type RenderContext, type TokenOverrides } from "@oxitron-ui/core";
+
+const ThemeContext = React.createContext<RenderContext>({});
+
+export type ThemeProviderProps = {
+  /**
+   * Token overrides; nested providers merge on top of their parent.
+   */
+  tokens?: TokenOverrides;
+  children?: React.ReactNode;
+};
+
+/**
+ * Provides the RenderContext used by primitives when they call renderToReact.
+ */
+export function ThemeProvider({ tokens, children }: ThemeProviderProps): React.ReactElement {
+  const parent = React.useContext(ThemeContext);
+  const value = React.useMemo<RenderContext>(
+    () => ({ ...parent, tokens: mergeTokens(parent.tokens, tokens) }),
+    [parent, tokens]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+/**
+ * Read the nearest ThemeProvider's RenderContext (empty outside a provider).
+ */
+export function useRenderContext(): RenderContext {
+  return React.useContext(ThemeContext);
+}
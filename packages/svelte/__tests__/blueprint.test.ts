@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ComponentBlueprint, component, h, type Node } from "@oxitron-ui/core";
+import { DefaultDomHostAdapter } from "@oxitron-ui/dom";
+import { blueprint, type BlueprintParams } from "../src/actions/blueprint.js";
+
+type BadgeProps = { tone?: string; children?: Array<Node | string> };
+
+class BadgeBlueprint extends ComponentBlueprint<BadgeProps> {
+  readonly name = "Badge";
+  render(props: BadgeProps): Node {
+    return h("span", { className: `badge badge-${props.tone ?? "neutral"}` }, props.children);
+  }
+}
+
+class CardBlueprint extends ComponentBlueprint<{ tone: string }> {
+  readonly name = "Card";
+  render(props: { tone: string }): Node {
+    return h("div", {}, [component("badge", { tone: props.tone }, ["New"])]);
+  }
+}
+
+const badge = new BadgeBlueprint();
+
+function badgeParams(tone: string, text: string): BlueprintParams<BadgeProps> {
+  return { blueprint: badge, props: { tone, children: [text] } };
+}
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("blueprint action", () => {
+  it("renders into the target on create", () => {
+    const target = document.createElement("div");
+    blueprint(target, badgeParams("info", "Save"));
+
+    expect(target.innerHTML).toBe(`<span class="badge badge-info">Save</span>`);
+  });
+
+  it("patches the rendered elements in place when the parameters change", () => {
+    const target = document.createElement("div");
+    const action = blueprint(target, badgeParams("info", "Save"));
+    const span = target.querySelector("span");
+
+    action.update?.(badgeParams("danger", "Delete"));
+    expect(target.querySelector("span")).toBe(span);
+    expect(target.innerHTML).toBe(`<span class="badge badge-danger">Delete</span>`);
+  });
+
+  it("keeps the components option across updates", () => {
+    const target = document.createElement("div");
+    const components = { badge };
+    const card = new CardBlueprint();
+    const action = blueprint(target, { blueprint: card, props: { tone: "info" }, components });
+    const span = target.querySelector("span");
+
+    action.update?.({ blueprint: card, props: { tone: "danger" }, components });
+    expect(target.querySelector("span")).toBe(span);
+    expect(span?.className).toBe("badge badge-danger");
+  });
+
+  it("patches through the adapter it was created with", () => {
+    const target = document.createElement("div");
+    const adapter = new DefaultDomHostAdapter();
+    const patch = vi.spyOn(adapter, "patch");
+    const action = blueprint(target, { ...badgeParams("info", "Save"), adapter });
+
+    action.update?.(badgeParams("danger", "Delete"));
+    expect(patch).toHaveBeenCalledTimes(2);
+    expect(target.textContent).toBe("Delete");
+  });
+
+  it("removes what it rendered on destroy, leaving the target in place", () => {
+    const target = document.body.appendChild(document.createElement("div"));
+    const action = blueprint(target, badgeParams("info", "Save"));
+
+    action.destroy?.();
+    expect(target.childNodes).toHaveLength(0);
+    expect(target.isConnected).toBe(true);
+  });
+});
@@ -0,0 +1,33 @@
+import type { ActionReturn } from "svelte/action";
+import type { ComponentBlueprint } from "@oxitron-ui/core";
+import { DefaultDomHostAdapter, renderBlueprint, type RenderOptions } from "@oxitron-ui/dom";
+
+export type BlueprintParams<TProps extends Record<string, unknown>> = RenderOptions & {
+  blueprint: ComponentBlueprint<TProps>;
+  props: TProps;
+};
+
+/**
+ * Svelte action that renders a blueprint into the element it is used on and
+ * patches it whenever the parameters change:
+ * `<span use:blueprint={{ blueprint: button, props: { children: "Save" } }} />`
+ * @param target - Host element; the blueprint owns its children
+ * @param params - Blueprint, props and render options
+ */
+export function blueprint<TProps extends Record<string, unknown>>(
+  target: HTMLElement,
+  params: BlueprintParams<TProps>
+): ActionReturn<BlueprintParams<TProps>> {
+  const adapter = params.adapter ?? new DefaultDomHostAdapter();
+  const render = (next: BlueprintParams<TProps>) =>
+    adapter.patch(target, renderBlueprint(next.blueprint, next.props, next));
+
+  render(params);
+
+  return {
+    update: render,
+    destroy() {
+      target.replaceChildren();
+    },
+  };
+}
@@ -0,0 +1,7 @@
+export { blueprint } from "./actions/blueprint.js";
+export type { BlueprintParams } from "./actions/blueprint.js";
+
+export { setTheme, getRenderContext } from "./theme/context.js";
+
+export { DefaultDomHostAdapter } from "@oxitron-ui/dom";
+export type { DomHostAdapter, RenderOptions } from "@oxitron-ui/dom";
@@ -0,0 +1,25 @@
+import { getContext, hasContext, setContext } from "svelte";
+import { mergeTokens, type RenderContext, type TokenOverrides } from "@oxitron-ui/core";
+
+const ThemeContext = Symbol("oxitron-ui:theme");
+
+/**
+ * Provides a RenderContext to child components; nested calls merge on top of
+ * their parent. Call it during component initialisation.
+ * @param tokens - Token overrides
+ * @returns The merged context, ready to pass as `ctx` to the blueprint action
+ */
+export function setTheme(tokens?: TokenOverrides): RenderContext {
+  const parent = getRenderContext();
+  const value: RenderContext = { ...parent, tokens: mergeTokens(parent.tokens, tokens) };
+  setContext(ThemeContext, value);
+  return value;
+}
+
+/**
+ * Read the nearest setTheme RenderContext (empty outside one).
+ * Call it during component initialisation.
+ */
+export function getRenderContext(): RenderContext {
+  return hasContext(ThemeContext) ? getContext<RenderContext>(ThemeContext) : {};
+}
@@ -0,0 +1,76 @@
+import { createSSRApp, defineComponent, h as vh } from "vue";
+import { renderToString } from "vue/server-renderer";
+import { describe, expect, it } from "vitest";
+import { ComponentBlueprint, component, h, type Node } from "@oxitron-ui/core";
+import { renderToVue, type RenderOptions } from "../src/runtime/renderToVue.js";
+import { DefaultVueHostAdapter, hostChildren } from "../src/adapter/VueHostAdapter.js";
+import { Button } from "../src/primitives/Button.js";
+
+type BadgeProps = { tone?: string; children?: Array<Node | string> };
+
+class BadgeBlueprint extends ComponentBlueprint<BadgeProps> {
+  readonly name = "Badge";
+  render(props: BadgeProps): Node {
+    return h("span", { className: `badge badge-${props.tone ?? "neutral"}` }, props.children);
+  }
+}
+
+class CardBlueprint extends ComponentBlueprint<{ tag: string }> {
+  readonly name = "Card";
+  render(props: { tag: string }): Node {
+    return h("div", {}, [component(props.tag, { tone: "info" }, ["New"])]);
+  }
+}
+
+const Emphasis = defineComponent({
+  props: { tone: String },
+  setup(props, { slots }) {
+    return () => vh("em", { class: props.tone }, slots.default?.());
+  },
+});
+
+function html(tag: string, options: RenderOptions): Promise<string> {
+  return renderToString(createSSRApp({ render: () => renderToVue(new CardBlueprint(), { tag }, options) }));
+}
+
+describe("renderToVue", () => {
+  it("expands nested blueprints from the components option", async () => {
+    const out = await html("badge", { components: { badge: new BadgeBlueprint() } });
+    expect(out).toBe(`<div><span class="badge badge-info">New</span></div>`);
+  });
+
+  it("renders Vue components with the node's children as the default slot", async () => {
+    const out = await html("emphasis", { components: { emphasis: Emphasis } });
+    expect(out).toBe(`<div><em class="info">New</em></div>`);
+  });
+
+  it("throws on component tags that are not registered", () => {
+    expect(() => renderToVue(new CardBlueprint(), { tag: "badge" })).toThrow(
+      /Unknown component "badge"/
+    );
+  });
+});
+
+describe("DefaultVueHostAdapter", () => {
+  it("refuses blueprints, which renderToVue expands first", () => {
+    const adapter = new DefaultVueHostAdapter({ badge: new BadgeBlueprint() });
+    expect(() => adapter.toVNode(component("badge"))).toThrow(/is a blueprint/);
+  });
+});
+
+describe("hostChildren", () => {
+  it("wraps slot vnodes in host nodes the adapter renders as they are", () => {
+    const vnodes = [vh("em", "Save")];
+    const nodes = hostChildren(vnodes);
+    expect(nodes).toEqual([{ type: "host", value: vnodes[0], meta: {} }]);
+    expect(new DefaultVueHostAdapter().toVNode(nodes![0])).toBe(vnodes[0]);
+  });
+
+  it("renders slot content inside primitives", async () => {
+    const app = createSSRApp({
+      render: () => vh(Button, null, { default: () => [vh("em", "Save")] }),
+    });
+    // <!--[--> marks the label slot's fragment
+    expect(await renderToString(app)).toMatch(/^<button[^>]*><!--\[--><em>Save<\/em><!--\]--><\/button>$/);
+  });
+});
@@ -0,0 +1,119 @@
+import { Fragment, h, type Component, type VNode, type VNodeChild } from "vue";
+import { ComponentBlueprint, host, type ComponentRegistry, type Node } from "@oxitron-ui/core";
+
+/**
+ * Resolves `type: "component"` tags to nested blueprints or Vue components.
+ */
+export type VueComponentRegistry = ComponentRegistry<Component>;
+
+export interface VueHostAdapter {
+  toVNode(node: Node | string): VNodeChild;
+}
+
+export class DefaultVueHostAdapter implements VueHostAdapter {
+  /**
+   * @param components - Vue components for `type: "component"` nodes
+   * (blueprints are expanded by renderToVue before the adapter runs)
+   */
+  constructor(private readonly components: VueComponentRegistry = {}) {}
+
+  toVNode(node: Node | string): VNodeChild {
+    if (typeof node === "string") return node;
+
+    // Vnodes embedded with hostChildren() pass through untouched
+    if (node.type === "host") return node.value as VNodeChild;
+
+    // Convert children first
+    const children = (node.children ?? []).map((c) => this.toVNode(c));
+
+    if (node.type === "fragment") {
+      return h(Fragment, null, children);
+    }
+
+    if (node.type === "component") {
+      // Children become the default slot
+      return h(this.resolveComponent(node), componentProps(node), () => children);
+    }
+
+    const tag = node.tag ?? "div";
+    const props = normalizeProps(node.props ?? {}, node);
+
+    return h(tag, props, children);
+  }
+
+  private resolveComponent(node: Node): Component {
+    const tag = node.tag ?? "";
+    const entry = Object.prototype.hasOwnProperty.call(this.components, tag)
+      ? this.components[tag]
+      : undefined;
+    if (entry === undefined) {
+      const known = Object.keys(this.components).sort().join(", ") || "none registered";
+      throw new Error(
+        `Unknown component "${tag}" in a type: "component" node. Register it in the components option (known: ${known}).`
+      );
+    }
+    if (entry instanceof ComponentBlueprint) {
+      throw new Error(
+        `Component "${tag}" is a blueprint; expand it with resolveComponents (renderToVue does this) before the adapter runs.`
+      );
+    }
+    return entry;
+  }
+}
+
+/**
+ * Lets Vue slot content (vnodes) sit inside a core Node tree, e.g. as a
+ * blueprint's children: each vnode is wrapped in a host node, which
+ * DefaultVueHostAdapter renders as it is.
+ */
+export function hostChildren(vnodes: VNode[] | undefined): Node[] | undefined {
+  return vnodes?.map((vnode) => host(vnode));
+}
+
+/**
+ * Props for a Vue component node: passed through as-is, plus a key from meta.id.
+ */
+function componentProps(node: Node): Record<string, unknown> {
+  const props: Record<string, unknown> = { ...(node.props ?? {}) };
+  if (node.meta?.id && props.key == null) {
+    props.key = node.meta.id;
+  }
+  return props;
+}
+
+/**
+ * Normalizes core props to Vue props:
+ * - className -> class (merged with class when both are set)
+ * - htmlFor -> for
+ * - onClick, etc passed through as-is (Vue treats on* props as listeners)
+ * - attaches a stable key when present in meta.id (optional)
+ */
+function normalizeProps(
+  raw: Record<string, unknown>,
+  node: Node
+): Record<string, unknown> {
+  const props: Record<string, unknown> = { ...raw };
+
+  // Normalize className/class
+  if (props.className !== undefined) {
+    props.class = props.class ? [props.class, props.className] : props.className;
+    delete props.className;
+  }
+
+  if (props.htmlFor !== undefined && props.for === undefined) {
+    props.for = props.htmlFor;
+    delete props.htmlFor;
+  }
+
+  // Optional: key support
+  if (node.meta?.id && props.key == null) {
+    props.key = node.meta.id;
+  }
+
+  // Optional: data attributes / debug
+  if (node.meta?.name && props["data-stone"] == null) {
+    props["data-stone"] = node.meta.name;
+  }
+
+  return props;
+}
@@ -0,0 +1,11 @@
+export { renderToVue } from "./runtime/renderToVue.js";
+export type { RenderOptions } from "./runtime/renderToVue.js";
+
+export { DefaultVueHostAdapter, hostChildren } from "./adapter/VueHostAdapter.js";
+export type { VueHostAdapter, VueComponentRegistry } from "./adapter/VueHostAdapter.js";
+
+export { ThemeProvider, useRenderContext } from "./theme/ThemeProvider.js";
+export type { ThemeProviderProps } from "./theme/ThemeProvider.js";
+
+export { Button } from "./primitives/Button.js";
+export type { ButtonProps } from "./primitives/Button.js";
@@ -0,0 +1,44 @@
+import { defineComponent, type PropType } from "vue";
+import { ButtonBlueprint, type ButtonProps } from "@oxitron-ui/core";
+import { renderToVue } from "../runtime/renderToVue.js";
+import { useRenderContext } from "../theme/ThemeProvider.js";
+import { hostChildren } from "../adapter/VueHostAdapter.js";
+
+const blueprint = new ButtonBlueprint();
+
+/**
+ * Button primitive. The default slot is the label; "icon-left" and
+ * "icon-right" slots fill the matching blueprint slots. Listeners and
+ * attributes fall through to the <button> element.
+ */
+export const Button = defineComponent({
+  name: "Button",
+  props: {
+    intent: { type: String as PropType<ButtonProps["intent"]>, default: undefined },
+    size: { type: String as PropType<ButtonProps["size"]>, default: undefined },
+    disabled: { type: Boolean, default: false },
+    className: { type: String, default: undefined },
+  },
+  setup(props, { slots }) {
+    const ctx = useRenderContext();
+
+    return () =>
+      renderToVue(
+        blueprint,
+        {
+          intent: props.intent,
+          size: props.size,
+          disabled: props.disabled,
+          className: props.className,
+          children: hostChildren(slots.default?.()),
+          slots: {
+            "icon-left": hostChildren(slots["icon-left"]?.()),
+            "icon-right": hostChildren(slots["icon-right"]?.()),
+          },
+        },
+        { ctx: ctx.value }
+      );
+  },
+});
+
+export type { ButtonProps };
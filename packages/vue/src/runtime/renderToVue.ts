@@ -0,0 +1,55 @@
+import type { VNodeChild } from "vue";
+import {
+  ComponentBlueprint,
+  RenderContext,
+  Node,
+  applyWrappers,
+  resolveComponents,
+  type WrapperUse,
+} from "@oxitron-ui/core";
+import {
+  DefaultVueHostAdapter,
+  type VueComponentRegistry,
+  type VueHostAdapter,
+} from "../adapter/VueHostAdapter.js";
+
+export type RenderOptions = {
+  ctx?: RenderContext;
+  /**
+   * Wrappers applied to the Node tree before it reaches the adapter,
+   * in ascending priority order.
+   */
+  wrappers?: Array<WrapperUse>;
+  /**
+   * Resolves `type: "component"` tags: blueprints render recursively with the
+   * same ctx, Vue components are rendered by the adapter.
+   */
+  components?: VueComponentRegistry;
+  adapter?: VueHostAdapter;
+};
+
+/**
+ * Render a core blueprint into Vue vnodes.
+ * This is the "bridge" between @oxitron-ui/core and Vue.
+ */
+export function renderToVue<TProps extends Record<string, unknown>>(
+  blueprint: ComponentBlueprint<TProps>,
+  props: TProps,
+  options: RenderOptions = {}
+): VNodeChild {
+  const ctx = options.ctx ?? {};
+  const components = options.components ?? {};
+  const adapter = options.adapter ?? new DefaultVueHostAdapter(components);
+
+  // 1) Core render -> Node tree, with nested blueprints expanded
+  let node: Node = blueprint.render(blueprint.resolveProps(props), ctx);
+  node = resolveComponents(node, components, ctx);
+
+  // 2) Wrappers pipeline
+  if (options.wrappers?.length) {
+    node = applyWrappers(node, options.wrappers, ctx);
+  }
+
+  // 3) Node -> Vue
+  return adapter.toVNode(node);
+}
@@ -0,0 +1,47 @@
+import {
+  computed,
+  defineComponent,
+  inject,
+  provide,
+  type ComputedRef,
+  type InjectionKey,
+  type PropType,
+} from "vue";
+import { mergeTokens, type RenderContext, type TokenOverrides } from "@oxitron-ui/core";
+
+const ThemeContext: InjectionKey<ComputedRef<RenderContext>> = Symbol("oxitron-ui:theme");
+
+export type ThemeProviderProps = {
+  /**
+   * Token overrides; nested providers merge on top of their parent.
+   */
+  tokens?: TokenOverrides;
+};
+
+/**
+ * Provides the RenderContext used by primitives when they call renderToVue.
+ */
+export const ThemeProvider = defineComponent({
+  name: "ThemeProvider",
+  props: {
+    tokens: { type: Object as PropType<TokenOverrides>, default: undefined },
+  },
+  setup(props, { slots }) {
+    const parent = inject(ThemeContext, null);
+    const value = computed<RenderContext>(() => ({
+      ...parent?.value,
+      tokens: mergeTokens(parent?.value.tokens, props.tokens),
+    }));
+    provide(ThemeContext, value);
+
+    return () => slots.default?.();
+  },
+});
+
+/**
+ * Read the nearest ThemeProvider's RenderContext (empty outside a provider).
+ * Call it from setup(); the returned ref follows token changes.
+ */
+export function useRenderContext(): ComputedRef<RenderContext> {
+  return inject(ThemeContext, null) ?? computed(() => ({}));
+}